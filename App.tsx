@@ -1,5 +1,4 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, AreaChart, Area } from 'recharts';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { 
   ActivityIcon, 
   BrainIcon, 
@@ -7,50 +6,322 @@ import {
   MapIcon, 
   UploadIcon,
   TerminalIcon,
-  LoaderIcon
+  LoaderIcon,
+  RewindIcon,
+  BriefcaseIcon,
+  SlidersIcon,
+  CalculatorIcon,
+  BellIcon,
+  ZapIcon
 } from './components/Icons';
 import TerminalOutput from './components/TerminalOutput';
-import { 
-  getMarketUpdates, 
-  generateQuantPrediction, 
-  findPrivateEquityDeals, 
-  findResources, 
-  analyzeChartImage 
+import PriceChart from './components/PriceChart';
+import Watchlist from './components/Watchlist';
+import BacktestView from './components/BacktestView';
+import QuantPredictionCard from './components/QuantPredictionCard';
+import QuantThreadView from './components/QuantThreadView';
+import DealCandidatesPanel from './components/DealCandidatesPanel';
+import DealPipelineBoard from './components/DealPipelineBoard';
+import MemoEditor from './components/MemoEditor';
+import PortfolioView from './components/PortfolioView';
+import SettingsPanel from './components/SettingsPanel';
+import HistorySidebar from './components/HistorySidebar';
+import ResourceMap from './components/ResourceMap';
+import ResourceAreaPicker, { AreaMode } from './components/ResourceAreaPicker';
+import SupplyRiskPanel from './components/SupplyRiskPanel';
+import CountryRiskEditor from './components/CountryRiskEditor';
+import DatasetView from './components/DatasetView';
+import FinancialStatementsView from './components/FinancialStatementsView';
+import ValuationView, { ValuationSource } from './components/ValuationView';
+import ScenarioView from './components/ScenarioView';
+import NewsPanel from './components/NewsPanel';
+import AlertManager from './components/AlertManager';
+import UsagePanel from './components/UsagePanel';
+import CommandBar from './components/CommandBar';
+import LayoutView from './components/LayoutView';
+import LayoutManager from './components/LayoutManager';
+import {
+  streamQuantPrediction,
+  parseQuantPrediction,
+  streamPrivateEquityDeals,
+  extractDealCandidates,
+  streamResources,
+  extractResourceSites,
+  streamChartAnalysis,
+  streamDatasetAnalysis,
+  extractFinancialStatements,
+  suggestValuationAssumptions,
+  proposeScenarioShocks,
+  narrateScenario
 } from './services/geminiService';
-import { ModuleType, LogEntry, AnalysisResult } from './types';
+import { addCandidates } from './services/dealPipelineService';
+import { buildDealMemo, buildQuantMemo } from './services/memoService';
+import { GLOBAL_AREA, describeArea, isInArea } from './services/resourceMapService';
+import { locateUser } from './services/geolocationService';
+import { DEFAULT_COUNTRY_RISKS } from './services/supplyRiskService';
+import { columnStats, datasetFullContext, datasetSummary, isTabularFile, loadDatasetFile } from './services/datasetService';
+import { filingPrompt, htmlToText, paginateFiling } from './services/financialsService';
+import { applyAssumptions, filingBaseline, valuationContext, valuationFromDeal } from './services/valuationService';
+import { portfolioExposures, runScenario, scenarioContext } from './services/scenarioService';
+import { hotkeyLabel, pushCommandHistory } from './services/commandService';
+import {
+  LAYOUT_PRESETS,
+  PANEL_MODULES,
+  addTab,
+  closeTab,
+  defaultLayout,
+  findPane,
+  findPanel,
+  layoutPanes,
+  moveTab,
+  normalizeLayout,
+  openPanel,
+  resizeSplit,
+  saveLayout,
+  splitPane,
+  updatePane
+} from './services/layoutService';
+import { useModelStream } from './hooks/useModelStream';
+import { useNewsFeed } from './hooks/useNewsFeed';
+import { useAlerts } from './hooks/useAlerts';
+import { usePinnedCandles } from './hooks/usePinnedCandles';
+import { useTelemetry } from './hooks/useTelemetry';
+import {
+  DEFAULT_BUDGET,
+  clearCallRecords,
+  configureBudget,
+  formatUsd,
+  linkStatus,
+  recentLatency,
+  spentToday
+} from './services/telemetryService';
+import { DEFAULT_NEWS_SETTINGS } from './services/newsService';
+import {
+  BAR_INTERVALS,
+  createReplayProvider,
+  createFileProvider,
+  candlesToBars,
+  getSeriesChange,
+  getQuote
+} from './services/marketDataService';
+import { loadState, saveState } from './services/storageService';
+import { formatIndicatorContext } from './services/indicatorService';
+import { analyzePortfolio, formatPortfolioContext, loadPortfolioSeries } from './services/portfolioService';
+import { describeError, errorLogLevel } from './services/serviceErrors';
+import { DEFAULT_MODEL_SETTINGS, configureModels, getProvider, resolveModel } from './services/llmProvider';
+import {
+  DEFAULT_WORKSPACE,
+  addHistoryEntry,
+  createHistoryId,
+  deleteHistoryEntry,
+  deleteWorkspace,
+  listHistory,
+  listWorkspaces,
+  saveWorkspace
+} from './services/historyService';
+import { createMessage, createThread, forkThread, lastAnalysis, threadTitle, toContextTurns } from './services/conversationService';
+import {
+  ModuleType,
+  LogEntry,
+  AnalysisResult,
+  BarInterval,
+  ChartMode,
+  IndicatorId,
+  MarketDataProvider,
+  ModelSettings,
+  BudgetSettings,
+  CallRecord,
+  DealCandidate,
+  GroundingChunk,
+  PipelineDeal,
+  InvestmentMemo,
+  ResourceSite,
+  ResourceSearchArea,
+  CountryRisk,
+  Dataset,
+  FilingDocument,
+  FinancialStatements,
+  GeoBounds,
+  ConversationThread,
+  Message,
+  ModelSlot,
+  NewsSettings,
+  HistoryEntry,
+  HistoryModule,
+  StreamOutcome,
+  Workspace,
+  OHLCBar,
+  Position,
+  QuantPredictionResult,
+  ServiceError,
+  FactorSensitivities,
+  ScenarioExposure,
+  ShockFactor,
+  StressScenario,
+  CommandAction,
+  LayoutNode,
+  LayoutPane,
+  PanelKind,
+  SavedLayout,
+  ValuationModel,
+  WatchlistQuote
+} from './types';
+
+const HISTORY_TITLES: Record<HistoryModule, string> = {
+  [ModuleType.QUANT_PREDICT]: 'Quant',
+  [ModuleType.DEAL_FLOW]: 'Deal Flow',
+  [ModuleType.RESOURCE_MAP]: 'Resource Map',
+  [ModuleType.DATA_LAB]: 'Data Lab',
+};
+
+const isHistoryModule = (module: ModuleType): module is HistoryModule => module in HISTORY_TITLES;
+
+// Data Lab runs keep their file as a data URL; runs recorded before PDF support stored it as `image`
+const historyAttachment = (entry: HistoryEntry): { name: string; dataUrl: string } | null => {
+  const dataUrl = entry.params.attachment ?? entry.params.image;
+  return typeof dataUrl === 'string' ? { name: String(entry.params.fileName ?? 'image'), dataUrl } : null;
+};
 
-// Mock Data for the chart
-const mockStockData = Array.from({ length: 50 }, (_, i) => ({
-  time: `10:${i < 10 ? '0' + i : i}`,
-  price: 4200 + Math.random() * 100 - 50,
-  volume: Math.floor(Math.random() * 10000)
-}));
+// Inline request payloads are capped around 20 MB and base64 adds a third
+const MAX_INLINE_BYTES = 15e6;
+const MAX_SAVED_FILINGS = 20;
+
+const INDICATOR_TOGGLES: IndicatorId[] = ['SMA', 'EMA', 'BBANDS', 'VWAP', 'RSI', 'MACD', 'ATR', 'PATTERNS'];
+
+// Market data providers (replay is deterministic and works offline)
+const replayProvider = createReplayProvider();
+const fileProvider = createFileProvider();
+const marketProviders: MarketDataProvider[] = [replayProvider, fileProvider];
 
 export default function App() {
-  const [activeModule, setActiveModule] = useState<ModuleType>(ModuleType.DASHBOARD);
+  const [layout, setLayout] = useState<LayoutNode>(() => normalizeLayout(loadState('layout', null)) ?? defaultLayout('SPX'));
+  const [focusedPaneId, setFocusedPaneId] = useState<string | null>(null);
+  const [savedLayouts, setSavedLayouts] = useState<SavedLayout[]>(() => loadState<SavedLayout[]>('savedLayouts', []));
+  const [layoutsOpen, setLayoutsOpen] = useState(false);
+  const focusedPane = findPane(layout, focusedPaneId) ?? layoutPanes(layout)[0];
+  // The focused pane's tab stands in for the single active module: header title, nav highlight, history
+  const activeModule = PANEL_MODULES[focusedPane.tabs[focusedPane.active]];
   const [systemLogs, setSystemLogs] = useState<LogEntry[]>([]);
   
   // States for specific modules
   const [quantQuery, setQuantQuery] = useState('');
-  const [quantResult, setQuantResult] = useState<string>('');
-  const [quantLoading, setQuantLoading] = useState(false);
+  const [quantResult, setQuantResult] = useState<QuantPredictionResult | null>(null);
+  const [quantThreads, setQuantThreads] = useState<ConversationThread[]>(() => {
+    const saved = loadState<ConversationThread[]>('quantThreads', []);
+    return saved.length ? saved : [createThread()];
+  });
+  const [quantThreadId, setQuantThreadId] = useState(() => loadState('quantThread', ''));
+  // Analysis turn shown in the prediction card
+  const [quantSelectedId, setQuantSelectedId] = useState<string | null>(null);
+  const quantThread = quantThreads.find(t => t.id === quantThreadId) ?? quantThreads[quantThreads.length - 1];
+  const quantStream = useModelStream();
+  const quantLoading = quantStream.streaming;
 
   const [dealSector, setDealSector] = useState('');
   const [dealResult, setDealResult] = useState<AnalysisResult | null>(null);
-  const [dealLoading, setDealLoading] = useState(false);
+  const [dealCandidates, setDealCandidates] = useState<DealCandidate[]>([]);
+  const [dealExtracting, setDealExtracting] = useState(false);
+  const [dealPipeline, setDealPipeline] = useState<PipelineDeal[]>(() => loadState<PipelineDeal[]>('dealPipeline', []));
+  const [dealView, setDealView] = useState<'scan' | 'pipeline'>('scan');
+
+  const [memos, setMemos] = useState<InvestmentMemo[]>(() => loadState<InvestmentMemo[]>('memos', []));
+  const [activeMemoId, setActiveMemoId] = useState<string | null>(null);
+  const activeMemo = memos.find(m => m.id === activeMemoId) ?? null;
+  const dealStream = useModelStream();
+  const dealLoading = dealStream.streaming;
 
   const [resourceType, setResourceType] = useState('');
   const [resourceResult, setResourceResult] = useState<AnalysisResult | null>(null);
-  const [resourceLoading, setResourceLoading] = useState(false);
+  const [resourceSites, setResourceSites] = useState<ResourceSite[]>([]);
+  const [resourceExtracting, setResourceExtracting] = useState(false);
+  const [resourceArea, setResourceArea] = useState<ResourceSearchArea>(GLOBAL_AREA);
+  const [resourceRadiusKm, setResourceRadiusKm] = useState(500);
+  const [resourcePicking, setResourcePicking] = useState<'POINT' | 'REGION' | null>(null);
+  const [resourceLocating, setResourceLocating] = useState(false);
+  const [resourceGeoError, setResourceGeoError] = useState<string | null>(null);
+  const [resourceView, setResourceView] = useState<'map' | 'risk' | 'dataset'>('map');
+  const [countryRisks, setCountryRisks] = useState<CountryRisk[]>(() => loadState<CountryRisk[]>('countryRisks', DEFAULT_COUNTRY_RISKS));
+  const [commodityPriceLinks, setCommodityPriceLinks] = useState<Record<string, string>>(() => loadState('commodityPriceLinks', {}));
+  const resourceStream = useModelStream();
+  const resourceLoading = resourceStream.streaming;
+
+  const [newsSettings, setNewsSettings] = useState<NewsSettings>(() => loadState<NewsSettings>('newsSettings', DEFAULT_NEWS_SETTINGS));
 
-  const [headlines, setHeadlines] = useState<string>('Initializing live feed...');
+  const [marketProviderId, setMarketProviderId] = useState<string>(replayProvider.id);
+  const [marketSymbols, setMarketSymbols] = useState<string[]>([]);
+  const [marketSymbol, setMarketSymbol] = useState('SPX');
+  const [marketInterval, setMarketInterval] = useState<BarInterval>('1m');
+  const [marketCandles, setMarketCandles] = useState<OHLCBar[]>([]);
+  const [marketLoading, setMarketLoading] = useState(false);
+  const [chartMode, setChartMode] = useState<ChartMode>(() => loadState<ChartMode>('chartMode', 'area'));
+
+  const [indicators, setIndicators] = useState<IndicatorId[]>(() => loadState<IndicatorId[]>('indicators', ['SMA']));
+  // Attach computed indicator values for the charted symbol to model prompts
+  const [quantAttachIndicators, setQuantAttachIndicators] = useState(false);
+  const [analysisAttachIndicators, setAnalysisAttachIndicators] = useState(false);
+  const [quantAttachPortfolio, setQuantAttachPortfolio] = useState(false);
+
+  const [positions, setPositions] = useState<Position[]>(() => loadState<Position[]>('portfolio', []));
+  const [benchmark, setBenchmark] = useState(() => loadState('benchmark', 'SPX'));
+  const [portfolioSeries, setPortfolioSeries] = useState<Record<string, OHLCBar[]>>({});
+  const [portfolioLoading, setPortfolioLoading] = useState(false);
+
+  const [watchlist, setWatchlist] = useState<string[]>(() => loadState('watchlist', ['SPX', 'NDX', 'AAPL', 'NVDA']));
+  const [watchlistQuotes, setWatchlistQuotes] = useState<Record<string, WatchlistQuote | undefined>>({});
 
   const [analysisPrompt, setAnalysisPrompt] = useState('');
-  const [analysisImage, setAnalysisImage] = useState<string | null>(null);
+  // Image or PDF as a data URL, sent to the model inline
+  const [analysisAttachment, setAnalysisAttachment] = useState<{ name: string; dataUrl: string } | null>(null);
+  const [analysisDataset, setAnalysisDataset] = useState<Dataset | null>(null);
+  const [analysisSendMode, setAnalysisSendMode] = useState<'summary' | 'full'>('summary');
+  const analysisStats = useMemo(() => (analysisDataset ? columnStats(analysisDataset) : []), [analysisDataset]);
   const [analysisResult, setAnalysisResult] = useState<string>('');
-  const [analysisLoading, setAnalysisLoading] = useState(false);
+  const [dataLabView, setDataLabView] = useState<'analyze' | 'filing'>('analyze');
+  const [filingDocument, setFilingDocument] = useState<FilingDocument | null>(null);
+  // Pasted filing text; an uploaded file clears it
+  const [filingPaste, setFilingPaste] = useState('');
+  const [filingStatements, setFilingStatements] = useState<FinancialStatements | null>(null);
+  const [filingExtracting, setFilingExtracting] = useState(false);
+  // Extracted statements kept for valuation, newest first (filing files themselves are not stored)
+  const [savedFilings, setSavedFilings] = useState<FinancialStatements[]>(() => loadState<FinancialStatements[]>('filings', []));
+
+  const [valuations, setValuations] = useState<ValuationModel[]>(() => loadState<ValuationModel[]>('valuations', []));
+  const [activeValuationId, setActiveValuationId] = useState<string | null>(null);
+  const [valuationSuggesting, setValuationSuggesting] = useState(false);
+
+  const [scenarios, setScenarios] = useState<StressScenario[]>(() => loadState<StressScenario[]>('scenarios', []));
+  const [activeScenarioId, setActiveScenarioId] = useState<string | null>(null);
+  // Per-position overrides of the asset-class default sensitivities, keyed by position id
+  const [scenarioSensitivities, setScenarioSensitivities] = useState<Record<string, Partial<FactorSensitivities>>>(
+    () => loadState<Record<string, Partial<FactorSensitivities>>>('scenarioSensitivities', {})
+  );
+  // Standalone exposures stressed alongside the portfolio
+  const [customExposures, setCustomExposures] = useState<ScenarioExposure[]>(() => loadState<ScenarioExposure[]>('scenarioExposures', []));
+  const [scenarioProposing, setScenarioProposing] = useState(false);
+  const [scenarioNarrating, setScenarioNarrating] = useState(false);
+
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([DEFAULT_WORKSPACE]);
+  const [workspaceId, setWorkspaceId] = useState(() => loadState('workspace', DEFAULT_WORKSPACE.id));
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
+  // Bumped after writes so the open module's list reloads
+  const [historyVersion, setHistoryVersion] = useState(0);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const historyModule = isHistoryModule(activeModule) ? activeModule : null;
+
+  const [modelSettings, setModelSettings] = useState<ModelSettings>(() => loadState('modelSettings', DEFAULT_MODEL_SETTINGS));
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  const [alertsOpen, setAlertsOpen] = useState(false);
+  const [usageOpen, setUsageOpen] = useState(false);
+  // Command-bar lines, newest first
+  const [commandHistory, setCommandHistory] = useState<string[]>(() => loadState<string[]>('commandHistory', []));
+  const [budget, setBudget] = useState<BudgetSettings>(() => loadState<BudgetSettings>('budget', DEFAULT_BUDGET));
+  const llmProvider = getProvider(modelSettings.providerId);
+  const analysisStream = useModelStream();
+  const analysisLoading = analysisStream.streaming;
 
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const filingInputRef = useRef<HTMLInputElement>(null);
+  const marketFileInputRef = useRef<HTMLInputElement>(null);
 
   const addLog = (message: string, level: 'INFO' | 'WARN' | 'CRIT' = 'INFO') => {
     setSystemLogs(prev => [{
@@ -61,88 +332,1681 @@ export default function App() {
     }, ...prev.slice(0, 49)]);
   };
 
+  const logServiceError = (prefix: string, error: ServiceError) => {
+    addLog(`${prefix}: ${describeError(error)}`, errorLogLevel(error));
+  };
+
+  const logRetry = (label: string) => (error: ServiceError, attempt: number, delayMs: number) => {
+    addLog(`${label}: ${error.kind}, retry ${attempt} in ${(delayMs / 1000).toFixed(1)}s`, 'WARN');
+  };
+
+  const logCall = (record: CallRecord) => {
+    if (record.status !== 'ok') return;
+    const tokens = record.usage ? `, ${record.usage.totalTokens} tok` : '';
+    addLog(`${record.label}: ${record.model} ${record.latencyMs}ms${tokens}, ${formatUsd(record.costUsd)}`, 'INFO');
+  };
+
+  const telemetry = useTelemetry({
+    onRecord: logCall,
+    onBudgetWarning: (message) => addLog(`Budget: ${message}`, 'WARN'),
+  });
+  const linkState = linkStatus(telemetry.records, telemetry.online);
+  const latency = recentLatency(telemetry.records);
+  const spent = spentToday(telemetry.records);
+  const overBudget = budget.dailyLimitUsd > 0 && spent >= budget.dailyLimitUsd;
+
+  const news = useNewsFeed(newsSettings, { onLog: addLog, onError: logServiceError });
+
+  useEffect(() => {
+    listWorkspaces().then(list => {
+      setWorkspaces(list);
+      // A workspace deleted in another tab falls back to the default
+      setWorkspaceId(current => list.some(w => w.id === current) ? current : DEFAULT_WORKSPACE.id);
+    });
+  }, []);
+
+  useEffect(() => {
+    saveState('workspace', workspaceId);
+  }, [workspaceId]);
+
+  useEffect(() => {
+    saveState('dealPipeline', dealPipeline);
+  }, [dealPipeline]);
+
+  useEffect(() => {
+    saveState('memos', memos);
+  }, [memos]);
+
+  useEffect(() => {
+    saveState('countryRisks', countryRisks);
+  }, [countryRisks]);
+
+  useEffect(() => {
+    saveState('newsSettings', newsSettings);
+  }, [newsSettings]);
+
+  useEffect(() => {
+    saveState('filings', savedFilings);
+  }, [savedFilings]);
+
+  useEffect(() => {
+    saveState('valuations', valuations);
+  }, [valuations]);
+
+  useEffect(() => {
+    saveState('scenarios', scenarios);
+  }, [scenarios]);
+
+  useEffect(() => {
+    saveState('commandHistory', commandHistory);
+  }, [commandHistory]);
+
+  useEffect(() => {
+    saveState('layout', layout);
+  }, [layout]);
+
+  useEffect(() => {
+    saveState('savedLayouts', savedLayouts);
+  }, [savedLayouts]);
+
+  useEffect(() => {
+    saveState('scenarioSensitivities', scenarioSensitivities);
+  }, [scenarioSensitivities]);
+
+  useEffect(() => {
+    saveState('scenarioExposures', customExposures);
+  }, [customExposures]);
+
+  useEffect(() => {
+    saveState('commodityPriceLinks', commodityPriceLinks);
+  }, [commodityPriceLinks]);
+
+  useEffect(() => {
+    saveState('quantThreads', quantThreads);
+    saveState('quantThread', quantThread.id);
+  }, [quantThreads, quantThread.id]);
+
+  useEffect(() => {
+    if (!historyModule) return;
+    let cancelled = false;
+    listHistory(workspaceId, historyModule).then(entries => {
+      if (!cancelled) setHistory(entries);
+    });
+    return () => { cancelled = true; };
+  }, [workspaceId, historyModule, historyVersion]);
+
+  // Declared before the initial load so the first request already uses the saved provider
+  useEffect(() => {
+    configureModels(modelSettings);
+    saveState('modelSettings', modelSettings);
+  }, [modelSettings]);
+
+  useEffect(() => {
+    configureBudget(budget);
+    saveState('budget', budget);
+  }, [budget]);
+
   useEffect(() => {
     // Initial load
     addLog('System Initialized', 'INFO');
-    addLog('Connecting to Gemini 2.5 Flash Lite for Market Data...', 'INFO');
-    getMarketUpdates().then(news => {
-      setHeadlines(news);
-      addLog('Market Data Stream Active', 'INFO');
+    addLog(`News tagging via ${resolveModel('NEWS', modelSettings)} (${llmProvider.name})`, 'INFO');
+  }, []);
+
+  const marketProvider = marketProviders.find(p => p.id === marketProviderId) || replayProvider;
+
+  const alerts = useAlerts({ marketProvider, interval: marketInterval, news: news.items, deals: dealPipeline, onLog: addLog });
+
+  const pinnedCandles = usePinnedCandles(
+    marketProvider,
+    layoutPanes(layout).filter(p => !p.linked && p.symbol !== marketSymbol).map(p => p.symbol),
+    marketInterval
+  );
+
+  useEffect(() => {
+    marketProvider.listSymbols().then(setMarketSymbols);
+  }, [marketProvider]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setMarketLoading(true);
+    marketProvider.getCandles(marketSymbol, marketInterval)
+      .then(candles => {
+        if (cancelled) return;
+        setMarketCandles(candles);
+        addLog(`Loaded ${candles.length} bars for ${marketSymbol} (${marketInterval}) from ${marketProvider.name}`, 'INFO');
+      })
+      .catch(error => {
+        if (cancelled) return;
+        console.error("Market data error:", error);
+        setMarketCandles([]);
+        addLog(`Market data unavailable for ${marketSymbol}: ${error.message}`, 'WARN');
+      })
+      .finally(() => {
+        if (!cancelled) setMarketLoading(false);
+      });
+    return () => { cancelled = true; };
+  }, [marketProvider, marketSymbol, marketInterval]);
+
+  useEffect(() => {
+    saveState('watchlist', watchlist);
+    let cancelled = false;
+    Promise.all(watchlist.map(symbol =>
+      marketProvider.getCandles(symbol, marketInterval)
+        .then(candles => getQuote(symbol, candles))
+        .catch(() => undefined)
+    )).then(quotes => {
+      if (cancelled) return;
+      const next: Record<string, WatchlistQuote | undefined> = {};
+      watchlist.forEach((symbol, i) => { next[symbol] = quotes[i]; });
+      setWatchlistQuotes(next);
     });
+    return () => { cancelled = true; };
+  }, [marketProvider, watchlist, marketInterval]);
 
-    const interval = setInterval(() => {
-       // Simulate real-time logs
-       if(Math.random() > 0.7) {
-         const msgs = ['Latency check: 12ms', 'Encryption key rotation', 'Data packet received', 'Index sync complete'];
-         addLog(msgs[Math.floor(Math.random() * msgs.length)], 'INFO');
-       }
-    }, 4000);
-    return () => clearInterval(interval);
-  }, []);
+  useEffect(() => {
+    saveState('chartMode', chartMode);
+  }, [chartMode]);
+
+  useEffect(() => {
+    saveState('indicators', indicators);
+  }, [indicators]);
+
+  useEffect(() => {
+    saveState('portfolio', positions);
+    saveState('benchmark', benchmark);
+    let cancelled = false;
+    setPortfolioLoading(true);
+    loadPortfolioSeries(marketProvider, [...positions.map(p => p.symbol), benchmark]).then(series => {
+      if (cancelled) return;
+      setPortfolioSeries(series);
+      setPortfolioLoading(false);
+    });
+    return () => { cancelled = true; };
+  }, [marketProvider, positions, benchmark]);
+
+  const portfolioAnalysis = useMemo(
+    () => analyzePortfolio(positions, portfolioSeries, benchmark),
+    [positions, portfolioSeries, benchmark]
+  );
+
+  const scenarioExposures = useMemo(
+    () => [...portfolioExposures(portfolioAnalysis, scenarioSensitivities), ...customExposures],
+    [portfolioAnalysis, scenarioSensitivities, customExposures]
+  );
+
+  const toggleIndicator = (id: IndicatorId) =>
+    setIndicators(prev => prev.includes(id) ? prev.filter(i => i !== id) : [...prev, id]);
+
+  const withIndicatorContext = (prompt: string, attach: boolean) => {
+    if (!attach || marketCandles.length === 0) return prompt;
+    addLog(`Attaching computed indicators for ${marketSymbol} (${marketInterval})`, 'INFO');
+    return `${prompt}\n\n${formatIndicatorContext(marketSymbol, marketInterval, marketCandles)}`;
+  };
+
+  // Symbol whose indicator block withIndicatorContext attached, if any
+  const indicatorSymbolFor = (attach: boolean) => (attach && marketCandles.length > 0 ? marketSymbol : undefined);
+
+
+  // History: every model run is recorded against the active workspace
+  const recordRun = (
+    module: HistoryModule,
+    query: string,
+    params: Record<string, unknown>,
+    slot: ModelSlot,
+    outcome: StreamOutcome,
+    error?: ServiceError
+  ) => {
+    const entry: HistoryEntry = {
+      id: createHistoryId(),
+      workspaceId,
+      module,
+      query,
+      params,
+      provider: modelSettings.providerId,
+      model: resolveModel(slot),
+      timestamp: Date.now(),
+      status: error ? 'error' : outcome.status,
+      output: outcome.text,
+      groundingChunks: outcome.groundingChunks,
+      usage: outcome.usage,
+      error: error ?? outcome.error,
+    };
+    addHistoryEntry(entry).then(() => setHistoryVersion(v => v + 1));
+  };
 
   // Handlers
-  const handleQuantSubmit = async (e: React.FormEvent) => {
+  const updateQuantThread = (threadId: string, update: (thread: ConversationThread) => ConversationThread) => {
+    setQuantThreads(prev => prev.map(t => t.id === threadId ? update(t) : t));
+  };
+
+  const appendQuantTurn = (threadId: string, message: Message) => {
+    updateQuantThread(threadId, t => ({ ...t, messages: [...t.messages, message] }));
+  };
+
+  // Runs `query` as the next turn after `prior` (by default the end of the open thread)
+  const runQuant = async (
+    query: string,
+    attachIndicators: boolean,
+    attachPortfolio: boolean,
+    threadId: string = quantThread.id,
+    prior: Message[] = quantThread.messages
+  ) => {
+    const turns = toContextTurns(prior);
+    addLog(`Running Quant Model (${resolveModel('QUANT')} - Thinking Mode) for: ${query}${turns.length ? ` (follow-up, ${turns.length} prior turns)` : ''}`, 'INFO');
+    let prompt = withIndicatorContext(query, attachIndicators);
+    if (attachPortfolio && positions.length > 0) {
+      addLog(`Attaching portfolio context (${positions.length} positions)`, 'INFO');
+      prompt = `${prompt}\n\n${formatPortfolioContext(portfolioAnalysis)}`;
+    }
+    const userTurn = createMessage('user', query);
+    updateQuantThread(threadId, t => ({
+      ...t,
+      title: prior.length ? t.title : threadTitle([userTurn]),
+      messages: [...prior, userTurn],
+    }));
+    setQuantResult(null);
+    setQuantSelectedId(null);
+    const outcome = await quantStream.run(
+      handlers => streamQuantPrediction(prompt, handlers, turns),
+      logRetry('Quant Analysis')
+    );
+    const params = { attachIndicators, attachPortfolio, turns };
+    if (outcome.status === 'aborted') {
+      recordRun(ModuleType.QUANT_PREDICT, query, params, 'QUANT', outcome);
+      appendQuantTurn(threadId, createMessage('system', 'Cancelled. Partial output is not kept as context.', 'alert'));
+      addLog('Quant Analysis Cancelled (partial output retained)', 'WARN');
+      return;
+    }
+    if (outcome.status === 'error') {
+      recordRun(ModuleType.QUANT_PREDICT, query, params, 'QUANT', outcome);
+      appendQuantTurn(threadId, createMessage('system', describeError(outcome.error), 'alert'));
+      setQuantResult({ status: 'error', error: { ...outcome.error, raw: outcome.text || undefined } });
+      logServiceError('Quant Analysis Failed', outcome.error);
+      return;
+    }
+    const res = parseQuantPrediction(outcome.text);
+    recordRun(ModuleType.QUANT_PREDICT, query, params, 'QUANT', outcome, res.status === 'error' ? res.error : undefined);
+    setQuantResult(res);
+    if (res.status === 'ok') {
+      const reply = createMessage('model', outcome.text, 'analysis');
+      appendQuantTurn(threadId, reply);
+      setQuantSelectedId(reply.id);
+      addLog(`Quant Analysis Complete: ${res.data.direction} (${res.data.confidence}% confidence)`, 'INFO');
+    } else {
+      appendQuantTurn(threadId, createMessage('system', describeError(res.error), 'alert'));
+      logServiceError('Quant Analysis Failed', res.error);
+    }
+  };
+
+  const handleQuantSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!quantQuery) return;
-    setQuantLoading(true);
-    addLog(`Running Quant Model (Gemini 3 Pro - Thinking Mode) for: ${quantQuery}`, 'INFO');
-    const res = await generateQuantPrediction(quantQuery);
-    setQuantResult(res);
-    setQuantLoading(false);
-    addLog('Quant Analysis Complete', 'INFO');
+    runQuant(quantQuery, quantAttachIndicators, quantAttachPortfolio);
+    setQuantQuery('');
+  };
+
+  const showQuantThread = (thread: ConversationThread) => {
+    const analysis = lastAnalysis(thread.messages);
+    setQuantThreadId(thread.id);
+    setQuantSelectedId(analysis?.id ?? null);
+    setQuantResult(analysis ? parseQuantPrediction(analysis.content) : null);
+  };
+
+  const addQuantThread = (thread: ConversationThread) => {
+    quantStream.reset();
+    setQuantThreads(prev => [...prev, thread]);
+    showQuantThread(thread);
+  };
+
+  const handleQuantThreadDelete = (threadId: string) => {
+    const remaining = quantThreads.filter(t => t.id !== threadId);
+    const next = remaining[remaining.length - 1] ?? createThread();
+    setQuantThreads(remaining.length ? remaining : [next]);
+    showQuantThread(next);
   };
 
-  const handleDealSubmit = async (e: React.FormEvent) => {
+  const handleQuantTurnSelect = (message: Message) => {
+    setQuantSelectedId(message.id);
+    setQuantResult(parseQuantPrediction(message.content));
+  };
+
+  const handleQuantTurnEdit = (message: Message, content: string) => {
+    const index = quantThread.messages.findIndex(m => m.id === message.id);
+    if (message.role === 'user') {
+      // Later turns answered the old question, so they are dropped; fork first to keep them
+      runQuant(content, quantAttachIndicators, quantAttachPortfolio, quantThread.id, quantThread.messages.slice(0, index));
+      return;
+    }
+    updateQuantThread(quantThread.id, t => ({
+      ...t,
+      messages: t.messages.map(m => m.id === message.id ? { ...m, content } : m),
+    }));
+    if (message.id === quantSelectedId) setQuantResult(parseQuantPrediction(content));
+    addLog('Quant thread: model turn edited', 'INFO');
+  };
+
+  // Re-building from the same deal or analysis reopens the edited memo rather than starting over
+  const openMemo = (subject: InvestmentMemo['subject'], build: () => InvestmentMemo) => {
+    const existing = memos.find(m => m.subject.kind === subject.kind && m.subject.refId === subject.refId);
+    if (existing) {
+      setActiveMemoId(existing.id);
+      return;
+    }
+    const created = build();
+    setMemos(prev => [...prev, created]);
+    setActiveMemoId(created.id);
+    addLog(`Memo created: ${created.title}`, 'INFO');
+  };
+
+  const handleDealMemo = (deal: PipelineDeal) => {
+    openMemo({ kind: 'deal', refId: deal.id }, () => buildDealMemo(deal));
+  };
+
+  // Re-valuing the same deal reopens its valuation
+  const handleDealValuation = (deal: PipelineDeal) => {
+    const existing = valuations.find(v => v.source.kind === 'deal' && v.source.refId === deal.id);
+    if (existing) {
+      setActiveValuationId(existing.id);
+    } else {
+      const created = valuationFromDeal(deal);
+      setValuations(prev => [...prev, created]);
+      setActiveValuationId(created.id);
+      addLog(`Valuation created: ${created.name}`, 'INFO');
+    }
+    openModule(ModuleType.VALUATION);
+  };
+
+  // Reported figures from a filing are applied in code first; the model only fills in forward-looking inputs
+  const handleValuationSuggest = async (model: ValuationModel, source: ValuationSource) => {
+    let base = model;
+    if (source.filing) {
+      // The filing baseline is written up front, so the user can keep editing it while the request runs
+      const baseline = filingBaseline(source.filing);
+      base = { ...applyAssumptions(model, baseline.dcf), target: baseline.target, currency: source.filing.currency, unit: source.filing.unit };
+      setValuations(prev => prev.map(v => (v.id === model.id ? base : v)));
+    }
+    setValuationSuggesting(true);
+    addLog(`Suggesting valuation assumptions for ${model.name} (${resolveModel('VALUATION')})...`, 'INFO');
+    const result = await suggestValuationAssumptions(valuationContext(base, source));
+    setValuationSuggesting(false);
+    if (result.status === 'ok') {
+      const { baseRevenue, ...forward } = result.data.assumptions;
+      const assumptions = source.filing || baseRevenue === undefined ? forward : { ...forward, baseRevenue };
+      // Only the returned assumptions are merged, into the latest model, so in-flight edits to other inputs survive
+      setValuations(prev => prev.map(v => (v.id === model.id ? applyAssumptions(v, assumptions, result.data.rationale) : v)));
+      addLog(`Valuation Assumptions Applied: ${Object.keys(assumptions).length} inputs for ${model.name}`, 'INFO');
+    } else {
+      logServiceError('Valuation Suggestion Failed', result.error);
+    }
+  };
+
+  const handleScenarioSensitivity = (exposure: ScenarioExposure, factor: ShockFactor, value: number) => {
+    if (exposure.source === 'custom') {
+      setCustomExposures(prev => prev.map(e => (e.id === exposure.id ? { ...e, sensitivities: { ...e.sensitivities, [factor]: value } } : e)));
+    } else {
+      setScenarioSensitivities(prev => ({ ...prev, [exposure.id]: { ...prev[exposure.id], [factor]: value } }));
+    }
+  };
+
+  const updateScenario = (id: string, patch: Partial<StressScenario>) =>
+    setScenarios(prev => prev.map(s => (s.id === id ? { ...s, ...patch, updatedAt: Date.now() } : s)));
+
+  // The model only sizes the shocks; factors it leaves out keep their current values
+  const handleScenarioPropose = async (scenario: StressScenario, description: string) => {
+    setScenarioProposing(true);
+    addLog(`Sizing shocks for "${description}" (${resolveModel('SCENARIO')})...`, 'INFO');
+    const result = await proposeScenarioShocks(description);
+    setScenarioProposing(false);
+    if (result.status === 'ok') {
+      const { shocks, analogue, rationale } = result.data;
+      updateScenario(scenario.id, { shocks: { ...scenario.shocks, ...shocks }, analogue, rationale, narrative: undefined });
+      addLog(`Scenario Shocks Proposed: ${Object.keys(shocks).length} factors for ${scenario.name}`, 'INFO');
+    } else {
+      logServiceError('Scenario Sizing Failed', result.error);
+    }
+  };
+
+  const handleScenarioNarrate = async (scenario: StressScenario) => {
+    setScenarioNarrating(true);
+    addLog(`Narrating scenario ${scenario.name} (${resolveModel('SCENARIO_NARRATIVE')})...`, 'INFO');
+    const result = await narrateScenario(scenarioContext(scenario, runScenario(scenarioExposures, scenario.shocks)));
+    setScenarioNarrating(false);
+    if (result.status === 'ok') {
+      updateScenario(scenario.id, { narrative: result.data });
+    } else {
+      logServiceError('Scenario Narrative Failed', result.error);
+    }
+  };
+
+  const handleQuantMemo = (message: Message) => {
+    const res = parseQuantPrediction(message.content);
+    if (res.status === 'error') {
+      logServiceError('Memo Build Failed', res.error);
+      return;
+    }
+    const index = quantThread.messages.findIndex(m => m.id === message.id);
+    const question = [...quantThread.messages.slice(0, index)].reverse().find(m => m.role === 'user')?.content || quantThread.title;
+    openMemo({ kind: 'quant', refId: message.id }, () => buildQuantMemo(res.data, question, message.id));
+  };
+
+  const handleQuantTurnFork = (message: Message) => {
+    addQuantThread(forkThread(quantThread, message.id));
+    addLog(`Quant thread forked: ${quantThread.title}`, 'INFO');
+  };
+
+  const runDealExtraction = async (memo: string, sources?: GroundingChunk[]) => {
+    setDealCandidates([]);
+    if (!memo.trim()) return;
+    setDealExtracting(true);
+    const result = await extractDealCandidates(memo, sources);
+    setDealExtracting(false);
+    if (result.status === 'ok') {
+      setDealCandidates(result.data);
+      addLog(`Deal Extraction: ${result.data.length} companies`, 'INFO');
+    } else {
+      logServiceError('Deal Extraction Failed', result.error);
+    }
+  };
+
+  const handleSaveCandidates = (candidates: DealCandidate[]) => {
+    const { pipeline, added, duplicates } = addCandidates(dealPipeline, candidates);
+    setDealPipeline(pipeline);
+    if (added.length) addLog(`Pipeline: saved ${added.map(d => d.candidate.name).join(', ')}`, 'INFO');
+    if (duplicates.length) addLog(`Pipeline: already tracked ${duplicates.join(', ')}`, 'WARN');
+  };
+
+  const runDeals = async (sector: string) => {
+    setDealCandidates([]);
+    addLog(`Scanning Deal Flow (${resolveModel('DEALS')} + Search) for: ${sector}`, 'INFO');
+    const outcome = await dealStream.run(
+      handlers => streamPrivateEquityDeals(sector, handlers),
+      logRetry('Deal Scan')
+    );
+    recordRun(ModuleType.DEAL_FLOW, sector, {}, 'DEALS', outcome);
+    setDealResult({ text: outcome.text || "No deals found.", groundingChunks: outcome.groundingChunks });
+    if (outcome.status === 'complete') {
+      addLog('Deal Scan Complete', 'INFO');
+      runDealExtraction(outcome.text, outcome.groundingChunks);
+    } else if (outcome.status === 'error') {
+      logServiceError('Deal Scan Failed', outcome.error);
+    } else {
+      addLog('Deal Scan Cancelled', 'WARN');
+    }
+  };
+
+  const handleDealSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!dealSector) return;
-    setDealLoading(true);
-    addLog(`Scanning Deal Flow (Gemini 3 Flash + Search) for: ${dealSector}`, 'INFO');
-    const res = await findPrivateEquityDeals(dealSector);
-    setDealResult(res);
-    setDealLoading(false);
-    addLog('Deal Scan Complete', 'INFO');
+    runDeals(dealSector);
+  };
+
+  const runResourceExtraction = async (report: string, sources?: GroundingChunk[], area: ResourceSearchArea = resourceArea) => {
+    setResourceSites([]);
+    if (!report.trim()) return;
+    setResourceExtracting(true);
+    const result = await extractResourceSites(report, sources);
+    setResourceExtracting(false);
+    if (result.status === 'ok') {
+      setResourceSites(result.data);
+      const unplotted = result.data.filter(s => s.lat === null).length;
+      addLog(`Site Extraction: ${result.data.length} sites${unplotted ? ` (${unplotted} without coordinates)` : ''}`, unplotted ? 'WARN' : 'INFO');
+      const outside = result.data.filter(s => !isInArea(s, area));
+      if (outside.length) {
+        addLog(`Site Extraction: ${outside.length} site(s) outside ${describeArea(area)}: ${outside.map(s => s.name).join(', ')}`, 'WARN');
+      }
+    } else {
+      logServiceError('Site Extraction Failed', result.error);
+    }
+  };
+
+  const runResources = async (type: string, area: ResourceSearchArea = resourceArea) => {
+    setResourceSites([]);
+    setResourcePicking(null);
+    addLog(`Locating Resources (${resolveModel('RESOURCES')} + Maps) for: ${type} [${describeArea(area)}]`, 'INFO');
+    const outcome = await resourceStream.run(
+      handlers => streamResources(type, handlers, area),
+      logRetry('Geospatial Query')
+    );
+    recordRun(ModuleType.RESOURCE_MAP, type, { area }, 'RESOURCES', outcome);
+    setResourceResult({ text: outcome.text || "No locations found.", groundingChunks: outcome.groundingChunks });
+    if (outcome.status === 'complete') {
+      addLog('Geospatial Data Retrieved', 'INFO');
+      runResourceExtraction(outcome.text, outcome.groundingChunks, area);
+    } else if (outcome.status === 'error') {
+      logServiceError('Geospatial Query Failed', outcome.error);
+    } else {
+      addLog('Geospatial Query Cancelled', 'WARN');
+    }
+  };
+
+  const handleAreaModeSelect = async (mode: AreaMode) => {
+    setResourceGeoError(null);
+    if (mode === 'POINT' || mode === 'REGION') {
+      setResourceView('map');
+      setResourcePicking(picking => (picking === mode ? null : mode));
+      return;
+    }
+    setResourcePicking(null);
+    if (mode === 'GLOBAL') {
+      setResourceArea(GLOBAL_AREA);
+      return;
+    }
+    setResourceLocating(true);
+    const fix = await locateUser();
+    setResourceLocating(false);
+    if (fix.status === 'ok') {
+      const area: ResourceSearchArea = { mode: 'NEAR_ME', lat: fix.lat, lng: fix.lng, radiusKm: resourceRadiusKm };
+      setResourceArea(area);
+      addLog(`Geolocation: ${describeArea(area)}, accuracy ${Math.round(fix.accuracyM)} m`, 'INFO');
+    } else {
+      setResourceGeoError(fix.message);
+      addLog(`Geolocation Failed: ${fix.reason} - search area unchanged`, 'WARN');
+    }
+  };
+
+  const handlePickPoint = (lat: number, lng: number) => {
+    setResourcePicking(null);
+    setResourceArea({ mode: 'POINT', lat, lng, radiusKm: resourceRadiusKm });
+  };
+
+  const handlePickRegion = (bounds: GeoBounds) => {
+    setResourcePicking(null);
+    setResourceArea({ mode: 'REGION', bounds });
+  };
+
+  const handleRadiusChange = (radiusKm: number) => {
+    setResourceRadiusKm(radiusKm);
+    setResourceArea(area => (area.mode === 'NEAR_ME' || area.mode === 'POINT' ? { ...area, radiusKm } : area));
+  };
+
+  const handlePriceLinkChange = (commodity: string, symbol: string | null) => {
+    setCommodityPriceLinks(prev => {
+      const next = { ...prev };
+      if (symbol) next[commodity] = symbol;
+      else delete next[commodity];
+      return next;
+    });
+    addLog(symbol ? `Supply risk: ${commodity} linked to ${symbol}` : `Supply risk: ${commodity} price link removed`, 'INFO');
+  };
+
+  const handleOpenChart = (symbol: string) => {
+    setMarketSymbol(symbol);
+    openModule(findPanel(layout, 'CHART') ? 'CHART' : ModuleType.DASHBOARD);
   };
 
-  const handleResourceSubmit = async (e: React.FormEvent) => {
+  const handleResourceSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!resourceType) return;
-    setResourceLoading(true);
-    addLog(`Locating Resources (Gemini 2.5 Flash + Maps) for: ${resourceType}`, 'INFO');
-    // Using user location would go here, passing dummy lat/long for demo or actual if permission granted
-    // We'll simulate a query without specific lat/long for global search or broad grounding
-    const res = await findResources(resourceType);
-    setResourceResult(res);
-    setResourceLoading(false);
-    addLog('Geospatial Data Retrieved', 'INFO');
+    runResources(resourceType);
   };
 
-  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleMarketFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (file) {
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const symbol = await fileProvider.loadFile(file);
+      addLog(`Series file loaded: ${file.name} -> ${symbol}`, 'INFO');
+      setMarketProviderId(fileProvider.id);
+      setMarketSymbols(await fileProvider.listSymbols());
+      setMarketSymbol(symbol);
+    } catch (error: any) {
+      console.error("Series file error:", error);
+      addLog(`Series file rejected: ${error.message}`, 'WARN');
+    }
+  };
+
+  const handleWatchlistAdd = (symbol: string) => {
+    if (watchlist.includes(symbol)) {
+      setMarketSymbol(symbol);
+      return;
+    }
+    setWatchlist(prev => [...prev, symbol]);
+    addLog(`Watchlist: added ${symbol}`, 'INFO');
+  };
+
+  const handleWatchlistRemove = (symbol: string) => {
+    setWatchlist(prev => prev.filter(s => s !== symbol));
+    addLog(`Watchlist: removed ${symbol}`, 'INFO');
+  };
+
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    if (isTabularFile(file)) {
+      try {
+        const dataset = await loadDatasetFile(file);
+        setAnalysisDataset(dataset);
+        setAnalysisAttachment(null);
+        addLog(`Dataset Loaded: ${file.name} (${dataset.rows.length} rows x ${dataset.columns.length} columns)`, 'INFO');
+      } catch (error) {
+        console.error("Dataset load error:", error);
+        addLog(`Dataset load failed for ${file.name}: ${error instanceof Error ? error.message : String(error)}`, 'CRIT');
+      }
+      return;
+    }
+    if (!file.type.startsWith('image/') && file.type !== 'application/pdf') {
+      addLog(`Unsupported file type: ${file.name} (${file.type || 'unknown'})`, 'WARN');
+      return;
+    }
+    if (file.size > MAX_INLINE_BYTES) {
+      addLog(`File too large to send inline: ${file.name} (${(file.size / 1e6).toFixed(1)} MB, limit ${MAX_INLINE_BYTES / 1e6} MB)`, 'WARN');
+      return;
+    }
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      setAnalysisAttachment({ name: file.name, dataUrl: reader.result as string });
+      setAnalysisDataset(null);
+      addLog(`${file.type === 'application/pdf' ? 'Document' : 'Image'} Loaded: ${file.name}`, 'INFO');
+    };
+    reader.readAsDataURL(file);
+  };
+
+  const finishAnalysis = (outcome: StreamOutcome) => {
+    setAnalysisResult(outcome.text || "Analysis failed.");
+    if (outcome.status === 'complete') {
+      addLog('Data Lab Analysis Complete', 'INFO');
+    } else if (outcome.status === 'error') {
+      logServiceError('Data Lab Analysis Failed', outcome.error);
+    } else {
+      addLog('Data Lab Analysis Cancelled', 'WARN');
+    }
+  };
+
+  const runAnalysis = async (attachment: { name: string; dataUrl: string }, userPrompt: string, attachIndicators: boolean) => {
+    addLog(`Analyzing ${attachment.name} (${resolveModel('VISION')} Vision)...`, 'INFO');
+    const prompt = withIndicatorContext(userPrompt || "Analyze this financial chart.", attachIndicators);
+    const outcome = await analysisStream.run(
+      handlers => streamChartAnalysis(attachment.dataUrl, prompt, handlers, indicatorSymbolFor(attachIndicators)),
+      logRetry('Visual Analysis')
+    );
+    // The file is kept with the run so it can be re-opened and re-run later
+    recordRun(ModuleType.DATA_LAB, userPrompt, { attachment: attachment.dataUrl, fileName: attachment.name, attachIndicators }, 'VISION', outcome);
+    finishAnalysis(outcome);
+  };
+
+  // `context` is what the model sees in place of the file, so history can re-run it without the original
+  const runDatasetAnalysis = async (context: string, datasetName: string, userPrompt: string, attachIndicators: boolean) => {
+    addLog(`Analyzing dataset ${datasetName} (${resolveModel('VISION')}, ${(context.length / 1000).toFixed(0)}k chars)...`, 'INFO');
+    const prompt = withIndicatorContext(userPrompt || "Summarize this dataset and highlight notable patterns.", attachIndicators);
+    const outcome = await analysisStream.run(
+      handlers => streamDatasetAnalysis(context, prompt, handlers, indicatorSymbolFor(attachIndicators)),
+      logRetry('Dataset Analysis')
+    );
+    recordRun(ModuleType.DATA_LAB, userPrompt, { datasetContext: context, fileName: datasetName, attachIndicators }, 'VISION', outcome);
+    finishAnalysis(outcome);
+  };
+
+  const handleAnalysisSubmit = () => {
+    if (analysisDataset) {
+      let context = datasetSummary(analysisDataset, analysisStats);
+      if (analysisSendMode === 'full') {
+        const full = datasetFullContext(analysisDataset);
+        context = full.text;
+        if (full.rowsSent < analysisDataset.rows.length) {
+          addLog(`Dataset truncated for the model: ${full.rowsSent} of ${analysisDataset.rows.length} rows sent`, 'WARN');
+        }
+      }
+      runDatasetAnalysis(context, analysisDataset.name, analysisPrompt, analysisAttachIndicators);
+      return;
+    }
+    if (!analysisAttachment) return;
+    runAnalysis(analysisAttachment, analysisPrompt, analysisAttachIndicators);
+  };
+
+  const handleFilingUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    if (file.type === 'application/pdf') {
+      if (file.size > MAX_INLINE_BYTES) {
+        addLog(`File too large to send inline: ${file.name} (${(file.size / 1e6).toFixed(1)} MB, limit ${MAX_INLINE_BYTES / 1e6} MB)`, 'WARN');
+        return;
+      }
       const reader = new FileReader();
       reader.onloadend = () => {
-        setAnalysisImage(reader.result as string);
-        addLog(`Image Loaded: ${file.name}`, 'INFO');
+        setFilingDocument({ name: file.name, kind: 'pdf', dataUrl: reader.result as string });
+        setFilingStatements(null);
+        setFilingPaste('');
+        addLog(`Filing Loaded: ${file.name}`, 'INFO');
       };
       reader.readAsDataURL(file);
+      return;
+    }
+    if (!/\.(txt|html?)$/i.test(file.name)) {
+      addLog(`Unsupported filing type: ${file.name} (PDF, TXT or HTML expected)`, 'WARN');
+      return;
     }
+    const raw = await file.text();
+    const pages = paginateFiling(/\.html?$/i.test(file.name) ? htmlToText(raw) : raw);
+    setFilingDocument({ name: file.name, kind: 'text', pages });
+    setFilingStatements(null);
+    setFilingPaste('');
+    addLog(`Filing Loaded: ${file.name} (${pages.length} pages)`, 'INFO');
   };
 
-  const handleAnalysisSubmit = async () => {
-    if (!analysisImage) return;
-    setAnalysisLoading(true);
-    addLog('Analyzing Visual Data (Gemini 3 Pro Vision)...', 'INFO');
-    // Strip base64 header for API
-    const base64Data = analysisImage.split(',')[1];
-    const res = await analyzeChartImage(base64Data, analysisPrompt || "Analyze this financial chart.");
-    setAnalysisResult(res);
-    setAnalysisLoading(false);
-    addLog('Visual Analysis Complete', 'INFO');
+  const runFilingExtraction = async (filing: FilingDocument) => {
+    setFilingDocument(filing);
+    setFilingStatements(null);
+    setFilingExtracting(true);
+    addLog(`Extracting statements from ${filing.name} (${resolveModel('FILING_EXTRACT')})...`, 'INFO');
+    let result;
+    if (filing.kind === 'pdf') {
+      result = await extractFinancialStatements({ dataUrl: filing.dataUrl! });
+    } else {
+      const pages = filing.pages ?? [];
+      const { text, pagesSent } = filingPrompt(pages);
+      if (pagesSent < pages.length) {
+        addLog(`Filing truncated for the model: ${pagesSent} of ${pages.length} pages sent`, 'WARN');
+      }
+      result = await extractFinancialStatements({ text }, pagesSent);
+    }
+    setFilingExtracting(false);
+    if (result.status === 'ok') {
+      const statements = result.data;
+      setFilingStatements(statements);
+      setSavedFilings(prev => [
+        statements,
+        ...prev.filter(f => f.company !== statements.company || f.periods.join() !== statements.periods.join()),
+      ].slice(0, MAX_SAVED_FILINGS));
+      const figures = result.data.lines.flatMap(l => l.figures).filter(f => f.value !== null);
+      const unlinked = figures.filter(f => f.page === null).length;
+      addLog(
+        `Filing Extraction: ${result.data.company} - ${result.data.lines.length} lines across ${result.data.periods.length} periods${unlinked ? ` (${unlinked} figure(s) without a page reference)` : ''}`,
+        unlinked ? 'WARN' : 'INFO'
+      );
+    } else {
+      logServiceError('Filing Extraction Failed', result.error);
+    }
+  };
+
+  // Text typed after an upload takes precedence, since uploading clears the paste box
+  const handleFilingSubmit = () => {
+    if (filingPaste.trim()) {
+      runFilingExtraction({ name: 'Pasted filing', kind: 'text', pages: paginateFiling(filingPaste) });
+    } else if (filingDocument) {
+      runFilingExtraction(filingDocument);
+    }
+  };
+
+  const handleHistoryOpen = (entry: HistoryEntry) => {
+    openModule(entry.module);
+    switch (entry.module) {
+      case ModuleType.QUANT_PREDICT: {
+        // Re-opened runs get their own thread so they can be followed up without touching the current one
+        const turns = Array.isArray(entry.params.turns) ? entry.params.turns as Message[] : [];
+        const reply = entry.error || entry.status !== 'complete'
+          ? createMessage('system', entry.error ? describeError(entry.error) : 'Cancelled.', 'alert')
+          : createMessage('model', entry.output, 'analysis');
+        const thread = createThread(threadTitle([...turns, createMessage('user', entry.query)]), [...turns, createMessage('user', entry.query), reply]);
+        setQuantAttachIndicators(Boolean(entry.params.attachIndicators));
+        setQuantAttachPortfolio(Boolean(entry.params.attachPortfolio));
+        addQuantThread(thread);
+        if (entry.error) setQuantResult({ status: 'error', error: { ...entry.error, raw: entry.output || undefined } });
+        break;
+      }
+      case ModuleType.DEAL_FLOW:
+        dealStream.reset();
+        setDealView('scan');
+        setDealCandidates([]);
+        setDealSector(entry.query);
+        setDealResult({ text: entry.output, groundingChunks: entry.groundingChunks });
+        break;
+      case ModuleType.RESOURCE_MAP:
+        resourceStream.reset();
+        setResourceSites([]);
+        setResourcePicking(null);
+        setResourceArea((entry.params.area as ResourceSearchArea) ?? GLOBAL_AREA);
+        setResourceType(entry.query);
+        setResourceResult({ text: entry.output, groundingChunks: entry.groundingChunks });
+        break;
+      case ModuleType.DATA_LAB:
+        analysisStream.reset();
+        setDataLabView('analyze');
+        setAnalysisPrompt(entry.query);
+        setAnalysisDataset(null);
+        setAnalysisAttachment(historyAttachment(entry));
+        setAnalysisAttachIndicators(Boolean(entry.params.attachIndicators));
+        setAnalysisResult(entry.output);
+        break;
+    }
+    addLog(`History: re-opened ${HISTORY_TITLES[entry.module]} run from ${new Date(entry.timestamp).toLocaleString()}`, 'INFO');
+  };
+
+  const handleHistoryRerun = (entry: HistoryEntry) => {
+    if (entry.module === ModuleType.QUANT_PREDICT) {
+      // Re-run in a fresh thread seeded with the context the original run had
+      const turns = Array.isArray(entry.params.turns) ? entry.params.turns as Message[] : [];
+      const thread = createThread(threadTitle(turns), turns);
+      openModule(entry.module);
+      setQuantAttachIndicators(Boolean(entry.params.attachIndicators));
+      setQuantAttachPortfolio(Boolean(entry.params.attachPortfolio));
+      addQuantThread(thread);
+      runQuant(entry.query, Boolean(entry.params.attachIndicators), Boolean(entry.params.attachPortfolio), thread.id, turns);
+      return;
+    }
+    handleHistoryOpen(entry);
+    switch (entry.module) {
+      case ModuleType.DEAL_FLOW:
+        runDeals(entry.query);
+        break;
+      case ModuleType.RESOURCE_MAP:
+        runResources(entry.query, (entry.params.area as ResourceSearchArea) ?? GLOBAL_AREA);
+        break;
+      case ModuleType.DATA_LAB:
+        setDataLabView('analyze');
+        if (typeof entry.params.datasetContext === 'string') {
+          runDatasetAnalysis(entry.params.datasetContext, String(entry.params.fileName ?? 'dataset'), entry.query, Boolean(entry.params.attachIndicators));
+        } else if (historyAttachment(entry)) {
+          runAnalysis(historyAttachment(entry)!, entry.query, Boolean(entry.params.attachIndicators));
+        }
+        break;
+    }
+  };
+
+  const handleHistoryDelete = async (id: string) => {
+    await deleteHistoryEntry(id);
+    setHistoryVersion(v => v + 1);
+  };
+
+  const handleWorkspaceCreate = async (name: string) => {
+    const workspace: Workspace = { id: createHistoryId(), name, createdAt: Date.now() };
+    await saveWorkspace(workspace);
+    setWorkspaces(await listWorkspaces());
+    setWorkspaceId(workspace.id);
+    addLog(`Workspace created: ${name}`, 'INFO');
+  };
+
+  const handleWorkspaceRename = async (id: string, name: string) => {
+    const workspace = workspaces.find(w => w.id === id);
+    if (!workspace) return;
+    await saveWorkspace({ ...workspace, name });
+    setWorkspaces(await listWorkspaces());
+  };
+
+  const handleWorkspaceDelete = async (id: string) => {
+    const workspace = workspaces.find(w => w.id === id);
+    await deleteWorkspace(id);
+    setWorkspaces(await listWorkspaces());
+    setWorkspaceId(DEFAULT_WORKSPACE.id);
+    addLog(`Workspace deleted: ${workspace?.name ?? id}`, 'WARN');
+  };
+
+  // Shows a module (or docked panel) where it is open, otherwise in the focused pane
+  const openModule = (kind: PanelKind) => {
+    const next = openPanel(layout, focusedPane.id, kind);
+    setLayout(next.root);
+    setFocusedPaneId(next.paneId);
+  };
+
+  // Unlinking pins the pane to the symbol it was showing
+  const handlePaneLink = (paneId: string, linked: boolean) =>
+    setLayout(prev => updatePane(prev, paneId, linked ? { linked } : { linked, symbol: marketSymbol }));
+
+  const applyLayout = (root: LayoutNode, name: string) => {
+    setLayout(root);
+    setFocusedPaneId(null);
+    addLog(`Layout loaded: ${name}`, 'INFO');
+  };
+
+  const commandSymbols = useMemo(() => Array.from(new Set([...watchlist, ...marketSymbols])), [watchlist, marketSymbols]);
+
+  // Command-bar actions reuse the handlers behind each module's form
+  const handleCommand = (action: CommandAction, line: string) => {
+    setCommandHistory(prev => pushCommandHistory(prev, line));
+    switch (action.kind) {
+      case 'MODULE':
+        openModule(action.module);
+        break;
+      case 'SYMBOL':
+        if (action.module === ModuleType.DASHBOARD) {
+          handleOpenChart(action.symbol);
+          break;
+        }
+        setMarketSymbol(action.symbol);
+        openModule(action.module);
+        break;
+      case 'WATCH':
+        handleWatchlistAdd(action.symbol);
+        break;
+      case 'QUANT':
+        openModule(ModuleType.QUANT_PREDICT);
+        if (quantLoading) {
+          addLog('Quant model is busy; command not run', 'WARN');
+          break;
+        }
+        runQuant(action.query, quantAttachIndicators, quantAttachPortfolio);
+        break;
+      case 'DEAL':
+        openModule(ModuleType.DEAL_FLOW);
+        setDealSector(action.sector);
+        if (dealLoading) {
+          addLog('Deal scan is busy; command not run', 'WARN');
+          break;
+        }
+        runDeals(action.sector);
+        break;
+      case 'RESOURCE':
+        openModule(ModuleType.RESOURCE_MAP);
+        setResourceType(action.resource);
+        if (resourceLoading) {
+          addLog('Geospatial query is busy; command not run', 'WARN');
+          break;
+        }
+        runResources(action.resource);
+        break;
+      case 'PANEL':
+        if (action.panel === 'ALERTS') setAlertsOpen(true);
+        if (action.panel === 'USAGE') setUsageOpen(true);
+        if (action.panel === 'SETTINGS') setSettingsOpen(true);
+        if (action.panel === 'LAYOUTS') setLayoutsOpen(true);
+        if (action.panel === 'HISTORY') {
+          if (historyModule) setHistoryOpen(true);
+          else addLog(`No run history for ${activeModule}`, 'WARN');
+        }
+        break;
+    }
+  };
+
+  // Series shown by a pane: the shared symbol when linked, its own pinned symbol otherwise
+  const paneSeries = (pane: LayoutPane) =>
+    pane.linked || pane.symbol === marketSymbol
+      ? { symbol: marketSymbol, candles: marketCandles, loading: marketLoading }
+      : { symbol: pane.symbol, candles: pinnedCandles[pane.symbol] ?? [], loading: !pinnedCandles[pane.symbol] };
+
+  const paneSymbolSetter = (pane: LayoutPane) => (symbol: string) =>
+    pane.linked ? setMarketSymbol(symbol) : setLayout(prev => updatePane(prev, pane.id, { symbol }));
+
+  const renderChart = (pane: LayoutPane, className: string) => {
+    const series = paneSeries(pane);
+    const selectSymbol = paneSymbolSetter(pane);
+    const bars = candlesToBars(series.candles);
+    const change = getSeriesChange(bars);
+    return (
+      <div className={`${className} bg-[#0c0c0c] border border-gray-800 p-4 flex flex-col`}>
+        <div className="flex justify-between items-center mb-4">
+           <h3 className="text-sm font-bold text-gray-400">
+             {series.symbol} - {marketProvider.name.toUpperCase()} ({marketInterval})
+           </h3>
+           <div className="flex items-center space-x-2">
+             <select
+               value={marketProviderId}
+               onChange={(e) => setMarketProviderId(e.target.value)}
+               className="bg-black border border-gray-700 text-gray-300 text-xs font-mono px-2 py-0.5 focus:outline-none"
+             >
+               {marketProviders.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+             </select>
+             <select
+               value={series.symbol}
+               onChange={(e) => selectSymbol(e.target.value)}
+               className="bg-black border border-gray-700 text-gray-300 text-xs font-mono px-2 py-0.5 focus:outline-none"
+             >
+               {!marketSymbols.includes(series.symbol) && <option value={series.symbol}>{series.symbol}</option>}
+               {marketSymbols.map(s => <option key={s} value={s}>{s}</option>)}
+             </select>
+             <select
+               value={marketInterval}
+               onChange={(e) => setMarketInterval(e.target.value as BarInterval)}
+               className="bg-black border border-gray-700 text-gray-300 text-xs font-mono px-2 py-0.5 focus:outline-none"
+             >
+               {BAR_INTERVALS.map(i => <option key={i} value={i}>{i}</option>)}
+             </select>
+             <div className="flex border border-gray-700 text-xs font-mono">
+               {(['area', 'candle'] as ChartMode[]).map(m => (
+                 <button
+                   key={m}
+                   onClick={() => setChartMode(m)}
+                   className={`px-2 py-0.5 uppercase ${chartMode === m ? 'bg-[#1e293b] text-white' : 'text-gray-500 hover:text-gray-300'}`}
+                 >
+                   {m}
+                 </button>
+               ))}
+             </div>
+             <button
+               onClick={() => marketFileInputRef.current?.click()}
+               className="text-xs font-mono text-gray-400 border border-gray-700 px-2 py-0.5 hover:text-white hover:border-gray-500"
+             >
+               LOAD CSV/JSON
+             </button>
+             <input type="file" ref={marketFileInputRef} className="hidden" accept=".csv,.json" onChange={handleMarketFileUpload} />
+             {bars.length > 1 && (
+               <span className={`text-xs px-2 py-0.5 rounded ${
+                 change.changePct >= 0 ? 'bg-green-900 text-green-300' : 'bg-red-900 text-red-300'
+               }`}>
+                 {change.changePct >= 0 ? '+' : ''}{change.changePct.toFixed(2)}%
+               </span>
+             )}
+           </div>
+        </div>
+        <div className="flex items-center space-x-1 mb-2 text-[10px] font-mono">
+          {INDICATOR_TOGGLES.map(id => (
+            <button
+              key={id}
+              onClick={() => toggleIndicator(id)}
+              className={`px-2 py-0.5 border ${
+                indicators.includes(id) ? 'border-blue-500 text-blue-400' : 'border-gray-800 text-gray-600 hover:text-gray-400'
+              }`}
+            >
+              {id}
+            </button>
+          ))}
+        </div>
+        <div className="flex-1 w-full min-h-0">
+          {series.loading ? (
+            <div className="h-full flex items-center justify-center text-xs font-mono text-yellow-500 animate-pulse">LOADING SERIES...</div>
+          ) : bars.length === 0 ? (
+            <div className="h-full flex items-center justify-center text-xs font-mono text-gray-600">NO DATA FOR {series.symbol}</div>
+          ) : (
+            <PriceChart candles={series.candles} mode={chartMode} indicators={indicators} />
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  const renderWatchlist = (pane: LayoutPane) => (
+    <Watchlist
+      symbols={watchlist}
+      quotes={watchlistQuotes}
+      selected={paneSeries(pane).symbol}
+      onSelect={paneSymbolSetter(pane)}
+      onAdd={handleWatchlistAdd}
+      onRemove={handleWatchlistRemove}
+    />
+  );
+
+  const renderNews = (pane: LayoutPane) => (
+    <NewsPanel
+      items={news.items}
+      settings={newsSettings}
+      refreshing={news.refreshing}
+      lastRefresh={news.lastRefresh}
+      onSettingsChange={setNewsSettings}
+      onRefresh={news.refresh}
+      onImport={news.importFile}
+      onClear={news.clear}
+      onSelectSymbol={paneSymbolSetter(pane)}
+    />
+  );
+
+  const renderQuantThread = () => (
+    <QuantThreadView
+      thread={quantThread}
+      stream={quantStream.state}
+      selectedId={quantSelectedId}
+      onSelect={handleQuantTurnSelect}
+      onEdit={handleQuantTurnEdit}
+      onFork={handleQuantTurnFork}
+      onMemo={handleQuantMemo}
+      onCancel={quantStream.cancel}
+    />
+  );
+
+  const renderDealOutput = () => (
+    <TerminalOutput 
+      title="DEAL_MEMO" 
+      content={dealResult?.text || "System idle. Enter sector to begin search."} 
+      loading={dealLoading}
+      groundingChunks={dealResult?.groundingChunks}
+      stream={dealStream.state}
+      onCancel={dealStream.cancel}
+    />
+  );
+
+  const renderResourceOutput = () => (
+    <TerminalOutput 
+      title="GEOSPATIAL_REPORT" 
+      content={resourceResult?.text || "Awaiting resource designation..."} 
+      loading={resourceLoading}
+      groundingChunks={resourceResult?.groundingChunks}
+      stream={resourceStream.state}
+      onCancel={resourceStream.cancel}
+    />
+  );
+
+  const renderAnalysisOutput = () => (
+    <TerminalOutput 
+      title={analysisDataset ? 'DATASET_ANALYSIS_OUTPUT' : 'PATTERN_RECOGNITION_OUTPUT'}
+      content={analysisResult || "No file loaded."} 
+      loading={analysisLoading}
+      stream={analysisStream.state}
+      onCancel={analysisStream.cancel}
+    />
+  );
+
+  // Each module view, or a piece of one, as docked in a layout pane
+  const renderPanel = (kind: PanelKind, pane: LayoutPane) => {
+    const series = paneSeries(pane);
+    switch (kind) {
+      // Dashboard View
+      case ModuleType.DASHBOARD:
+        return (
+          <div className="grid grid-cols-12 grid-rows-2 h-full gap-4">
+            {/* Main Chart */}
+            {renderChart(pane, 'col-span-8 row-span-2')}
+
+            {/* Watchlist */}
+            <div className="col-span-4 row-span-1 min-h-0">
+              {renderWatchlist(pane)}
+            </div>
+
+            {/* News Feed */}
+            <div className="col-span-4 row-span-1 min-h-0">
+              {renderNews(pane)}
+            </div>
+          </div>
+        );
+
+      // Quant Prediction View
+      case ModuleType.QUANT_PREDICT:
+        return (
+          <div className="grid grid-cols-12 h-full gap-4">
+            <div className="col-span-4 flex flex-col space-y-4">
+              <div className="bg-[#0c0c0c] border border-gray-800 p-6 flex-1">
+                <h3 className="text-lg font-light text-white mb-6">Prediction Parameters</h3>
+                <div className="mb-4">
+                  <label className="block text-xs font-mono text-gray-500 mb-2">THREAD</label>
+                  <div className="flex space-x-1">
+                    <select
+                      value={quantThread.id}
+                      onChange={(e) => showQuantThread(quantThreads.find(t => t.id === e.target.value) ?? quantThread)}
+                      disabled={quantLoading}
+                      className="flex-1 min-w-0 bg-black border border-gray-700 text-white px-2 py-1.5 text-xs focus:border-blue-500 focus:outline-none font-mono"
+                    >
+                      {quantThreads.map(t => <option key={t.id} value={t.id}>{t.title}</option>)}
+                    </select>
+                    <button
+                      type="button"
+                      onClick={() => addQuantThread(createThread())}
+                      disabled={quantLoading}
+                      className="px-2 border border-gray-700 text-gray-400 hover:text-white text-xs font-mono disabled:opacity-50"
+                      title="New thread"
+                    >
+                      NEW
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleQuantThreadDelete(quantThread.id)}
+                      disabled={quantLoading}
+                      className="px-2 border border-gray-700 text-gray-400 hover:text-red-500 text-xs font-mono disabled:opacity-50"
+                      title="Delete thread"
+                    >
+                      DEL
+                    </button>
+                  </div>
+                </div>
+                <form onSubmit={handleQuantSubmit} className="space-y-4">
+                  <div>
+                    <label className="block text-xs font-mono text-gray-500 mb-2">
+                      {quantThread.messages.length ? 'FOLLOW-UP' : 'TARGET ASSET / SCENARIO'}
+                    </label>
+                    <textarea
+                      value={quantQuery}
+                      onChange={(e) => setQuantQuery(e.target.value)}
+                      className="w-full h-32 bg-black border border-gray-700 text-white p-3 text-sm focus:border-blue-500 focus:outline-none font-mono resize-none"
+                      placeholder={quantThread.messages.length ? "e.g. Now stress that for a 100bp move in the 10Y..." : "e.g. Predict the impact of a rate cut on US Tech Small Caps over the next quarter..."}
+                    />
+                  </div>
+                  <div className="flex items-center space-x-2 text-xs text-gray-500 mb-4">
+                    <BrainIcon className="w-4 h-4 text-purple-500" />
+                    <span>Thinking Mode (Budget: 32k tokens) Active</span>
+                  </div>
+                  <label className="flex items-center space-x-2 text-xs text-gray-500 font-mono cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={quantAttachIndicators}
+                      onChange={(e) => setQuantAttachIndicators(e.target.checked)}
+                      className="accent-blue-600"
+                    />
+                    <span>Attach indicators for {marketSymbol} ({marketInterval})</span>
+                  </label>
+                  <label className="flex items-center space-x-2 text-xs text-gray-500 font-mono cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={quantAttachPortfolio}
+                      onChange={(e) => setQuantAttachPortfolio(e.target.checked)}
+                      disabled={positions.length === 0}
+                      className="accent-blue-600"
+                    />
+                    <span>Attach current portfolio ({positions.length} positions)</span>
+                  </label>
+                  <button 
+                    type="submit" 
+                    disabled={quantLoading}
+                    className="w-full bg-blue-700 hover:bg-blue-600 text-white font-mono text-xs py-3 uppercase tracking-wider disabled:opacity-50"
+                  >
+                    {quantLoading ? 'Processing Model...' : quantThread.messages.length ? 'Ask Follow-up' : 'Execute Model'}
+                  </button>
+                </form>
+              </div>
+              <div className="bg-[#0c0c0c] border border-gray-800 p-4 h-1/3">
+                <h4 className="text-xs font-bold text-gray-500 mb-2">MODEL STATUS</h4>
+                <div className="grid grid-cols-2 gap-2 text-xs font-mono">
+                  <div className="text-gray-600">Model:</div><div className="text-right text-green-500">{resolveModel('QUANT', modelSettings)}</div>
+                  <div className="text-gray-600">Budget:</div><div className="text-right">32,768 T</div>
+                  <div className="text-gray-600">Context:</div><div className="text-right">1M</div>
+                  <div className="text-gray-600">Load:</div><div className="text-right">Optimized</div>
+                </div>
+              </div>
+            </div>
+            <div className="col-span-8 h-full flex flex-col gap-4 min-h-0">
+              {quantResult && !quantLoading && <QuantPredictionCard result={quantResult} />}
+              <div className="flex-1 min-h-0">
+                {renderQuantThread()}
+              </div>
+            </div>
+          </div>
+        );
+
+      // Deal Flow View
+      case ModuleType.DEAL_FLOW:
+        return (
+          <div className="h-full flex flex-col gap-4 min-h-0">
+            <div className="flex space-x-1 font-mono text-xs">
+              {(['scan', 'pipeline'] as const).map(view => (
+                <button
+                  key={view}
+                  onClick={() => setDealView(view)}
+                  className={`px-3 py-1 border ${dealView === view ? 'border-green-700 text-white bg-green-900/30' : 'border-gray-800 text-gray-500 hover:text-gray-300'}`}
+                >
+                  {view === 'scan' ? 'SCAN' : `PIPELINE (${dealPipeline.length})`}
+                </button>
+              ))}
+            </div>
+            {dealView === 'pipeline' ? (
+              <div className="flex-1 min-h-0">
+                <DealPipelineBoard pipeline={dealPipeline} onChange={setDealPipeline} onBuildMemo={handleDealMemo} onValue={handleDealValuation} onLog={addLog} />
+              </div>
+            ) : (
+              <div className="grid grid-cols-12 flex-1 min-h-0 gap-4">
+                <div className="col-span-4 bg-[#0c0c0c] border border-gray-800 p-6">
+                  <h3 className="text-lg font-light text-white mb-6">Deal Sourcing</h3>
+                  <form onSubmit={handleDealSubmit} className="space-y-6">
+                    <div>
+                      <label className="block text-xs font-mono text-gray-500 mb-2">TARGET SECTOR / THESIS</label>
+                      <input 
+                        type="text" 
+                        value={dealSector}
+                        onChange={(e) => setDealSector(e.target.value)}
+                        className="w-full bg-black border border-gray-700 text-white p-3 text-sm focus:border-green-500 focus:outline-none font-mono"
+                        placeholder="e.g. Series A Fintech in Southeast Asia"
+                      />
+                    </div>
+                    <button 
+                      type="submit"
+                      disabled={dealLoading}
+                      className="w-full bg-green-800 hover:bg-green-700 text-white font-mono text-xs py-3 uppercase tracking-wider disabled:opacity-50"
+                    >
+                      {dealLoading ? 'Scanning Markets...' : 'Scan Markets'}
+                    </button>
+                  </form>
+                  <div className="mt-8 border-t border-gray-800 pt-6">
+                    <h4 className="text-xs font-mono text-gray-500 mb-4">RECENT ACTIVITY</h4>
+                    <div className="space-y-2 text-xs text-gray-600 font-mono">
+                       <p>&gt; Scanning global venture data...</p>
+                       <p>&gt; Indexing crunchbase feeds...</p>
+                       <p>&gt; Ready for query.</p>
+                    </div>
+                  </div>
+                </div>
+                <div className="col-span-8 h-full flex flex-col gap-4 min-h-0">
+                  <div className="flex-1 min-h-0">
+                    {renderDealOutput()}
+                  </div>
+                  <div className="h-2/5 min-h-0">
+                    <DealCandidatesPanel
+                      candidates={dealCandidates}
+                      pipeline={dealPipeline}
+                      extracting={dealExtracting}
+                      canExtract={Boolean(dealResult?.text) && !dealLoading}
+                      onExtract={() => dealResult && runDealExtraction(dealResult.text, dealResult.groundingChunks)}
+                      onSave={handleSaveCandidates}
+                    />
+                  </div>
+                </div>
+              </div>
+            )}
+          </div>
+        );
+
+      // Resource Map View
+      case ModuleType.RESOURCE_MAP:
+        return (
+          <div className="grid grid-cols-12 h-full gap-4">
+            <div className="col-span-4 h-full flex flex-col gap-4 min-h-0">
+              <div className="bg-[#0c0c0c] border border-gray-800 p-6">
+                <h3 className="text-lg font-light text-white mb-6">Commodity Tracking</h3>
+                <form onSubmit={handleResourceSubmit} className="space-y-6">
+                  <div>
+                    <label className="block text-xs font-mono text-gray-500 mb-2">RESOURCE / ASSET TYPE</label>
+                    <input 
+                      type="text" 
+                      value={resourceType}
+                      onChange={(e) => setResourceType(e.target.value)}
+                      className="w-full bg-black border border-gray-700 text-white p-3 text-sm focus:border-yellow-600 focus:outline-none font-mono"
+                      placeholder="e.g. Lithium mines in South America"
+                    />
+                  </div>
+                  <ResourceAreaPicker
+                    area={resourceArea}
+                    radiusKm={resourceRadiusKm}
+                    picking={resourcePicking}
+                    locating={resourceLocating}
+                    geoError={resourceGeoError}
+                    onModeSelect={handleAreaModeSelect}
+                    onRadiusChange={handleRadiusChange}
+                  />
+                  <button 
+                    type="submit"
+                    disabled={resourceLoading || resourceLocating}
+                    className="w-full bg-yellow-800 hover:bg-yellow-700 text-white font-mono text-xs py-3 uppercase tracking-wider disabled:opacity-50"
+                  >
+                    {resourceLoading ? 'Triangulating...' : 'Locate Assets'}
+                  </button>
+                </form>
+              </div>
+              <div className="flex-1 min-h-0">
+                {renderResourceOutput()}
+              </div>
+            </div>
+            <div className="col-span-8 h-full flex flex-col gap-4 min-h-0">
+              <div className="flex space-x-1 font-mono text-xs">
+                {(['map', 'risk', 'dataset'] as const).map(view => (
+                  <button
+                    key={view}
+                    onClick={() => setResourceView(view)}
+                    className={`px-3 py-1 border ${resourceView === view ? 'border-yellow-700 text-white bg-yellow-900/30' : 'border-gray-800 text-gray-500 hover:text-gray-300'}`}
+                  >
+                    {view === 'map' ? 'MAP' : view === 'risk' ? 'SUPPLY RISK' : `RISK DATA (${countryRisks.length})`}
+                  </button>
+                ))}
+              </div>
+              <div className="flex-1 min-h-0">
+                {resourceView === 'risk' ? (
+                  <SupplyRiskPanel
+                    sites={resourceSites}
+                    risks={countryRisks}
+                    priceLinks={commodityPriceLinks}
+                    provider={marketProvider}
+                    symbols={marketSymbols}
+                    interval={marketInterval}
+                    onLinkChange={handlePriceLinkChange}
+                    onOpenChart={handleOpenChart}
+                  />
+                ) : resourceView === 'dataset' ? (
+                  <CountryRiskEditor
+                    risks={countryRisks}
+                    scanCountries={Array.from(new Set(resourceSites.map(s => s.country)))}
+                    onChange={setCountryRisks}
+                    onLog={addLog}
+                  />
+                ) : (
+                  <ResourceMap
+                    sites={resourceSites}
+                    extracting={resourceExtracting}
+                    canExtract={Boolean(resourceResult?.text) && !resourceLoading}
+                    onExtract={() => resourceResult && runResourceExtraction(resourceResult.text, resourceResult.groundingChunks)}
+                    onLog={addLog}
+                    area={resourceArea}
+                    picking={resourcePicking}
+                    onPickPoint={handlePickPoint}
+                    onPickRegion={handlePickRegion}
+                    risks={countryRisks}
+                  />
+                )}
+              </div>
+            </div>
+          </div>
+        );
+
+      // Data Lab View
+      case ModuleType.DATA_LAB:
+        return (
+          <div className="h-full flex flex-col gap-4 min-h-0">
+            <div className="flex space-x-1 font-mono text-xs">
+              {(['analyze', 'filing'] as const).map(view => (
+                <button
+                  key={view}
+                  onClick={() => setDataLabView(view)}
+                  className={`px-3 py-1 border ${dataLabView === view ? 'border-red-700 text-white bg-red-900/30' : 'border-gray-800 text-gray-500 hover:text-gray-300'}`}
+                >
+                  {view === 'analyze' ? 'ANALYZE' : 'FILINGS'}
+                </button>
+              ))}
+            </div>
+            {dataLabView === 'filing' ? (
+              <div className="grid grid-cols-12 flex-1 min-h-0 gap-4">
+                <div className="col-span-4 bg-[#0c0c0c] border border-gray-800 p-6 flex flex-col min-h-0">
+                  <h3 className="text-lg font-light text-white mb-6">Filing Analyzer</h3>
+                  <div
+                    className="border-2 border-dashed border-gray-700 rounded-lg p-6 flex flex-col items-center justify-center cursor-pointer hover:border-gray-500 transition-colors bg-black mb-4"
+                    onClick={() => filingInputRef.current?.click()}
+                  >
+                    <UploadIcon className="w-8 h-8 text-gray-600 mb-2" />
+                    {filingDocument ? (
+                      <>
+                        <span className="text-xs text-white font-mono text-center break-all">{filingDocument.name}</span>
+                        <span className="text-[10px] text-gray-500 font-mono mt-1">
+                          {filingDocument.kind === 'pdf' ? 'PDF DOCUMENT' : `TEXT · ${filingDocument.pages?.length ?? 0} PAGES`}
+                        </span>
+                      </>
+                    ) : (
+                      <>
+                        <span className="text-xs text-gray-500 font-mono">UPLOAD 10-K / 10-Q / ANNUAL REPORT</span>
+                        <span className="text-[10px] text-gray-600 font-mono mt-1">PDF · TXT · HTML</span>
+                      </>
+                    )}
+                    <input
+                      type="file"
+                      ref={filingInputRef}
+                      className="hidden"
+                      accept="application/pdf,.txt,.htm,.html"
+                      onChange={handleFilingUpload}
+                    />
+                  </div>
+                  <label className="block text-xs font-mono text-gray-500 mb-2">OR PASTE FILING PAGES</label>
+                  <textarea
+                    value={filingPaste}
+                    onChange={(e) => setFilingPaste(e.target.value)}
+                    className="w-full flex-1 min-h-[8rem] bg-black border border-gray-700 text-white p-3 text-xs focus:border-red-500 focus:outline-none font-mono resize-none mb-4"
+                    placeholder="Income statement, balance sheet and cash flow pages..."
+                  />
+                  <button
+                    onClick={handleFilingSubmit}
+                    disabled={filingExtracting || (!filingDocument && !filingPaste.trim())}
+                    className="w-full bg-red-900 hover:bg-red-800 text-white font-mono text-xs py-3 uppercase tracking-wider disabled:opacity-50"
+                  >
+                    {filingExtracting ? 'Extracting...' : 'Extract Statements'}
+                  </button>
+                </div>
+                <div className="col-span-8 h-full min-h-0">
+                  {filingStatements && filingDocument ? (
+                    <FinancialStatementsView statements={filingStatements} filing={filingDocument} />
+                  ) : (
+                    <div className="bg-[#0c0c0c] border border-gray-800 h-full flex items-center justify-center font-mono text-xs text-gray-600">
+                      {filingExtracting ? 'Reading statements...' : 'Load a filing to extract income statement, balance sheet and cash flow lines.'}
+                    </div>
+                  )}
+                </div>
+              </div>
+            ) : (
+              <div className="grid grid-cols-12 flex-1 min-h-0 gap-4">
+                <div className="col-span-4 bg-[#0c0c0c] border border-gray-800 p-6 flex flex-col">
+                  <h3 className="text-lg font-light text-white mb-6">Data Analysis</h3>
+              
+                  <div 
+                    className="border-2 border-dashed border-gray-700 rounded-lg p-8 flex flex-col items-center justify-center cursor-pointer hover:border-gray-500 transition-colors bg-black mb-4 flex-1 max-h-64"
+                    onClick={() => fileInputRef.current?.click()}
+                  >
+                    {analysisAttachment && analysisAttachment.dataUrl.startsWith('data:image/') ? (
+                      <img src={analysisAttachment.dataUrl} alt="Analysis Target" className="max-h-full object-contain" />
+                    ) : analysisAttachment || analysisDataset ? (
+                      <>
+                        <UploadIcon className="w-10 h-10 text-gray-600 mb-2" />
+                        <span className="text-xs text-white font-mono text-center break-all">{analysisAttachment?.name ?? analysisDataset?.name}</span>
+                        <span className="text-[10px] text-gray-500 font-mono mt-1">
+                          {analysisDataset ? `${analysisDataset.format.toUpperCase()} · ${analysisDataset.rows.length} ROWS · ${analysisDataset.columns.length} COLUMNS` : 'PDF DOCUMENT'}
+                        </span>
+                      </>
+                    ) : (
+                      <>
+                        <UploadIcon className="w-10 h-10 text-gray-600 mb-2" />
+                        <span className="text-xs text-gray-500 font-mono">UPLOAD CHART, PDF OR DATASET</span>
+                        <span className="text-[10px] text-gray-600 font-mono mt-1">PNG · JPEG · WEBP · PDF · CSV · XLSX · JSON</span>
+                      </>
+                    )}
+                    <input
+                      type="file"
+                      ref={fileInputRef}
+                      className="hidden"
+                      accept="image/*,application/pdf,.csv,.tsv,.txt,.xlsx,.json"
+                      onChange={handleFileUpload}
+                    />
+                  </div>
+
+                  <div className="space-y-4">
+                     <div>
+                      <label className="block text-xs font-mono text-gray-500 mb-2">ANALYSIS DIRECTIVE</label>
+                      <input 
+                        type="text" 
+                        value={analysisPrompt}
+                        onChange={(e) => setAnalysisPrompt(e.target.value)}
+                        className="w-full bg-black border border-gray-700 text-white p-3 text-sm focus:border-red-500 focus:outline-none font-mono"
+                        placeholder={analysisDataset ? "Questions about the data..." : "Specific patterns to look for..."}
+                      />
+                    </div>
+                    {analysisDataset && (
+                      <div className="flex space-x-4 text-xs text-gray-500 font-mono">
+                        {(['summary', 'full'] as const).map(mode => (
+                          <label key={mode} className="flex items-center space-x-2 cursor-pointer">
+                            <input
+                              type="radio"
+                              checked={analysisSendMode === mode}
+                              onChange={() => setAnalysisSendMode(mode)}
+                              className="accent-red-600"
+                            />
+                            <span>{mode === 'summary' ? 'Send schema, stats & sample' : 'Send full data'}</span>
+                          </label>
+                        ))}
+                      </div>
+                    )}
+                    <label className="flex items-center space-x-2 text-xs text-gray-500 font-mono cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={analysisAttachIndicators}
+                        onChange={(e) => setAnalysisAttachIndicators(e.target.checked)}
+                        className="accent-red-600"
+                      />
+                      <span>Attach computed indicators for {marketSymbol} ({marketInterval})</span>
+                    </label>
+                     <button 
+                      onClick={handleAnalysisSubmit}
+                      disabled={analysisLoading || (!analysisAttachment && !analysisDataset)}
+                      className="w-full bg-red-900 hover:bg-red-800 text-white font-mono text-xs py-3 uppercase tracking-wider disabled:opacity-50"
+                    >
+                      {analysisLoading ? 'Analyzing...' : analysisDataset ? 'Analyze Dataset' : 'Run Vision Model'}
+                    </button>
+                  </div>
+                </div>
+                <div className="col-span-8 h-full flex flex-col gap-4 min-h-0">
+                  {analysisDataset && (
+                    <div className="flex-1 min-h-0">
+                      <DatasetView dataset={analysisDataset} stats={analysisStats} />
+                    </div>
+                  )}
+                  <div className={analysisDataset ? 'h-2/5 min-h-0' : 'h-full'}>
+                    {renderAnalysisOutput()}
+                  </div>
+                </div>
+              </div>
+            )}
+          </div>
+        );
+
+      // Backtest View
+      case ModuleType.BACKTEST:
+        return (
+          <BacktestView
+            symbol={series.symbol}
+            interval={marketInterval}
+            candles={series.candles}
+            symbols={watchlist}
+            onSymbolChange={paneSymbolSetter(pane)}
+            onLog={addLog}
+          />
+        );
+
+      // Portfolio View
+      case ModuleType.PORTFOLIO:
+        return (
+          <PortfolioView
+            positions={positions}
+            analysis={portfolioAnalysis}
+            loading={portfolioLoading}
+            benchmark={benchmark}
+            onBenchmarkChange={setBenchmark}
+            onPositionsChange={setPositions}
+            onLog={addLog}
+          />
+        );
+
+      // Valuation View
+      case ModuleType.VALUATION:
+        return (
+          <ValuationView
+            valuations={valuations}
+            activeId={activeValuationId}
+            onSelect={setActiveValuationId}
+            onChange={setValuations}
+            deals={dealPipeline}
+            filings={savedFilings}
+            suggesting={valuationSuggesting}
+            onSuggest={handleValuationSuggest}
+            onLog={addLog}
+          />
+        );
+
+      // Scenario View
+      case ModuleType.SCENARIO:
+        return (
+          <ScenarioView
+            scenarios={scenarios}
+            activeId={activeScenarioId}
+            onSelect={setActiveScenarioId}
+            onChange={setScenarios}
+            exposures={scenarioExposures}
+            onSensitivityChange={handleScenarioSensitivity}
+            onAddExposure={(exposure) => setCustomExposures(prev => [...prev, exposure])}
+            onRemoveExposure={(id) => setCustomExposures(prev => prev.filter(e => e.id !== id))}
+            proposing={scenarioProposing}
+            onPropose={handleScenarioPropose}
+            narrating={scenarioNarrating}
+            onNarrate={handleScenarioNarrate}
+            onLog={addLog}
+          />
+        );
+
+      case 'CHART':
+        return renderChart(pane, 'h-full');
+      case 'WATCHLIST':
+        return renderWatchlist(pane);
+      case 'NEWS':
+        return renderNews(pane);
+      case 'QUANT_THREAD':
+        return renderQuantThread();
+      case 'DEAL_OUTPUT':
+        return renderDealOutput();
+      case 'RESOURCE_OUTPUT':
+        return renderResourceOutput();
+      case 'ANALYSIS_OUTPUT':
+        return renderAnalysisOutput();
+    }
   };
 
   const NavButton = ({ id, icon: Icon, label }: { id: ModuleType, icon: any, label: string }) => (
     <button
-      onClick={() => setActiveModule(id)}
+      onClick={() => openModule(id)}
       className={`w-full flex items-center space-x-3 px-4 py-3 text-sm font-medium transition-colors ${
         activeModule === id 
           ? 'bg-[#1e293b] text-white border-r-2 border-blue-500' 
@@ -151,6 +2015,7 @@ export default function App() {
     >
       <Icon className="w-5 h-5" />
       <span>{label}</span>
+      <span className="ml-auto text-[10px] font-mono text-gray-600">{hotkeyLabel(id)}</span>
     </button>
   );
 
@@ -166,8 +2031,8 @@ export default function App() {
             <span className="font-bold text-lg tracking-tight text-white">QUANT<span className="text-blue-500">CORE</span></span>
           </div>
           <div className="mt-2 flex items-center space-x-2 text-xs text-gray-500">
-             <div className="w-2 h-2 rounded-full bg-green-500 animate-pulse"></div>
-             <span>SYSTEM ONLINE</span>
+             <div className={`w-2 h-2 rounded-full ${linkState === 'OFFLINE' || linkState === 'AUTH ERROR' ? 'bg-red-500' : linkState === 'DEGRADED' ? 'bg-yellow-500 animate-pulse' : 'bg-green-500 animate-pulse'}`}></div>
+             <span>{linkState === 'OFFLINE' ? 'SYSTEM OFFLINE' : linkState === 'AUTH ERROR' || linkState === 'DEGRADED' ? 'SYSTEM DEGRADED' : 'SYSTEM ONLINE'}</span>
           </div>
         </div>
         
@@ -177,6 +2042,10 @@ export default function App() {
           <NavButton id={ModuleType.DEAL_FLOW} icon={SearchIcon} label="Deal Sourcing" />
           <NavButton id={ModuleType.RESOURCE_MAP} icon={MapIcon} label="Global Resources" />
           <NavButton id={ModuleType.DATA_LAB} icon={UploadIcon} label="Data Lab" />
+          <NavButton id={ModuleType.BACKTEST} icon={RewindIcon} label="Backtester" />
+          <NavButton id={ModuleType.PORTFOLIO} icon={BriefcaseIcon} label="Portfolio" />
+          <NavButton id={ModuleType.VALUATION} icon={CalculatorIcon} label="Valuation" />
+          <NavButton id={ModuleType.SCENARIO} icon={ZapIcon} label="Scenarios" />
         </nav>
 
         <div className="p-4 border-t border-gray-800">
@@ -185,7 +2054,7 @@ export default function App() {
             {systemLogs.map(log => (
               <div key={log.id} className="flex space-x-2">
                 <span className="text-gray-600">{log.timestamp}</span>
-                <span className={log.level === 'INFO' ? 'text-blue-500' : 'text-yellow-500'}>{log.level}</span>
+                <span className={log.level === 'INFO' ? 'text-blue-500' : log.level === 'CRIT' ? 'text-red-500' : 'text-yellow-500'}>{log.level}</span>
                 <span className="text-gray-400 truncate">{log.message}</span>
               </div>
             ))}
@@ -198,248 +2067,173 @@ export default function App() {
         {/* Header */}
         <header className="h-16 bg-[#0a0a0a] border-b border-gray-800 flex items-center justify-between px-6">
           <h1 className="text-xl font-semibold text-white tracking-wide">
-            {activeModule === ModuleType.DASHBOARD && "MARKET OVERVIEW // S&P 500"}
+            {activeModule === ModuleType.DASHBOARD && `MARKET OVERVIEW // ${paneSeries(focusedPane).symbol}`}
             {activeModule === ModuleType.QUANT_PREDICT && "QUANTITATIVE MODELS // ALPHA GENERATION"}
             {activeModule === ModuleType.DEAL_FLOW && "PRIVATE EQUITY // DEAL FLOW"}
             {activeModule === ModuleType.RESOURCE_MAP && "COMMODITIES // GEOSPATIAL INTELLIGENCE"}
             {activeModule === ModuleType.DATA_LAB && "DATA LAB // PATTERN RECOGNITION"}
+            {activeModule === ModuleType.BACKTEST && `BACKTESTER // ${paneSeries(focusedPane).symbol} ${marketInterval}`}
+            {activeModule === ModuleType.PORTFOLIO && "PORTFOLIO // RISK & EXPOSURE"}
+            {activeModule === ModuleType.VALUATION && "VALUATION // DCF & COMPARABLES"}
+            {activeModule === ModuleType.SCENARIO && "SCENARIOS // MACRO STRESS TESTS"}
           </h1>
           <div className="flex items-center space-x-4">
-            <span className="text-xs text-gray-500 font-mono">GEMINI-3-PRO: CONNECTED</span>
+            <span className={`text-xs font-mono ${linkState === 'CONNECTED' || linkState === 'IDLE' ? 'text-gray-500' : linkState === 'DEGRADED' ? 'text-yellow-500' : 'text-red-500'}`}>
+              {llmProvider.id === 'mock' ? 'MOCK PROVIDER' : llmProvider.name.toUpperCase()}: {linkState}
+            </span>
+            <div className="w-px h-4 bg-gray-700"></div>
+            <button
+              onClick={() => setUsageOpen(open => !open)}
+              className={`text-xs font-mono ${usageOpen ? 'text-white' : 'text-gray-500'} hover:text-white`}
+              title="Model usage and budget"
+            >
+              LATENCY: {latency === null ? '--' : `${latency}ms`}
+              <span className={`ml-3 ${overBudget ? 'text-red-500' : ''}`}>
+                TODAY: {formatUsd(spent)}{budget.dailyLimitUsd > 0 && ` / ${formatUsd(budget.dailyLimitUsd)}`}
+              </span>
+            </button>
+            {historyModule && (
+              <>
+                <div className="w-px h-4 bg-gray-700"></div>
+                <button
+                  onClick={() => setHistoryOpen(open => !open)}
+                  className={`text-xs font-mono ${historyOpen ? 'text-white' : 'text-gray-500'} hover:text-white`}
+                  title="Run history"
+                >
+                  HISTORY ({history.length})
+                </button>
+              </>
+            )}
+            <div className="w-px h-4 bg-gray-700"></div>
+            <button
+              onClick={() => setLayoutsOpen(open => !open)}
+              className={`text-xs font-mono ${layoutsOpen ? 'text-white' : 'text-gray-500'} hover:text-white`}
+              title="Saved layouts"
+            >
+              LAYOUT
+            </button>
+            <div className="w-px h-4 bg-gray-700"></div>
+            <button
+              onClick={() => setAlertsOpen(open => !open)}
+              className={`flex items-center space-x-1 text-xs font-mono ${alertsOpen ? 'text-white' : 'text-gray-500'} hover:text-white`}
+              title="Alerts"
+            >
+              <BellIcon className="w-4 h-4" />
+              <span>{alerts.rules.filter(r => !r.muted).length}</span>
+            </button>
             <div className="w-px h-4 bg-gray-700"></div>
-            <span className="text-xs text-gray-500 font-mono">LATENCY: 14ms</span>
+            <button
+              onClick={() => setSettingsOpen(open => !open)}
+              className={`${settingsOpen ? 'text-white' : 'text-gray-500'} hover:text-white`}
+              title="Model settings"
+            >
+              <SlidersIcon className="w-4 h-4" />
+            </button>
           </div>
         </header>
 
+        <CommandBar
+          symbols={commandSymbols}
+          history={commandHistory}
+          onCommand={handleCommand}
+          onModule={openModule}
+        />
+
         {/* Content Area */}
         <div className="flex-1 p-6 overflow-hidden relative">
-          
-          {/* Dashboard View */}
-          {activeModule === ModuleType.DASHBOARD && (
-            <div className="grid grid-cols-12 grid-rows-2 h-full gap-4">
-              {/* Main Chart */}
-              <div className="col-span-8 row-span-2 bg-[#0c0c0c] border border-gray-800 p-4 flex flex-col">
-                <div className="flex justify-between items-center mb-4">
-                   <h3 className="text-sm font-bold text-gray-400">SPX INDEX - LIVE</h3>
-                   <div className="flex space-x-2">
-                     <span className="text-xs bg-green-900 text-green-300 px-2 py-0.5 rounded">+1.24%</span>
-                   </div>
-                </div>
-                <div className="flex-1 w-full min-h-0">
-                  <ResponsiveContainer width="100%" height="100%">
-                    <AreaChart data={mockStockData}>
-                      <defs>
-                        <linearGradient id="colorPrice" x1="0" y1="0" x2="0" y2="1">
-                          <stop offset="5%" stopColor="#3b82f6" stopOpacity={0.3}/>
-                          <stop offset="95%" stopColor="#3b82f6" stopOpacity={0}/>
-                        </linearGradient>
-                      </defs>
-                      <CartesianGrid strokeDasharray="3 3" stroke="#222" />
-                      <XAxis dataKey="time" stroke="#444" tick={{fontSize: 10}} />
-                      <YAxis stroke="#444" domain={['auto', 'auto']} tick={{fontSize: 10}} />
-                      <Tooltip 
-                        contentStyle={{backgroundColor: '#111', borderColor: '#333', color: '#eee'}}
-                        itemStyle={{color: '#3b82f6'}}
-                      />
-                      <Area type="monotone" dataKey="price" stroke="#3b82f6" fillOpacity={1} fill="url(#colorPrice)" strokeWidth={2} />
-                    </AreaChart>
-                  </ResponsiveContainer>
-                </div>
-              </div>
-
-              {/* News Feed */}
-              <div className="col-span-4 row-span-2 bg-[#0c0c0c] border border-gray-800 flex flex-col">
-                <div className="bg-[#151515] px-4 py-2 border-b border-gray-800 flex justify-between items-center">
-                  <h3 className="text-xs font-bold text-gray-400">MARKET INTELLIGENCE</h3>
-                  <span className="text-[10px] text-gray-600">LIVE FEED</span>
-                </div>
-                <div className="p-4 font-mono text-xs leading-relaxed text-gray-400 whitespace-pre-wrap flex-1 overflow-y-auto">
-                  {headlines}
-                </div>
-              </div>
-            </div>
+          {historyOpen && historyModule && (
+            <HistorySidebar
+              title={HISTORY_TITLES[historyModule]}
+              entries={history}
+              workspaces={workspaces}
+              workspaceId={workspaceId}
+              onWorkspaceChange={setWorkspaceId}
+              onWorkspaceCreate={handleWorkspaceCreate}
+              onWorkspaceRename={handleWorkspaceRename}
+              onWorkspaceDelete={handleWorkspaceDelete}
+              onOpen={handleHistoryOpen}
+              onRerun={handleHistoryRerun}
+              onDelete={handleHistoryDelete}
+              onClose={() => setHistoryOpen(false)}
+            />
           )}
-
-          {/* Quant Prediction View */}
-          {activeModule === ModuleType.QUANT_PREDICT && (
-            <div className="grid grid-cols-12 h-full gap-4">
-              <div className="col-span-4 flex flex-col space-y-4">
-                <div className="bg-[#0c0c0c] border border-gray-800 p-6 flex-1">
-                  <h3 className="text-lg font-light text-white mb-6">Prediction Parameters</h3>
-                  <form onSubmit={handleQuantSubmit} className="space-y-4">
-                    <div>
-                      <label className="block text-xs font-mono text-gray-500 mb-2">TARGET ASSET / SCENARIO</label>
-                      <textarea
-                        value={quantQuery}
-                        onChange={(e) => setQuantQuery(e.target.value)}
-                        className="w-full h-32 bg-black border border-gray-700 text-white p-3 text-sm focus:border-blue-500 focus:outline-none font-mono resize-none"
-                        placeholder="e.g. Predict the impact of a rate cut on US Tech Small Caps over the next quarter..."
-                      />
-                    </div>
-                    <div className="flex items-center space-x-2 text-xs text-gray-500 mb-4">
-                      <BrainIcon className="w-4 h-4 text-purple-500" />
-                      <span>Thinking Mode (Budget: 32k tokens) Active</span>
-                    </div>
-                    <button 
-                      type="submit" 
-                      disabled={quantLoading}
-                      className="w-full bg-blue-700 hover:bg-blue-600 text-white font-mono text-xs py-3 uppercase tracking-wider disabled:opacity-50"
-                    >
-                      {quantLoading ? 'Processing Model...' : 'Execute Model'}
-                    </button>
-                  </form>
-                </div>
-                <div className="bg-[#0c0c0c] border border-gray-800 p-4 h-1/3">
-                  <h4 className="text-xs font-bold text-gray-500 mb-2">MODEL STATUS</h4>
-                  <div className="grid grid-cols-2 gap-2 text-xs font-mono">
-                    <div className="text-gray-600">Model:</div><div className="text-right text-green-500">Gemini 3 Pro</div>
-                    <div className="text-gray-600">Budget:</div><div className="text-right">32,768 T</div>
-                    <div className="text-gray-600">Context:</div><div className="text-right">1M</div>
-                    <div className="text-gray-600">Load:</div><div className="text-right">Optimized</div>
-                  </div>
-                </div>
-              </div>
-              <div className="col-span-8 h-full">
-                <TerminalOutput 
-                  title="QUANT_OUTPUT_STREAM" 
-                  content={quantResult || "Awaiting input parameters..."} 
-                  loading={quantLoading} 
-                />
-              </div>
-            </div>
+          {activeMemo && (
+            <MemoEditor
+              memo={activeMemo}
+              onChange={(memo) => setMemos(prev => prev.map(m => m.id === memo.id ? memo : m))}
+              onDelete={(id) => {
+                setMemos(prev => prev.filter(m => m.id !== id));
+                setActiveMemoId(null);
+              }}
+              onClose={() => setActiveMemoId(null)}
+              onLog={addLog}
+            />
           )}
-
-          {/* Deal Flow View */}
-          {activeModule === ModuleType.DEAL_FLOW && (
-            <div className="grid grid-cols-12 h-full gap-4">
-              <div className="col-span-4 bg-[#0c0c0c] border border-gray-800 p-6">
-                <h3 className="text-lg font-light text-white mb-6">Deal Sourcing</h3>
-                <form onSubmit={handleDealSubmit} className="space-y-6">
-                  <div>
-                    <label className="block text-xs font-mono text-gray-500 mb-2">TARGET SECTOR / THESIS</label>
-                    <input 
-                      type="text" 
-                      value={dealSector}
-                      onChange={(e) => setDealSector(e.target.value)}
-                      className="w-full bg-black border border-gray-700 text-white p-3 text-sm focus:border-green-500 focus:outline-none font-mono"
-                      placeholder="e.g. Series A Fintech in Southeast Asia"
-                    />
-                  </div>
-                  <button 
-                    type="submit"
-                    disabled={dealLoading}
-                    className="w-full bg-green-800 hover:bg-green-700 text-white font-mono text-xs py-3 uppercase tracking-wider disabled:opacity-50"
-                  >
-                    {dealLoading ? 'Scanning Markets...' : 'Scan Markets'}
-                  </button>
-                </form>
-                <div className="mt-8 border-t border-gray-800 pt-6">
-                  <h4 className="text-xs font-mono text-gray-500 mb-4">RECENT ACTIVITY</h4>
-                  <div className="space-y-2 text-xs text-gray-600 font-mono">
-                     <p>> Scanning global venture data...</p>
-                     <p>> Indexing crunchbase feeds...</p>
-                     <p>> Ready for query.</p>
-                  </div>
-                </div>
-              </div>
-              <div className="col-span-8 h-full">
-                <TerminalOutput 
-                  title="DEAL_MEMO" 
-                  content={dealResult?.text || "System idle. Enter sector to begin search."} 
-                  loading={dealLoading}
-                  groundingChunks={dealResult?.groundingChunks}
-                />
-              </div>
-            </div>
+          {usageOpen && (
+            <UsagePanel
+              records={telemetry.records}
+              budget={budget}
+              onBudgetChange={setBudget}
+              onClear={clearCallRecords}
+              onClose={() => setUsageOpen(false)}
+            />
           )}
-
-          {/* Resource Map View */}
-          {activeModule === ModuleType.RESOURCE_MAP && (
-            <div className="grid grid-cols-12 h-full gap-4">
-               <div className="col-span-4 bg-[#0c0c0c] border border-gray-800 p-6">
-                <h3 className="text-lg font-light text-white mb-6">Commodity Tracking</h3>
-                <form onSubmit={handleResourceSubmit} className="space-y-6">
-                  <div>
-                    <label className="block text-xs font-mono text-gray-500 mb-2">RESOURCE / ASSET TYPE</label>
-                    <input 
-                      type="text" 
-                      value={resourceType}
-                      onChange={(e) => setResourceType(e.target.value)}
-                      className="w-full bg-black border border-gray-700 text-white p-3 text-sm focus:border-yellow-600 focus:outline-none font-mono"
-                      placeholder="e.g. Lithium mines in South America"
-                    />
-                  </div>
-                  <button 
-                    type="submit"
-                    disabled={resourceLoading}
-                    className="w-full bg-yellow-800 hover:bg-yellow-700 text-white font-mono text-xs py-3 uppercase tracking-wider disabled:opacity-50"
-                  >
-                    {resourceLoading ? 'Triangulating...' : 'Locate Assets'}
-                  </button>
-                </form>
-              </div>
-              <div className="col-span-8 h-full">
-                <TerminalOutput 
-                  title="GEOSPATIAL_REPORT" 
-                  content={resourceResult?.text || "Awaiting resource designation..."} 
-                  loading={resourceLoading}
-                  groundingChunks={resourceResult?.groundingChunks}
-                />
-              </div>
-            </div>
+          {alertsOpen && (
+            <AlertManager
+              rules={alerts.rules}
+              events={alerts.events}
+              notifications={alerts.notifications}
+              defaultSymbol={marketSymbol}
+              onAdd={(rule) => {
+                alerts.addRule(rule);
+                addLog(`Alert added: ${rule.name}`, 'INFO');
+              }}
+              onUpdate={alerts.updateRule}
+              onRemove={alerts.removeRule}
+              onClearEvents={alerts.clearEvents}
+              onNotificationsChange={alerts.setNotifications}
+              onClose={() => setAlertsOpen(false)}
+            />
           )}
-
-          {/* Data Lab View */}
-          {activeModule === ModuleType.DATA_LAB && (
-            <div className="grid grid-cols-12 h-full gap-4">
-              <div className="col-span-5 bg-[#0c0c0c] border border-gray-800 p-6 flex flex-col">
-                <h3 className="text-lg font-light text-white mb-6">Visual Data Analysis</h3>
-                
-                <div 
-                  className="border-2 border-dashed border-gray-700 rounded-lg p-8 flex flex-col items-center justify-center cursor-pointer hover:border-gray-500 transition-colors bg-black mb-4 flex-1 max-h-64"
-                  onClick={() => fileInputRef.current?.click()}
-                >
-                  {analysisImage ? (
-                    <img src={analysisImage} alt="Analysis Target" className="max-h-full object-contain" />
-                  ) : (
-                    <>
-                      <UploadIcon className="w-10 h-10 text-gray-600 mb-2" />
-                      <span className="text-xs text-gray-500 font-mono">UPLOAD CHART / DATA VISUALIZATION</span>
-                    </>
-                  )}
-                  <input type="file" ref={fileInputRef} className="hidden" accept="image/*" onChange={handleFileUpload} />
-                </div>
-
-                <div className="space-y-4">
-                   <div>
-                    <label className="block text-xs font-mono text-gray-500 mb-2">ANALYSIS DIRECTIVE</label>
-                    <input 
-                      type="text" 
-                      value={analysisPrompt}
-                      onChange={(e) => setAnalysisPrompt(e.target.value)}
-                      className="w-full bg-black border border-gray-700 text-white p-3 text-sm focus:border-red-500 focus:outline-none font-mono"
-                      placeholder="Specific patterns to look for..."
-                    />
-                  </div>
-                   <button 
-                    onClick={handleAnalysisSubmit}
-                    disabled={analysisLoading || !analysisImage}
-                    className="w-full bg-red-900 hover:bg-red-800 text-white font-mono text-xs py-3 uppercase tracking-wider disabled:opacity-50"
-                  >
-                    {analysisLoading ? 'Analyzing Pattern...' : 'Run Vision Model'}
-                  </button>
-                </div>
-              </div>
-              <div className="col-span-7 h-full">
-                <TerminalOutput 
-                  title="PATTERN_RECOGNITION_OUTPUT" 
-                  content={analysisResult || "No image data loaded."} 
-                  loading={analysisLoading}
-                />
-              </div>
-            </div>
+          {layoutsOpen && (
+            <LayoutManager
+              layouts={savedLayouts}
+              current={layout}
+              onSave={(name) => {
+                setSavedLayouts(prev => saveLayout(prev, name, layout));
+                addLog(`Layout saved: ${name.trim()}`, 'INFO');
+              }}
+              onLoad={(root, name) => applyLayout(normalizeLayout(root) ?? defaultLayout(marketSymbol), name)}
+              onPreset={(index) => applyLayout(LAYOUT_PRESETS[index].build(marketSymbol), LAYOUT_PRESETS[index].name)}
+              onDelete={(id) => setSavedLayouts(prev => prev.filter(l => l.id !== id))}
+              onClose={() => setLayoutsOpen(false)}
+            />
           )}
-
+          {settingsOpen && (
+            <SettingsPanel
+              settings={modelSettings}
+              onChange={(settings) => {
+                setModelSettings(settings);
+                addLog(`Model settings updated: ${getProvider(settings.providerId).name}`, 'INFO');
+              }}
+              onClose={() => setSettingsOpen(false)}
+            />
+          )}
+          
+          <LayoutView
+            root={layout}
+            focusedId={focusedPane.id}
+            symbol={marketSymbol}
+            renderPanel={renderPanel}
+            onFocus={setFocusedPaneId}
+            onSelectTab={(paneId, index) => setLayout(prev => updatePane(prev, paneId, { active: index }))}
+            onCloseTab={(paneId, index) => setLayout(prev => closeTab(prev, paneId, index, marketSymbol))}
+            onAddTab={(paneId, kind) => setLayout(prev => addTab(prev, paneId, kind))}
+            onSplit={(paneId, zone, kind) => setLayout(prev => splitPane(prev, paneId, zone, kind, marketSymbol))}
+            onMoveTab={(fromId, index, toId, zone) => setLayout(prev => moveTab(prev, fromId, index, toId, zone, marketSymbol))}
+            onResize={(splitId, sizes) => setLayout(prev => resizeSplit(prev, splitId, sizes))}
+            onLinkChange={handlePaneLink}
+          />
         </div>
       </main>
     </div>
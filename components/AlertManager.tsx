@@ -0,0 +1,254 @@
+import React, { useState } from 'react';
+import { AlertCondition, AlertEvent, AlertKind, AlertRule, DealStage, IndicatorField, LogEntry, RuleComparator } from '../types';
+import { ALERT_KINDS, createAlertRule, describeCondition, notificationsSupported } from '../services/alertService';
+import { DEAL_STAGES, parseTags } from '../services/dealPipelineService';
+
+interface AlertManagerProps {
+  rules: AlertRule[];
+  events: AlertEvent[];
+  notifications: boolean;
+  defaultSymbol: string;
+  onAdd: (rule: AlertRule) => void;
+  onUpdate: (id: string, changes: Partial<Omit<AlertRule, 'id' | 'createdAt'>>) => void;
+  onRemove: (id: string) => void;
+  onClearEvents: () => void;
+  onNotificationsChange: (enabled: boolean) => void;
+  onClose: () => void;
+}
+
+const FIELDS: IndicatorField[] = ['close', 'volume', 'sma', 'ema', 'bbUpper', 'bbLower', 'vwap', 'rsi', 'macd', 'macdHist', 'atr'];
+const COMPARATORS: RuleComparator[] = ['>', '<', 'crossesAbove', 'crossesBelow'];
+const LEVELS: LogEntry['level'][] = ['INFO', 'WARN', 'CRIT'];
+
+const LEVEL_STYLES: Record<LogEntry['level'], string> = {
+  INFO: 'text-blue-500',
+  WARN: 'text-yellow-500',
+  CRIT: 'text-red-500',
+};
+
+const inputClass = "bg-black border border-gray-700 text-white px-2 py-1 text-xs focus:border-blue-500 focus:outline-none font-mono";
+
+interface Draft {
+  kind: AlertKind;
+  name: string;
+  level: LogEntry['level'];
+  symbol: string;
+  direction: 'above' | 'below' | 'up' | 'down' | 'either';
+  value: string;
+  field: IndicatorField;
+  comparator: RuleComparator;
+  keywords: string;
+  stage: DealStage | '';
+  company: string;
+}
+
+// Returns null while required fields are missing or not numeric
+const draftCondition = (d: Draft): AlertCondition | null => {
+  const symbol = d.symbol.trim().toUpperCase();
+  const value = Number(d.value);
+  const numeric = d.value.trim() !== '' && Number.isFinite(value);
+  switch (d.kind) {
+    case 'PRICE_CROSS':
+      return symbol && numeric ? { kind: 'PRICE_CROSS', symbol, direction: d.direction === 'below' ? 'below' : 'above', level: value } : null;
+    case 'PERCENT_MOVE':
+      return symbol && numeric && value > 0
+        ? { kind: 'PERCENT_MOVE', symbol, direction: d.direction === 'up' || d.direction === 'down' ? d.direction : 'either', percent: value }
+        : null;
+    case 'INDICATOR':
+      return symbol && numeric ? { kind: 'INDICATOR', symbol, field: d.field, comparator: d.comparator, value } : null;
+    case 'NEWS_KEYWORD': {
+      const keywords = parseTags(d.keywords);
+      return keywords.length ? { kind: 'NEWS_KEYWORD', keywords } : null;
+    }
+    case 'DEAL_STAGE':
+      return { kind: 'DEAL_STAGE', stage: d.stage || null, company: d.company.trim() };
+  }
+};
+
+const AlertManager: React.FC<AlertManagerProps> = ({
+  rules, events, notifications, defaultSymbol, onAdd, onUpdate, onRemove, onClearEvents, onNotificationsChange, onClose,
+}) => {
+  const [tab, setTab] = useState<'rules' | 'history'>('rules');
+  const [draft, setDraft] = useState<Draft>({
+    kind: 'PRICE_CROSS', name: '', level: 'WARN', symbol: defaultSymbol, direction: 'above', value: '',
+    field: 'rsi', comparator: 'crossesAbove', keywords: '', stage: '', company: '',
+  });
+  const condition = draftCondition(draft);
+  const market = draft.kind === 'PRICE_CROSS' || draft.kind === 'PERCENT_MOVE' || draft.kind === 'INDICATOR';
+
+  const set = (changes: Partial<Draft>) => setDraft(prev => ({ ...prev, ...changes }));
+
+  const setKind = (kind: AlertKind) =>
+    set({ kind, direction: kind === 'PERCENT_MOVE' ? 'either' : 'above', value: '' });
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!condition) return;
+    onAdd(createAlertRule(condition, draft.name, draft.level));
+    set({ name: '', value: '', keywords: '', company: '' });
+  };
+
+  const tabClass = (active: boolean) =>
+    `px-3 py-1 border ${active ? 'border-blue-700 text-white bg-blue-900/30' : 'border-gray-800 text-gray-500 hover:text-gray-300'}`;
+
+  return (
+    <div className="absolute right-6 top-2 z-20 w-[30rem] max-h-[calc(100%-1rem)] flex flex-col bg-[#0c0c0c] border border-gray-700 shadow-2xl font-mono text-xs">
+      <div className="bg-[#1a1a1a] px-4 py-2 flex justify-between items-center border-b border-gray-800">
+        <span className="text-xs font-bold text-gray-400 uppercase tracking-wider">Alerts</span>
+        <div className="flex items-center space-x-3">
+          {notificationsSupported() && (
+            <label className="flex items-center space-x-1 text-[10px] text-gray-500">
+              <input type="checkbox" checked={notifications} onChange={(e) => onNotificationsChange(e.target.checked)} />
+              <span>BROWSER NOTIFICATIONS</span>
+            </label>
+          )}
+          <button onClick={onClose} className="text-gray-500 hover:text-white text-sm" title="Close">×</button>
+        </div>
+      </div>
+
+      <div className="px-4 pt-3 flex space-x-2 text-[10px]">
+        <button onClick={() => setTab('rules')} className={tabClass(tab === 'rules')}>RULES ({rules.length})</button>
+        <button onClick={() => setTab('history')} className={tabClass(tab === 'history')}>HISTORY ({events.length})</button>
+      </div>
+
+      {tab === 'rules' && (
+        <div className="flex-1 overflow-y-auto min-h-0 p-4 space-y-4">
+          <form onSubmit={handleAdd} className="space-y-2 border border-gray-800 p-3">
+            <div className="flex space-x-2">
+              <select value={draft.kind} onChange={(e) => setKind(e.target.value as AlertKind)} className={`${inputClass} flex-1`}>
+                {ALERT_KINDS.map(k => <option key={k.id} value={k.id}>{k.label}</option>)}
+              </select>
+              <select value={draft.level} onChange={(e) => set({ level: e.target.value as LogEntry['level'] })} className={inputClass}>
+                {LEVELS.map(l => <option key={l} value={l}>{l}</option>)}
+              </select>
+            </div>
+
+            <div className="flex space-x-2">
+              {market && (
+                <input value={draft.symbol} onChange={(e) => set({ symbol: e.target.value })} placeholder="SYMBOL" className={`${inputClass} w-20 uppercase`} />
+              )}
+              {draft.kind === 'PRICE_CROSS' && (
+                <select value={draft.direction} onChange={(e) => set({ direction: e.target.value as Draft['direction'] })} className={inputClass}>
+                  <option value="above">crosses above</option>
+                  <option value="below">crosses below</option>
+                </select>
+              )}
+              {draft.kind === 'PERCENT_MOVE' && (
+                <select value={draft.direction} onChange={(e) => set({ direction: e.target.value as Draft['direction'] })} className={inputClass}>
+                  <option value="either">moves ±</option>
+                  <option value="up">rises</option>
+                  <option value="down">falls</option>
+                </select>
+              )}
+              {draft.kind === 'INDICATOR' && (
+                <>
+                  <select value={draft.field} onChange={(e) => set({ field: e.target.value as IndicatorField })} className={inputClass}>
+                    {FIELDS.map(f => <option key={f} value={f}>{f}</option>)}
+                  </select>
+                  <select value={draft.comparator} onChange={(e) => set({ comparator: e.target.value as RuleComparator })} className={inputClass}>
+                    {COMPARATORS.map(c => <option key={c} value={c}>{c}</option>)}
+                  </select>
+                </>
+              )}
+              {market && (
+                <input
+                  type="number"
+                  step="any"
+                  value={draft.value}
+                  onChange={(e) => set({ value: e.target.value })}
+                  placeholder={draft.kind === 'PERCENT_MOVE' ? '%' : 'VALUE'}
+                  className={`${inputClass} w-24`}
+                />
+              )}
+              {draft.kind === 'NEWS_KEYWORD' && (
+                <input
+                  value={draft.keywords}
+                  onChange={(e) => set({ keywords: e.target.value })}
+                  placeholder="keywords, comma separated"
+                  className={`${inputClass} flex-1`}
+                />
+              )}
+              {draft.kind === 'DEAL_STAGE' && (
+                <>
+                  <input value={draft.company} onChange={(e) => set({ company: e.target.value })} placeholder="Company (any)" className={`${inputClass} flex-1`} />
+                  <select value={draft.stage} onChange={(e) => set({ stage: e.target.value as Draft['stage'] })} className={inputClass}>
+                    <option value="">any stage</option>
+                    {DEAL_STAGES.map(s => <option key={s.id} value={s.id}>{s.label}</option>)}
+                  </select>
+                </>
+              )}
+            </div>
+
+            <div className="flex space-x-2">
+              <input
+                value={draft.name}
+                onChange={(e) => set({ name: e.target.value })}
+                placeholder={condition ? describeCondition(condition) : 'Name (optional)'}
+                className={`${inputClass} flex-1`}
+              />
+              <button
+                type="submit"
+                disabled={!condition}
+                className="px-3 py-1 border border-blue-700 text-blue-300 hover:text-white disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                ADD ALERT
+              </button>
+            </div>
+          </form>
+
+          {rules.length === 0 && <div className="text-gray-600">No alert rules.</div>}
+          {rules.map(rule => (
+            <div key={rule.id} className={`border border-gray-800 px-3 py-2 ${rule.muted ? 'opacity-50' : ''}`}>
+              <div className="flex justify-between items-center">
+                <span className="text-gray-200 truncate">{rule.name}</span>
+                <div className="flex items-center space-x-2 text-[10px] shrink-0">
+                  <select
+                    value={rule.level}
+                    onChange={(e) => onUpdate(rule.id, { level: e.target.value as LogEntry['level'] })}
+                    className={`bg-black border border-gray-800 ${LEVEL_STYLES[rule.level]}`}
+                  >
+                    {LEVELS.map(l => <option key={l} value={l}>{l}</option>)}
+                  </select>
+                  <button onClick={() => onUpdate(rule.id, { muted: !rule.muted })} className="text-gray-500 hover:text-white">
+                    {rule.muted ? 'UNMUTE' : 'MUTE'}
+                  </button>
+                  <button onClick={() => onRemove(rule.id)} className="text-gray-600 hover:text-red-400" title="Delete rule">×</button>
+                </div>
+              </div>
+              <div className="text-[10px] text-gray-600 mt-1">
+                {describeCondition(rule.condition)}
+                {rule.lastTriggeredAt && <span> · last {new Date(rule.lastTriggeredAt).toLocaleString()}</span>}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {tab === 'history' && (
+        <div className="flex-1 overflow-y-auto min-h-0 p-4 space-y-1">
+          {events.length === 0 ? (
+            <div className="text-gray-600">No alerts triggered yet.</div>
+          ) : (
+            <div className="flex justify-end">
+              <button onClick={onClearEvents} className="text-[10px] text-gray-600 hover:text-red-400">CLEAR HISTORY</button>
+            </div>
+          )}
+          {events.map(event => (
+            <div key={event.id} className={`flex space-x-2 text-[10px] ${event.muted ? 'opacity-50' : ''}`}>
+              <span className="text-gray-600 whitespace-nowrap">{new Date(event.triggeredAt).toLocaleString()}</span>
+              <span className={LEVEL_STYLES[event.level]}>{event.level}</span>
+              {event.url ? (
+                <a href={event.url} target="_blank" rel="noreferrer" className="text-gray-300 hover:text-blue-300">{event.message}</a>
+              ) : (
+                <span className="text-gray-300">{event.message}</span>
+              )}
+              {event.muted && <span className="text-gray-600">(muted)</span>}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AlertManager;
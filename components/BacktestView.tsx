@@ -0,0 +1,279 @@
+import React, { useState } from 'react';
+import { ResponsiveContainer, AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip } from 'recharts';
+import {
+  BacktestResult,
+  BarInterval,
+  IndicatorField,
+  LogEntry,
+  OHLCBar,
+  RuleComparator,
+  StrategyDefinition,
+  StrategyRule
+} from '../types';
+import { STRATEGY_PRESETS, runBacktest } from '../services/backtestService';
+
+interface BacktestViewProps {
+  symbol: string;
+  interval: BarInterval;
+  candles: OHLCBar[];
+  symbols: string[];
+  onSymbolChange: (symbol: string) => void;
+  onLog: (message: string, level?: LogEntry['level']) => void;
+}
+
+const FIELDS: IndicatorField[] = [
+  'close', 'open', 'high', 'low', 'volume', 'sma', 'ema', 'bbUpper', 'bbMiddle', 'bbLower',
+  'vwap', 'rsi', 'macd', 'macdSignal', 'macdHist', 'atr'
+];
+const COMPARATORS: RuleComparator[] = ['>', '<', 'crossesAbove', 'crossesBelow'];
+
+const inputClass = "bg-black border border-gray-700 text-white px-2 py-1 text-xs focus:border-purple-500 focus:outline-none font-mono";
+
+const RuleEditor: React.FC<{
+  label: string;
+  rules: StrategyRule[];
+  onChange: (rules: StrategyRule[]) => void;
+}> = ({ label, rules, onChange }) => {
+  const update = (i: number, patch: Partial<StrategyRule>) =>
+    onChange(rules.map((r, j) => (j === i ? { ...r, ...patch } : r)));
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-2">
+        <label className="text-xs font-mono text-gray-500">{label}</label>
+        <button
+          type="button"
+          onClick={() => onChange([...rules, { left: 'close', comparator: '>', right: 'sma' }])}
+          className="text-[10px] font-mono text-gray-500 hover:text-white"
+        >
+          + RULE
+        </button>
+      </div>
+      <div className="space-y-1">
+        {rules.map((rule, i) => (
+          <div key={i} className="flex items-center space-x-1">
+            <select value={rule.left} onChange={(e) => update(i, { left: e.target.value as IndicatorField })} className={inputClass}>
+              {FIELDS.map(f => <option key={f} value={f}>{f}</option>)}
+            </select>
+            <select value={rule.comparator} onChange={(e) => update(i, { comparator: e.target.value as RuleComparator })} className={inputClass}>
+              {COMPARATORS.map(c => <option key={c} value={c}>{c}</option>)}
+            </select>
+            <select
+              value={typeof rule.right === 'number' ? '#value' : rule.right}
+              onChange={(e) => update(i, { right: e.target.value === '#value' ? 0 : e.target.value as IndicatorField })}
+              className={inputClass}
+            >
+              <option value="#value">value</option>
+              {FIELDS.map(f => <option key={f} value={f}>{f}</option>)}
+            </select>
+            {typeof rule.right === 'number' && (
+              <input
+                type="number"
+                value={rule.right}
+                onChange={(e) => update(i, { right: Number(e.target.value) })}
+                className={`${inputClass} w-16`}
+              />
+            )}
+            <button type="button" onClick={() => onChange(rules.filter((_, j) => j !== i))} className="text-gray-600 hover:text-red-500 px-1">×</button>
+          </div>
+        ))}
+        {rules.length === 0 && <div className="text-[10px] text-gray-600 font-mono">No rules.</div>}
+      </div>
+    </div>
+  );
+};
+
+const Metric: React.FC<{ label: string; value: string; tone?: 'good' | 'bad' }> = ({ label, value, tone }) => (
+  <div className="bg-black border border-gray-800 px-3 py-2">
+    <div className="text-[10px] text-gray-600 font-mono">{label}</div>
+    <div className={`text-sm font-mono ${tone === 'good' ? 'text-green-500' : tone === 'bad' ? 'text-red-500' : 'text-white'}`}>{value}</div>
+  </div>
+);
+
+const chartTooltip = {
+  contentStyle: { backgroundColor: '#111', borderColor: '#333', color: '#eee' },
+};
+
+const BacktestView: React.FC<BacktestViewProps> = ({ symbol, interval, candles, symbols, onSymbolChange, onLog }) => {
+  const [strategy, setStrategy] = useState<StrategyDefinition>(STRATEGY_PRESETS[0]);
+  const [result, setResult] = useState<BacktestResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const patch = (p: Partial<StrategyDefinition>) => setStrategy(prev => ({ ...prev, ...p }));
+
+  const handleRun = (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const res = runBacktest(candles, strategy, interval);
+      setResult(res);
+      setError(null);
+      onLog(`Backtest "${strategy.name}" on ${symbol} (${interval}): ${res.metrics.tradeCount} trades, ${res.metrics.totalReturn.toFixed(2)}%`, 'INFO');
+    } catch (err: any) {
+      setResult(null);
+      setError(err.message);
+      onLog(`Backtest failed: ${err.message}`, 'WARN');
+    }
+  };
+
+  const m = result?.metrics;
+
+  return (
+    <div className="grid grid-cols-12 h-full gap-4">
+      <div className="col-span-4 bg-[#0c0c0c] border border-gray-800 p-6 overflow-y-auto">
+        <h3 className="text-lg font-light text-white mb-6">Strategy Definition</h3>
+        <form onSubmit={handleRun} className="space-y-5">
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="block text-xs font-mono text-gray-500 mb-2">PRESET</label>
+              <select
+                value={STRATEGY_PRESETS.findIndex(p => p.name === strategy.name)}
+                onChange={(e) => { const p = STRATEGY_PRESETS[Number(e.target.value)]; if (p) setStrategy(p); }}
+                className={`${inputClass} w-full`}
+              >
+                <option value={-1}>Custom</option>
+                {STRATEGY_PRESETS.map((p, i) => <option key={p.name} value={i}>{p.name}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-mono text-gray-500 mb-2">SERIES ({interval})</label>
+              <select value={symbol} onChange={(e) => onSymbolChange(e.target.value)} className={`${inputClass} w-full`}>
+                {!symbols.includes(symbol) && <option value={symbol}>{symbol}</option>}
+                {symbols.map(s => <option key={s} value={s}>{s}</option>)}
+              </select>
+            </div>
+          </div>
+
+          <RuleEditor label="ENTRY (ALL)" rules={strategy.entryRules} onChange={(entryRules) => patch({ entryRules, name: 'Custom' })} />
+          <RuleEditor label="EXIT (ANY)" rules={strategy.exitRules} onChange={(exitRules) => patch({ exitRules, name: 'Custom' })} />
+
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="block text-xs font-mono text-gray-500 mb-2">SIZING</label>
+              <select
+                value={strategy.sizing.mode}
+                onChange={(e) => patch({ sizing: { ...strategy.sizing, mode: e.target.value as StrategyDefinition['sizing']['mode'] } })}
+                className={`${inputClass} w-full`}
+              >
+                <option value="percentEquity">% of equity</option>
+                <option value="fixedUnits">Fixed units</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-mono text-gray-500 mb-2">SIZE</label>
+              <input type="number" value={strategy.sizing.value} onChange={(e) => patch({ sizing: { ...strategy.sizing, value: Number(e.target.value) } })} className={`${inputClass} w-full`} />
+            </div>
+            <div>
+              <label className="block text-xs font-mono text-gray-500 mb-2">CAPITAL</label>
+              <input type="number" value={strategy.initialCapital} onChange={(e) => patch({ initialCapital: Number(e.target.value) })} className={`${inputClass} w-full`} />
+            </div>
+            <div>
+              <label className="block text-xs font-mono text-gray-500 mb-2">COMMISSION (BPS)</label>
+              <input type="number" value={strategy.commissionBps} onChange={(e) => patch({ commissionBps: Number(e.target.value) })} className={`${inputClass} w-full`} />
+            </div>
+            <div>
+              <label className="block text-xs font-mono text-gray-500 mb-2">SLIPPAGE (BPS)</label>
+              <input type="number" value={strategy.slippageBps} onChange={(e) => patch({ slippageBps: Number(e.target.value) })} className={`${inputClass} w-full`} />
+            </div>
+          </div>
+
+          <button
+            type="submit"
+            disabled={candles.length === 0}
+            className="w-full bg-purple-800 hover:bg-purple-700 text-white font-mono text-xs py-3 uppercase tracking-wider disabled:opacity-50"
+          >
+            Run Backtest ({candles.length} bars)
+          </button>
+          {error && <div className="text-xs font-mono text-red-500">{error}</div>}
+        </form>
+      </div>
+
+      <div className="col-span-8 flex flex-col gap-4 min-h-0">
+        <div className="grid grid-cols-7 gap-2">
+          <Metric label="RETURN" value={m ? `${m.totalReturn.toFixed(2)}%` : '--'} tone={m ? (m.totalReturn >= 0 ? 'good' : 'bad') : undefined} />
+          <Metric label="SHARPE" value={m ? m.sharpe.toFixed(2) : '--'} />
+          <Metric label="SORTINO" value={m ? m.sortino.toFixed(2) : '--'} />
+          <Metric label="MAX DD" value={m ? `${m.maxDrawdown.toFixed(2)}%` : '--'} tone={m ? 'bad' : undefined} />
+          <Metric label="WIN RATE" value={m ? `${m.winRate.toFixed(1)}%` : '--'} />
+          <Metric label="TURNOVER" value={m ? `${m.turnover.toFixed(2)}x` : '--'} />
+          <Metric label="TRADES" value={m ? String(m.tradeCount) : '--'} />
+        </div>
+
+        <div className="bg-[#0c0c0c] border border-gray-800 p-4 flex-1 min-h-0 flex flex-col">
+          <h4 className="text-xs font-bold text-gray-500 mb-2">EQUITY CURVE</h4>
+          <div className="flex-1 min-h-0">
+            {result ? (
+              <ResponsiveContainer width="100%" height="100%">
+                <AreaChart data={result.equityCurve} syncId="backtest">
+                  <CartesianGrid strokeDasharray="3 3" stroke="#222" />
+                  <XAxis dataKey="time" stroke="#444" tick={{fontSize: 10}} />
+                  <YAxis stroke="#444" domain={['auto', 'auto']} tick={{fontSize: 10}} width={70} />
+                  <Tooltip {...chartTooltip} formatter={(v: any) => [Number(v).toFixed(2), 'Equity']} />
+                  <Area type="monotone" dataKey="equity" stroke="#a855f7" fill="#a855f7" fillOpacity={0.15} strokeWidth={2} isAnimationActive={false} />
+                </AreaChart>
+              </ResponsiveContainer>
+            ) : (
+              <div className="h-full flex items-center justify-center text-xs font-mono text-gray-600">Define a strategy and run the backtest.</div>
+            )}
+          </div>
+        </div>
+
+        <div className="bg-[#0c0c0c] border border-gray-800 p-4 h-28 flex flex-col">
+          <h4 className="text-xs font-bold text-gray-500 mb-1">DRAWDOWN</h4>
+          <div className="flex-1 min-h-0">
+            {result && (
+              <ResponsiveContainer width="100%" height="100%">
+                <AreaChart data={result.equityCurve} syncId="backtest">
+                  <XAxis dataKey="time" hide />
+                  <YAxis stroke="#444" tick={{fontSize: 9}} width={70} />
+                  <Tooltip {...chartTooltip} formatter={(v: any) => [`${Number(v).toFixed(2)}%`, 'Drawdown']} />
+                  <Area type="monotone" dataKey="drawdown" stroke="#ef4444" fill="#ef4444" fillOpacity={0.2} isAnimationActive={false} />
+                </AreaChart>
+              </ResponsiveContainer>
+            )}
+          </div>
+        </div>
+
+        <div className="bg-[#0c0c0c] border border-gray-800 h-48 flex flex-col">
+          <div className="bg-[#151515] px-4 py-2 border-b border-gray-800">
+            <h4 className="text-xs font-bold text-gray-400">TRADE LIST</h4>
+          </div>
+          <div className="flex-1 overflow-y-auto font-mono text-xs">
+            <table className="w-full">
+              <thead className="text-[10px] text-gray-600 sticky top-0 bg-[#0c0c0c]">
+                <tr>
+                  <th className="text-left px-4 py-1 font-normal">ENTRY</th>
+                  <th className="text-left px-2 py-1 font-normal">EXIT</th>
+                  <th className="text-right px-2 py-1 font-normal">QTY</th>
+                  <th className="text-right px-2 py-1 font-normal">IN</th>
+                  <th className="text-right px-2 py-1 font-normal">OUT</th>
+                  <th className="text-right px-2 py-1 font-normal">BARS</th>
+                  <th className="text-right px-2 py-1 font-normal">P&amp;L</th>
+                  <th className="text-right px-4 py-1 font-normal">RET</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result?.trades.map((t, i) => (
+                  <tr key={i} className="border-t border-gray-900 text-gray-400">
+                    <td className="px-4 py-1">{t.entryTime}</td>
+                    <td className="px-2">{t.exitTime}</td>
+                    <td className="text-right px-2">{t.quantity.toFixed(2)}</td>
+                    <td className="text-right px-2">{t.entryPrice.toFixed(2)}</td>
+                    <td className="text-right px-2">{t.exitPrice.toFixed(2)}</td>
+                    <td className="text-right px-2">{t.bars}</td>
+                    <td className={`text-right px-2 ${t.pnl >= 0 ? 'text-green-500' : 'text-red-500'}`}>{t.pnl.toFixed(2)}</td>
+                    <td className={`text-right px-4 ${t.returnPct >= 0 ? 'text-green-500' : 'text-red-500'}`}>{t.returnPct.toFixed(2)}%</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {result && result.trades.length === 0 && (
+              <div className="px-4 py-4 text-center text-gray-600">No trades triggered.</div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BacktestView;
@@ -0,0 +1,172 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { CommandAction, ModuleType } from '../types';
+import { MODULE_HOTKEYS, commandSuggestions, parseCommand } from '../services/commandService';
+
+interface CommandBarProps {
+  symbols: string[];
+  // Newest first
+  history: string[];
+  onCommand: (action: CommandAction, line: string) => void;
+  onModule: (module: ModuleType) => void;
+}
+
+const isTyping = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+const CommandBar: React.FC<CommandBarProps> = ({ symbols, history, onCommand, onModule }) => {
+  const [text, setText] = useState('');
+  const [open, setOpen] = useState(false);
+  // -1 means nothing highlighted: Enter runs the line as typed
+  const [highlight, setHighlight] = useState(-1);
+  // Position in `history` while recalling earlier lines with the arrow keys
+  const [historyIndex, setHistoryIndex] = useState(-1);
+  const [error, setError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const onModuleRef = useRef(onModule);
+  onModuleRef.current = onModule;
+
+  const suggestions = useMemo(() => commandSuggestions(text, symbols, history), [text, symbols, history]);
+
+  // Global hotkeys: Ctrl/Cmd+K or "/" focuses the line, Alt+1..9 switches module from anywhere
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        inputRef.current?.focus();
+        inputRef.current?.select();
+        return;
+      }
+      if (e.key === '/' && !e.ctrlKey && !e.metaKey && !e.altKey && !isTyping(e.target)) {
+        e.preventDefault();
+        inputRef.current?.focus();
+        return;
+      }
+      // e.code, since Alt+digit types a symbol on some layouts
+      const digit = /^Digit([1-9])$/.exec(e.code);
+      if (e.altKey && !e.ctrlKey && !e.metaKey && digit) {
+        const module = MODULE_HOTKEYS[Number(digit[1]) - 1];
+        if (module) {
+          e.preventDefault();
+          onModuleRef.current(module);
+        }
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  const edit = (value: string) => {
+    setText(value);
+    setHighlight(-1);
+    setHistoryIndex(-1);
+    setError(null);
+    setOpen(true);
+  };
+
+  const run = (line: string) => {
+    const parsed = parseCommand(line);
+    if ('error' in parsed) {
+      setError(parsed.error);
+      return;
+    }
+    onCommand(parsed.action, line.trim());
+    setText('');
+    setHighlight(-1);
+    setHistoryIndex(-1);
+    setError(null);
+    setOpen(false);
+    inputRef.current?.blur();
+  };
+
+  // Suggestions that still need an argument end in a space and are only filled in
+  const accept = (value: string, execute: boolean) => {
+    if (execute && !value.endsWith(' ')) run(value);
+    else edit(value);
+  };
+
+  const recall = (index: number) => {
+    setHistoryIndex(index);
+    setText(index < 0 ? '' : history[index]);
+    setHighlight(-1);
+    setOpen(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    const browsing = historyIndex >= 0 || (text === '' && !open);
+    switch (e.key) {
+      case 'Enter':
+        e.preventDefault();
+        if (open && highlight >= 0 && suggestions[highlight]) accept(suggestions[highlight].value, true);
+        else if (text.trim()) run(text);
+        break;
+      case 'Tab':
+        if (!open || suggestions.length === 0) return;
+        e.preventDefault();
+        accept(suggestions[Math.max(0, highlight)].value, false);
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        if (browsing || highlight < 0) {
+          if (history.length) recall(Math.min(historyIndex + 1, history.length - 1));
+        } else {
+          setHighlight(highlight - 1);
+        }
+        break;
+      case 'ArrowDown':
+        e.preventDefault();
+        if (historyIndex >= 0) recall(historyIndex - 1);
+        else {
+          setOpen(true);
+          setHighlight(Math.min(highlight + 1, suggestions.length - 1));
+        }
+        break;
+      case 'Escape':
+        if (open) setOpen(false);
+        else inputRef.current?.blur();
+        break;
+    }
+  };
+
+  return (
+    <div className="relative h-9 bg-[#0a0a0a] border-b border-gray-800 flex items-center px-6 font-mono text-xs">
+      <span className="text-amber-500 mr-2">&gt;</span>
+      <input
+        ref={inputRef}
+        type="text"
+        value={text}
+        onChange={(e) => edit(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        placeholder="AAPL <GO> · DEAL fintech SEA · RES lithium · QUANT impact of a rate cut on NVDA   (CTRL+K)"
+        spellCheck={false}
+        className="flex-1 bg-transparent text-amber-400 placeholder-gray-700 focus:outline-none"
+      />
+      {error && <span className="text-red-500 ml-3 whitespace-nowrap">{error}</span>}
+
+      {open && suggestions.length > 0 && (
+        <div className="absolute left-6 top-full z-30 w-[32rem] bg-[#0c0c0c] border border-gray-700 shadow-2xl">
+          {suggestions.map((s, i) => (
+            <button
+              key={s.value}
+              // mousedown fires before the input's blur closes the list
+              onMouseDown={(e) => {
+                e.preventDefault();
+                accept(s.value, true);
+              }}
+              className={`w-full flex justify-between px-3 py-1 text-left ${i === highlight ? 'bg-amber-900/30 text-white' : 'text-gray-300 hover:bg-[#151515]'}`}
+            >
+              <span className="truncate">{s.label}</span>
+              <span className="text-gray-600 ml-4 whitespace-nowrap">{s.hint}</span>
+            </button>
+          ))}
+          <div className="px-3 py-1 border-t border-gray-800 text-[10px] text-gray-600">
+            ENTER run · TAB complete · ↑ history · ALT+1-9 modules · ESC close
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CommandBar;
@@ -0,0 +1,131 @@
+import React, { useRef, useState } from 'react';
+import { CountryRisk, CountryRiskTag, LogEntry } from '../types';
+import {
+  COUNTRY_RISK_TAGS,
+  DEFAULT_COUNTRY_RISKS,
+  downloadCountryRisks,
+  findCountryRisk,
+  parseCountryRisks,
+  upsertCountryRisk,
+} from '../services/supplyRiskService';
+
+interface CountryRiskEditorProps {
+  risks: CountryRisk[];
+  // Countries from the current scan, offered as quick-add rows
+  scanCountries: string[];
+  onChange: (risks: CountryRisk[]) => void;
+  onLog: (message: string, level?: LogEntry['level']) => void;
+}
+
+const inputClass = "bg-black border border-gray-700 text-white px-2 py-1 text-xs focus:border-yellow-600 focus:outline-none font-mono";
+
+const CountryRiskEditor: React.FC<CountryRiskEditorProps> = ({ risks, scanCountries, onChange, onLog }) => {
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [country, setCountry] = useState('');
+  const untracked = scanCountries.filter(c => c !== 'Unknown' && !findCountryRisk(risks, c));
+
+  const toggleTag = (row: CountryRisk, tag: CountryRiskTag) => {
+    const tags = row.tags.includes(tag) ? row.tags.filter(t => t !== tag) : [...row.tags, tag];
+    onChange(upsertCountryRisk(risks, { ...row, tags }));
+  };
+
+  const addCountry = (name: string) => {
+    if (!name.trim()) return;
+    if (findCountryRisk(risks, name)) {
+      onLog(`Country risk: ${name} is already tracked`, 'WARN');
+      return;
+    }
+    onChange(upsertCountryRisk(risks, { country: name, tags: [], note: '' }));
+    setCountry('');
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseCountryRisks(await file.text());
+      onChange(imported.reduce((acc, row) => upsertCountryRisk(acc, row), risks));
+      onLog(`Country risk: imported ${imported.length} row(s) from ${file.name}`, 'INFO');
+    } catch (error) {
+      console.error("Country risk import error:", error);
+      onLog(`Country risk import failed: ${error instanceof Error ? error.message : String(error)}`, 'CRIT');
+    }
+  };
+
+  return (
+    <div className="bg-[#0c0c0c] border border-gray-800 h-full flex flex-col font-mono text-xs min-h-0">
+      <div className="bg-[#151515] px-4 py-2 border-b border-gray-800 flex justify-between items-center">
+        <h4 className="font-bold text-gray-400">COUNTRY RISK DATASET ({risks.length})</h4>
+        <div className="flex space-x-3 text-[10px]">
+          <button onClick={() => fileRef.current?.click()} className="text-gray-500 hover:text-white">IMPORT JSON</button>
+          <button onClick={() => downloadCountryRisks(risks)} className="text-gray-500 hover:text-white">EXPORT JSON</button>
+          <button
+            onClick={() => { if (window.confirm('Replace the dataset with the built-in defaults?')) onChange(DEFAULT_COUNTRY_RISKS); }}
+            className="text-gray-500 hover:text-red-500"
+          >
+            RESET
+          </button>
+          <input ref={fileRef} type="file" accept=".json,application/json" className="hidden" onChange={handleImport} />
+        </div>
+      </div>
+
+      <form
+        onSubmit={(e) => { e.preventDefault(); addCountry(country); }}
+        className="px-4 py-2 border-b border-gray-800 flex items-center gap-2 flex-wrap"
+      >
+        <input type="text" value={country} onChange={(e) => setCountry(e.target.value)} placeholder="Country" className={`${inputClass} w-48`} />
+        <button type="submit" className="text-[10px] text-gray-400 border border-gray-700 px-2 py-1 hover:text-white">ADD</button>
+        {untracked.length > 0 && <span className="text-[10px] text-gray-600 ml-2">IN SCAN:</span>}
+        {untracked.map(c => (
+          <button key={c} type="button" onClick={() => addCountry(c)} className="text-[10px] text-yellow-600 hover:text-yellow-400">+{c}</button>
+        ))}
+      </form>
+
+      <div className="flex-1 overflow-y-auto">
+        <table className="w-full">
+          <thead className="text-[10px] text-gray-600 sticky top-0 bg-[#0c0c0c]">
+            <tr>
+              <th className="text-left px-4 py-1 font-normal">COUNTRY</th>
+              {COUNTRY_RISK_TAGS.map(t => <th key={t.id} className="text-center px-2 py-1 font-normal">{t.label.toUpperCase()}</th>)}
+              <th className="text-left px-2 py-1 font-normal w-1/3">NOTE</th>
+              <th className="w-6"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {risks.map(row => (
+              <tr key={row.country} className="border-t border-gray-900 text-gray-400">
+                <td className="px-4 py-1.5 text-white">{row.country}</td>
+                {COUNTRY_RISK_TAGS.map(t => (
+                  <td key={t.id} className="text-center px-2">
+                    <input type="checkbox" checked={row.tags.includes(t.id)} onChange={() => toggleTag(row, t.id)} className="accent-yellow-600" />
+                  </td>
+                ))}
+                <td className="px-2 py-1">
+                  <input
+                    key={`${row.country}-${row.updatedAt}`}
+                    type="text"
+                    defaultValue={row.note}
+                    onBlur={(e) => e.target.value !== row.note && onChange(upsertCountryRisk(risks, { ...row, note: e.target.value }))}
+                    className={`${inputClass} w-full`}
+                  />
+                </td>
+                <td className="text-center">
+                  <button
+                    onClick={() => onChange(risks.filter(r => r !== row))}
+                    className="text-gray-600 hover:text-red-500"
+                    title={`Remove ${row.country}`}
+                  >
+                    ×
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default CountryRiskEditor;
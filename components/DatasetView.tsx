@@ -0,0 +1,247 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  ResponsiveContainer,
+  LineChart,
+  Line,
+  BarChart,
+  Bar,
+  ScatterChart,
+  Scatter,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+} from 'recharts';
+import { ColumnStats, Dataset, DatasetColumnType } from '../types';
+
+interface DatasetViewProps {
+  dataset: Dataset;
+  stats: ColumnStats[];
+}
+
+type DatasetTab = 'grid' | 'stats' | 'chart';
+type ChartKind = 'line' | 'bar' | 'scatter';
+
+const PAGE_SIZE = 100;
+// Recharts slows down badly past a few thousand points, so long series are sampled evenly
+const MAX_CHART_POINTS = 2000;
+const SERIES_COLORS = ['#ef4444', '#3b82f6', '#22c55e', '#eab308', '#a855f7', '#06b6d4'];
+
+const TYPE_BADGES: Record<DatasetColumnType, string> = {
+  number: 'text-blue-400',
+  date: 'text-purple-400',
+  boolean: 'text-yellow-500',
+  string: 'text-gray-500',
+};
+
+const chartTooltip = {
+  contentStyle: { backgroundColor: '#111', border: '1px solid #333', fontSize: 11 },
+  itemStyle: { color: '#ccc' },
+};
+
+const fmt = (v: number | undefined) => (v === undefined ? '--' : Math.abs(v) >= 1e6 ? v.toExponential(3) : String(v));
+
+const DatasetView: React.FC<DatasetViewProps> = ({ dataset, stats }) => {
+  const numeric = dataset.columns.filter(c => c.type === 'number').map(c => c.name);
+  const [tab, setTab] = useState<DatasetTab>('grid');
+  const [page, setPage] = useState(0);
+  const [xColumn, setXColumn] = useState('');
+  const [yColumns, setYColumns] = useState<string[]>([]);
+  const [kind, setKind] = useState<ChartKind>('line');
+
+  // Default chart: first date/string column against the first numeric column
+  useEffect(() => {
+    setPage(0);
+    setXColumn(dataset.columns.find(c => c.type === 'date')?.name ?? dataset.columns[0]?.name ?? '');
+    setYColumns(numeric.slice(0, 1));
+  }, [dataset]);
+
+  const pages = Math.max(1, Math.ceil(dataset.rows.length / PAGE_SIZE));
+  const pageRows = dataset.rows.slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE);
+
+  const chartData = useMemo(() => {
+    const step = Math.max(1, Math.ceil(dataset.rows.length / MAX_CHART_POINTS));
+    return dataset.rows.filter((_, i) => i % step === 0);
+  }, [dataset]);
+
+  const toggleY = (name: string) =>
+    setYColumns(prev => (prev.includes(name) ? prev.filter(c => c !== name) : [...prev, name]));
+
+  const xIsNumeric = numeric.includes(xColumn);
+
+  const renderChart = () => {
+    if (yColumns.length === 0) {
+      return <div className="h-full flex items-center justify-center text-gray-600">Select at least one numeric column to plot.</div>;
+    }
+    const axes = (
+      <>
+        <CartesianGrid strokeDasharray="3 3" stroke="#222" />
+        <XAxis dataKey={xColumn} stroke="#444" tick={{ fontSize: 10 }} type={kind === 'scatter' && xIsNumeric ? 'number' : 'category'} domain={['auto', 'auto']} />
+        <YAxis stroke="#444" tick={{ fontSize: 10 }} width={70} domain={['auto', 'auto']} />
+        <Tooltip {...chartTooltip} />
+        <Legend wrapperStyle={{ fontSize: 10 }} />
+      </>
+    );
+    if (kind === 'bar') {
+      return (
+        <BarChart data={chartData}>
+          {axes}
+          {yColumns.map((y, i) => <Bar key={y} dataKey={y} fill={SERIES_COLORS[i % SERIES_COLORS.length]} isAnimationActive={false} />)}
+        </BarChart>
+      );
+    }
+    if (kind === 'scatter') {
+      return (
+        <ScatterChart>
+          {axes}
+          {yColumns.map((y, i) => (
+            <Scatter key={y} name={y} data={chartData} dataKey={y} fill={SERIES_COLORS[i % SERIES_COLORS.length]} isAnimationActive={false} />
+          ))}
+        </ScatterChart>
+      );
+    }
+    return (
+      <LineChart data={chartData}>
+        {axes}
+        {yColumns.map((y, i) => (
+          <Line key={y} type="monotone" dataKey={y} stroke={SERIES_COLORS[i % SERIES_COLORS.length]} dot={false} connectNulls isAnimationActive={false} />
+        ))}
+      </LineChart>
+    );
+  };
+
+  return (
+    <div className="bg-[#0c0c0c] border border-gray-800 h-full flex flex-col font-mono text-xs min-h-0">
+      <div className="bg-[#151515] px-4 py-2 border-b border-gray-800 flex justify-between items-center">
+        <h4 className="font-bold text-gray-400 truncate">
+          {dataset.name} <span className="font-normal text-gray-600">· {dataset.rows.length} x {dataset.columns.length}</span>
+        </h4>
+        <div className="flex space-x-1 text-[10px]">
+          {(['grid', 'stats', 'chart'] as const).map(t => (
+            <button
+              key={t}
+              onClick={() => setTab(t)}
+              className={`px-2 py-0.5 border ${tab === t ? 'border-red-800 text-white bg-red-900/30' : 'border-gray-800 text-gray-500 hover:text-gray-300'}`}
+            >
+              {t.toUpperCase()}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {tab === 'grid' && (
+        <>
+          <div className="flex-1 overflow-auto">
+            <table className="min-w-full">
+              <thead className="sticky top-0 bg-[#0c0c0c] text-[10px]">
+                <tr>
+                  <th className="text-right px-2 py-1 font-normal text-gray-700">#</th>
+                  {dataset.columns.map(c => (
+                    <th key={c.name} className="text-left px-2 py-1 font-normal whitespace-nowrap">
+                      <span className="text-gray-400">{c.name}</span> <span className={TYPE_BADGES[c.type]}>{c.type}</span>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {pageRows.map((row, i) => (
+                  <tr key={i} className="border-t border-gray-900 text-gray-300">
+                    <td className="text-right px-2 text-gray-700">{page * PAGE_SIZE + i + 1}</td>
+                    {dataset.columns.map(c => (
+                      <td key={c.name} className={`px-2 py-0.5 whitespace-nowrap max-w-xs truncate ${c.type === 'number' ? 'text-right' : ''}`}>
+                        {row[c.name] === null ? <span className="text-gray-700">null</span> : String(row[c.name])}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {pages > 1 && (
+            <div className="px-4 py-1 border-t border-gray-800 flex justify-between items-center text-[10px] text-gray-500">
+              <button onClick={() => setPage(p => Math.max(0, p - 1))} disabled={page === 0} className="hover:text-white disabled:opacity-30">PREV</button>
+              <span>PAGE {page + 1} / {pages}</span>
+              <button onClick={() => setPage(p => Math.min(pages - 1, p + 1))} disabled={page >= pages - 1} className="hover:text-white disabled:opacity-30">NEXT</button>
+            </div>
+          )}
+        </>
+      )}
+
+      {tab === 'stats' && (
+        <div className="flex-1 overflow-auto">
+          <table className="min-w-full">
+            <thead className="sticky top-0 bg-[#0c0c0c] text-[10px] text-gray-600">
+              <tr>
+                {['COLUMN', 'TYPE', 'COUNT', 'MISSING', 'UNIQUE', 'MIN', 'MAX', 'MEAN', 'MEDIAN', 'STD', 'RANGE / TOP VALUES'].map(h => (
+                  <th key={h} className="text-left px-2 py-1 font-normal whitespace-nowrap">{h}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {stats.map(s => (
+                <tr key={s.name} className="border-t border-gray-900 text-gray-300">
+                  <td className="px-2 py-1 text-white whitespace-nowrap">{s.name}</td>
+                  <td className={`px-2 ${TYPE_BADGES[s.type]}`}>{s.type}</td>
+                  <td className="px-2">{s.count}</td>
+                  <td className={`px-2 ${s.missing ? 'text-yellow-600' : ''}`}>{s.missing}</td>
+                  <td className="px-2">{s.unique}</td>
+                  <td className="px-2">{fmt(s.min)}</td>
+                  <td className="px-2">{fmt(s.max)}</td>
+                  <td className="px-2">{fmt(s.mean)}</td>
+                  <td className="px-2">{fmt(s.median)}</td>
+                  <td className="px-2">{fmt(s.stdDev)}</td>
+                  <td className="px-2 text-gray-500 whitespace-nowrap">
+                    {s.first ? `${s.first} → ${s.last}` : s.topValues?.map(t => `${t.value} (${t.count})`).join(', ') ?? ''}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {tab === 'chart' && (
+        <div className="flex-1 flex flex-col min-h-0 p-3 gap-2">
+          <div className="flex flex-wrap items-center gap-2 text-[10px] text-gray-500">
+            <span>X</span>
+            <select value={xColumn} onChange={(e) => setXColumn(e.target.value)} className="bg-black border border-gray-700 text-white px-1 py-0.5 focus:outline-none">
+              {dataset.columns.map(c => <option key={c.name} value={c.name}>{c.name}</option>)}
+            </select>
+            <span className="ml-2">Y</span>
+            {numeric.map(name => (
+              <button
+                key={name}
+                onClick={() => toggleY(name)}
+                className={`px-1.5 border ${yColumns.includes(name) ? 'border-gray-500 text-white' : 'border-gray-800 text-gray-600'}`}
+              >
+                {name}
+              </button>
+            ))}
+            <span className="ml-auto flex space-x-1">
+              {(['line', 'bar', 'scatter'] as const).map(k => (
+                <button key={k} onClick={() => setKind(k)} className={`px-1.5 border ${kind === k ? 'border-red-800 text-white' : 'border-gray-800 text-gray-600'}`}>
+                  {k.toUpperCase()}
+                </button>
+              ))}
+            </span>
+          </div>
+          {numeric.length === 0 ? (
+            <div className="flex-1 flex items-center justify-center text-gray-600">No numeric columns to chart.</div>
+          ) : (
+            <div className="flex-1 min-h-0">
+              <ResponsiveContainer width="100%" height="100%">
+                {renderChart()}
+              </ResponsiveContainer>
+            </div>
+          )}
+          {chartData.length < dataset.rows.length && (
+            <div className="text-[10px] text-gray-600">Showing every {Math.ceil(dataset.rows.length / MAX_CHART_POINTS)}th row ({chartData.length} points).</div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DatasetView;
@@ -0,0 +1,90 @@
+import React from 'react';
+import { DealCandidate, PipelineDeal } from '../types';
+import { DEAL_STAGES, findDeal } from '../services/dealPipelineService';
+
+interface DealCandidatesPanelProps {
+  candidates: DealCandidate[];
+  pipeline: PipelineDeal[];
+  extracting: boolean;
+  canExtract: boolean;
+  onExtract: () => void;
+  onSave: (candidates: DealCandidate[]) => void;
+}
+
+const stageLabel = (deal: PipelineDeal) => DEAL_STAGES.find(s => s.id === deal.pipelineStage)?.label ?? deal.pipelineStage;
+
+const DealCandidatesPanel: React.FC<DealCandidatesPanelProps> = ({ candidates, pipeline, extracting, canExtract, onExtract, onSave }) => {
+  const unsaved = candidates.filter(c => !findDeal(pipeline, c.name));
+
+  return (
+    <div className="bg-[#0c0c0c] border border-gray-800 h-full flex flex-col font-mono text-xs">
+      <div className="bg-[#151515] px-4 py-2 border-b border-gray-800 flex justify-between items-center">
+        <h4 className="font-bold text-gray-400">EXTRACTED CANDIDATES ({candidates.length})</h4>
+        <div className="flex space-x-3 text-[10px]">
+          <button onClick={onExtract} disabled={!canExtract || extracting} className="text-gray-500 hover:text-white disabled:opacity-30">
+            {extracting ? 'EXTRACTING...' : 'RE-EXTRACT'}
+          </button>
+          <button
+            onClick={() => onSave(unsaved)}
+            disabled={unsaved.length === 0}
+            className="text-green-600 hover:text-green-400 disabled:opacity-30"
+          >
+            SAVE ALL ({unsaved.length})
+          </button>
+        </div>
+      </div>
+      <div className="flex-1 overflow-y-auto">
+        <table className="w-full">
+          <thead className="text-[10px] text-gray-600 sticky top-0 bg-[#0c0c0c]">
+            <tr>
+              <th className="text-left px-4 py-1 font-normal">COMPANY</th>
+              <th className="text-left px-2 py-1 font-normal">SECTOR</th>
+              <th className="text-left px-2 py-1 font-normal">STAGE</th>
+              <th className="text-left px-2 py-1 font-normal">LAST ROUND</th>
+              <th className="text-left px-2 py-1 font-normal">GEO</th>
+              <th className="text-right px-4 py-1 font-normal"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {candidates.map(c => {
+              const saved = findDeal(pipeline, c.name);
+              return (
+                <tr key={c.name} className="border-t border-gray-900 text-gray-400 align-top">
+                  <td className="px-4 py-1.5">
+                    <div className="font-bold text-white">{c.name}</div>
+                    <div className="text-[10px] text-gray-500 whitespace-normal">{c.rationale}</div>
+                    {c.sourceUris.length > 0 && (
+                      <div className="text-[10px] space-x-2">
+                        {c.sourceUris.map((uri, i) => (
+                          <a key={uri} href={uri} target="_blank" rel="noopener noreferrer" className="text-blue-500 hover:underline">[{i + 1}]</a>
+                        ))}
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-2 py-1.5">{c.sector}</td>
+                  <td className="px-2 py-1.5">{c.stage}</td>
+                  <td className="px-2 py-1.5">{c.lastRound}</td>
+                  <td className="px-2 py-1.5">{c.geography}</td>
+                  <td className="px-4 py-1.5 text-right whitespace-nowrap">
+                    {saved ? (
+                      <span className="text-[10px] text-gray-600" title="Already in pipeline">{stageLabel(saved).toUpperCase()}</span>
+                    ) : (
+                      <button onClick={() => onSave([c])} className="text-[10px] text-green-600 hover:text-green-400">SAVE</button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        {candidates.length === 0 && (
+          <div className="px-4 py-6 text-center text-gray-600">
+            {extracting ? 'Extracting companies from the memo...' : 'Run a scan to extract companies.'}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DealCandidatesPanel;
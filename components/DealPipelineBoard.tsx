@@ -0,0 +1,183 @@
+import React, { useMemo, useState } from 'react';
+import { DealStage, LogEntry, PipelineDeal } from '../types';
+import { DEAL_STAGES, parseTags, updateDeal } from '../services/dealPipelineService';
+
+interface DealPipelineBoardProps {
+  pipeline: PipelineDeal[];
+  onChange: (pipeline: PipelineDeal[]) => void;
+  onBuildMemo: (deal: PipelineDeal) => void;
+  onValue: (deal: PipelineDeal) => void;
+  onLog: (message: string, level?: LogEntry['level']) => void;
+}
+
+const inputClass = "w-full bg-black border border-gray-700 text-white px-2 py-1.5 text-xs focus:border-green-500 focus:outline-none font-mono";
+
+const STAGE_ACCENTS: Record<DealStage, string> = {
+  SOURCED: 'border-gray-600',
+  SCREENING: 'border-blue-700',
+  DILIGENCE: 'border-purple-700',
+  IC: 'border-yellow-600',
+  CLOSED: 'border-green-600',
+  PASSED: 'border-red-900',
+};
+
+const DealPipelineBoard: React.FC<DealPipelineBoardProps> = ({ pipeline, onChange, onBuildMemo, onValue, onLog }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [filter, setFilter] = useState('');
+  const [dragOver, setDragOver] = useState<DealStage | null>(null);
+  const selected = pipeline.find(d => d.id === selectedId) ?? null;
+
+  const visible = useMemo(() => {
+    const needle = filter.trim().toLowerCase();
+    if (!needle) return pipeline;
+    return pipeline.filter(d =>
+      [d.candidate.name, d.candidate.sector, d.candidate.geography, d.notes, ...d.tags].some(t => t.toLowerCase().includes(needle))
+    );
+  }, [pipeline, filter]);
+
+  const moveDeal = (id: string, stage: DealStage) => {
+    const deal = pipeline.find(d => d.id === id);
+    if (!deal || deal.pipelineStage === stage) return;
+    onChange(updateDeal(pipeline, id, { pipelineStage: stage }));
+    onLog(`Pipeline: ${deal.candidate.name} -> ${DEAL_STAGES.find(s => s.id === stage)?.label}`, 'INFO');
+  };
+
+  const removeDeal = (id: string) => {
+    const deal = pipeline.find(d => d.id === id);
+    onChange(pipeline.filter(d => d.id !== id));
+    setSelectedId(null);
+    if (deal) onLog(`Pipeline: removed ${deal.candidate.name}`, 'WARN');
+  };
+
+  return (
+    <div className="h-full flex gap-4 min-h-0">
+      <div className="flex-1 flex flex-col min-w-0 gap-2">
+        <input
+          type="text"
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          placeholder="Filter by company, sector, geography, tag or note..."
+          className={`${inputClass} max-w-md`}
+        />
+        <div className="flex-1 grid grid-cols-6 gap-2 min-h-0">
+          {DEAL_STAGES.map(stage => {
+            const deals = visible.filter(d => d.pipelineStage === stage.id);
+            return (
+              <div
+                key={stage.id}
+                onDragOver={(e) => { e.preventDefault(); setDragOver(stage.id); }}
+                onDragLeave={() => setDragOver(null)}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  setDragOver(null);
+                  moveDeal(e.dataTransfer.getData('text/plain'), stage.id);
+                }}
+                className={`bg-[#0c0c0c] border flex flex-col min-h-0 ${dragOver === stage.id ? 'border-green-600' : 'border-gray-800'}`}
+              >
+                <div className="bg-[#151515] px-3 py-2 border-b border-gray-800 flex justify-between text-xs font-mono">
+                  <span className="font-bold text-gray-400">{stage.label.toUpperCase()}</span>
+                  <span className="text-gray-600">{deals.length}</span>
+                </div>
+                <div className="flex-1 overflow-y-auto p-2 space-y-2">
+                  {deals.map(deal => (
+                    <div
+                      key={deal.id}
+                      draggable
+                      onDragStart={(e) => e.dataTransfer.setData('text/plain', deal.id)}
+                      onClick={() => setSelectedId(deal.id)}
+                      className={`border-l-2 ${STAGE_ACCENTS[deal.pipelineStage]} bg-[#111] px-2 py-1.5 cursor-pointer font-mono hover:bg-[#1a1a1a] ${
+                        deal.id === selectedId ? 'ring-1 ring-green-700' : ''
+                      }`}
+                    >
+                      <div className="text-xs text-white truncate">{deal.candidate.name}</div>
+                      <div className="text-[10px] text-gray-500 truncate">{deal.candidate.sector} · {deal.candidate.stage}</div>
+                      {deal.tags.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mt-1">
+                          {deal.tags.map(tag => <span key={tag} className="text-[9px] bg-gray-800 text-gray-400 px-1">{tag}</span>)}
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="w-80 bg-[#0c0c0c] border border-gray-800 p-4 overflow-y-auto font-mono text-xs">
+        {selected ? (
+          <div className="space-y-3">
+            <div>
+              <h3 className="text-sm text-white">{selected.candidate.name}</h3>
+              <div className="text-[10px] text-gray-500">
+                {selected.candidate.sector} · {selected.candidate.stage} · {selected.candidate.geography}
+              </div>
+            </div>
+            <div>
+              <div className="text-[10px] text-gray-600">LAST ROUND</div>
+              <div className="text-gray-300">{selected.candidate.lastRound}</div>
+            </div>
+            <div>
+              <div className="text-[10px] text-gray-600">RATIONALE</div>
+              <div className="text-gray-300 whitespace-pre-wrap">{selected.candidate.rationale || '--'}</div>
+            </div>
+            <div>
+              <label className="block text-[10px] text-gray-600 mb-1">STAGE</label>
+              <select value={selected.pipelineStage} onChange={(e) => moveDeal(selected.id, e.target.value as DealStage)} className={inputClass}>
+                {DEAL_STAGES.map(s => <option key={s.id} value={s.id}>{s.label}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-[10px] text-gray-600 mb-1">TAGS (COMMA SEPARATED)</label>
+              <input
+                key={`${selected.id}-tags`}
+                type="text"
+                defaultValue={selected.tags.join(', ')}
+                onBlur={(e) => onChange(updateDeal(pipeline, selected.id, { tags: parseTags(e.target.value) }))}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-[10px] text-gray-600 mb-1">NOTES</label>
+              <textarea
+                key={`${selected.id}-notes`}
+                defaultValue={selected.notes}
+                onBlur={(e) => onChange(updateDeal(pipeline, selected.id, { notes: e.target.value }))}
+                className={`${inputClass} h-32 resize-none`}
+              />
+            </div>
+            {selected.candidate.sourceUris.length > 0 && (
+              <div>
+                <div className="text-[10px] text-gray-600 mb-1">SOURCES</div>
+                <ul className="space-y-1">
+                  {selected.candidate.sourceUris.map((uri, i) => (
+                    <li key={uri}>
+                      <a href={uri} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:underline truncate block">[{i + 1}] {uri}</a>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            <div className="text-[10px] text-gray-600">
+              Added {new Date(selected.addedAt).toLocaleDateString()} · Updated {new Date(selected.updatedAt).toLocaleString()}
+            </div>
+            <div className="flex justify-between text-[10px]">
+              <span className="space-x-3">
+                <button onClick={() => onBuildMemo(selected)} className="text-blue-400 hover:text-blue-300">BUILD MEMO</button>
+                <button onClick={() => onValue(selected)} className="text-indigo-400 hover:text-indigo-300">VALUE</button>
+              </span>
+              <button onClick={() => removeDeal(selected.id)} className="text-gray-500 hover:text-red-500">REMOVE FROM PIPELINE</button>
+            </div>
+          </div>
+        ) : (
+          <div className="text-gray-600 text-center py-6">
+            {pipeline.length === 0 ? 'Pipeline is empty. Save candidates from a scan.' : 'Select a card to edit notes, tags and stage. Drag cards between columns.'}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DealPipelineBoard;
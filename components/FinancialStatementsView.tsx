@@ -0,0 +1,147 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { FilingDocument, FinancialStatements, StatementFigure } from '../types';
+import {
+  STATEMENT_KINDS,
+  computeRatios,
+  downloadStatementsCsv,
+  formatFigure,
+  formatRatio,
+} from '../services/financialsService';
+
+interface FinancialStatementsViewProps {
+  statements: FinancialStatements;
+  filing: FilingDocument;
+}
+
+// Splits page text around the printed forms of a figure so it can be highlighted
+const highlight = (text: string, value: number | null): React.ReactNode => {
+  if (value === null) return text;
+  const forms = [Math.abs(value).toLocaleString('en-US', { maximumFractionDigits: 2 }), String(Math.abs(value))]
+    .map(f => f.replace(/[.]/g, '\\.'));
+  const parts = text.split(new RegExp(`(?<![\\d,.])(${forms.join('|')})(?![\\d,]|\\.\\d)`, 'g'));
+  return parts.map((part, i) => (i % 2 ? <mark key={i} className="bg-yellow-700 text-white">{part}</mark> : part));
+};
+
+const FinancialStatementsView: React.FC<FinancialStatementsViewProps> = ({ statements, filing }) => {
+  const ratios = useMemo(() => computeRatios(statements), [statements]);
+  const [pdfUrl, setPdfUrl] = useState<string | null>(null);
+  const [focus, setFocus] = useState<{ label: string; period: string; figure: StatementFigure } | null>(null);
+
+  // Blob URLs (unlike data URLs) can be opened in a new tab at a page via #page=N
+  useEffect(() => {
+    setFocus(null);
+    if (filing.kind !== 'pdf' || !filing.dataUrl) {
+      setPdfUrl(null);
+      return;
+    }
+    let url: string | null = null;
+    let cancelled = false;
+    fetch(filing.dataUrl)
+      .then(res => res.blob())
+      .then(blob => {
+        if (cancelled) return;
+        url = URL.createObjectURL(blob);
+        setPdfUrl(url);
+      })
+      .catch(error => console.error("Filing preview error:", error));
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [filing]);
+
+  const renderFigure = (label: string, period: string, figure: StatementFigure) => {
+    const value = (
+      <span className={figure.value !== null && figure.value < 0 ? 'text-red-400' : 'text-gray-200'}>{formatFigure(figure.value)}</span>
+    );
+    if (figure.page === null) {
+      return <span title="No page reference">{value}<sup className="ml-1 text-yellow-700">?</sup></span>;
+    }
+    const pageLabel = <sup className="ml-1 text-blue-500 group-hover:text-blue-300">p{figure.page}</sup>;
+    if (filing.kind === 'pdf') {
+      return pdfUrl ? (
+        <a href={`${pdfUrl}#page=${figure.page}`} target="_blank" rel="noreferrer" className="group" title={`Open page ${figure.page}`}>
+          {value}{pageLabel}
+        </a>
+      ) : <span>{value}{pageLabel}</span>;
+    }
+    return (
+      <button onClick={() => setFocus({ label, period, figure })} className="group" title={`Show page ${figure.page}`}>
+        {value}{pageLabel}
+      </button>
+    );
+  };
+
+  const focusPage = focus?.figure.page ? filing.pages?.[focus.figure.page - 1] : undefined;
+  const headerRow = (title: string) => (
+    <tr className="bg-[#111]">
+      <td colSpan={statements.periods.length + 1} className="px-4 py-1 text-[10px] font-bold text-gray-500 tracking-wider">{title}</td>
+    </tr>
+  );
+
+  return (
+    <div className="bg-[#0c0c0c] border border-gray-800 h-full flex flex-col font-mono text-xs min-h-0">
+      <div className="bg-[#151515] px-4 py-2 border-b border-gray-800 flex justify-between items-center">
+        <h4 className="font-bold text-gray-400 truncate">
+          {statements.company} <span className="font-normal text-gray-600">· {statements.currency} {statements.unit} · {filing.name}</span>
+        </h4>
+        <button onClick={() => downloadStatementsCsv(statements)} className="text-[10px] text-gray-500 hover:text-white">EXPORT CSV</button>
+      </div>
+
+      <div className="flex-1 overflow-auto min-h-0">
+        <table className="min-w-full">
+          <thead className="sticky top-0 bg-[#0c0c0c] text-[10px] text-gray-600">
+            <tr>
+              <th className="text-left px-4 py-1 font-normal">LINE</th>
+              {statements.periods.map(p => <th key={p} className="text-right px-3 py-1 font-normal whitespace-nowrap">{p}</th>)}
+            </tr>
+          </thead>
+          <tbody>
+            {headerRow('RATIOS')}
+            {ratios.map(r => (
+              <tr key={r.id} className="border-t border-gray-900">
+                <td className="px-4 py-1 text-gray-400 whitespace-nowrap">{r.label}</td>
+                {r.values.map((v, i) => (
+                  <td key={i} className={`px-3 text-right whitespace-nowrap ${v === null ? 'text-gray-700' : v < 0 ? 'text-red-400' : 'text-white'}`}>
+                    {formatRatio(v, r.format)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+            {STATEMENT_KINDS.map(kind => {
+              const lines = statements.lines.filter(l => l.statement === kind.id);
+              if (lines.length === 0) return null;
+              return (
+                <React.Fragment key={kind.id}>
+                  {headerRow(kind.label.toUpperCase())}
+                  {lines.map(line => (
+                    <tr key={line.id} className="border-t border-gray-900">
+                      <td className="px-4 py-1 text-gray-400 whitespace-nowrap" title={line.id}>{line.label}</td>
+                      {line.figures.map((f, i) => (
+                        <td key={i} className="px-3 text-right whitespace-nowrap">{renderFigure(line.label, statements.periods[i], f)}</td>
+                      ))}
+                    </tr>
+                  ))}
+                </React.Fragment>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {focus && (
+        <div className="h-2/5 border-t border-gray-800 flex flex-col min-h-0">
+          <div className="px-4 py-1 flex justify-between items-center text-[10px] text-gray-500 border-b border-gray-900">
+            <span>PAGE {focus.figure.page} · {focus.label} · {focus.period} = {formatFigure(focus.figure.value)}</span>
+            <button onClick={() => setFocus(null)} className="hover:text-white">CLOSE</button>
+          </div>
+          <pre className="flex-1 overflow-auto px-4 py-2 text-[11px] text-gray-400 whitespace-pre-wrap">
+            {focusPage ? highlight(focusPage, focus.figure.value) : 'Page text not available.'}
+          </pre>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FinancialStatementsView;
@@ -0,0 +1,124 @@
+import React, { useMemo, useState } from 'react';
+import { HistoryEntry, Workspace } from '../types';
+import { DEFAULT_WORKSPACE, matchesHistorySearch } from '../services/historyService';
+
+interface HistorySidebarProps {
+  title: string;
+  entries: HistoryEntry[];
+  workspaces: Workspace[];
+  workspaceId: string;
+  onWorkspaceChange: (id: string) => void;
+  onWorkspaceCreate: (name: string) => void;
+  onWorkspaceRename: (id: string, name: string) => void;
+  onWorkspaceDelete: (id: string) => void;
+  onOpen: (entry: HistoryEntry) => void;
+  onRerun: (entry: HistoryEntry) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<HistoryEntry['status'], string> = {
+  complete: 'text-green-500',
+  aborted: 'text-yellow-500',
+  error: 'text-red-500',
+};
+
+const inputClass = "w-full bg-black border border-gray-700 text-white px-2 py-1.5 text-xs focus:border-blue-500 focus:outline-none font-mono";
+
+const HistorySidebar: React.FC<HistorySidebarProps> = ({
+  title,
+  entries,
+  workspaces,
+  workspaceId,
+  onWorkspaceChange,
+  onWorkspaceCreate,
+  onWorkspaceRename,
+  onWorkspaceDelete,
+  onOpen,
+  onRerun,
+  onDelete,
+  onClose
+}) => {
+  const [search, setSearch] = useState('');
+  const visible = useMemo(() => entries.filter(e => matchesHistorySearch(e, search)), [entries, search]);
+  const workspace = workspaces.find(w => w.id === workspaceId);
+
+  const promptName = (current = '') => window.prompt('Workspace name', current)?.trim();
+
+  return (
+    <div className="absolute right-0 top-0 bottom-0 z-10 w-80 bg-[#0c0c0c] border-l border-gray-700 shadow-2xl flex flex-col font-mono">
+      <div className="bg-[#1a1a1a] px-4 py-2 flex justify-between items-center border-b border-gray-800">
+        <span className="text-xs font-bold text-gray-400 uppercase tracking-wider">{title} History</span>
+        <button onClick={onClose} className="text-gray-500 hover:text-white text-sm" title="Close">×</button>
+      </div>
+
+      <div className="p-3 space-y-2 border-b border-gray-800">
+        <label className="block text-[10px] text-gray-500">WORKSPACE</label>
+        <div className="flex space-x-1">
+          <select value={workspaceId} onChange={(e) => onWorkspaceChange(e.target.value)} className={inputClass}>
+            {workspaces.map(w => <option key={w.id} value={w.id}>{w.name}</option>)}
+          </select>
+          <button
+            onClick={() => { const name = promptName(); if (name) onWorkspaceCreate(name); }}
+            className="px-2 border border-gray-700 text-gray-400 hover:text-white text-xs"
+            title="New workspace"
+          >
+            +
+          </button>
+        </div>
+        {workspaceId !== DEFAULT_WORKSPACE.id && workspace && (
+          <div className="flex space-x-3 text-[10px]">
+            <button
+              onClick={() => { const name = promptName(workspace.name); if (name) onWorkspaceRename(workspace.id, name); }}
+              className="text-gray-500 hover:text-white"
+            >
+              RENAME
+            </button>
+            <button
+              onClick={() => { if (window.confirm(`Delete workspace "${workspace.name}" and all of its runs?`)) onWorkspaceDelete(workspace.id); }}
+              className="text-gray-500 hover:text-red-500"
+            >
+              DELETE
+            </button>
+          </div>
+        )}
+        <input
+          type="text"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search queries, output, sources..."
+          className={inputClass}
+        />
+      </div>
+
+      <div className="flex-1 overflow-y-auto">
+        {visible.map(entry => (
+          <div key={entry.id} className="px-3 py-2 border-b border-gray-900 hover:bg-[#111827] group">
+            <button onClick={() => onOpen(entry)} className="w-full text-left">
+              <div className="flex justify-between text-[10px] text-gray-600">
+                <span>{new Date(entry.timestamp).toLocaleString()}</span>
+                <span className={STATUS_STYLES[entry.status]}>{entry.status.toUpperCase()}</span>
+              </div>
+              <div className="text-xs text-gray-200 truncate" title={entry.query}>{entry.query || '(no prompt)'}</div>
+              <div className="text-[10px] text-gray-600 truncate">
+                {entry.model}{entry.groundingChunks?.length ? ` · ${entry.groundingChunks.length} sources` : ''}
+              </div>
+            </button>
+            <div className="flex space-x-3 text-[10px] mt-1 opacity-0 group-hover:opacity-100">
+              <button onClick={() => onOpen(entry)} className="text-blue-500 hover:text-blue-300">OPEN</button>
+              <button onClick={() => onRerun(entry)} className="text-green-600 hover:text-green-400">RE-RUN</button>
+              <button onClick={() => onDelete(entry.id)} className="text-gray-600 hover:text-red-500">DELETE</button>
+            </div>
+          </div>
+        ))}
+        {visible.length === 0 && (
+          <div className="px-3 py-6 text-center text-[10px] text-gray-600">
+            {entries.length === 0 ? 'No runs recorded in this workspace.' : 'No runs match the search.'}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default HistorySidebar;
@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { LayoutNode, SavedLayout } from '../types';
+import { LAYOUT_PRESETS, describeLayout } from '../services/layoutService';
+
+interface LayoutManagerProps {
+  layouts: SavedLayout[];
+  current: LayoutNode;
+  onSave: (name: string) => void;
+  onLoad: (root: LayoutNode, name: string) => void;
+  onPreset: (index: number) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+const inputClass = "flex-1 min-w-0 bg-black border border-gray-700 text-white px-2 py-1 text-xs focus:border-blue-500 focus:outline-none font-mono";
+
+const LayoutManager: React.FC<LayoutManagerProps> = ({ layouts, current, onSave, onLoad, onPreset, onDelete, onClose }) => {
+  const [name, setName] = useState('');
+
+  const save = () => {
+    if (!name.trim()) return;
+    onSave(name);
+    setName('');
+  };
+
+  return (
+    <div className="absolute right-6 top-2 z-20 w-96 max-h-[calc(100%-1rem)] flex flex-col bg-[#0c0c0c] border border-gray-700 shadow-2xl font-mono text-xs">
+      <div className="bg-[#1a1a1a] px-4 py-2 flex justify-between items-center border-b border-gray-800">
+        <span className="text-xs font-bold text-gray-400 uppercase tracking-wider">Layouts</span>
+        <button onClick={onClose} className="text-gray-500 hover:text-white text-sm" title="Close">×</button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto min-h-0 p-4 space-y-4">
+        <div>
+          <label className="block text-gray-500 mb-1">SAVE CURRENT</label>
+          <p className="text-[10px] text-gray-600 mb-2 truncate" title={describeLayout(current)}>{describeLayout(current)}</p>
+          <div className="flex space-x-2">
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && save()}
+              placeholder="Layout name"
+              className={inputClass}
+            />
+            <button onClick={save} disabled={!name.trim()} className="border border-gray-700 text-gray-300 px-3 hover:text-white disabled:opacity-50">
+              SAVE
+            </button>
+          </div>
+          <p className="text-[10px] text-gray-600 mt-1">Saving under an existing name replaces it.</p>
+        </div>
+
+        <div>
+          <div className="text-gray-500 mb-1">SAVED ({layouts.length})</div>
+          {layouts.length === 0 && <div className="text-gray-600">No saved layouts.</div>}
+          {layouts.map(l => (
+            <div key={l.id} className="flex items-center space-x-2 py-1 border-t border-gray-900">
+              <div className="flex-1 min-w-0">
+                <div className="text-gray-300 truncate">{l.name}</div>
+                <div className="text-[10px] text-gray-600 truncate" title={describeLayout(l.root)}>{describeLayout(l.root)}</div>
+              </div>
+              <button onClick={() => onLoad(l.root, l.name)} className="text-[10px] text-blue-400 hover:text-white">LOAD</button>
+              <button
+                onClick={() => window.confirm(`Delete layout "${l.name}"?`) && onDelete(l.id)}
+                className="text-[10px] text-gray-600 hover:text-red-500"
+              >
+                DEL
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <div>
+          <div className="text-gray-500 mb-1">PRESETS</div>
+          <div className="grid grid-cols-3 gap-1">
+            {LAYOUT_PRESETS.map((p, i) => (
+              <button key={p.name} onClick={() => onPreset(i)} className="border border-gray-800 text-gray-400 hover:text-white hover:border-gray-600 px-2 py-1 text-[10px]">
+                {p.name}
+              </button>
+            ))}
+          </div>
+          <p className="text-[10px] text-gray-600 mt-2">Drag a tab onto another pane to dock it there, or onto a pane edge to split.</p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LayoutManager;
@@ -0,0 +1,190 @@
+import React, { useRef, useState } from 'react';
+import { LayoutNode, LayoutPane, LayoutSplit, PanelKind } from '../types';
+import { DockZone, PANEL_LABELS, SYMBOL_PANELS, addablePanels, dragDivider } from '../services/layoutService';
+
+interface LayoutViewProps {
+  root: LayoutNode;
+  focusedId: string | null;
+  // Symbol shared by linked panes
+  symbol: string;
+  renderPanel: (kind: PanelKind, pane: LayoutPane) => React.ReactNode;
+  onFocus: (paneId: string) => void;
+  onSelectTab: (paneId: string, index: number) => void;
+  onCloseTab: (paneId: string, index: number) => void;
+  onAddTab: (paneId: string, kind: PanelKind) => void;
+  onSplit: (paneId: string, zone: Exclude<DockZone, 'center'>, kind: PanelKind) => void;
+  onMoveTab: (fromId: string, index: number, toId: string, zone: DockZone) => void;
+  onResize: (splitId: string, sizes: number[]) => void;
+  onLinkChange: (paneId: string, linked: boolean) => void;
+}
+
+const TAB_MIME = 'application/x-quantcore-tab';
+
+// Outer quarter of a pane docks beside it; the middle docks as a tab
+const dockZone = (e: React.DragEvent, rect: DOMRect): DockZone => {
+  const x = (e.clientX - rect.left) / rect.width;
+  const y = (e.clientY - rect.top) / rect.height;
+  const edges: [DockZone, number][] = [['left', x], ['right', 1 - x], ['top', y], ['bottom', 1 - y]];
+  const [zone, distance] = edges.reduce((best, edge) => (edge[1] < best[1] ? edge : best));
+  return distance < 0.25 ? zone : 'center';
+};
+
+const ZONE_CLASSES: Record<DockZone, string> = {
+  center: 'inset-0',
+  left: 'inset-y-0 left-0 w-1/2',
+  right: 'inset-y-0 right-0 w-1/2',
+  top: 'inset-x-0 top-0 h-1/2',
+  bottom: 'inset-x-0 bottom-0 h-1/2',
+};
+
+const Pane: React.FC<LayoutViewProps & { pane: LayoutPane; multi: boolean }> = (props) => {
+  const { pane, root, focusedId, symbol, multi, renderPanel, onFocus, onSelectTab, onCloseTab, onAddTab, onSplit, onMoveTab, onLinkChange } = props;
+  const [dropZone, setDropZone] = useState<DockZone | null>(null);
+  const bodyRef = useRef<HTMLDivElement>(null);
+  const focused = pane.id === focusedId;
+  const kind = pane.tabs[pane.active];
+  const addable = addablePanels(root, pane);
+
+  const handleDrop = (e: React.DragEvent, zone: DockZone) => {
+    const data = e.dataTransfer.getData(TAB_MIME);
+    setDropZone(null);
+    if (!data) return;
+    e.preventDefault();
+    const { paneId, index } = JSON.parse(data) as { paneId: string; index: number };
+    onMoveTab(paneId, index, pane.id, zone);
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes(TAB_MIME) || !bodyRef.current) return;
+    e.preventDefault();
+    setDropZone(dockZone(e, bodyRef.current.getBoundingClientRect()));
+  };
+
+  return (
+    <div className="h-full w-full flex flex-col min-h-0 min-w-0" onMouseDownCapture={() => !focused && onFocus(pane.id)}>
+      <div
+        className={`flex items-center h-7 bg-[#0a0a0a] border font-mono text-[10px] ${focused && multi ? 'border-blue-900' : 'border-gray-800'}`}
+        onDragOver={(e) => e.dataTransfer.types.includes(TAB_MIME) && e.preventDefault()}
+        onDrop={(e) => handleDrop(e, 'center')}
+      >
+        <div className="flex flex-1 min-w-0 h-full overflow-x-auto">
+          {pane.tabs.map((tab, i) => (
+            <div
+              key={tab}
+              draggable
+              onDragStart={(e) => e.dataTransfer.setData(TAB_MIME, JSON.stringify({ paneId: pane.id, index: i }))}
+              onClick={() => onSelectTab(pane.id, i)}
+              className={`flex items-center space-x-2 px-3 h-full border-r border-gray-800 cursor-pointer whitespace-nowrap ${
+                i === pane.active ? `bg-[#151515] text-white ${focused ? 'border-b-2 border-b-blue-500' : ''}` : 'text-gray-500 hover:text-gray-300'
+              }`}
+            >
+              <span>{PANEL_LABELS[tab].toUpperCase()}</span>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onCloseTab(pane.id, i);
+                }}
+                className="text-gray-600 hover:text-red-500"
+                title="Close tab"
+              >
+                ×
+              </button>
+            </div>
+          ))}
+        </div>
+        {SYMBOL_PANELS.includes(kind) && (
+          <button
+            onClick={() => onLinkChange(pane.id, !pane.linked)}
+            className={`px-2 h-full border-l border-gray-800 ${pane.linked ? 'text-blue-400' : 'text-yellow-500'}`}
+            title={pane.linked ? 'Linked: follows the shared symbol. Click to pin this pane.' : 'Pinned to its own symbol. Click to link.'}
+          >
+            {pane.linked ? `LINK ${symbol}` : `PIN ${pane.symbol}`}
+          </button>
+        )}
+        {addable.length > 0 && (
+          <select
+            value=""
+            onChange={(e) => e.target.value && onAddTab(pane.id, e.target.value as PanelKind)}
+            className="h-full bg-[#0a0a0a] border-l border-gray-800 text-gray-500 px-1 focus:outline-none"
+            title="Add tab"
+          >
+            <option value="">+ TAB</option>
+            {addable.map(k => <option key={k} value={k}>{PANEL_LABELS[k]}</option>)}
+          </select>
+        )}
+        {addable.length > 0 && (['right', 'bottom'] as const).map(zone => (
+          <select
+            key={zone}
+            value=""
+            onChange={(e) => e.target.value && onSplit(pane.id, zone, e.target.value as PanelKind)}
+            className="h-full bg-[#0a0a0a] border-l border-gray-800 text-gray-500 px-1 focus:outline-none"
+            title={zone === 'right' ? 'Split side by side' : 'Split stacked'}
+          >
+            <option value="">{zone === 'right' ? 'SPLIT ⇥' : 'SPLIT ⤓'}</option>
+            {addable.map(k => <option key={k} value={k}>{PANEL_LABELS[k]}</option>)}
+          </select>
+        ))}
+      </div>
+      <div
+        ref={bodyRef}
+        className="flex-1 min-h-0 pt-3 relative overflow-hidden"
+        onDragOver={handleDragOver}
+        onDragLeave={(e) => !e.currentTarget.contains(e.relatedTarget as Node) && setDropZone(null)}
+        onDrop={(e) => dropZone && handleDrop(e, dropZone)}
+      >
+        {renderPanel(kind, pane)}
+        {dropZone && <div className={`absolute z-30 pointer-events-none bg-blue-500/10 border border-blue-500 ${ZONE_CLASSES[dropZone]}`} />}
+      </div>
+    </div>
+  );
+};
+
+const Split: React.FC<LayoutViewProps & { split: LayoutSplit; multi: boolean }> = (props) => {
+  const { split, onResize } = props;
+  const containerRef = useRef<HTMLDivElement>(null);
+  const row = split.direction === 'row';
+
+  // Sizes are shares of the container, so a pixel drag is divided by its current extent
+  const startDrag = (e: React.MouseEvent, index: number) => {
+    e.preventDefault();
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    const extent = row ? rect.width : rect.height;
+    const origin = row ? e.clientX : e.clientY;
+    const start = split.sizes;
+    const onMove = (ev: MouseEvent) => onResize(split.id, dragDivider(start, index, ((row ? ev.clientX : ev.clientY) - origin) / extent));
+    const onUp = () => {
+      window.removeEventListener('mousemove', onMove);
+      window.removeEventListener('mouseup', onUp);
+    };
+    window.addEventListener('mousemove', onMove);
+    window.addEventListener('mouseup', onUp);
+  };
+
+  return (
+    <div ref={containerRef} className={`h-full w-full flex min-h-0 min-w-0 ${row ? 'flex-row' : 'flex-col'}`}>
+      {split.children.map((child, i) => (
+        <React.Fragment key={child.id}>
+          {i > 0 && (
+            <div
+              onMouseDown={(e) => startDrag(e, i - 1)}
+              className={`flex-shrink-0 hover:bg-blue-900/60 ${row ? 'w-2 cursor-col-resize' : 'h-2 cursor-row-resize'}`}
+            />
+          )}
+          <div className="min-h-0 min-w-0 overflow-hidden" style={{ flex: `${split.sizes[i]} 1 0%` }}>
+            <Node {...props} node={child} />
+          </div>
+        </React.Fragment>
+      ))}
+    </div>
+  );
+};
+
+const Node: React.FC<LayoutViewProps & { node: LayoutNode; multi: boolean }> = ({ node, ...props }) =>
+  node.type === 'pane' ? <Pane {...props} pane={node} /> : <Split {...props} split={node} />;
+
+const LayoutView: React.FC<LayoutViewProps> = (props) => (
+  <Node {...props} node={props.root} multi={props.root.type === 'split'} />
+);
+
+export default LayoutView;
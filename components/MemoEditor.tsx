@@ -0,0 +1,100 @@
+import React from 'react';
+import { InvestmentMemo, LogEntry, MemoSectionId } from '../types';
+import { downloadMemoHtml, downloadMemoMarkdown, printMemo, sourceLabel } from '../services/memoService';
+
+interface MemoEditorProps {
+  memo: InvestmentMemo;
+  onChange: (memo: InvestmentMemo) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+  onLog: (message: string, level?: LogEntry['level']) => void;
+}
+
+const inputClass = "w-full bg-black border border-gray-700 text-white px-3 py-2 text-sm focus:border-blue-500 focus:outline-none font-mono";
+
+const MemoEditor: React.FC<MemoEditorProps> = ({ memo, onChange, onDelete, onClose, onLog }) => {
+  const update = (changes: Partial<InvestmentMemo>) => onChange({ ...memo, ...changes, updatedAt: Date.now() });
+
+  const setSection = (id: MemoSectionId, body: string) =>
+    update({ sections: memo.sections.map(s => s.id === id ? { ...s, body } : s) });
+
+  const handlePdf = () => {
+    if (printMemo(memo)) {
+      onLog(`Memo sent to print: ${memo.title}`, 'INFO');
+    } else {
+      onLog('Memo print blocked: allow pop-ups for this site', 'WARN');
+    }
+  };
+
+  return (
+    <div className="absolute inset-0 z-20 bg-black/80 flex justify-center p-6">
+      <div className="w-full max-w-4xl bg-[#0c0c0c] border border-gray-700 shadow-2xl flex flex-col font-mono min-h-0">
+        <div className="bg-[#1a1a1a] px-4 py-2 flex justify-between items-center border-b border-gray-800">
+          <span className="text-xs font-bold text-gray-400 uppercase tracking-wider">Investment Memo // {memo.subject.kind}</span>
+          <div className="flex items-center space-x-3 text-[10px]">
+            <button onClick={() => { downloadMemoMarkdown(memo); onLog(`Memo exported (Markdown): ${memo.title}`, 'INFO'); }} className="text-gray-400 hover:text-white border border-gray-700 px-2 py-0.5">
+              MARKDOWN
+            </button>
+            <button onClick={() => { downloadMemoHtml(memo); onLog(`Memo exported (HTML): ${memo.title}`, 'INFO'); }} className="text-gray-400 hover:text-white border border-gray-700 px-2 py-0.5">
+              HTML
+            </button>
+            <button onClick={handlePdf} className="text-gray-400 hover:text-white border border-gray-700 px-2 py-0.5">
+              PDF
+            </button>
+            <button
+              onClick={() => { if (window.confirm('Delete this memo?')) onDelete(memo.id); }}
+              className="text-gray-500 hover:text-red-500"
+            >
+              DELETE
+            </button>
+            <button onClick={onClose} className="text-gray-500 hover:text-white text-sm" title="Close">×</button>
+          </div>
+        </div>
+        <div className="flex-1 overflow-y-auto p-6 space-y-5">
+          <input
+            type="text"
+            value={memo.title}
+            onChange={(e) => update({ title: e.target.value })}
+            className={`${inputClass} text-lg`}
+          />
+          {memo.sections.map(section => (
+            <div key={section.id}>
+              <label className="block text-xs text-gray-500 mb-1 uppercase">{section.title}</label>
+              <textarea
+                value={section.body}
+                onChange={(e) => setSection(section.id, e.target.value)}
+                rows={Math.min(12, Math.max(3, section.body.split('\n').length + 1))}
+                className={`${inputClass} text-xs resize-y`}
+              />
+            </div>
+          ))}
+          <div className="border-t border-gray-800 pt-4">
+            <h4 className="text-xs uppercase text-blue-500 font-bold mb-2">Sources</h4>
+            {memo.sources.length > 0 ? (
+              <ul className="space-y-1 text-xs">
+                {memo.sources.map((chunk, i) => {
+                  const { uri, title } = sourceLabel(chunk);
+                  return (
+                    <li key={i} className="truncate">
+                      {uri ? (
+                        <a href={uri} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:text-blue-300 hover:underline">
+                          [{i + 1}] {title}
+                        </a>
+                      ) : (
+                        <span className="text-gray-500">[{i + 1}] {title}</span>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            ) : (
+              <div className="text-[10px] text-gray-600">No sources. Cite with [n] once sources are attached.</div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MemoEditor;
@@ -0,0 +1,163 @@
+import React, { useRef, useState } from 'react';
+import { NewsItem, NewsSentiment, NewsSettings } from '../types';
+import { createFeedId } from '../services/newsService';
+
+interface NewsPanelProps {
+  items: NewsItem[];
+  settings: NewsSettings;
+  refreshing: boolean;
+  lastRefresh: number | null;
+  onSettingsChange: (settings: NewsSettings) => void;
+  onRefresh: () => void;
+  onImport: (file: File) => void;
+  onClear: () => void;
+  onSelectSymbol: (symbol: string) => void;
+}
+
+const SENTIMENT_STYLES: Record<NewsSentiment, string> = {
+  POSITIVE: 'text-green-400 border-green-800',
+  NEGATIVE: 'text-red-400 border-red-800',
+  NEUTRAL: 'text-gray-400 border-gray-700',
+};
+
+const relativeTime = (timestamp: number, now: number) => {
+  const minutes = Math.max(0, Math.round((now - timestamp) / 60000));
+  if (minutes < 1) return 'now';
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.round(minutes / 60);
+  return hours < 48 ? `${hours}h` : `${Math.round(hours / 24)}d`;
+};
+
+const NewsPanel: React.FC<NewsPanelProps> = ({
+  items, settings, refreshing, lastRefresh, onSettingsChange, onRefresh, onImport, onClear, onSelectSymbol,
+}) => {
+  const [editing, setEditing] = useState(false);
+  const [name, setName] = useState('');
+  const [url, setUrl] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const now = Date.now();
+
+  const updateFeeds = (feeds: NewsSettings['feeds']) => onSettingsChange({ ...settings, feeds });
+
+  const handleAddFeed = (e: React.FormEvent) => {
+    e.preventDefault();
+    const feedUrl = url.trim();
+    if (!feedUrl) return;
+    updateFeeds([...settings.feeds, { id: createFeedId(), name: name.trim() || feedUrl, url: feedUrl, enabled: true }]);
+    setName('');
+    setUrl('');
+  };
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onImport(file);
+    e.target.value = '';
+  };
+
+  const control = 'text-[10px] text-gray-500 hover:text-white disabled:opacity-40';
+  const input = 'bg-black border border-gray-700 text-white px-2 py-0.5 text-[10px] focus:border-blue-500 focus:outline-none font-mono';
+
+  return (
+    <div className="bg-[#0c0c0c] border border-gray-800 flex flex-col h-full min-h-0 font-mono text-xs">
+      <div className="bg-[#151515] px-4 py-2 border-b border-gray-800 flex justify-between items-center">
+        <h3 className="text-xs font-bold text-gray-400">MARKET INTELLIGENCE</h3>
+        <div className="flex items-center space-x-3">
+          <span className="text-[10px] text-gray-600">
+            {refreshing ? 'REFRESHING...' : lastRefresh ? `UPDATED ${new Date(lastRefresh).toLocaleTimeString()}` : 'NOT LOADED'}
+          </span>
+          <button onClick={onRefresh} disabled={refreshing} className={control}>REFRESH</button>
+          <button onClick={() => setEditing(!editing)} className={editing ? 'text-[10px] text-white' : control}>FEEDS</button>
+          <button onClick={() => fileInputRef.current?.click()} className={control}>IMPORT</button>
+          <input ref={fileInputRef} type="file" accept=".xml,.rss,.atom,.json" className="hidden" onChange={handleFile} />
+        </div>
+      </div>
+
+      {editing && (
+        <div className="border-b border-gray-800 px-4 py-2 space-y-1 max-h-48 overflow-y-auto">
+          {settings.feeds.map(feed => (
+            <div key={feed.id} className="flex items-center space-x-2 text-[10px]">
+              <input
+                type="checkbox"
+                checked={feed.enabled}
+                onChange={() => updateFeeds(settings.feeds.map(f => f.id === feed.id ? { ...f, enabled: !f.enabled } : f))}
+              />
+              <span className={feed.enabled ? 'text-gray-300' : 'text-gray-600'}>{feed.name}</span>
+              <span className="flex-1 truncate text-gray-600" title={feed.url}>{feed.url}</span>
+              <button onClick={() => updateFeeds(settings.feeds.filter(f => f.id !== feed.id))} className="text-gray-600 hover:text-red-400">×</button>
+            </div>
+          ))}
+          <form onSubmit={handleAddFeed} className="flex items-center space-x-1 pt-1">
+            <input value={name} onChange={e => setName(e.target.value)} placeholder="NAME" className={`${input} w-24`} />
+            <input value={url} onChange={e => setUrl(e.target.value)} placeholder="RSS / ATOM / JSON URL" className={`${input} flex-1`} />
+            <button type="submit" className="text-[10px] text-gray-400 border border-gray-700 px-2 py-0.5 hover:text-white hover:border-gray-500">ADD</button>
+          </form>
+          {/* Interval and proxy commit on blur so typing doesn't restart the refresh loop */}
+          <div className="flex items-center space-x-2 pt-1 text-[10px] text-gray-500">
+            <span>EVERY</span>
+            <input
+              type="number"
+              min={1}
+              defaultValue={settings.refreshMinutes}
+              onBlur={e => onSettingsChange({ ...settings, refreshMinutes: Math.max(1, Math.round(Number(e.target.value)) || 1) })}
+              className={`${input} w-12`}
+            />
+            <span>MIN</span>
+            <span className="pl-2">PROXY</span>
+            <input
+              defaultValue={settings.proxy}
+              onBlur={e => onSettingsChange({ ...settings, proxy: e.target.value.trim() })}
+              placeholder="https://proxy.example/?url="
+              className={`${input} flex-1`}
+              title="Prefixed to the URL-encoded feed address for feeds that block cross-origin requests"
+            />
+            <button onClick={onClear} className="text-gray-600 hover:text-red-400">CLEAR ITEMS</button>
+          </div>
+        </div>
+      )}
+
+      <div className="flex-1 overflow-y-auto min-h-0">
+        {items.length === 0 && (
+          <div className="p-4 text-gray-600">
+            {refreshing ? 'Loading feeds...' : 'No news items. Check the feed list or proxy, or import a feed file.'}
+          </div>
+        )}
+        {items.map(item => (
+          <div key={item.id} className="px-4 py-2 border-b border-gray-900 hover:bg-[#111]">
+            <div className="flex items-start justify-between space-x-2">
+              {item.url ? (
+                <a href={item.url} target="_blank" rel="noreferrer" className="text-gray-200 hover:text-blue-300 leading-snug" title={item.summary || item.title}>
+                  {item.title}
+                </a>
+              ) : (
+                <span className="text-gray-200 leading-snug" title={item.summary}>{item.title}</span>
+              )}
+              {item.tags && (
+                <span className="flex space-x-0.5 pt-1 shrink-0" title={`Impact ${item.tags.impact}/5`}>
+                  {[1, 2, 3, 4, 5].map(n => (
+                    <span key={n} className={`w-1 h-2 ${n <= item.tags!.impact ? 'bg-yellow-500' : 'bg-gray-800'}`} />
+                  ))}
+                </span>
+              )}
+            </div>
+            <div className="flex items-center flex-wrap gap-1 mt-1 text-[10px] text-gray-600">
+              <span>{item.source}</span>
+              <span>· {relativeTime(item.publishedAt, now)}</span>
+              {item.tags && (
+                <>
+                  <span className={`border px-1 ${SENTIMENT_STYLES[item.tags.sentiment]}`}>{item.tags.sentiment}</span>
+                  {item.tags.tickers.map(t => (
+                    <button key={t} onClick={() => onSelectSymbol(t)} className="border border-blue-900 text-blue-400 px-1 hover:text-white hover:border-blue-500">
+                      {t}
+                    </button>
+                  ))}
+                </>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default NewsPanel;
@@ -0,0 +1,36 @@
+import React, { useState } from 'react';
+
+interface NumberFieldProps {
+  value: number | null;
+  // Shows and edits the value x100, e.g. 0.08 as "8"
+  percent?: boolean;
+  onChange: (value: number | null) => void;
+  className?: string;
+}
+
+const defaultClass = "w-full bg-black border border-gray-700 text-white px-2 py-1 text-xs focus:border-indigo-500 focus:outline-none font-mono text-right";
+
+// Edits are kept as text until blur/Enter so partial input like "-" or "0." isn't reformatted mid-typing
+const NumberField: React.FC<NumberFieldProps> = ({ value, percent, onChange, className }) => {
+  const [draft, setDraft] = useState<string | null>(null);
+  const shown = draft ?? (value === null ? '' : String(Number((percent ? value * 100 : value).toPrecision(10))));
+  const commit = () => {
+    if (draft === null) return;
+    const parsed = draft.trim() === '' ? null : Number(draft.replace(/,/g, ''));
+    if (parsed === null || Number.isFinite(parsed)) onChange(parsed === null ? null : percent ? parsed / 100 : parsed);
+    setDraft(null);
+  };
+  return (
+    <input
+      type="text"
+      inputMode="decimal"
+      value={shown}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => e.key === 'Enter' && commit()}
+      className={className ?? defaultClass}
+    />
+  );
+};
+
+export default NumberField;
@@ -0,0 +1,260 @@
+import React, { useRef, useState } from 'react';
+import { AssetClass, ExposureBucket, LogEntry, PortfolioAnalysis, Position } from '../types';
+import { ASSET_CLASSES, createPositionId, parsePositionsCsv } from '../services/portfolioService';
+
+interface PortfolioViewProps {
+  positions: Position[];
+  analysis: PortfolioAnalysis | null;
+  loading: boolean;
+  benchmark: string;
+  onBenchmarkChange: (symbol: string) => void;
+  onPositionsChange: (positions: Position[]) => void;
+  onLog: (message: string, level?: LogEntry['level']) => void;
+}
+
+const inputClass = "w-full bg-black border border-gray-700 text-white px-2 py-1.5 text-xs focus:border-cyan-500 focus:outline-none font-mono";
+
+const money = (v: number) => v.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const ExposureBars: React.FC<{ title: string; buckets: ExposureBucket[] }> = ({ title, buckets }) => (
+  <div>
+    <h4 className="text-xs font-bold text-gray-500 mb-2">{title}</h4>
+    <div className="space-y-1">
+      {buckets.map(b => (
+        <div key={b.key} className="flex items-center space-x-2 text-[10px] font-mono">
+          <span className="w-24 truncate text-gray-400" title={b.key}>{b.key}</span>
+          <div className="flex-1 h-2 bg-gray-900">
+            <div className={`h-full ${b.marketValue >= 0 ? 'bg-cyan-600' : 'bg-red-700'}`} style={{ width: `${b.weight}%` }}></div>
+          </div>
+          <span className="w-12 text-right text-gray-300">{b.weight.toFixed(1)}%</span>
+        </div>
+      ))}
+      {buckets.length === 0 && <div className="text-[10px] text-gray-600 font-mono">No exposure.</div>}
+    </div>
+  </div>
+);
+
+// Red for positive correlation, blue for negative, intensity by magnitude
+const corrColor = (v: number | null) => {
+  if (v === null) return 'transparent';
+  const a = Math.min(1, Math.abs(v));
+  return v >= 0 ? `rgba(239, 68, 68, ${a * 0.6})` : `rgba(59, 130, 246, ${a * 0.6})`;
+};
+
+const PortfolioView: React.FC<PortfolioViewProps> = ({
+  positions,
+  analysis,
+  loading,
+  benchmark,
+  onBenchmarkChange,
+  onPositionsChange,
+  onLog
+}) => {
+  const [symbol, setSymbol] = useState('');
+  const [quantity, setQuantity] = useState('');
+  const [cost, setCost] = useState('');
+  const [sector, setSector] = useState('');
+  const [assetClass, setAssetClass] = useState<AssetClass>('EQUITY');
+  const csvInputRef = useRef<HTMLInputElement>(null);
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    const qty = Number(quantity);
+    const costBasis = Number(cost);
+    if (!symbol.trim() || !Number.isFinite(qty) || qty === 0 || !Number.isFinite(costBasis)) return;
+    const position: Position = {
+      id: createPositionId(),
+      symbol: symbol.trim().toUpperCase(),
+      quantity: qty,
+      costBasis,
+      sector: sector.trim() || 'Unclassified',
+      assetClass,
+    };
+    onPositionsChange([...positions, position]);
+    onLog(`Position added: ${position.quantity} ${position.symbol} @ ${position.costBasis}`, 'INFO');
+    setSymbol('');
+    setQuantity('');
+    setCost('');
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parsePositionsCsv(await file.text());
+      onPositionsChange([...positions, ...imported]);
+      onLog(`Imported ${imported.length} positions from ${file.name}`, 'INFO');
+    } catch (error: any) {
+      console.error("Position import error:", error);
+      onLog(`Position import rejected: ${error.message}`, 'WARN');
+    }
+  };
+
+  const risk = analysis?.risk;
+
+  return (
+    <div className="grid grid-cols-12 h-full gap-4">
+      <div className="col-span-3 bg-[#0c0c0c] border border-gray-800 p-6 overflow-y-auto">
+        <h3 className="text-lg font-light text-white mb-6">Positions</h3>
+        <form onSubmit={handleAdd} className="space-y-3">
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="block text-xs font-mono text-gray-500 mb-1">SYMBOL</label>
+              <input type="text" value={symbol} onChange={(e) => setSymbol(e.target.value)} className={`${inputClass} uppercase`} placeholder="AAPL" />
+            </div>
+            <div>
+              <label className="block text-xs font-mono text-gray-500 mb-1">QUANTITY</label>
+              <input type="number" value={quantity} onChange={(e) => setQuantity(e.target.value)} className={inputClass} placeholder="-100 for short" />
+            </div>
+            <div>
+              <label className="block text-xs font-mono text-gray-500 mb-1">AVG COST</label>
+              <input type="number" value={cost} onChange={(e) => setCost(e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-xs font-mono text-gray-500 mb-1">ASSET CLASS</label>
+              <select value={assetClass} onChange={(e) => setAssetClass(e.target.value as AssetClass)} className={inputClass}>
+                {ASSET_CLASSES.map(c => <option key={c} value={c}>{c}</option>)}
+              </select>
+            </div>
+          </div>
+          <div>
+            <label className="block text-xs font-mono text-gray-500 mb-1">SECTOR</label>
+            <input type="text" value={sector} onChange={(e) => setSector(e.target.value)} className={inputClass} placeholder="Technology" />
+          </div>
+          <button type="submit" className="w-full bg-cyan-800 hover:bg-cyan-700 text-white font-mono text-xs py-3 uppercase tracking-wider">
+            Add Position
+          </button>
+        </form>
+        <button
+          onClick={() => csvInputRef.current?.click()}
+          className="w-full mt-2 border border-gray-700 text-gray-400 hover:text-white hover:border-gray-500 font-mono text-xs py-2 uppercase tracking-wider"
+        >
+          Import CSV
+        </button>
+        <input type="file" ref={csvInputRef} className="hidden" accept=".csv" onChange={handleImport} />
+        <p className="mt-2 text-[10px] text-gray-600 font-mono">Columns: symbol, quantity, cost, sector, assetClass</p>
+
+        <div className="mt-6 border-t border-gray-800 pt-4">
+          <label className="block text-xs font-mono text-gray-500 mb-1">BENCHMARK</label>
+          <input
+            type="text"
+            value={benchmark}
+            onChange={(e) => onBenchmarkChange(e.target.value.toUpperCase())}
+            className={`${inputClass} uppercase`}
+          />
+        </div>
+      </div>
+
+      <div className="col-span-9 flex flex-col gap-4 min-h-0">
+        <div className="grid grid-cols-6 gap-2 font-mono">
+          {[
+            ['NAV', analysis ? money(analysis.totalValue) : '--'],
+            ['UNREALISED P&L', analysis ? money(analysis.totalPnl) : '--'],
+            ['VAR 95 (1D)', risk ? money(risk.var95) : '--'],
+            ['CVAR 95 (1D)', risk ? money(risk.cvar95) : '--'],
+            [`BETA vs ${benchmark}`, risk?.beta != null ? risk.beta.toFixed(2) : '--'],
+            ['OBSERVATIONS', risk ? String(risk.observations) : '--'],
+          ].map(([label, value]) => (
+            <div key={label} className="bg-[#0c0c0c] border border-gray-800 px-3 py-2">
+              <div className="text-[10px] text-gray-600">{label}</div>
+              <div className={`text-sm ${label === 'UNREALISED P&L' && analysis ? (analysis.totalPnl >= 0 ? 'text-green-500' : 'text-red-500') : 'text-white'}`}>
+                {loading ? '...' : value}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="bg-[#0c0c0c] border border-gray-800 flex-1 min-h-0 flex flex-col">
+          <div className="bg-[#151515] px-4 py-2 border-b border-gray-800 flex justify-between">
+            <h4 className="text-xs font-bold text-gray-400">MARK-TO-MARKET</h4>
+            <span className="text-[10px] text-gray-600 font-mono">DAILY CLOSE</span>
+          </div>
+          <div className="flex-1 overflow-y-auto font-mono text-xs">
+            <table className="w-full">
+              <thead className="text-[10px] text-gray-600 sticky top-0 bg-[#0c0c0c]">
+                <tr>
+                  <th className="text-left px-4 py-1 font-normal">SYM</th>
+                  <th className="text-left px-2 py-1 font-normal">CLASS</th>
+                  <th className="text-left px-2 py-1 font-normal">SECTOR</th>
+                  <th className="text-right px-2 py-1 font-normal">QTY</th>
+                  <th className="text-right px-2 py-1 font-normal">COST</th>
+                  <th className="text-right px-2 py-1 font-normal">LAST</th>
+                  <th className="text-right px-2 py-1 font-normal">MV</th>
+                  <th className="text-right px-2 py-1 font-normal">WEIGHT</th>
+                  <th className="text-right px-2 py-1 font-normal">P&amp;L</th>
+                  <th className="w-6"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {analysis?.marks.map(m => (
+                  <tr key={m.position.id} className="border-t border-gray-900 text-gray-400">
+                    <td className="px-4 py-1.5 font-bold text-white">{m.position.symbol}</td>
+                    <td className="px-2">{m.position.assetClass}</td>
+                    <td className="px-2">{m.position.sector}</td>
+                    <td className="text-right px-2">{m.position.quantity}</td>
+                    <td className="text-right px-2">{m.position.costBasis.toFixed(2)}</td>
+                    <td className="text-right px-2">{m.last === null ? <span className="text-yellow-600" title="No price series">N/A</span> : m.last.toFixed(2)}</td>
+                    <td className="text-right px-2">{money(m.marketValue)}</td>
+                    <td className="text-right px-2">{m.weight.toFixed(1)}%</td>
+                    <td className={`text-right px-2 ${m.pnl >= 0 ? 'text-green-500' : 'text-red-500'}`}>
+                      {money(m.pnl)} ({m.pnlPct.toFixed(2)}%)
+                    </td>
+                    <td className="text-center">
+                      <button
+                        onClick={() => onPositionsChange(positions.filter(p => p.id !== m.position.id))}
+                        className="text-gray-600 hover:text-red-500"
+                        title={`Remove ${m.position.symbol}`}
+                      >
+                        ×
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {positions.length === 0 && (
+              <div className="px-4 py-6 text-center text-gray-600">No positions. Add one or import a CSV.</div>
+            )}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4 h-64">
+          <div className="bg-[#0c0c0c] border border-gray-800 p-4 space-y-4 overflow-y-auto">
+            <ExposureBars title="SECTOR EXPOSURE" buckets={analysis?.bySector || []} />
+            <ExposureBars title="ASSET CLASS EXPOSURE" buckets={analysis?.byAssetClass || []} />
+          </div>
+          <div className="bg-[#0c0c0c] border border-gray-800 p-4 overflow-auto">
+            <h4 className="text-xs font-bold text-gray-500 mb-2">CORRELATION (DAILY RETURNS)</h4>
+            {analysis && analysis.correlation.symbols.length > 0 ? (
+              <table className="font-mono text-[10px]">
+                <thead>
+                  <tr>
+                    <th></th>
+                    {analysis.correlation.symbols.map(s => <th key={s} className="px-1 text-gray-500 font-normal">{s}</th>)}
+                  </tr>
+                </thead>
+                <tbody>
+                  {analysis.correlation.matrix.map((row, i) => (
+                    <tr key={analysis.correlation.symbols[i]}>
+                      <td className="pr-2 text-gray-500">{analysis.correlation.symbols[i]}</td>
+                      {row.map((v, j) => (
+                        <td key={j} className="px-1 py-0.5 text-center text-gray-200" style={{ backgroundColor: corrColor(v) }}>
+                          {v === null ? '--' : v.toFixed(2)}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ) : (
+              <div className="text-[10px] text-gray-600 font-mono">Needs priced positions.</div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PortfolioView;
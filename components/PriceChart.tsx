@@ -0,0 +1,186 @@
+import React, { useMemo } from 'react';
+import {
+  ResponsiveContainer,
+  ComposedChart,
+  Area,
+  Bar,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ReferenceDot,
+  ReferenceLine,
+  BarShapeProps
+} from 'recharts';
+import { ChartMode, IndicatorId, IndicatorPoint, OHLCBar } from '../types';
+import { computeIndicators, detectPatterns } from '../services/indicatorService';
+
+interface PriceChartProps {
+  candles: OHLCBar[];
+  mode: ChartMode;
+  indicators?: IndicatorId[];
+}
+
+// Geometry of the [low, high] bar recharts lays out, plus the candle it was drawn from
+interface CandleProps {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  payload: OHLCBar;
+}
+
+// Recharts has no candlestick series, so each bar spans [low, high] and the shape draws wick + body
+const Candle = ({ x, y, width, height, payload }: CandleProps) => {
+  const { open, close, high, low } = payload;
+  const up = close >= open;
+  const color = up ? '#22c55e' : '#ef4444';
+  const range = high - low;
+  const scale = range > 0 ? height / range : 0;
+  const openY = y + (high - open) * scale;
+  const closeY = y + (high - close) * scale;
+  const bodyTop = Math.min(openY, closeY);
+  const bodyHeight = Math.max(1, Math.abs(openY - closeY));
+  const cx = x + width / 2;
+  return (
+    <g>
+      <line x1={cx} x2={cx} y1={y} y2={y + height} stroke={color} strokeWidth={1} />
+      <rect x={x + width * 0.15} y={bodyTop} width={width * 0.7} height={bodyHeight} fill={color} />
+    </g>
+  );
+};
+
+const tooltipStyle = {
+  contentStyle: { backgroundColor: '#111', borderColor: '#333', color: '#eee' },
+  itemStyle: { color: '#3b82f6' }
+};
+
+const overlayLine = (dataKey: keyof IndicatorPoint, name: string, stroke: string, dashed = false) => (
+  <Line
+    key={dataKey}
+    type="monotone"
+    dataKey={dataKey}
+    name={name}
+    stroke={stroke}
+    strokeWidth={1}
+    strokeDasharray={dashed ? '4 2' : undefined}
+    dot={false}
+    connectNulls={false}
+    isAnimationActive={false}
+  />
+);
+
+// Sub-panes share the main chart's x-axis through syncId so the crosshair lines up
+const Pane: React.FC<{ label: string; data: IndicatorPoint[]; children: React.ReactNode; domain?: [number, number] }> = ({ label, data, children, domain }) => (
+  <div className="h-20 relative border-t border-gray-900">
+    <span className="absolute left-2 top-1 text-[10px] font-mono text-gray-600 z-10">{label}</span>
+    <ResponsiveContainer width="100%" height="100%">
+      <ComposedChart data={data} syncId="price">
+        <XAxis dataKey="time" hide />
+        <YAxis stroke="#444" domain={domain || ['auto', 'auto']} tick={{fontSize: 9}} width={60} />
+        <Tooltip {...tooltipStyle} />
+        {children}
+      </ComposedChart>
+    </ResponsiveContainer>
+  </div>
+);
+
+const PriceChart: React.FC<PriceChartProps> = ({ candles, mode, indicators = [] }) => {
+  const points = useMemo(() => computeIndicators(candles), [candles]);
+  const patterns = useMemo(
+    () => indicators.includes('PATTERNS')
+      ? detectPatterns(candles.map(c => ({ time: c.time, price: c.close, volume: c.volume })))
+      : [],
+    [candles, indicators]
+  );
+  const has = (id: IndicatorId) => indicators.includes(id);
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="flex-1 min-h-0">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={points} syncId="price">
+            <defs>
+              <linearGradient id="colorPrice" x1="0" y1="0" x2="0" y2="1">
+                <stop offset="5%" stopColor="#3b82f6" stopOpacity={0.3}/>
+                <stop offset="95%" stopColor="#3b82f6" stopOpacity={0}/>
+              </linearGradient>
+            </defs>
+            <CartesianGrid strokeDasharray="3 3" stroke="#222" />
+            <XAxis dataKey="time" stroke="#444" tick={{fontSize: 10}} />
+            <YAxis stroke="#444" domain={['auto', 'auto']} tick={{fontSize: 10}} width={60} />
+            {mode === 'candle' ? (
+              <Tooltip
+                {...tooltipStyle}
+                formatter={(value, name, item) => {
+                  if (name !== 'OHLC') return [value, name];
+                  const c: OHLCBar = item.payload;
+                  return [`O ${c.open}  H ${c.high}  L ${c.low}  C ${c.close}`, 'OHLC'];
+                }}
+              />
+            ) : (
+              <Tooltip {...tooltipStyle} />
+            )}
+            {mode === 'candle' ? (
+              <Bar dataKey={(c: OHLCBar) => [c.low, c.high]} name="OHLC" shape={({ x, y, width, height, payload }: BarShapeProps) => <Candle x={x} y={y} width={width} height={height} payload={payload} />} isAnimationActive={false} />
+            ) : (
+              <Area type="monotone" dataKey="close" name="price" stroke="#3b82f6" fillOpacity={1} fill="url(#colorPrice)" strokeWidth={2} />
+            )}
+            {has('SMA') && overlayLine('sma', 'SMA', '#f59e0b')}
+            {has('EMA') && overlayLine('ema', 'EMA', '#a855f7')}
+            {has('VWAP') && overlayLine('vwap', 'VWAP', '#14b8a6', true)}
+            {has('BBANDS') && [
+              overlayLine('bbUpper', 'BB Upper', '#64748b', true),
+              overlayLine('bbMiddle', 'BB Mid', '#64748b'),
+              overlayLine('bbLower', 'BB Lower', '#64748b', true),
+            ]}
+            {patterns.flatMap((p, n) => [
+              ...p.peaks.map(i => (
+                <ReferenceDot
+                  key={`${n}-peak-${i}`}
+                  x={points[i].time}
+                  y={points[i].close}
+                  r={4}
+                  fill={p.type === 'DOUBLE_TOP' ? '#f97316' : '#ec4899'}
+                  stroke="none"
+                />
+              )),
+              <ReferenceLine
+                key={`${n}-neck`}
+                segment={[
+                  { x: points[p.startIndex].time, y: p.neckline },
+                  { x: points[p.endIndex].time, y: p.neckline }
+                ]}
+                stroke={p.type === 'DOUBLE_TOP' ? '#f97316' : '#ec4899'}
+                strokeDasharray={p.confirmed ? undefined : '3 3'}
+                label={{ value: p.type === 'DOUBLE_TOP' ? 'DT' : 'H&S', fill: '#999', fontSize: 10, position: 'insideBottomLeft' }}
+              />
+            ])}
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+      {has('RSI') && (
+        <Pane label="RSI(14)" data={points} domain={[0, 100]}>
+          <ReferenceLine y={70} stroke="#7f1d1d" strokeDasharray="3 3" />
+          <ReferenceLine y={30} stroke="#14532d" strokeDasharray="3 3" />
+          {overlayLine('rsi', 'RSI', '#eab308')}
+        </Pane>
+      )}
+      {has('MACD') && (
+        <Pane label="MACD(12,26,9)" data={points}>
+          <Bar dataKey="macdHist" name="Hist" fill="#334155" isAnimationActive={false} />
+          {overlayLine('macd', 'MACD', '#3b82f6')}
+          {overlayLine('macdSignal', 'Signal', '#f97316')}
+        </Pane>
+      )}
+      {has('ATR') && (
+        <Pane label="ATR(14)" data={points}>
+          {overlayLine('atr', 'ATR', '#22d3ee')}
+        </Pane>
+      )}
+    </div>
+  );
+};
+
+export default PriceChart;
@@ -0,0 +1,80 @@
+import React from 'react';
+import { PredictionDirection, QuantPredictionResult } from '../types';
+
+interface QuantPredictionCardProps {
+  result: QuantPredictionResult;
+}
+
+const DIRECTION_STYLES: Record<PredictionDirection, string> = {
+  BULLISH: 'bg-green-900 text-green-300',
+  BEARISH: 'bg-red-900 text-red-300',
+  NEUTRAL: 'bg-gray-800 text-gray-300',
+};
+
+const QuantPredictionCard: React.FC<QuantPredictionCardProps> = ({ result }) => {
+  if (result.status === 'error') {
+    return (
+      <div className="bg-[#0c0c0c] border border-red-900 p-4 font-mono text-xs">
+        <div className="text-red-500 font-bold mb-2">{result.error.kind} ERROR: {result.error.message}</div>
+        {result.error.details && (
+          <ul className="space-y-1 text-red-400 mb-2">
+            {result.error.details.map((issue, i) => <li key={i}>- {issue}</li>)}
+          </ul>
+        )}
+        {result.error.raw && (
+          <details className="text-gray-500">
+            <summary className="cursor-pointer">Raw model output</summary>
+            <pre className="mt-2 whitespace-pre-wrap max-h-32 overflow-y-auto">{result.error.raw}</pre>
+          </details>
+        )}
+      </div>
+    );
+  }
+
+  const p = result.data;
+  return (
+    <div className="bg-[#0c0c0c] border border-gray-800 p-4 font-mono text-xs">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-3">
+          <span className={`px-2 py-0.5 rounded font-bold ${DIRECTION_STYLES[p.direction]}`}>{p.direction}</span>
+          <span className="text-gray-500">HORIZON</span>
+          <span className="text-white">{p.horizon}</span>
+        </div>
+        <div className="flex items-center space-x-2 w-48">
+          <span className="text-gray-500">CONF</span>
+          <div className="flex-1 h-1.5 bg-gray-800">
+            <div className="h-full bg-blue-500" style={{ width: `${p.confidence}%` }}></div>
+          </div>
+          <span className="text-white">{p.confidence.toFixed(0)}%</span>
+        </div>
+      </div>
+      <div className="grid grid-cols-2 gap-4 mb-4">
+        <div className="bg-black border border-gray-800 px-3 py-2">
+          <div className="text-[10px] text-gray-600">TARGET RANGE</div>
+          <div className="text-sm text-white">{p.targetRange.low} – {p.targetRange.high} <span className="text-gray-500 text-xs">{p.targetRange.unit}</span></div>
+        </div>
+        <div className="bg-black border border-gray-800 px-3 py-2">
+          <div className="text-[10px] text-gray-600">INVALIDATION</div>
+          <div className="text-sm text-yellow-500">{p.invalidationLevel.value}</div>
+          <div className="text-[10px] text-gray-500 truncate" title={p.invalidationLevel.description}>{p.invalidationLevel.description}</div>
+        </div>
+      </div>
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <h4 className="text-[10px] text-green-600 font-bold mb-1">KEY DRIVERS</h4>
+          <ul className="space-y-1 text-gray-300">
+            {p.keyDrivers.map((d, i) => <li key={i}>+ {d}</li>)}
+          </ul>
+        </div>
+        <div>
+          <h4 className="text-[10px] text-red-600 font-bold mb-1">RISKS</h4>
+          <ul className="space-y-1 text-gray-300">
+            {p.risks.map((r, i) => <li key={i}>- {r}</li>)}
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default QuantPredictionCard;
@@ -0,0 +1,160 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ConversationThread, Message, StreamState } from '../types';
+import { parseQuantPrediction } from '../services/geminiService';
+import { StreamStats } from './TerminalOutput';
+
+interface QuantThreadViewProps {
+  thread: ConversationThread;
+  stream: StreamState;
+  selectedId: string | null;
+  onSelect: (message: Message) => void;
+  // User turns are re-run from the edited text; other turns are corrected in place
+  onEdit: (message: Message, content: string) => void;
+  onFork: (message: Message) => void;
+  onMemo: (message: Message) => void;
+  onCancel: () => void;
+}
+
+const ROLE_STYLES: Record<Message['role'], string> = {
+  user: 'text-blue-400',
+  model: 'text-green-500',
+  system: 'text-red-500',
+};
+
+// Analysis turns hold the raw JSON; show the headline and narrative instead
+const summarize = (message: Message): string => {
+  if (message.type !== 'analysis') return message.content;
+  const result = parseQuantPrediction(message.content);
+  if (result.status === 'error') return message.content;
+  const p = result.data;
+  return `[${p.direction} · ${p.targetRange.low}-${p.targetRange.high} ${p.targetRange.unit} · ${p.horizon} · ${p.confidence}%]\n${p.narrative}`;
+};
+
+const Turn: React.FC<{
+  message: Message;
+  selected: boolean;
+  disabled: boolean;
+  onSelect: () => void;
+  onEdit: (content: string) => void;
+  onFork: () => void;
+  onMemo: () => void;
+}> = ({ message, selected, disabled, onSelect, onEdit, onFork, onMemo }) => {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(message.content);
+
+  const save = () => {
+    setEditing(false);
+    if (draft.trim() && draft !== message.content) onEdit(draft.trim());
+  };
+
+  return (
+    <div className={`group border-l-2 pl-3 py-1 ${selected ? 'border-blue-500' : 'border-transparent'}`}>
+      <div className="flex justify-between text-[10px] uppercase tracking-wider">
+        <span className={ROLE_STYLES[message.role]}>
+          {message.role === 'system' ? 'alert' : message.role}
+          <span className="text-gray-600 normal-case tracking-normal"> · {new Date(message.timestamp).toLocaleTimeString()}</span>
+        </span>
+        {!editing && (
+          <span className="space-x-3 opacity-0 group-hover:opacity-100">
+            {message.type === 'analysis' && <button onClick={onSelect} className="text-gray-500 hover:text-white">VIEW</button>}
+            {message.type === 'analysis' && <button onClick={onMemo} className="text-gray-500 hover:text-white">MEMO</button>}
+            {message.role !== 'system' && (
+              <button
+                onClick={() => { setDraft(message.content); setEditing(true); }}
+                disabled={disabled}
+                className="text-gray-500 hover:text-white disabled:opacity-30"
+              >
+                EDIT
+              </button>
+            )}
+            <button onClick={onFork} disabled={disabled} className="text-gray-500 hover:text-white disabled:opacity-30">FORK</button>
+          </span>
+        )}
+      </div>
+      {editing ? (
+        <div className="mt-1 space-y-1">
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            className="w-full h-24 bg-black border border-gray-700 text-white p-2 text-xs focus:border-blue-500 focus:outline-none font-mono resize-none"
+          />
+          <div className="flex space-x-3 text-[10px]">
+            <button onClick={save} className="text-blue-400 hover:text-blue-300">
+              {message.role === 'user' ? 'SAVE & RE-RUN' : 'SAVE'}
+            </button>
+            <button onClick={() => setEditing(false)} className="text-gray-500 hover:text-white">DISCARD</button>
+          </div>
+        </div>
+      ) : (
+        <div className={`mt-1 whitespace-pre-wrap ${message.role === 'system' ? 'text-red-400 text-xs' : 'text-gray-300'}`}>
+          {summarize(message)}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const QuantThreadView: React.FC<QuantThreadViewProps> = ({ thread, stream, selectedId, onSelect, onEdit, onFork, onMemo, onCancel }) => {
+  const streaming = stream.status === 'streaming';
+  const endRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ block: 'end' });
+  }, [thread.messages.length, streaming]);
+
+  return (
+    <div className="bg-[#0c0c0c] border border-gray-800 h-full flex flex-col font-mono text-sm overflow-hidden shadow-2xl">
+      <div className="bg-[#1a1a1a] px-3 py-1 flex justify-between items-center border-b border-gray-800 select-none">
+        <span className="font-bold text-gray-400 uppercase text-xs tracking-wider truncate">QUANT_THREAD // {thread.title}</span>
+        <div className="flex items-center space-x-3">
+          {stream.status !== 'idle' && <StreamStats stream={stream} />}
+          {streaming && (
+            <button
+              onClick={onCancel}
+              className="text-[10px] text-red-400 border border-red-900 px-2 hover:bg-red-900 hover:text-white"
+            >
+              CANCEL
+            </button>
+          )}
+          <div className="flex space-x-2">
+            <div className={`w-2 h-2 rounded-full ${streaming ? 'bg-green-500 animate-pulse' : 'bg-gray-600'}`}></div>
+            <div className="w-2 h-2 rounded-full bg-gray-600"></div>
+          </div>
+        </div>
+      </div>
+      <div className="p-4 flex-1 overflow-y-auto leading-relaxed space-y-3">
+        {thread.messages.length === 0 && !streaming && (
+          <div className="text-gray-500">Awaiting input parameters... Follow-up questions reuse this thread as context.</div>
+        )}
+        {thread.messages.map(message => (
+          <Turn
+            key={message.id}
+            message={message}
+            selected={message.id === selectedId}
+            disabled={streaming}
+            onSelect={() => onSelect(message)}
+            onEdit={(content) => onEdit(message, content)}
+            onFork={() => onFork(message)}
+            onMemo={() => onMemo(message)}
+          />
+        ))}
+        {streaming && (
+          <div className="border-l-2 border-transparent pl-3 py-1">
+            <div className="text-[10px] uppercase tracking-wider text-green-500">model</div>
+            {stream.text ? (
+              <div className="mt-1 whitespace-pre-wrap text-gray-500 text-xs">
+                {stream.text}
+                <span className="inline-block w-2 h-4 bg-gray-400 ml-0.5 align-middle animate-pulse"></span>
+              </div>
+            ) : (
+              <div className="mt-1 text-yellow-500 animate-pulse text-xs">PROCESSING REQUEST...</div>
+            )}
+          </div>
+        )}
+        <div ref={endRef}></div>
+      </div>
+    </div>
+  );
+};
+
+export default QuantThreadView;
@@ -0,0 +1,75 @@
+import React from 'react';
+import { ResourceSearchArea } from '../types';
+import { describeArea } from '../services/resourceMapService';
+
+export type AreaMode = ResourceSearchArea['mode'];
+
+interface ResourceAreaPickerProps {
+  area: ResourceSearchArea;
+  radiusKm: number;
+  picking: 'POINT' | 'REGION' | null;
+  locating: boolean;
+  // Last geolocation failure, e.g. permission denied
+  geoError: string | null;
+  onModeSelect: (mode: AreaMode) => void;
+  onRadiusChange: (radiusKm: number) => void;
+}
+
+const MODES: { id: AreaMode; label: string }[] = [
+  { id: 'GLOBAL', label: 'Global' },
+  { id: 'NEAR_ME', label: 'Near Me' },
+  { id: 'POINT', label: 'Point' },
+  { id: 'REGION', label: 'Region' },
+];
+
+const ResourceAreaPicker: React.FC<ResourceAreaPickerProps> = ({
+  area, radiusKm, picking, locating, geoError, onModeSelect, onRadiusChange,
+}) => {
+  const active = picking ?? area.mode;
+  const usesRadius = active === 'NEAR_ME' || active === 'POINT';
+
+  return (
+    <div>
+      <label className="block text-xs font-mono text-gray-500 mb-2">SEARCH AREA</label>
+      <div className="grid grid-cols-4 gap-1">
+        {MODES.map(mode => (
+          <button
+            key={mode.id}
+            type="button"
+            onClick={() => onModeSelect(mode.id)}
+            disabled={locating}
+            className={`text-[10px] font-mono py-1.5 border uppercase ${
+              active === mode.id ? 'border-yellow-600 text-yellow-500 bg-yellow-900/20' : 'border-gray-700 text-gray-500 hover:text-white'
+            } disabled:opacity-50`}
+          >
+            {mode.id === 'NEAR_ME' && locating ? 'Locating' : mode.label}
+          </button>
+        ))}
+      </div>
+      {usesRadius && (
+        <div className="flex items-center mt-2 text-[10px] font-mono text-gray-500">
+          <span className="mr-2">RADIUS KM</span>
+          <input
+            type="number"
+            min={10}
+            max={5000}
+            step={50}
+            value={radiusKm}
+            onChange={(e) => onRadiusChange(Math.max(10, Math.min(5000, Number(e.target.value) || 10)))}
+            className="w-20 bg-black border border-gray-700 text-white px-2 py-1 focus:border-yellow-600 focus:outline-none"
+          />
+        </div>
+      )}
+      <div className="mt-2 text-[10px] font-mono text-gray-600">
+        {picking === 'POINT' && 'Click the map to set the search point.'}
+        {picking === 'REGION' && 'Drag on the map to draw the search region.'}
+        {!picking && describeArea(area)}
+      </div>
+      {geoError && (
+        <div className="mt-2 border border-red-900 bg-red-950/40 px-2 py-1 text-[10px] font-mono text-red-400">{geoError}</div>
+      )}
+    </div>
+  );
+};
+
+export default ResourceAreaPicker;
@@ -0,0 +1,405 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { CountryRisk, GeoBounds, LogEntry, ResourceSearchArea, ResourceSite } from '../types';
+import {
+  MAP_HEIGHT,
+  MAP_WIDTH,
+  SITE_STATUS_COLORS,
+  boundsFromCorners,
+  clusterSites,
+  downloadSitesGeoJSON,
+  isInArea,
+  isPlottable,
+  listCommodities,
+  project,
+  unproject,
+} from '../services/resourceMapService';
+import { WORLD_OUTLINE } from '../services/worldOutline';
+import { countryRiskTags } from '../services/supplyRiskService';
+import { RiskTags } from './SupplyRiskPanel';
+
+interface ResourceMapProps {
+  sites: ResourceSite[];
+  extracting: boolean;
+  canExtract: boolean;
+  onExtract: () => void;
+  onLog: (message: string, level?: LogEntry['level']) => void;
+  // Search area drawn as an overlay; sites outside it are dimmed
+  area: ResourceSearchArea;
+  // While set, clicks drop a point or drags draw a region instead of panning
+  picking: 'POINT' | 'REGION' | null;
+  onPickPoint: (lat: number, lng: number) => void;
+  onPickRegion: (bounds: GeoBounds) => void;
+  // Country risk dataset; sites in tagged countries get a red ring
+  risks: CountryRisk[];
+}
+
+// Visible window in map units (degrees); zoom 1 shows the whole world
+interface MapView {
+  x: number;
+  y: number;
+  zoom: number;
+}
+
+const WORLD_VIEW: MapView = { x: 0, y: 0, zoom: 1 };
+const MAX_ZOOM = 32;
+
+const OUTLINE_PATH = WORLD_OUTLINE
+  .map(ring => `M${ring.map(([lng, lat]) => project(lng, lat).join(',')).join('L')}Z`)
+  .join('');
+
+const clampView = (view: MapView): MapView => {
+  const zoom = Math.min(MAX_ZOOM, Math.max(1, view.zoom));
+  const w = MAP_WIDTH / zoom;
+  const h = MAP_HEIGHT / zoom;
+  return {
+    zoom,
+    x: Math.min(MAP_WIDTH - w, Math.max(0, view.x)),
+    y: Math.min(MAP_HEIGHT - h, Math.max(0, view.y)),
+  };
+};
+
+const KM_PER_DEGREE = 111.32;
+
+// Point-radius areas become ellipses in the equirectangular projection as longitude degrees shrink
+const AreaOverlay: React.FC<{ area: ResourceSearchArea; strokeWidth: number }> = ({ area, strokeWidth }) => {
+  const style = { fill: '#eab308', fillOpacity: 0.08, stroke: '#eab308', strokeWidth, strokeDasharray: `${strokeWidth * 4} ${strokeWidth * 3}` };
+  if (area.mode === 'GLOBAL') return null;
+  if (area.mode === 'REGION') {
+    const { north, south, east, west } = area.bounds;
+    // Boxes across the antimeridian are drawn as two pieces
+    const spans = west <= east ? [[west, east]] : [[west, 180], [-180, east]];
+    return (
+      <g pointerEvents="none">
+        {spans.map(([w, e]) => {
+          const [x1, y1] = project(w, north);
+          const [x2, y2] = project(e, south);
+          return <rect key={w} x={x1} y={y1} width={x2 - x1} height={y2 - y1} {...style} />;
+        })}
+      </g>
+    );
+  }
+  const [cx, cy] = project(area.lng, area.lat);
+  const ry = area.radiusKm / KM_PER_DEGREE;
+  const rx = Math.min(180, ry / Math.max(0.05, Math.cos((area.lat * Math.PI) / 180)));
+  return (
+    <g pointerEvents="none">
+      <ellipse cx={cx} cy={cy} rx={rx} ry={ry} {...style} />
+      <circle cx={cx} cy={cy} r={strokeWidth * 3} fill="#eab308" />
+    </g>
+  );
+};
+
+const ResourceMap: React.FC<ResourceMapProps> = ({
+  sites, extracting, canExtract, onExtract, onLog, area, picking, onPickPoint, onPickRegion, risks,
+}) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragRef = useRef<{ x: number; y: number; view: MapView; moved: boolean } | null>(null);
+  const [draft, setDraft] = useState<{ from: [number, number]; to: [number, number] } | null>(null);
+  const [hideOutside, setHideOutside] = useState(false);
+  const [width, setWidth] = useState(720);
+  const [view, setView] = useState<MapView>(WORLD_VIEW);
+  const [hidden, setHidden] = useState<string[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const el = svgRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(([entry]) => setWidth(entry.contentRect.width || 720));
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  // New extraction results reset the filters and selection
+  useEffect(() => {
+    setHidden([]);
+    setSelectedId(null);
+    setView(WORLD_VIEW);
+  }, [sites]);
+
+  const commodities = useMemo(() => listCommodities(sites), [sites]);
+  const outside = useMemo(() => new Set(sites.filter(s => !isInArea(s, area)).map(s => s.id)), [sites, area]);
+  const visible = useMemo(
+    () => sites.filter(s => !hidden.includes(s.commodity) && !(hideOutside && outside.has(s.id))),
+    [sites, hidden, hideOutside, outside]
+  );
+  const unplotted = visible.filter(s => !isPlottable(s));
+  const viewW = MAP_WIDTH / view.zoom;
+  const viewH = MAP_HEIGHT / view.zoom;
+  // Screen pixels per map unit; the SVG keeps the 2:1 aspect ratio so width alone decides it
+  const scale = width / viewW;
+  const clusters = useMemo(() => clusterSites(visible, scale), [visible, scale]);
+  const selected = sites.find(s => s.id === selectedId) ?? null;
+
+  const toMapPoint = (clientX: number, clientY: number): [number, number] => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    return [view.x + (clientX - rect.left) / scale, view.y + (clientY - rect.top) / scale];
+  };
+
+  const zoomAt = (factor: number, [mx, my]: [number, number]) => {
+    setView(v => {
+      const zoom = Math.min(MAX_ZOOM, Math.max(1, v.zoom * factor));
+      const ratio = v.zoom / zoom;
+      return clampView({ zoom, x: mx - (mx - v.x) * ratio, y: my - (my - v.y) * ratio });
+    });
+  };
+
+  const handleWheel = (e: React.WheelEvent) => {
+    zoomAt(e.deltaY < 0 ? 1.25 : 0.8, toMapPoint(e.clientX, e.clientY));
+  };
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+    dragRef.current = { x: e.clientX, y: e.clientY, view, moved: false };
+    if (picking === 'REGION') {
+      const point = toMapPoint(e.clientX, e.clientY);
+      setDraft({ from: point, to: point });
+    }
+  };
+
+  const handleMouseMove = (e: React.MouseEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    if (Math.abs(e.clientX - drag.x) + Math.abs(e.clientY - drag.y) > 4) drag.moved = true;
+    if (picking === 'REGION') {
+      const to = toMapPoint(e.clientX, e.clientY);
+      setDraft(d => d && { ...d, to });
+      return;
+    }
+    setView(clampView({
+      ...drag.view,
+      x: drag.view.x - (e.clientX - drag.x) / scale,
+      y: drag.view.y - (e.clientY - drag.y) / scale,
+    }));
+  };
+
+  const handleMouseUp = () => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (!drag) return;
+    if (picking === 'POINT' && !drag.moved) {
+      const [lng, lat] = unproject(...toMapPoint(drag.x, drag.y));
+      onPickPoint(lat, lng);
+    }
+    if (picking === 'REGION' && draft) {
+      setDraft(null);
+      if (!drag.moved) return;
+      const [lng1, lat1] = unproject(draft.from[0], draft.from[1]);
+      const [lng2, lat2] = unproject(draft.to[0], draft.to[1]);
+      onPickRegion(boundsFromCorners(
+        Math.max(-90, Math.min(90, lat1)), Math.max(-180, Math.min(180, lng1)),
+        Math.max(-90, Math.min(90, lat2)), Math.max(-180, Math.min(180, lng2))
+      ));
+    }
+  };
+
+  const toggleCommodity = (commodity: string) =>
+    setHidden(h => (h.includes(commodity) ? h.filter(c => c !== commodity) : [...h, commodity]));
+
+  const handleExport = () => {
+    const plottable = visible.filter(isPlottable);
+    downloadSitesGeoJSON(visible);
+    onLog(`Resource map: exported ${plottable.length} site(s) as GeoJSON`, 'INFO');
+  };
+
+  // Marker sizes are given in screen pixels and converted so they stay constant while zooming
+  const px = (n: number) => n / scale;
+
+  return (
+    <div className="bg-[#0c0c0c] border border-gray-800 h-full flex flex-col font-mono text-xs min-h-0">
+      <div className="bg-[#151515] px-4 py-2 border-b border-gray-800 flex justify-between items-center">
+        <h4 className="font-bold text-gray-400">
+          SITE MAP ({visible.length - unplotted.length}/{sites.length} PLOTTED)
+          {outside.size > 0 && <span className="text-yellow-600"> · {outside.size} OUT OF AREA</span>}
+        </h4>
+        <div className="flex space-x-3 text-[10px]">
+          {outside.size > 0 && (
+            <button onClick={() => setHideOutside(h => !h)} className="text-yellow-600 hover:text-yellow-400">
+              {hideOutside ? 'SHOW OUT-OF-AREA' : 'HIDE OUT-OF-AREA'}
+            </button>
+          )}
+          <button onClick={() => zoomAt(1.5, [view.x + viewW / 2, view.y + viewH / 2])} className="text-gray-500 hover:text-white">+</button>
+          <button onClick={() => zoomAt(1 / 1.5, [view.x + viewW / 2, view.y + viewH / 2])} className="text-gray-500 hover:text-white">-</button>
+          <button onClick={() => setView(WORLD_VIEW)} className="text-gray-500 hover:text-white">RESET</button>
+          <button onClick={onExtract} disabled={!canExtract || extracting} className="text-gray-500 hover:text-white disabled:opacity-30">
+            {extracting ? 'EXTRACTING...' : 'RE-EXTRACT'}
+          </button>
+          <button onClick={handleExport} disabled={visible.length === 0} className="text-green-600 hover:text-green-400 disabled:opacity-30">
+            EXPORT GEOJSON
+          </button>
+        </div>
+      </div>
+
+      {commodities.length > 0 && (
+        <div className="px-4 py-1.5 border-b border-gray-800 flex flex-wrap gap-1">
+          {commodities.map(c => (
+            <button
+              key={c}
+              onClick={() => toggleCommodity(c)}
+              className={`text-[10px] px-1.5 border ${hidden.includes(c) ? 'border-gray-800 text-gray-600 line-through' : 'border-gray-600 text-gray-300'}`}
+            >
+              {c}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="flex-1 flex min-h-0">
+        <div className="flex-1 relative min-w-0">
+          <svg
+            ref={svgRef}
+            viewBox={`${view.x} ${view.y} ${viewW} ${viewH}`}
+            preserveAspectRatio="xMinYMin meet"
+            className={`w-full bg-[#050a10] select-none ${picking ? 'cursor-crosshair' : 'cursor-grab'}`}
+            style={{ aspectRatio: `${MAP_WIDTH} / ${MAP_HEIGHT}` }}
+            onWheel={handleWheel}
+            onMouseDown={handleMouseDown}
+            onMouseMove={handleMouseMove}
+            onMouseUp={handleMouseUp}
+            onMouseLeave={() => { dragRef.current = null; setDraft(null); }}
+          >
+            {[-60, -30, 0, 30, 60].map(lat => (
+              <line key={`lat${lat}`} x1={0} x2={MAP_WIDTH} y1={90 - lat} y2={90 - lat} stroke="#1f2937" strokeWidth={px(lat === 0 ? 1 : 0.5)} />
+            ))}
+            {[-120, -60, 0, 60, 120].map(lng => (
+              <line key={`lng${lng}`} y1={0} y2={MAP_HEIGHT} x1={lng + 180} x2={lng + 180} stroke="#1f2937" strokeWidth={px(0.5)} />
+            ))}
+            <path d={OUTLINE_PATH} fill="#111827" stroke="#374151" strokeWidth={px(1)} strokeLinejoin="round" />
+            <AreaOverlay area={area} strokeWidth={px(1.5)} />
+            {draft && (
+              <rect
+                x={Math.min(draft.from[0], draft.to[0])}
+                y={Math.min(draft.from[1], draft.to[1])}
+                width={Math.abs(draft.to[0] - draft.from[0])}
+                height={Math.abs(draft.to[1] - draft.from[1])}
+                fill="#eab308"
+                fillOpacity={0.15}
+                stroke="#eab308"
+                strokeWidth={px(1)}
+                pointerEvents="none"
+              />
+            )}
+            {clusters.map(cluster => {
+              if (cluster.sites.length > 1) {
+                return (
+                  <g
+                    key={cluster.id}
+                    className="cursor-pointer"
+                    onMouseDown={(e) => e.stopPropagation()}
+                    onClick={() => zoomAt(2.5, [cluster.x, cluster.y])}
+                  >
+                    <title>{cluster.sites.map(s => s.name).join('\n')}</title>
+                    <circle cx={cluster.x} cy={cluster.y} r={px(11)} fill="#1e3a8a" fillOpacity={0.85} stroke="#60a5fa" strokeWidth={px(1)} />
+                    <text x={cluster.x} y={cluster.y} dy={px(3.5)} textAnchor="middle" fontSize={px(10)} fill="#fff">{cluster.sites.length}</text>
+                  </g>
+                );
+              }
+              const site = cluster.sites[0];
+              const atRisk = countryRiskTags(risks, site.country).length > 0;
+              return (
+                <g key={cluster.id}>
+                  {atRisk && (
+                    <circle cx={cluster.x} cy={cluster.y} r={px(site.id === selectedId ? 10 : 8)} fill="none" stroke="#dc2626" strokeWidth={px(1.5)} pointerEvents="none" />
+                  )}
+                  <circle
+                    cx={cluster.x}
+                    cy={cluster.y}
+                    r={px(site.id === selectedId ? 7 : 5)}
+                    fill={SITE_STATUS_COLORS[site.status]}
+                    fillOpacity={outside.has(site.id) ? 0.35 : 1}
+                    stroke={site.id === selectedId ? '#fff' : '#000'}
+                    strokeWidth={px(1.5)}
+                    strokeDasharray={outside.has(site.id) ? `${px(2)} ${px(2)}` : undefined}
+                    className="cursor-pointer"
+                    onMouseDown={(e) => e.stopPropagation()}
+                    onClick={() => setSelectedId(site.id)}
+                  >
+                    <title>{`${site.name} (${site.commodity})`}</title>
+                  </circle>
+                </g>
+              );
+            })}
+          </svg>
+          <div className="absolute bottom-2 left-2 flex flex-wrap gap-2 bg-black/70 px-2 py-1 text-[9px] text-gray-400">
+            {Object.entries(SITE_STATUS_COLORS).map(([status, color]) => (
+              <span key={status} className="flex items-center">
+                <span className="inline-block w-2 h-2 rounded-full mr-1" style={{ backgroundColor: color }}></span>
+                {status}
+              </span>
+            ))}
+            <span className="flex items-center">
+              <span className="inline-block w-2 h-2 rounded-full mr-1 border border-red-600"></span>
+              COUNTRY RISK
+            </span>
+          </div>
+          {picking && (
+            <div className="absolute top-2 left-2 bg-black/80 border border-yellow-800 px-2 py-1 text-[10px] text-yellow-500 pointer-events-none">
+              {picking === 'POINT' ? 'Click the map to set the search point' : 'Drag on the map to draw the search region'}
+            </div>
+          )}
+          {sites.length === 0 && !picking && (
+            <div className="absolute inset-0 flex items-center justify-center text-gray-600 pointer-events-none">
+              {extracting ? 'Extracting sites from the report...' : 'Run a scan to plot resource sites.'}
+            </div>
+          )}
+        </div>
+
+        <div className="w-64 border-l border-gray-800 p-3 overflow-y-auto">
+          {selected ? (
+            <div className="space-y-2">
+              <div>
+                <h3 className="text-sm text-white">{selected.name}</h3>
+                <div className="text-[10px]" style={{ color: SITE_STATUS_COLORS[selected.status] }}>{selected.status}</div>
+                {outside.has(selected.id) && <div className="text-[10px] text-yellow-600">Outside the search area</div>}
+                <div className="mt-1"><RiskTags tags={countryRiskTags(risks, selected.country)} /></div>
+              </div>
+              {([
+                ['COMMODITY', selected.commodity],
+                ['OPERATOR', selected.operator],
+                ['COUNTRY', selected.country],
+                ['CAPACITY', selected.capacity],
+                ['LOCATION', isPlottable(selected) ? `${selected.lat.toFixed(3)}, ${selected.lng.toFixed(3)}` : 'Unknown'],
+              ] as const).map(([label, value]) => (
+                <div key={label}>
+                  <div className="text-[10px] text-gray-600">{label}</div>
+                  <div className="text-gray-300">{value}</div>
+                </div>
+              ))}
+              {selected.sourceUris.length > 0 && (
+                <div>
+                  <div className="text-[10px] text-gray-600 mb-1">SOURCES</div>
+                  {selected.sourceUris.map((uri, i) => (
+                    <a key={uri} href={uri} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:underline truncate block">[{i + 1}] {uri}</a>
+                  ))}
+                </div>
+              )}
+              <button onClick={() => setSelectedId(null)} className="text-[10px] text-gray-500 hover:text-white">CLOSE</button>
+            </div>
+          ) : (
+            <div className="space-y-1">
+              <div className="text-[10px] text-gray-600 mb-2">Click a site for details. Click a cluster to zoom in.</div>
+              {visible.map(site => (
+                <button
+                  key={site.id}
+                  onClick={() => {
+                    setSelectedId(site.id);
+                    if (isPlottable(site)) {
+                      const [x, y] = project(site.lng, site.lat);
+                      setView(v => clampView({ zoom: Math.max(v.zoom, 4), x: x - MAP_WIDTH / Math.max(v.zoom, 4) / 2, y: y - MAP_HEIGHT / Math.max(v.zoom, 4) / 2 }));
+                    }
+                  }}
+                  className="w-full text-left px-2 py-1 hover:bg-[#1a1a1a] flex items-center"
+                >
+                  <span className="inline-block w-2 h-2 rounded-full mr-2 shrink-0" style={{ backgroundColor: SITE_STATUS_COLORS[site.status] }}></span>
+                  <span className="truncate text-gray-300">{site.name}</span>
+                  {!isPlottable(site) && <span className="ml-auto text-[9px] text-gray-600">NO LOC</span>}
+                  {outside.has(site.id) && <span className="ml-auto text-[9px] text-yellow-700">OUT</span>}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ResourceMap;
@@ -0,0 +1,357 @@
+import React, { useMemo, useState } from 'react';
+import { ResponsiveContainer, BarChart, Bar, Cell, XAxis, YAxis, CartesianGrid, Tooltip, ReferenceLine } from 'recharts';
+import { AssetClass, LogEntry, ScenarioExposure, ShockFactor, StressScenario } from '../types';
+import {
+  DEFAULT_SENSITIVITIES,
+  SCENARIO_PRESETS,
+  SHOCK_FACTORS,
+  createExposureId,
+  createScenario,
+  formatShock,
+  runScenario,
+  waterfallSteps
+} from '../services/scenarioService';
+import { ASSET_CLASSES } from '../services/portfolioService';
+import NumberField from './NumberField';
+
+interface ScenarioViewProps {
+  scenarios: StressScenario[];
+  activeId: string | null;
+  onSelect: (id: string | null) => void;
+  onChange: (scenarios: StressScenario[]) => void;
+  exposures: ScenarioExposure[];
+  onSensitivityChange: (exposure: ScenarioExposure, factor: ShockFactor, value: number) => void;
+  onAddExposure: (exposure: ScenarioExposure) => void;
+  onRemoveExposure: (id: string) => void;
+  proposing: boolean;
+  onPropose: (scenario: StressScenario, description: string) => void;
+  narrating: boolean;
+  onNarrate: (scenario: StressScenario) => void;
+  onLog: (message: string, level?: LogEntry['level']) => void;
+}
+
+const inputClass = "w-full bg-black border border-gray-700 text-white px-2 py-1 text-xs focus:border-amber-500 focus:outline-none font-mono";
+const numberClass = `${inputClass} text-right`;
+
+const money = (v: number) => v.toLocaleString(undefined, { maximumFractionDigits: 0 });
+const signed = (v: number) => `${v > 0 ? '+' : ''}${money(v)}`;
+const pnlClass = (v: number) => (v > 0 ? 'text-green-500' : v < 0 ? 'text-red-500' : 'text-gray-500');
+
+const chartTooltip = {
+  contentStyle: { backgroundColor: '#111', border: '1px solid #333', fontSize: 11 },
+  itemStyle: { color: '#ccc' },
+};
+
+const ScenarioView: React.FC<ScenarioViewProps> = ({
+  scenarios,
+  activeId,
+  onSelect,
+  onChange,
+  exposures,
+  onSensitivityChange,
+  onAddExposure,
+  onRemoveExposure,
+  proposing,
+  onPropose,
+  narrating,
+  onNarrate,
+  onLog
+}) => {
+  const [tab, setTab] = useState<'pnl' | 'sensitivities'>('pnl');
+  const [description, setDescription] = useState('');
+  const [draft, setDraft] = useState<{ label: string; assetClass: AssetClass; marketValue: number | null }>({
+    label: '',
+    assetClass: 'EQUITY',
+    marketValue: null,
+  });
+  const scenario = scenarios.find(s => s.id === activeId) ?? null;
+
+  const result = useMemo(() => (scenario ? runScenario(exposures, scenario.shocks) : null), [scenario, exposures]);
+  const steps = useMemo(() => (result ? waterfallSteps(result) : []), [result]);
+
+  const update = (patch: Partial<StressScenario>) => {
+    if (!scenario) return;
+    onChange(scenarios.map(s => (s.id === scenario.id ? { ...s, ...patch, updatedAt: Date.now() } : s)));
+  };
+
+  const add = (created: StressScenario) => {
+    onChange([...scenarios, created]);
+    onSelect(created.id);
+    onLog(`Scenario created: ${created.name}`, 'INFO');
+  };
+
+  const handleDelete = () => {
+    if (!scenario || !window.confirm(`Delete scenario "${scenario.name}"?`)) return;
+    onChange(scenarios.filter(s => s.id !== scenario.id));
+    onSelect(null);
+  };
+
+  const handleAddExposure = () => {
+    if (!draft.label.trim() || !draft.marketValue) return;
+    onAddExposure({
+      id: createExposureId(),
+      label: draft.label.trim(),
+      assetClass: draft.assetClass,
+      marketValue: draft.marketValue,
+      sensitivities: { ...DEFAULT_SENSITIVITIES[draft.assetClass] },
+      source: 'custom',
+    });
+    setDraft({ ...draft, label: '', marketValue: null });
+  };
+
+  return (
+    <div className="grid grid-cols-12 h-full gap-4">
+      <div className="col-span-3 bg-[#0c0c0c] border border-gray-800 p-6 flex flex-col min-h-0 font-mono text-xs">
+        <h3 className="text-lg font-light text-white mb-6 font-sans">Scenarios</h3>
+        <div className="flex-1 overflow-y-auto space-y-1 min-h-0">
+          {scenarios.map(s => (
+            <button
+              key={s.id}
+              onClick={() => onSelect(s.id)}
+              className={`w-full text-left px-3 py-2 border ${s.id === activeId ? 'border-amber-700 bg-amber-900/20 text-white' : 'border-gray-800 text-gray-400 hover:text-white'}`}
+            >
+              <div className="truncate">{s.name}</div>
+              <div className="text-[10px] text-gray-600 truncate">
+                {SHOCK_FACTORS.filter(f => s.shocks[f.id] !== 0).map(f => `${f.id} ${formatShock(f.id, s.shocks[f.id])}`).join(' · ') || 'No shocks'}
+              </div>
+            </button>
+          ))}
+          {scenarios.length === 0 && <div className="text-gray-600">No scenarios yet.</div>}
+        </div>
+
+        <div className="mt-4 pt-4 border-t border-gray-800 space-y-2">
+          <label className="block text-gray-500">PRESETS</label>
+          <div className="grid grid-cols-2 gap-1">
+            {SCENARIO_PRESETS.map(p => (
+              <button
+                key={p.name}
+                onClick={() => add(createScenario(p.name, p.shocks))}
+                className="border border-gray-800 text-gray-400 hover:text-white hover:border-gray-600 px-2 py-1 text-[10px] text-left truncate"
+                title={SHOCK_FACTORS.map(f => `${f.label} ${formatShock(f.id, p.shocks[f.id])}`).join(', ')}
+              >
+                {p.name}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={() => add(createScenario(`Scenario ${scenarios.length + 1}`))}
+            className="w-full border border-gray-700 text-gray-300 hover:text-white hover:border-gray-500 py-2 uppercase tracking-wider"
+          >
+            New Scenario
+          </button>
+        </div>
+      </div>
+
+      <div className="col-span-9 bg-[#0c0c0c] border border-gray-800 flex flex-col min-h-0 font-mono text-xs">
+        {!scenario || !result ? (
+          <div className="flex-1 flex items-center justify-center text-gray-600">Create a scenario or start from a preset.</div>
+        ) : (
+          <>
+            <div className="bg-[#151515] px-4 py-2 border-b border-gray-800 flex items-center gap-3">
+              <input
+                key={scenario.id}
+                type="text"
+                defaultValue={scenario.name}
+                onBlur={(e) => e.target.value.trim() && e.target.value !== scenario.name && update({ name: e.target.value.trim() })}
+                className="bg-transparent text-white font-bold focus:outline-none flex-1 min-w-0"
+              />
+              <button onClick={handleDelete} className="text-[10px] text-gray-600 hover:text-red-500">DELETE</button>
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-4 space-y-6 min-h-0">
+              <div>
+                <h4 className="text-[10px] font-bold text-gray-500 mb-2">SHOCKS</h4>
+                <div className="grid grid-cols-5 gap-2">
+                  {SHOCK_FACTORS.map(f => (
+                    <div key={f.id}>
+                      <label className="block text-[10px] text-gray-500 mb-1 whitespace-nowrap">{f.label.toUpperCase()} ({f.unit})</label>
+                      <NumberField
+                        value={scenario.shocks[f.id]}
+                        onChange={(v) => update({ shocks: { ...scenario.shocks, [f.id]: v ?? 0 }, narrative: undefined })}
+                        className={numberClass}
+                      />
+                    </div>
+                  ))}
+                </div>
+                <div className="flex gap-2 mt-3">
+                  <input
+                    type="text"
+                    value={description}
+                    onChange={(e) => setDescription(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && description.trim() && !proposing && onPropose(scenario, description.trim())}
+                    placeholder="Describe the event, e.g. 'Fed cuts 50bp into a slowdown'"
+                    className={inputClass}
+                  />
+                  <button
+                    onClick={() => onPropose(scenario, description.trim() || scenario.name)}
+                    disabled={proposing}
+                    className="bg-amber-900 hover:bg-amber-800 text-white px-3 uppercase tracking-wider whitespace-nowrap disabled:opacity-50"
+                  >
+                    {proposing ? 'Sizing...' : 'Propose Shocks'}
+                  </button>
+                </div>
+                <p className="text-[10px] text-gray-600 mt-1">Optional. The model sizes shocks from historical analogues; all P&L below is computed locally.</p>
+                {scenario.analogue && (
+                  <div className="border border-amber-900/60 bg-amber-900/10 p-3 text-gray-400 whitespace-pre-wrap mt-2">
+                    <span className="text-amber-400">ANALOGUE: </span>{scenario.analogue}
+                    {scenario.rationale && <div className="mt-1">{scenario.rationale}</div>}
+                  </div>
+                )}
+              </div>
+
+              <div className="grid grid-cols-4 gap-3">
+                {[
+                  ['BASE VALUE', money(result.baseValue), 'text-gray-300'],
+                  ['SCENARIO P&L', signed(result.total), pnlClass(result.total)],
+                  ['P&L %', result.baseValue ? `${((result.total / result.baseValue) * 100).toFixed(2)}%` : '--', pnlClass(result.total)],
+                  ['STRESSED VALUE', money(result.stressedValue), 'text-white'],
+                ].map(([label, value, color]) => (
+                  <div key={label} className="border border-gray-800 p-2">
+                    <div className="text-[10px] text-gray-500">{label}</div>
+                    <div className={`mt-1 text-sm ${color}`}>{value}</div>
+                  </div>
+                ))}
+              </div>
+
+              {exposures.length === 0 ? (
+                <div className="text-gray-600">No exposures. Add positions in Portfolio or a standalone exposure below.</div>
+              ) : (
+                <div className="h-64">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={steps}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="#222" vertical={false} />
+                      <XAxis dataKey="name" stroke="#555" tick={{ fontSize: 10 }} />
+                      <YAxis stroke="#555" tick={{ fontSize: 10 }} tickFormatter={(v) => money(v)} width={70} />
+                      <Tooltip {...chartTooltip} formatter={(_range, _name, entry: any) => [signed(entry.payload.value), 'P&L']} />
+                      <ReferenceLine y={0} stroke="#444" />
+                      <Bar dataKey="range" isAnimationActive={false}>
+                        {steps.map(s => (
+                          <Cell key={s.name} fill={s.kind === 'total' ? '#f59e0b' : s.value >= 0 ? '#22c55e' : '#ef4444'} />
+                        ))}
+                      </Bar>
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
+              )}
+
+              <div>
+                <div className="flex justify-between items-center mb-2">
+                  <div className="flex space-x-1 text-[10px]">
+                    {(['pnl', 'sensitivities'] as const).map(t => (
+                      <button
+                        key={t}
+                        onClick={() => setTab(t)}
+                        className={`px-2 py-0.5 border ${tab === t ? 'border-amber-700 text-white bg-amber-900/30' : 'border-gray-800 text-gray-500 hover:text-gray-300'}`}
+                      >
+                        {t === 'pnl' ? 'P&L BY LINE' : 'SENSITIVITIES'}
+                      </button>
+                    ))}
+                  </div>
+                  <span className="text-[10px] text-gray-600">{exposures.length} lines</span>
+                </div>
+                <table className="w-full">
+                  <thead className="text-[10px] text-gray-600">
+                    <tr>
+                      <th className="text-left py-1 font-normal">LINE</th>
+                      <th className="text-right px-2 py-1 font-normal">VALUE</th>
+                      {SHOCK_FACTORS.map(f => (
+                        <th key={f.id} className="text-right px-2 py-1 font-normal" title={f.sensitivity}>
+                          {tab === 'pnl' ? f.id : f.sensitivity.toUpperCase()}
+                        </th>
+                      ))}
+                      {tab === 'pnl' && <th className="text-right px-2 py-1 font-normal">TOTAL</th>}
+                      <th className="w-6"></th>
+                    </tr>
+                  </thead>
+                  <tbody className="text-gray-300">
+                    {exposures.map((e, i) => {
+                      const line = result.lines[i];
+                      return (
+                        <tr key={e.id} className="border-t border-gray-900">
+                          <td className="py-1">
+                            {e.label}
+                            <span className="text-[10px] text-gray-600 ml-2">{e.source === 'custom' ? 'CUSTOM' : e.assetClass}</span>
+                          </td>
+                          <td className="px-2 text-right">{money(e.marketValue)}</td>
+                          {SHOCK_FACTORS.map(f => (
+                            tab === 'pnl' ? (
+                              <td key={f.id} className={`px-2 text-right ${pnlClass(line.impacts[f.id])}`}>
+                                {line.impacts[f.id] === 0 ? '--' : signed(line.impacts[f.id])}
+                              </td>
+                            ) : (
+                              <td key={f.id} className="px-1 py-0.5 w-24">
+                                <NumberField
+                                  value={e.sensitivities[f.id]}
+                                  onChange={(v) => onSensitivityChange(e, f.id, v ?? 0)}
+                                  className={numberClass}
+                                />
+                              </td>
+                            )
+                          ))}
+                          {tab === 'pnl' && <td className={`px-2 text-right font-bold ${pnlClass(line.total)}`}>{signed(line.total)}</td>}
+                          <td className="text-center">
+                            {e.source === 'custom' && (
+                              <button onClick={() => onRemoveExposure(e.id)} className="text-gray-600 hover:text-red-500" title={`Remove ${e.label}`}>×</button>
+                            )}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+                <div className="flex gap-2 mt-3 items-center">
+                  <input
+                    type="text"
+                    value={draft.label}
+                    onChange={(e) => setDraft({ ...draft, label: e.target.value })}
+                    placeholder="Exposure (e.g. EUR receivables)"
+                    className={inputClass}
+                  />
+                  <select
+                    value={draft.assetClass}
+                    onChange={(e) => setDraft({ ...draft, assetClass: e.target.value as AssetClass })}
+                    className={`${inputClass} w-36`}
+                  >
+                    {ASSET_CLASSES.map(c => <option key={c} value={c}>{c}</option>)}
+                  </select>
+                  <div className="w-32">
+                    <NumberField value={draft.marketValue} onChange={(v) => setDraft({ ...draft, marketValue: v })} className={numberClass} />
+                  </div>
+                  <button
+                    onClick={handleAddExposure}
+                    className="text-[10px] text-gray-400 border border-gray-700 px-2 py-1 hover:text-white whitespace-nowrap"
+                  >
+                    + ADD EXPOSURE
+                  </button>
+                </div>
+                <p className="text-[10px] text-gray-600 mt-1">
+                  Rates and credit: P&L = -duration × shock(bp) / 10000 × value. Equity, oil, FX: P&L = beta × shock(%) / 100 × value.
+                </p>
+              </div>
+
+              <div>
+                <div className="flex justify-between items-center mb-2">
+                  <h4 className="text-[10px] font-bold text-gray-500">NARRATIVE</h4>
+                  <button
+                    onClick={() => onNarrate(scenario)}
+                    disabled={narrating || exposures.length === 0}
+                    className="text-[10px] text-amber-400 border border-amber-900 px-2 py-0.5 hover:text-white disabled:opacity-50"
+                  >
+                    {narrating ? 'WRITING...' : 'NARRATE RESULTS'}
+                  </button>
+                </div>
+                {scenario.narrative ? (
+                  <div className="text-gray-300 whitespace-pre-wrap leading-relaxed">{scenario.narrative}</div>
+                ) : (
+                  <div className="text-gray-600">Optional. The model explains the computed figures; it does not change them.</div>
+                )}
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ScenarioView;
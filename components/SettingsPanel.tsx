@@ -0,0 +1,70 @@
+import React from 'react';
+import { LLMProviderId, ModelSettings, ModelSlot } from '../types';
+import { DEFAULT_MODEL_SETTINGS, MODEL_SLOTS, getProvider, listProviders, resolveModel } from '../services/llmProvider';
+
+interface SettingsPanelProps {
+  settings: ModelSettings;
+  onChange: (settings: ModelSettings) => void;
+  onClose: () => void;
+}
+
+const selectClass = "w-full bg-black border border-gray-700 text-white px-2 py-1.5 text-xs focus:border-blue-500 focus:outline-none font-mono";
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onChange, onClose }) => {
+  const provider = getProvider(settings.providerId);
+
+  // Model overrides are provider specific, so switching providers starts from its defaults
+  const setProvider = (providerId: LLMProviderId) => onChange({ providerId, models: {} });
+
+  const setModel = (slot: ModelSlot, model: string) =>
+    onChange({ ...settings, models: { ...settings.models, [slot]: model } });
+
+  return (
+    <div className="absolute right-6 top-2 z-20 w-96 bg-[#0c0c0c] border border-gray-700 shadow-2xl font-mono">
+      <div className="bg-[#1a1a1a] px-4 py-2 flex justify-between items-center border-b border-gray-800">
+        <span className="text-xs font-bold text-gray-400 uppercase tracking-wider">Model Settings</span>
+        <button onClick={onClose} className="text-gray-500 hover:text-white text-sm" title="Close">×</button>
+      </div>
+      <div className="p-4 space-y-4">
+        <div>
+          <label className="block text-xs text-gray-500 mb-1">PROVIDER</label>
+          <select value={settings.providerId} onChange={(e) => setProvider(e.target.value as LLMProviderId)} className={selectClass}>
+            {listProviders().map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+          </select>
+          {provider.id === 'mock' && (
+            <p className="mt-1 text-[10px] text-yellow-600">Canned fixture responses. No API key or network needed.</p>
+          )}
+          {provider.id === 'gemini' && !process.env.API_KEY && (
+            <p className="mt-1 text-[10px] text-red-500">GEMINI_API_KEY is not set; requests will fail with AUTH errors.</p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <div className="text-xs text-gray-500">MODEL PER MODULE</div>
+          {MODEL_SLOTS.map(({ slot, label }) => (
+            <div key={slot} className="grid grid-cols-2 gap-2 items-center">
+              <span className="text-[10px] text-gray-400">{label}</span>
+              <select
+                value={resolveModel(slot, settings)}
+                onChange={(e) => setModel(slot, e.target.value)}
+                disabled={provider.models.length < 2}
+                className={`${selectClass} disabled:opacity-50`}
+              >
+                {provider.models.map(m => <option key={m} value={m}>{m}</option>)}
+              </select>
+            </div>
+          ))}
+        </div>
+
+        <button
+          onClick={() => onChange({ ...DEFAULT_MODEL_SETTINGS, providerId: settings.providerId })}
+          className="w-full border border-gray-700 text-gray-400 hover:text-white hover:border-gray-500 text-xs py-2 uppercase tracking-wider"
+        >
+          Reset Models To Defaults
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
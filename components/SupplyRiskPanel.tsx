@@ -0,0 +1,197 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ResponsiveContainer, AreaChart, Area, YAxis } from 'recharts';
+import { BarInterval, CountryRisk, MarketDataProvider, OHLCBar, ResourceSite, WatchlistQuote } from '../types';
+import { getQuote } from '../services/marketDataService';
+import { COUNTRY_RISK_TAGS, hhiLabel, suggestPriceSymbol, supplyConcentration } from '../services/supplyRiskService';
+import { listCommodities } from '../services/resourceMapService';
+
+interface SupplyRiskPanelProps {
+  sites: ResourceSite[];
+  risks: CountryRisk[];
+  // Commodity name -> market symbol
+  priceLinks: Record<string, string>;
+  provider: MarketDataProvider;
+  symbols: string[];
+  interval: BarInterval;
+  onLinkChange: (commodity: string, symbol: string | null) => void;
+  onOpenChart: (symbol: string) => void;
+}
+
+const TAG_STYLES: Record<string, string> = {
+  SANCTIONS: 'bg-red-900/60 text-red-300',
+  POLITICAL_INSTABILITY: 'bg-orange-900/60 text-orange-300',
+  EXPORT_BAN: 'bg-yellow-900/60 text-yellow-300',
+};
+
+export const RiskTags: React.FC<{ tags: CountryRisk['tags'] }> = ({ tags }) => (
+  <>
+    {tags.map(tag => {
+      const meta = COUNTRY_RISK_TAGS.find(t => t.id === tag);
+      return (
+        <span key={tag} title={meta?.label} className={`text-[9px] px-1 mr-1 ${TAG_STYLES[tag]}`}>{meta?.short ?? tag}</span>
+      );
+    })}
+  </>
+);
+
+const pct = (share: number) => `${(share * 100).toFixed(1)}%`;
+
+const SupplyRiskPanel: React.FC<SupplyRiskPanelProps> = ({
+  sites, risks, priceLinks, provider, symbols, interval, onLinkChange, onOpenChart,
+}) => {
+  const commodities = useMemo(() => listCommodities(sites), [sites]);
+  const [commodity, setCommodity] = useState('');
+  const [candles, setCandles] = useState<OHLCBar[]>([]);
+  const [quote, setQuote] = useState<WatchlistQuote | null>(null);
+
+  useEffect(() => {
+    if (!commodities.includes(commodity)) setCommodity(commodities[0] ?? '');
+  }, [commodities, commodity]);
+
+  const linked = priceLinks[commodity] ?? null;
+  const suggested = commodity && !linked ? suggestPriceSymbol(commodity, symbols) : null;
+  const concentration = useMemo(
+    () => (commodity ? supplyConcentration(sites, commodity, risks) : null),
+    [sites, commodity, risks]
+  );
+
+  useEffect(() => {
+    setCandles([]);
+    setQuote(null);
+    if (!linked) return;
+    let cancelled = false;
+    provider.getCandles(linked, interval)
+      .then(data => {
+        if (cancelled) return;
+        setCandles(data);
+        setQuote(getQuote(linked, data));
+      })
+      .catch(error => console.error("Supply risk price error:", error));
+    return () => { cancelled = true; };
+  }, [linked, provider, interval]);
+
+  if (commodities.length === 0) {
+    return (
+      <div className="bg-[#0c0c0c] border border-gray-800 h-full flex items-center justify-center font-mono text-xs text-gray-600">
+        Run a scan to analyse supply concentration.
+      </div>
+    );
+  }
+
+  const up = (quote?.changePct ?? 0) >= 0;
+
+  return (
+    <div className="bg-[#0c0c0c] border border-gray-800 h-full flex flex-col font-mono text-xs min-h-0">
+      <div className="bg-[#151515] px-4 py-2 border-b border-gray-800 flex justify-between items-center">
+        <h4 className="font-bold text-gray-400">SUPPLY EXPOSURE</h4>
+        <select
+          value={commodity}
+          onChange={(e) => setCommodity(e.target.value)}
+          className="bg-black border border-gray-700 text-white px-2 py-0.5 text-[10px] focus:outline-none"
+        >
+          {commodities.map(c => <option key={c} value={c}>{c}</option>)}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4 p-4 border-b border-gray-800">
+        <div className="col-span-1 space-y-2">
+          <div className="text-[10px] text-gray-600">PRICE SERIES ({provider.name.toUpperCase()})</div>
+          <select
+            value={linked ?? ''}
+            onChange={(e) => onLinkChange(commodity, e.target.value || null)}
+            className="w-full bg-black border border-gray-700 text-white px-2 py-1 text-xs focus:outline-none"
+          >
+            <option value="">-- Not linked --</option>
+            {linked && !symbols.includes(linked) && <option value={linked}>{linked} (unavailable)</option>}
+            {symbols.map(s => <option key={s} value={s}>{s}</option>)}
+          </select>
+          {suggested && (
+            <button onClick={() => onLinkChange(commodity, suggested)} className="text-[10px] text-blue-400 hover:text-blue-300">
+              LINK SUGGESTED: {suggested}
+            </button>
+          )}
+          {quote && (
+            <div className="flex items-baseline justify-between">
+              <span className="text-white text-sm">{quote.last.toFixed(2)}</span>
+              <span className={up ? 'text-green-500' : 'text-red-500'}>{up ? '+' : ''}{quote.changePct.toFixed(2)}%</span>
+              <button onClick={() => onOpenChart(quote.symbol)} className="text-[10px] text-gray-500 hover:text-white">CHART</button>
+            </div>
+          )}
+        </div>
+        <div className="col-span-2 h-24">
+          {candles.length > 1 ? (
+            <ResponsiveContainer width="100%" height="100%">
+              <AreaChart data={candles}>
+                <YAxis hide domain={['auto', 'auto']} />
+                <Area type="monotone" dataKey="close" stroke={up ? '#22c55e' : '#ef4444'} fill={up ? '#22c55e' : '#ef4444'} fillOpacity={0.1} isAnimationActive={false} />
+              </AreaChart>
+            </ResponsiveContainer>
+          ) : (
+            <div className="h-full flex items-center justify-center text-[10px] text-gray-600 border border-dashed border-gray-800">
+              {linked ? 'Loading series...' : 'Link a market symbol to track price alongside supply risk.'}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {concentration && (
+        <>
+          <div className="grid grid-cols-3 gap-4 px-4 py-3 border-b border-gray-800">
+            <div>
+              <div className="text-[10px] text-gray-600">HHI</div>
+              <div className="text-white">{concentration.hhi}</div>
+              <div className="text-[9px] text-gray-500">{hhiLabel(concentration.hhi)}</div>
+            </div>
+            <div>
+              <div className="text-[10px] text-gray-600">TOP COUNTRY</div>
+              <div className="text-white">{concentration.shares[0]?.country ?? '--'}</div>
+              <div className="text-[9px] text-gray-500">{concentration.shares[0] ? pct(concentration.shares[0].share) : ''}</div>
+            </div>
+            <div>
+              <div className="text-[10px] text-gray-600">IN RISK-TAGGED COUNTRIES</div>
+              <div className={concentration.atRiskShare > 0.3 ? 'text-red-400' : 'text-white'}>{pct(concentration.atRiskShare)}</div>
+            </div>
+          </div>
+          <div className="flex-1 overflow-y-auto">
+            <table className="w-full">
+              <thead className="text-[10px] text-gray-600 sticky top-0 bg-[#0c0c0c]">
+                <tr>
+                  <th className="text-left px-4 py-1 font-normal">COUNTRY</th>
+                  <th className="text-right px-2 py-1 font-normal">SITES</th>
+                  <th className="text-right px-2 py-1 font-normal">
+                    {concentration.basis === 'capacity' ? `CAPACITY (${concentration.unit})` : 'CAPACITY'}
+                  </th>
+                  <th className="text-left px-2 py-1 font-normal w-1/3">SHARE</th>
+                  <th className="text-left px-4 py-1 font-normal">RISK</th>
+                </tr>
+              </thead>
+              <tbody>
+                {concentration.shares.map(row => (
+                  <tr key={row.country} className="border-t border-gray-900 text-gray-400">
+                    <td className="px-4 py-1.5 text-white">{row.country}</td>
+                    <td className="text-right px-2">{row.sites}</td>
+                    <td className="text-right px-2">{row.capacity !== null ? row.capacity.toLocaleString() : '--'}</td>
+                    <td className="px-2">
+                      <div className="flex items-center">
+                        <div className="flex-1 h-1.5 bg-gray-900 mr-2">
+                          <div className={`h-full ${row.risks.length ? 'bg-red-600' : 'bg-yellow-600'}`} style={{ width: pct(row.share) }}></div>
+                        </div>
+                        <span className="w-12 text-right">{pct(row.share)}</span>
+                      </div>
+                    </td>
+                    <td className="px-4"><RiskTags tags={row.risks} /></td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <div className="px-4 py-2 text-[10px] text-gray-600">
+              Shares weighted by {concentration.basis === 'capacity' ? 'reported capacity' : 'site count (capacities missing or in mixed units)'} across sites in this scan.
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SupplyRiskPanel;
@@ -1,35 +1,109 @@
-import React from 'react';
-import { GroundingChunk } from '../types';
+import React, { useEffect, useState } from 'react';
+import { GroundingChunk, ServiceError, StreamState } from '../types';
+import { describeError } from '../services/serviceErrors';
 
 interface TerminalOutputProps {
   title: string;
   content: string;
   loading?: boolean;
   groundingChunks?: GroundingChunk[];
+  // When set, in-flight and interrupted streams render their own text instead of `content`
+  stream?: StreamState;
+  // Failure of a non-streamed request; shown as an error banner instead of `content`
+  error?: ServiceError | null;
+  onCancel?: () => void;
 }
 
-const TerminalOutput: React.FC<TerminalOutputProps> = ({ title, content, loading, groundingChunks }) => {
+const ErrorBanner: React.FC<{ error: ServiceError; partial?: boolean }> = ({ error, partial }) => (
+  <div className="border border-red-900 bg-red-950/40 px-3 py-2 text-xs text-red-400 whitespace-normal">
+    <div className="font-bold text-red-500">
+      {error.kind} ERROR{error.httpStatus ? ` (${error.httpStatus})` : ''}
+      {error.attempts > 1 && <span className="font-normal text-red-400"> · {error.attempts} attempts</span>}
+    </div>
+    <div className="mt-1">{error.message}</div>
+    {partial && <div className="mt-1 text-gray-500">Partial output retained.</div>}
+  </div>
+);
+
+export const StreamStats: React.FC<{ stream: StreamState }> = ({ stream }) => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (stream.status !== 'streaming') return;
+    const timer = setInterval(() => setNow(Date.now()), 100);
+    return () => clearInterval(timer);
+  }, [stream.status]);
+
+  if (!stream.startedAt) return null;
+  const elapsed = ((stream.finishedAt ?? now) - stream.startedAt) / 1000;
+  // Usage metadata often arrives only with the final chunk; estimate ~4 chars/token until then
+  const tokens = stream.usage
+    ? `${stream.usage.outputTokens} tok${stream.usage.thoughtsTokens ? ` +${stream.usage.thoughtsTokens} think` : ''}`
+    : `~${Math.ceil(stream.text.length / 4)} tok`;
+
+  return (
+    <span className="text-[10px] text-gray-500 normal-case tracking-normal">
+      {elapsed.toFixed(1)}s · {tokens}
+    </span>
+  );
+};
+
+const TerminalOutput: React.FC<TerminalOutputProps> = ({ title, content, loading, groundingChunks, stream, error, onCancel }) => {
+  const streaming = stream?.status === 'streaming';
+  const interrupted = stream?.status === 'aborted' || stream?.status === 'error';
+  const body = stream && (streaming || interrupted) ? stream.text : content;
+  const waiting = (loading && !streaming) || (streaming && !stream?.text);
+  const retry = streaming ? stream?.retry : undefined;
+  const failure = stream?.status === 'error' && !stream.text ? stream.error : !streaming && !interrupted ? error : null;
+
   return (
     <div className="bg-[#0c0c0c] border border-gray-800 h-full flex flex-col font-mono text-sm overflow-hidden shadow-2xl">
       <div className="bg-[#1a1a1a] px-3 py-1 flex justify-between items-center border-b border-gray-800 select-none">
         <span className="font-bold text-gray-400 uppercase text-xs tracking-wider">{title}</span>
-        <div className="flex space-x-2">
-          <div className="w-2 h-2 rounded-full bg-gray-600"></div>
-          <div className="w-2 h-2 rounded-full bg-gray-600"></div>
+        <div className="flex items-center space-x-3">
+          {stream && stream.status !== 'idle' && <StreamStats stream={stream} />}
+          {streaming && onCancel && (
+            <button
+              onClick={onCancel}
+              className="text-[10px] text-red-400 border border-red-900 px-2 hover:bg-red-900 hover:text-white"
+            >
+              CANCEL
+            </button>
+          )}
+          <div className="flex space-x-2">
+            <div className={`w-2 h-2 rounded-full ${streaming ? 'bg-green-500 animate-pulse' : 'bg-gray-600'}`}></div>
+            <div className="w-2 h-2 rounded-full bg-gray-600"></div>
+          </div>
         </div>
       </div>
       <div className="p-4 flex-1 overflow-y-auto whitespace-pre-wrap text-gray-300 leading-relaxed">
-        {loading ? (
-          <div className="flex items-center space-x-2 text-yellow-500 animate-pulse">
-            <span>PROCESSING REQUEST</span>
-            <span className="animate-bounce">.</span>
-            <span className="animate-bounce delay-100">.</span>
-            <span className="animate-bounce delay-200">.</span>
+        {waiting ? (
+          <div className="space-y-2">
+            <div className="flex items-center space-x-2 text-yellow-500 animate-pulse">
+              <span>PROCESSING REQUEST</span>
+              <span className="animate-bounce">.</span>
+              <span className="animate-bounce delay-100">.</span>
+              <span className="animate-bounce delay-200">.</span>
+            </div>
+            {retry && (
+              <div className="text-xs text-yellow-600" title={describeError(retry.error)}>
+                {retry.error.kind} · retry {retry.attempt} in {(retry.delayMs / 1000).toFixed(1)}s
+              </div>
+            )}
           </div>
+        ) : failure ? (
+          <ErrorBanner error={failure} />
         ) : (
           <>
-            {content}
-            {groundingChunks && groundingChunks.length > 0 && (
+            {body}
+            {streaming && <span className="inline-block w-2 h-4 bg-gray-400 ml-0.5 align-middle animate-pulse"></span>}
+            {stream?.status === 'error' && stream.error && (
+              <div className="mt-4"><ErrorBanner error={stream.error} partial /></div>
+            )}
+            {stream?.status === 'aborted' && (
+              <div className="mt-4 text-xs text-yellow-500">[STREAM CANCELLED] Partial output retained.</div>
+            )}
+            {!streaming && groundingChunks && groundingChunks.length > 0 && (
               <div className="mt-6 border-t border-gray-800 pt-4">
                 <h4 className="text-xs uppercase text-blue-500 font-bold mb-2">Source References</h4>
                 <ul className="space-y-1">
@@ -55,4 +129,4 @@ const TerminalOutput: React.FC<TerminalOutputProps> = ({ title, content, loading
   );
 };
 
-export default TerminalOutput;
\ No newline at end of file
+export default TerminalOutput;
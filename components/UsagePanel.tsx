@@ -0,0 +1,143 @@
+import React, { useMemo } from 'react';
+import { BudgetSettings, CallRecord, ModuleType } from '../types';
+import { SLOT_MODULES, UsageSummary, formatUsd, spentToday, summarizeUsage } from '../services/telemetryService';
+
+interface UsagePanelProps {
+  records: CallRecord[];
+  budget: BudgetSettings;
+  onBudgetChange: (budget: BudgetSettings) => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+const MODULE_LABELS: Record<ModuleType, string> = {
+  [ModuleType.DASHBOARD]: 'Market Dashboard',
+  [ModuleType.QUANT_PREDICT]: 'Quant Prediction',
+  [ModuleType.DEAL_FLOW]: 'Deal Sourcing',
+  [ModuleType.RESOURCE_MAP]: 'Global Resources',
+  [ModuleType.DATA_LAB]: 'Data Lab',
+  [ModuleType.BACKTEST]: 'Backtester',
+  [ModuleType.PORTFOLIO]: 'Portfolio',
+  [ModuleType.VALUATION]: 'Valuation',
+  [ModuleType.SCENARIO]: 'Scenarios',
+};
+
+const inputClass = "bg-black border border-gray-700 text-white px-2 py-1 text-xs focus:border-blue-500 focus:outline-none font-mono";
+
+const formatTokens = (n: number) => (n >= 1e6 ? `${(n / 1e6).toFixed(2)}M` : n >= 1e3 ? `${(n / 1e3).toFixed(1)}K` : String(n));
+
+const STATUS_STYLES: Record<CallRecord['status'], string> = {
+  ok: 'text-green-500',
+  error: 'text-red-500',
+  aborted: 'text-gray-500',
+  blocked: 'text-yellow-500',
+};
+
+const UsageTable: React.FC<{ title: string; rows: UsageSummary[] }> = ({ title, rows }) => (
+  <table className="w-full text-[10px]">
+    <thead className="text-gray-600">
+      <tr>
+        <th className="text-left font-normal py-1">{title}</th>
+        <th className="text-right font-normal">CALLS</th>
+        <th className="text-right font-normal">ERR</th>
+        <th className="text-right font-normal">AVG MS</th>
+        <th className="text-right font-normal">PROMPT</th>
+        <th className="text-right font-normal">THINK</th>
+        <th className="text-right font-normal">OUT</th>
+        <th className="text-right font-normal">COST</th>
+      </tr>
+    </thead>
+    <tbody>
+      {rows.map(r => (
+        <tr key={r.key} className="border-t border-gray-900 text-gray-300">
+          <td className="py-1 truncate max-w-[8rem]" title={r.key}>{r.key}</td>
+          <td className="text-right">{r.calls}</td>
+          <td className={`text-right ${r.errors ? 'text-red-400' : 'text-gray-600'}`}>{r.errors}</td>
+          <td className="text-right">{r.avgLatencyMs === null ? '--' : Math.round(r.avgLatencyMs)}</td>
+          <td className="text-right">{formatTokens(r.promptTokens)}</td>
+          <td className="text-right">{formatTokens(r.thoughtsTokens)}</td>
+          <td className="text-right">{formatTokens(r.outputTokens)}</td>
+          <td className="text-right text-white">{formatUsd(r.costUsd)}</td>
+        </tr>
+      ))}
+    </tbody>
+  </table>
+);
+
+const UsagePanel: React.FC<UsagePanelProps> = ({ records, budget, onBudgetChange, onClear, onClose }) => {
+  const spent = spentToday(records);
+  const byModule = useMemo(() => summarizeUsage(records, r => MODULE_LABELS[SLOT_MODULES[r.slot]]), [records]);
+  const byModel = useMemo(() => summarizeUsage(records, r => r.model), [records]);
+  const limited = budget.dailyLimitUsd > 0;
+  const ratio = limited ? spent / budget.dailyLimitUsd : 0;
+
+  return (
+    <div className="absolute right-6 top-2 z-20 w-[34rem] max-h-[calc(100%-1rem)] flex flex-col bg-[#0c0c0c] border border-gray-700 shadow-2xl font-mono text-xs">
+      <div className="bg-[#1a1a1a] px-4 py-2 flex justify-between items-center border-b border-gray-800">
+        <span className="text-xs font-bold text-gray-400 uppercase tracking-wider">Model Usage</span>
+        <button onClick={onClose} className="text-gray-500 hover:text-white text-sm" title="Close">×</button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto min-h-0 p-4 space-y-4">
+        <div className="space-y-2">
+          <div className="flex justify-between text-gray-400">
+            <span>TODAY {formatUsd(spent)}{limited && ` / ${formatUsd(budget.dailyLimitUsd)}`}</span>
+            <span className="text-gray-600">{records.length} calls recorded</span>
+          </div>
+          {limited && (
+            <div className="h-1 bg-gray-800">
+              <div
+                className={`h-1 ${ratio >= 1 ? 'bg-red-500' : ratio >= 0.8 ? 'bg-yellow-500' : 'bg-green-600'}`}
+                style={{ width: `${Math.min(100, ratio * 100)}%` }}
+              />
+            </div>
+          )}
+          <div className="flex items-center space-x-2 text-[10px] text-gray-500">
+            <span>DAILY CAP $</span>
+            <input
+              type="number"
+              min={0}
+              step="0.5"
+              value={budget.dailyLimitUsd}
+              onChange={(e) => onBudgetChange({ ...budget, dailyLimitUsd: Math.max(0, Number(e.target.value) || 0) })}
+              className={`${inputClass} w-20`}
+            />
+            <span>THINKING CALLS OVER CAP</span>
+            <select value={budget.action} onChange={(e) => onBudgetChange({ ...budget, action: e.target.value as BudgetSettings['action'] })} className={inputClass}>
+              <option value="WARN">WARN</option>
+              <option value="BLOCK">BLOCK</option>
+            </select>
+          </div>
+          {!limited && <p className="text-[10px] text-gray-600">No cap set. Costs are estimates from list prices.</p>}
+        </div>
+
+        {records.length === 0 ? (
+          <div className="text-gray-600">No model calls recorded yet.</div>
+        ) : (
+          <>
+            <UsageTable title="MODULE" rows={byModule} />
+            <UsageTable title="MODEL" rows={byModel} />
+            <div>
+              <div className="flex justify-between items-center text-[10px] text-gray-600 mb-1">
+                <span>RECENT CALLS</span>
+                <button onClick={onClear} className="hover:text-red-400">CLEAR</button>
+              </div>
+              {records.slice(0, 25).map(r => (
+                <div key={r.id} className="flex space-x-2 text-[10px]" title={r.budgetWarning}>
+                  <span className="text-gray-600 whitespace-nowrap">{new Date(r.startedAt).toLocaleTimeString()}</span>
+                  <span className={`w-12 ${STATUS_STYLES[r.status]}`}>{(r.errorKind ?? r.status).toUpperCase()}</span>
+                  <span className="flex-1 text-gray-300 truncate">{r.label} · {r.model}</span>
+                  <span className="text-gray-500">{r.status === 'blocked' ? '--' : `${r.latencyMs}ms`}</span>
+                  <span className="w-14 text-right text-white">{formatUsd(r.costUsd)}</span>
+                  {r.budgetWarning && <span className="text-yellow-500">!</span>}
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default UsagePanel;
@@ -0,0 +1,452 @@
+import React, { useMemo, useState } from 'react';
+import { CompPeer, DcfAssumptions, FinancialStatements, LogEntry, PipelineDeal, ValuationModel } from '../types';
+import {
+  COMP_MULTIPLES,
+  DCF_YEARS,
+  compsSummary,
+  createPeerId,
+  createValuation,
+  impliedValuations,
+  peerMultiples,
+  runDcf,
+  sensitivity,
+  valuationFromDeal,
+  valuationFromFiling
+} from '../services/valuationService';
+import NumberField from './NumberField';
+
+export interface ValuationSource {
+  deal?: PipelineDeal;
+  filing?: FinancialStatements;
+}
+
+interface ValuationViewProps {
+  valuations: ValuationModel[];
+  activeId: string | null;
+  onSelect: (id: string | null) => void;
+  onChange: (valuations: ValuationModel[]) => void;
+  deals: PipelineDeal[];
+  filings: FinancialStatements[];
+  suggesting: boolean;
+  onSuggest: (model: ValuationModel, source: ValuationSource) => void;
+  onLog: (message: string, level?: LogEntry['level']) => void;
+}
+
+const inputClass = "w-full bg-black border border-gray-700 text-white px-2 py-1 text-xs focus:border-indigo-500 focus:outline-none font-mono";
+
+const money = (v: number | null) => (v === null ? '--' : v.toLocaleString(undefined, { maximumFractionDigits: Math.abs(v) < 100 ? 2 : 0 }));
+const pct = (v: number | null) => (v === null ? '--' : `${(v * 100).toFixed(1)}%`);
+const times = (v: number | null) => (v === null ? '--' : `${v.toFixed(1)}x`);
+
+const ASSUMPTION_FIELDS: { key: keyof DcfAssumptions; label: string; percent?: boolean }[] = [
+  { key: 'baseRevenue', label: 'BASE REVENUE' },
+  { key: 'taxRate', label: 'TAX RATE %', percent: true },
+  { key: 'daPctRevenue', label: 'D&A % REV', percent: true },
+  { key: 'capexPctRevenue', label: 'CAPEX % REV', percent: true },
+  { key: 'nwcPctIncrementalRevenue', label: 'NWC % ΔREV', percent: true },
+  { key: 'terminalGrowth', label: 'TERMINAL g %', percent: true },
+  { key: 'riskFreeRate', label: 'RISK-FREE %', percent: true },
+  { key: 'beta', label: 'BETA' },
+  { key: 'equityRiskPremium', label: 'ERP %', percent: true },
+  { key: 'preTaxCostOfDebt', label: 'COST OF DEBT %', percent: true },
+  { key: 'debtWeight', label: 'DEBT WEIGHT %', percent: true },
+  { key: 'netDebt', label: 'NET DEBT' },
+  { key: 'sharesOutstanding', label: 'SHARES' },
+];
+
+const PEER_FIELDS: { key: keyof Omit<CompPeer, 'id' | 'name'>; label: string }[] = [
+  { key: 'price', label: 'PRICE' },
+  { key: 'sharesOutstanding', label: 'SHARES' },
+  { key: 'netDebt', label: 'NET DEBT' },
+  { key: 'revenue', label: 'REVENUE' },
+  { key: 'ebitda', label: 'EBITDA' },
+  { key: 'netIncome', label: 'NET INC' },
+];
+
+const ValuationView: React.FC<ValuationViewProps> = ({
+  valuations,
+  activeId,
+  onSelect,
+  onChange,
+  deals,
+  filings,
+  suggesting,
+  onSuggest,
+  onLog
+}) => {
+  const [tab, setTab] = useState<'dcf' | 'comps'>('dcf');
+  // "deal:<id>" or "filing:<index>"
+  const [sourceKey, setSourceKey] = useState('');
+  const model = valuations.find(v => v.id === activeId) ?? null;
+
+  const dcf = useMemo(() => (model ? runDcf(model.dcf) : null), [model]);
+  const grid = useMemo(() => (model ? sensitivity(model.dcf) : null), [model]);
+  const summary = useMemo(() => (model ? compsSummary(model.peers) : null), [model]);
+  const implied = useMemo(() => (model ? impliedValuations(model) : []), [model]);
+
+  const source = (): ValuationSource => {
+    const [kind, ref] = sourceKey.split(':');
+    if (kind === 'deal') return { deal: deals.find(d => d.id === ref) };
+    if (kind === 'filing') return { filing: filings[Number(ref)] };
+    return {};
+  };
+
+  const update = (patch: Partial<ValuationModel>) => {
+    if (!model) return;
+    onChange(valuations.map(v => (v.id === model.id ? { ...v, ...patch, updatedAt: Date.now() } : v)));
+  };
+  const updateDcf = (patch: Partial<DcfAssumptions>) => model && update({ dcf: { ...model.dcf, ...patch } });
+  const updatePath = (key: 'revenueGrowth' | 'ebitMargin', index: number, value: number | null) => {
+    if (!model || value === null) return;
+    updateDcf({ [key]: model.dcf[key].map((v, i) => (i === index ? value : v)) });
+  };
+  const updatePeer = (id: string, patch: Partial<CompPeer>) =>
+    model && update({ peers: model.peers.map(p => (p.id === id ? { ...p, ...patch } : p)) });
+
+  const add = (created: ValuationModel) => {
+    onChange([...valuations, created]);
+    onSelect(created.id);
+    onLog(`Valuation created: ${created.name}`, 'INFO');
+  };
+
+  const handleCreate = () => {
+    const { deal, filing } = source();
+    if (filing) add(valuationFromFiling(filing));
+    else if (deal) add(valuationFromDeal(deal));
+    else add(createValuation(`Valuation ${valuations.length + 1}`));
+  };
+
+  const handleDelete = () => {
+    if (!model || !window.confirm(`Delete valuation "${model.name}"?`)) return;
+    onChange(valuations.filter(v => v.id !== model.id));
+    onSelect(null);
+  };
+
+  const baseIndex = grid ? Math.floor(grid.waccs.length / 2) : 0;
+
+  return (
+    <div className="grid grid-cols-12 h-full gap-4">
+      <div className="col-span-3 bg-[#0c0c0c] border border-gray-800 p-6 flex flex-col min-h-0 font-mono text-xs">
+        <h3 className="text-lg font-light text-white mb-6 font-sans">Valuations</h3>
+        <div className="flex-1 overflow-y-auto space-y-1 min-h-0">
+          {valuations.map(v => (
+            <button
+              key={v.id}
+              onClick={() => onSelect(v.id)}
+              className={`w-full text-left px-3 py-2 border ${v.id === activeId ? 'border-indigo-700 bg-indigo-900/20 text-white' : 'border-gray-800 text-gray-400 hover:text-white'}`}
+            >
+              <div className="truncate">{v.name}</div>
+              <div className="text-[10px] text-gray-600 truncate">{v.source.kind.toUpperCase()} · {v.source.label}</div>
+            </button>
+          ))}
+          {valuations.length === 0 && <div className="text-gray-600">No valuations yet.</div>}
+        </div>
+
+        <div className="mt-4 pt-4 border-t border-gray-800 space-y-2">
+          <label className="block text-gray-500">SOURCE</label>
+          <select value={sourceKey} onChange={(e) => setSourceKey(e.target.value)} className={inputClass}>
+            <option value="">Manual (defaults)</option>
+            {deals.length > 0 && (
+              <optgroup label="Pipeline deals">
+                {deals.map(d => <option key={d.id} value={`deal:${d.id}`}>{d.candidate.name}</option>)}
+              </optgroup>
+            )}
+            {filings.length > 0 && (
+              <optgroup label="Filing analyses">
+                {filings.map((f, i) => <option key={i} value={`filing:${i}`}>{f.company} ({f.periods[f.periods.length - 1]})</option>)}
+              </optgroup>
+            )}
+          </select>
+          <button onClick={handleCreate} className="w-full border border-gray-700 text-gray-300 hover:text-white hover:border-gray-500 py-2 uppercase tracking-wider">
+            New Valuation
+          </button>
+          <button
+            onClick={() => model && onSuggest(model, source())}
+            disabled={!model || suggesting}
+            className="w-full bg-indigo-900 hover:bg-indigo-800 text-white py-2 uppercase tracking-wider disabled:opacity-50"
+          >
+            {suggesting ? 'Suggesting...' : 'Suggest Assumptions'}
+          </button>
+          <p className="text-[10px] text-gray-600">The model proposes inputs only. Every value below is computed locally from them.</p>
+        </div>
+      </div>
+
+      <div className="col-span-9 bg-[#0c0c0c] border border-gray-800 flex flex-col min-h-0 font-mono text-xs">
+        {!model ? (
+          <div className="flex-1 flex items-center justify-center text-gray-600">Create or select a valuation.</div>
+        ) : (
+          <>
+            <div className="bg-[#151515] px-4 py-2 border-b border-gray-800 flex items-center gap-3">
+              <input
+                key={model.id}
+                type="text"
+                defaultValue={model.name}
+                onBlur={(e) => e.target.value.trim() && e.target.value !== model.name && update({ name: e.target.value.trim() })}
+                className="bg-transparent text-white font-bold focus:outline-none flex-1 min-w-0"
+              />
+              <input
+                type="text"
+                value={model.currency}
+                onChange={(e) => update({ currency: e.target.value.toUpperCase() })}
+                className={`${inputClass} w-16`}
+                title="Currency"
+              />
+              <input type="text" value={model.unit} onChange={(e) => update({ unit: e.target.value })} className={`${inputClass} w-24`} title="Unit" />
+              <div className="flex space-x-1 text-[10px]">
+                {(['dcf', 'comps'] as const).map(t => (
+                  <button
+                    key={t}
+                    onClick={() => setTab(t)}
+                    className={`px-2 py-0.5 border ${tab === t ? 'border-indigo-700 text-white bg-indigo-900/30' : 'border-gray-800 text-gray-500 hover:text-gray-300'}`}
+                  >
+                    {t === 'dcf' ? 'DCF' : `COMPS (${model.peers.length})`}
+                  </button>
+                ))}
+              </div>
+              <button onClick={handleDelete} className="text-[10px] text-gray-600 hover:text-red-500">DELETE</button>
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-4 space-y-6 min-h-0">
+              {model.rationale && (
+                <div className="border border-indigo-900/60 bg-indigo-900/10 p-3 text-gray-400 whitespace-pre-wrap">
+                  <span className="text-indigo-400">SUGGESTION RATIONALE: </span>{model.rationale}
+                </div>
+              )}
+
+              {tab === 'dcf' ? (
+                <>
+                  <div className="grid grid-cols-7 gap-2">
+                    {ASSUMPTION_FIELDS.map(f => (
+                      <div key={f.key}>
+                        <label className="block text-[10px] text-gray-500 mb-1 whitespace-nowrap">{f.label}</label>
+                        <NumberField
+                          value={model.dcf[f.key] as number}
+                          percent={f.percent}
+                          onChange={(v) => v !== null && updateDcf({ [f.key]: v })}
+                        />
+                      </div>
+                    ))}
+                  </div>
+
+                  <table className="w-full">
+                    <thead className="text-[10px] text-gray-600">
+                      <tr>
+                        <th className="text-left py-1 font-normal">{model.currency} {model.unit.toUpperCase()}</th>
+                        <th className="text-right px-2 py-1 font-normal">BASE</th>
+                        {Array.from({ length: DCF_YEARS }, (_, i) => <th key={i} className="text-right px-2 py-1 font-normal">Y{i + 1}</th>)}
+                      </tr>
+                    </thead>
+                    <tbody className="text-gray-300">
+                      <tr className="border-t border-gray-900">
+                        <td className="py-1 text-indigo-300">Revenue growth %</td>
+                        <td></td>
+                        {model.dcf.revenueGrowth.map((g, i) => (
+                          <td key={i} className="px-1 py-0.5">
+                            <NumberField value={g} percent onChange={(v) => updatePath('revenueGrowth', i, v)} />
+                          </td>
+                        ))}
+                      </tr>
+                      <tr className="border-t border-gray-900">
+                        <td className="py-1">Revenue</td>
+                        <td className="px-2 text-right text-gray-500">{money(model.dcf.baseRevenue)}</td>
+                        {dcf?.years.map(y => <td key={y.year} className="px-2 text-right">{money(y.revenue)}</td>)}
+                      </tr>
+                      <tr className="border-t border-gray-900">
+                        <td className="py-1 text-indigo-300">EBIT margin %</td>
+                        <td></td>
+                        {model.dcf.ebitMargin.map((m, i) => (
+                          <td key={i} className="px-1 py-0.5">
+                            <NumberField value={m} percent onChange={(v) => updatePath('ebitMargin', i, v)} />
+                          </td>
+                        ))}
+                      </tr>
+                      {dcf && ([
+                        ['EBIT', 'ebit'],
+                        ['NOPAT', 'nopat'],
+                        ['+ D&A', 'da'],
+                        ['- Capex', 'capex'],
+                        ['- Δ NWC', 'nwcChange'],
+                        ['Free cash flow', 'fcf'],
+                        ['Present value', 'presentValue'],
+                      ] as const).map(([label, key]) => (
+                        <tr key={key} className={`border-t border-gray-900 ${key === 'fcf' ? 'text-white font-bold' : ''}`}>
+                          <td className="py-1">{label}</td>
+                          <td></td>
+                          {dcf.years.map(y => <td key={y.year} className="px-2 text-right">{money(y[key])}</td>)}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+
+                  {dcf ? (
+                    <div className="grid grid-cols-5 gap-3">
+                      {[
+                        ['COST OF EQUITY', pct(dcf.costOfEquity)],
+                        ['WACC', pct(dcf.wacc)],
+                        ['PV OF FCF', money(dcf.sumPresentValue)],
+                        ['PV OF TERMINAL', `${money(dcf.presentTerminalValue)} (${pct(dcf.enterpriseValue ? dcf.presentTerminalValue / dcf.enterpriseValue : null)} of EV)`],
+                        ['TERMINAL VALUE', money(dcf.terminalValue)],
+                        ['ENTERPRISE VALUE', money(dcf.enterpriseValue)],
+                        ['NET DEBT', money(model.dcf.netDebt)],
+                        ['EQUITY VALUE', money(dcf.equityValue)],
+                        ['PER SHARE', dcf.perShare === null ? '--' : `${model.currency} ${dcf.perShare.toFixed(2)}`],
+                      ].map(([label, value]) => (
+                        <div key={label} className="border border-gray-800 p-2">
+                          <div className="text-[10px] text-gray-500">{label}</div>
+                          <div className={`mt-1 ${label === 'PER SHARE' || label === 'EQUITY VALUE' ? 'text-white text-sm' : 'text-gray-300'}`}>{value}</div>
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <div className="border border-red-900 bg-red-900/10 p-3 text-red-400">WACC must exceed terminal growth for a Gordon growth terminal value.</div>
+                  )}
+
+                  {grid && (
+                    <div>
+                      <h4 className="text-[10px] font-bold text-gray-500 mb-2">
+                        SENSITIVITY · {grid.metric === 'perShare' ? 'VALUE PER SHARE' : 'EQUITY VALUE'} · WACC (ROWS) × TERMINAL GROWTH (COLUMNS)
+                      </h4>
+                      <table>
+                        <thead className="text-[10px] text-gray-600">
+                          <tr>
+                            <th className="px-3 py-1 font-normal"></th>
+                            {grid.growths.map(g => <th key={g} className="px-3 py-1 font-normal text-right">{pct(g)}</th>)}
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {grid.waccs.map((w, wi) => (
+                            <tr key={w} className="border-t border-gray-900">
+                              <td className="px-3 py-1 text-gray-500">{pct(w)}</td>
+                              {grid.values[wi].map((v, gi) => (
+                                <td
+                                  key={gi}
+                                  className={`px-3 py-1 text-right ${wi === baseIndex && gi === baseIndex ? 'bg-indigo-900/40 text-white' : 'text-gray-300'}`}
+                                >
+                                  {v === null ? 'n/m' : grid.metric === 'perShare' ? v.toFixed(2) : money(v)}
+                                </td>
+                              ))}
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </>
+              ) : (
+                <>
+                  <div>
+                    <h4 className="text-[10px] font-bold text-gray-500 mb-2">TARGET (TRAILING, {model.currency} {model.unit.toUpperCase()})</h4>
+                    <div className="grid grid-cols-3 gap-2 max-w-xl">
+                      {(['revenue', 'ebitda', 'netIncome'] as const).map(key => (
+                        <div key={key}>
+                          <label className="block text-[10px] text-gray-500 mb-1">{key === 'netIncome' ? 'NET INCOME' : key.toUpperCase()}</label>
+                          <NumberField value={model.target[key]} onChange={(v) => update({ target: { ...model.target, [key]: v } })} />
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+
+                  <div>
+                    <div className="flex justify-between items-center mb-2">
+                      <h4 className="text-[10px] font-bold text-gray-500">PEERS</h4>
+                      <button
+                        onClick={() => update({
+                          peers: [...model.peers, { id: createPeerId(), name: `Peer ${model.peers.length + 1}`, price: null, sharesOutstanding: null, netDebt: null, revenue: null, ebitda: null, netIncome: null }],
+                        })}
+                        className="text-[10px] text-gray-400 border border-gray-700 px-2 py-0.5 hover:text-white"
+                      >
+                        + ADD PEER
+                      </button>
+                    </div>
+                    <table className="w-full">
+                      <thead className="text-[10px] text-gray-600">
+                        <tr>
+                          <th className="text-left py-1 font-normal">NAME</th>
+                          {PEER_FIELDS.map(f => <th key={f.key} className="text-right px-1 py-1 font-normal">{f.label}</th>)}
+                          <th className="text-right px-2 py-1 font-normal">MKT CAP</th>
+                          <th className="text-right px-2 py-1 font-normal">EV</th>
+                          {COMP_MULTIPLES.map(m => <th key={m.id} className="text-right px-2 py-1 font-normal">{m.label}</th>)}
+                          <th className="w-6"></th>
+                        </tr>
+                      </thead>
+                      <tbody className="text-gray-300">
+                        {model.peers.map(peer => {
+                          const m = peerMultiples(peer);
+                          return (
+                            <tr key={peer.id} className="border-t border-gray-900">
+                              <td className="py-0.5 pr-1">
+                                <input type="text" value={peer.name} onChange={(e) => updatePeer(peer.id, { name: e.target.value })} className={inputClass} />
+                              </td>
+                              {PEER_FIELDS.map(f => (
+                                <td key={f.key} className="px-1 py-0.5 w-24">
+                                  <NumberField value={peer[f.key]} onChange={(v) => updatePeer(peer.id, { [f.key]: v })} />
+                                </td>
+                              ))}
+                              <td className="px-2 text-right">{money(m.marketCap)}</td>
+                              <td className="px-2 text-right">{money(m.enterpriseValue)}</td>
+                              {COMP_MULTIPLES.map(c => <td key={c.id} className="px-2 text-right text-white">{times(m[c.id])}</td>)}
+                              <td className="text-center">
+                                <button
+                                  onClick={() => update({ peers: model.peers.filter(p => p.id !== peer.id) })}
+                                  className="text-gray-600 hover:text-red-500"
+                                  title={`Remove ${peer.name}`}
+                                >
+                                  ×
+                                </button>
+                              </td>
+                            </tr>
+                          );
+                        })}
+                        {summary && model.peers.length > 0 && (['median', 'mean'] as const).map(stat => (
+                          <tr key={stat} className="border-t border-gray-800 text-gray-500">
+                            <td className="py-1 uppercase" colSpan={PEER_FIELDS.length + 3}>{stat}</td>
+                            {COMP_MULTIPLES.map(c => <td key={c.id} className="px-2 text-right text-indigo-300">{times(summary[c.id][stat])}</td>)}
+                            <td></td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                    {model.peers.length === 0 && <div className="text-gray-600 mt-2">Add peers with price, shares and trailing financials.</div>}
+                  </div>
+
+                  <div>
+                    <h4 className="text-[10px] font-bold text-gray-500 mb-2">IMPLIED VALUE AT PEER MEDIANS</h4>
+                    <table className="w-full max-w-3xl">
+                      <thead className="text-[10px] text-gray-600">
+                        <tr>
+                          {['METHOD', 'MULTIPLE', 'ENTERPRISE VALUE', 'EQUITY VALUE', 'PER SHARE'].map(h => (
+                            <th key={h} className={`py-1 font-normal ${h === 'METHOD' ? 'text-left' : 'text-right px-2'}`}>{h}</th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody className="text-gray-300">
+                        {implied.map(row => (
+                          <tr key={row.id} className="border-t border-gray-900">
+                            <td className="py-1">{COMP_MULTIPLES.find(c => c.id === row.id)?.label}</td>
+                            <td className="px-2 text-right">{times(row.multiple)}</td>
+                            <td className="px-2 text-right">{money(row.enterpriseValue)}</td>
+                            <td className="px-2 text-right">{money(row.equityValue)}</td>
+                            <td className="px-2 text-right text-white">{row.perShare === null ? '--' : row.perShare.toFixed(2)}</td>
+                          </tr>
+                        ))}
+                        <tr className="border-t border-gray-800 text-indigo-300">
+                          <td className="py-1">DCF</td>
+                          <td className="px-2 text-right">{dcf ? `${pct(dcf.wacc)} WACC` : '--'}</td>
+                          <td className="px-2 text-right">{money(dcf?.enterpriseValue ?? null)}</td>
+                          <td className="px-2 text-right">{money(dcf?.equityValue ?? null)}</td>
+                          <td className="px-2 text-right">{dcf?.perShare == null ? '--' : dcf.perShare.toFixed(2)}</td>
+                        </tr>
+                      </tbody>
+                    </table>
+                  </div>
+                </>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ValuationView;
@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { WatchlistQuote } from '../types';
+
+interface WatchlistProps {
+  symbols: string[];
+  quotes: Record<string, WatchlistQuote | undefined>;
+  selected: string;
+  onSelect: (symbol: string) => void;
+  onAdd: (symbol: string) => void;
+  onRemove: (symbol: string) => void;
+}
+
+const formatVolume = (v: number) =>
+  v >= 1e6 ? `${(v / 1e6).toFixed(1)}M` : v >= 1e3 ? `${(v / 1e3).toFixed(1)}K` : String(v);
+
+const Watchlist: React.FC<WatchlistProps> = ({ symbols, quotes, selected, onSelect, onAdd, onRemove }) => {
+  const [ticker, setTicker] = useState('');
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    const symbol = ticker.trim().toUpperCase();
+    if (!symbol) return;
+    onAdd(symbol);
+    setTicker('');
+  };
+
+  return (
+    <div className="bg-[#0c0c0c] border border-gray-800 flex flex-col h-full min-h-0">
+      <div className="bg-[#151515] px-4 py-2 border-b border-gray-800 flex justify-between items-center">
+        <h3 className="text-xs font-bold text-gray-400">WATCHLIST</h3>
+        <form onSubmit={handleAdd} className="flex items-center space-x-1">
+          <input
+            type="text"
+            value={ticker}
+            onChange={(e) => setTicker(e.target.value)}
+            className="w-20 bg-black border border-gray-700 text-white px-2 py-0.5 text-[10px] focus:border-blue-500 focus:outline-none font-mono uppercase"
+            placeholder="TICKER"
+          />
+          <button type="submit" className="text-[10px] font-mono text-gray-400 border border-gray-700 px-2 py-0.5 hover:text-white hover:border-gray-500">
+            ADD
+          </button>
+        </form>
+      </div>
+      <div className="flex-1 overflow-y-auto font-mono text-xs">
+        <table className="w-full">
+          <thead className="text-[10px] text-gray-600">
+            <tr>
+              <th className="text-left px-4 py-1 font-normal">SYM</th>
+              <th className="text-right px-2 py-1 font-normal">LAST</th>
+              <th className="text-right px-2 py-1 font-normal">CHG</th>
+              <th className="text-right px-2 py-1 font-normal">VOL</th>
+              <th className="w-6"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {symbols.map(symbol => {
+              const q = quotes[symbol];
+              const up = (q?.changePct ?? 0) >= 0;
+              return (
+                <tr
+                  key={symbol}
+                  onClick={() => onSelect(symbol)}
+                  className={`cursor-pointer border-t border-gray-900 ${
+                    selected === symbol ? 'bg-[#1e293b] text-white' : 'text-gray-400 hover:bg-[#111827]'
+                  }`}
+                >
+                  <td className="px-4 py-1.5 font-bold">{symbol}</td>
+                  <td className="text-right px-2">{q ? q.last.toFixed(2) : '--'}</td>
+                  <td className={`text-right px-2 ${up ? 'text-green-500' : 'text-red-500'}`}>
+                    {q ? `${up ? '+' : ''}${q.changePct.toFixed(2)}%` : 'N/A'}
+                  </td>
+                  <td className="text-right px-2 text-gray-500">{q ? formatVolume(q.volume) : '--'}</td>
+                  <td className="text-center">
+                    <button
+                      onClick={(e) => { e.stopPropagation(); onRemove(symbol); }}
+                      className="text-gray-600 hover:text-red-500"
+                      title={`Remove ${symbol}`}
+                    >
+                      ×
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        {symbols.length === 0 && (
+          <div className="px-4 py-6 text-center text-gray-600">No tickers. Add one above.</div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Watchlist;
@@ -0,0 +1,133 @@
+import { useEffect, useRef, useState } from 'react';
+import { AlertEvent, AlertRule, BarInterval, LogEntry, MarketDataProvider, NewsItem, OHLCBar, PipelineDeal } from '../types';
+import {
+  ALERT_POLL_MS,
+  AlertTrigger,
+  MAX_ALERT_EVENTS,
+  alertSymbols,
+  evaluateDealAlerts,
+  evaluateMarketAlerts,
+  evaluateNewsAlerts,
+  isMarketCondition,
+  markTriggered,
+  requestNotificationPermission,
+  showNotification,
+  triggersToEvents,
+} from '../services/alertService';
+import { loadState, saveState } from '../services/storageService';
+
+interface AlertSources {
+  marketProvider: MarketDataProvider;
+  interval: BarInterval;
+  news: NewsItem[];
+  deals: PipelineDeal[];
+  onLog: (message: string, level?: LogEntry['level']) => void;
+}
+
+// Owns the alert rules and history; evaluates market rules on a poll and news/deal rules as their data changes
+export const useAlerts = ({ marketProvider, interval, news, deals, onLog }: AlertSources) => {
+  const [rules, setRules] = useState<AlertRule[]>(() => loadState<AlertRule[]>('alertRules', []));
+  const [events, setEvents] = useState<AlertEvent[]>(() => loadState<AlertEvent[]>('alertEvents', []));
+  const [notifications, setNotificationsState] = useState<boolean>(() => loadState('alertNotifications', false));
+  const rulesRef = useRef(rules);
+  const notificationsRef = useRef(notifications);
+  const onLogRef = useRef(onLog);
+  // Baselines for diffing; null until the first snapshot so existing data doesn't fire on load
+  const seenNewsRef = useRef<Set<string> | null>(null);
+  const prevDealsRef = useRef<PipelineDeal[] | null>(null);
+
+  rulesRef.current = rules;
+  notificationsRef.current = notifications;
+  onLogRef.current = onLog;
+
+  useEffect(() => {
+    saveState('alertRules', rules);
+  }, [rules]);
+
+  useEffect(() => {
+    saveState('alertEvents', events);
+  }, [events]);
+
+  useEffect(() => {
+    saveState('alertNotifications', notifications);
+  }, [notifications]);
+
+  const fire = (triggers: AlertTrigger[]) => {
+    if (triggers.length === 0) return;
+    const now = Date.now();
+    const fired = triggersToEvents(triggers, now);
+    setRules(prev => markTriggered(prev, triggers, now));
+    setEvents(prev => [...fired, ...prev].slice(0, MAX_ALERT_EVENTS));
+    fired.filter(e => !e.muted).forEach(event => {
+      onLogRef.current(`ALERT ${event.message}`, event.level);
+      if (notificationsRef.current) showNotification(event);
+    });
+  };
+
+  // Re-evaluated when a market rule is added or edited, not when one fires
+  const marketKey = rules
+    .filter(r => isMarketCondition(r.condition))
+    .map(r => `${r.id}:${JSON.stringify(r.condition)}`)
+    .join('|');
+
+  useEffect(() => {
+    const symbols = alertSymbols(rulesRef.current);
+    if (symbols.length === 0) return;
+    let cancelled = false;
+    const poll = async () => {
+      const candles: Record<string, OHLCBar[]> = {};
+      await Promise.all(symbols.map(symbol =>
+        marketProvider.getCandles(symbol, interval)
+          .then(c => { candles[symbol] = c; })
+          .catch(error => console.error(`Alert market data error (${symbol}):`, error))
+      ));
+      if (!cancelled) fire(evaluateMarketAlerts(rulesRef.current, candles));
+    };
+    poll();
+    const timer = setInterval(poll, ALERT_POLL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [marketProvider, interval, marketKey]);
+
+  useEffect(() => {
+    const seen = seenNewsRef.current;
+    if (!seen) {
+      seenNewsRef.current = new Set(news.map(i => i.id));
+      return;
+    }
+    // Ids are only ever added, so headlines re-fetched after the list is cleared don't fire again
+    const fresh = news.filter(i => !seen.has(i.id));
+    fresh.forEach(i => seen.add(i.id));
+    fire(evaluateNewsAlerts(rulesRef.current, fresh));
+  }, [news]);
+
+  useEffect(() => {
+    const previous = prevDealsRef.current;
+    prevDealsRef.current = deals;
+    if (!previous) return;
+    fire(evaluateDealAlerts(rulesRef.current, previous, deals));
+  }, [deals]);
+
+  const addRule = (rule: AlertRule) => setRules(prev => [...prev, rule]);
+
+  const updateRule = (id: string, changes: Partial<Omit<AlertRule, 'id' | 'createdAt'>>) =>
+    setRules(prev => prev.map(r => (r.id === id ? { ...r, ...changes } : r)));
+
+  const removeRule = (id: string) => setRules(prev => prev.filter(r => r.id !== id));
+
+  const clearEvents = () => setEvents([]);
+
+  const setNotifications = async (enabled: boolean) => {
+    if (!enabled) {
+      setNotificationsState(false);
+      return;
+    }
+    const permission = await requestNotificationPermission();
+    setNotificationsState(permission === 'granted');
+    if (permission !== 'granted') onLogRef.current(`Browser notifications unavailable (${permission})`, 'WARN');
+  };
+
+  return { rules, events, notifications, addRule, updateRule, removeRule, clearEvents, setNotifications };
+};
@@ -0,0 +1,60 @@
+import { useRef, useState } from 'react';
+import { StreamHandlers, StreamOutcome, StreamState } from '../types';
+
+const IDLE: StreamState = { status: 'idle', text: '', startedAt: null, finishedAt: null };
+
+// Owns one in-flight streaming request per module: starting a new run aborts the previous one
+export const useModelStream = () => {
+  const [state, setState] = useState<StreamState>(IDLE);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const run = async (
+    task: (handlers: StreamHandlers) => Promise<StreamOutcome>,
+    onRetry?: StreamHandlers['onRetry']
+  ): Promise<StreamOutcome> => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setState({ status: 'streaming', text: '', startedAt: Date.now(), finishedAt: null });
+
+    const outcome = await task({
+      signal: controller.signal,
+      onText: (_, fullText) => {
+        if (controllerRef.current === controller) setState(prev => ({ ...prev, text: fullText, retry: undefined }));
+      },
+      onUsage: (usage) => {
+        if (controllerRef.current === controller) setState(prev => ({ ...prev, usage }));
+      },
+      onRetry: (error, attempt, delayMs) => {
+        if (controllerRef.current !== controller) return;
+        setState(prev => ({ ...prev, retry: { attempt, delayMs, error } }));
+        onRetry?.(error, attempt, delayMs);
+      },
+    });
+
+    if (controllerRef.current === controller) {
+      controllerRef.current = null;
+      setState(prev => ({
+        ...prev,
+        status: outcome.status,
+        text: outcome.text,
+        usage: outcome.usage ?? prev.usage,
+        error: outcome.error,
+        retry: undefined,
+        finishedAt: Date.now(),
+      }));
+    }
+    return outcome;
+  };
+
+  const cancel = () => controllerRef.current?.abort();
+
+  // Drops any in-flight run and clears its text, e.g. when a stored result is re-opened
+  const reset = () => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setState(IDLE);
+  };
+
+  return { state, run, cancel, reset, streaming: state.status === 'streaming' };
+};
@@ -0,0 +1,121 @@
+import { useEffect, useRef, useState } from 'react';
+import { NewsItem, NewsSettings, ServiceError } from '../types';
+import { fetchFeeds, loadNewsFile, mergeNews } from '../services/newsService';
+import { tagNewsItems } from '../services/geminiService';
+import { loadState, saveState } from '../services/storageService';
+
+const TAG_BATCH = 20;
+
+interface NewsFeedCallbacks {
+  onLog: (message: string, level?: 'INFO' | 'WARN' | 'CRIT') => void;
+  onError: (prefix: string, error: ServiceError) => void;
+}
+
+// Polls the configured feeds, keeps a deduped and persisted item list, and tags new items with the model
+export const useNewsFeed = (settings: NewsSettings, callbacks: NewsFeedCallbacks) => {
+  const [items, setItems] = useState<NewsItem[]>(() => loadState<NewsItem[]>('newsItems', []));
+  const [refreshing, setRefreshing] = useState(false);
+  const [lastRefresh, setLastRefresh] = useState<number | null>(null);
+  const itemsRef = useRef(items);
+  const settingsRef = useRef(settings);
+  const callbacksRef = useRef(callbacks);
+  const controllerRef = useRef<AbortController | null>(null);
+  // Items are sent to the model at most once per session, even if it skips them
+  const attemptedRef = useRef(new Set<string>());
+  // Feeds whose last fetch failed; a feed is logged when it starts failing, not on every poll
+  const failingRef = useRef(new Set<string>());
+
+  settingsRef.current = settings;
+  callbacksRef.current = callbacks;
+
+  useEffect(() => {
+    itemsRef.current = items;
+    saveState('newsItems', items);
+  }, [items]);
+
+  const ingest = (incoming: NewsItem[]) => {
+    const merged = mergeNews(itemsRef.current, incoming);
+    itemsRef.current = merged;
+    setItems(merged);
+    return merged;
+  };
+
+  const tagPending = async (signal: AbortSignal) => {
+    const pending = itemsRef.current.filter(i => !i.tags && !attemptedRef.current.has(i.id));
+    for (let i = 0; i < pending.length && !signal.aborted; i += TAG_BATCH) {
+      const batch = pending.slice(i, i + TAG_BATCH);
+      batch.forEach(item => attemptedRef.current.add(item.id));
+      const result = await tagNewsItems(batch);
+      if (signal.aborted) return;
+      if (result.status === 'error') {
+        callbacksRef.current.onError('News Tagging Failed', result.error);
+        return;
+      }
+      const tags = result.data;
+      const tagged = itemsRef.current.map(item => (tags[item.id] ? { ...item, tags: tags[item.id] } : item));
+      itemsRef.current = tagged;
+      setItems(tagged);
+    }
+  };
+
+  const refresh = async () => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setRefreshing(true);
+
+    const { items: fetched, errors } = await fetchFeeds(settingsRef.current, controller.signal);
+    if (controller.signal.aborted) return;
+    errors
+      .filter(e => !failingRef.current.has(e.feed.id))
+      .forEach(e => callbacksRef.current.onLog(`News feed ${e.feed.name} unavailable: ${e.message}`, 'WARN'));
+    failingRef.current = new Set(errors.map(e => e.feed.id));
+    const before = itemsRef.current.length;
+    const merged = ingest(fetched);
+    setLastRefresh(Date.now());
+    const added = merged.length - before;
+    if (added > 0) callbacksRef.current.onLog(`News: ${added} new item${added === 1 ? '' : 's'}`, 'INFO');
+
+    await tagPending(controller.signal);
+    if (controllerRef.current === controller) {
+      controllerRef.current = null;
+      setRefreshing(false);
+    }
+  };
+
+  const importFile = async (file: File) => {
+    try {
+      const imported = await loadNewsFile(file);
+      ingest(imported);
+      callbacksRef.current.onLog(`News: imported ${imported.length} items from ${file.name}`, 'INFO');
+      const controller = new AbortController();
+      await tagPending(controller.signal);
+    } catch (error) {
+      console.error("News import error:", error);
+      callbacksRef.current.onLog(`News import failed (${file.name}): ${error instanceof Error ? error.message : String(error)}`, 'WARN');
+    }
+  };
+
+  const clear = () => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    attemptedRef.current.clear();
+    itemsRef.current = [];
+    setItems([]);
+    setRefreshing(false);
+  };
+
+  // Re-arms whenever the feed list or interval changes; the first pass runs immediately
+  useEffect(() => {
+    refresh();
+    const interval = setInterval(refresh, Math.max(1, settings.refreshMinutes) * 60000);
+    return () => {
+      clearInterval(interval);
+      controllerRef.current?.abort();
+      controllerRef.current = null;
+      setRefreshing(false);
+    };
+  }, [settings]);
+
+  return { items, refreshing, lastRefresh, refresh, importFile, clear };
+};
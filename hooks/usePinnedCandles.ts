@@ -0,0 +1,28 @@
+import { useEffect, useState } from 'react';
+import { BarInterval, MarketDataProvider, OHLCBar } from '../types';
+
+// Candles for symbols pinned by unlinked layout panes; a symbol is absent from the map while it loads
+export const usePinnedCandles = (provider: MarketDataProvider, symbols: string[], interval: BarInterval) => {
+  const [candles, setCandles] = useState<Record<string, OHLCBar[]>>({});
+  // Stable dependency for the effect; callers rebuild the array every render
+  const key = Array.from(new Set(symbols)).sort().join(',');
+
+  useEffect(() => {
+    setCandles({});
+    if (!key) return;
+    let cancelled = false;
+    key.split(',').forEach(symbol => {
+      provider.getCandles(symbol, interval)
+        .catch(error => {
+          console.error("Pinned market data error:", error);
+          return [] as OHLCBar[];
+        })
+        .then(bars => {
+          if (!cancelled) setCandles(prev => ({ ...prev, [symbol]: bars }));
+        });
+    });
+    return () => { cancelled = true; };
+  }, [provider, key, interval]);
+
+  return candles;
+};
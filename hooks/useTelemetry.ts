@@ -0,0 +1,40 @@
+import { useEffect, useRef, useState } from 'react';
+import { CallRecord } from '../types';
+import { getCallRecords, subscribeTelemetry } from '../services/telemetryService';
+
+interface TelemetryCallbacks {
+  onRecord?: (record: CallRecord) => void;
+  // Fired before an over-budget call is sent
+  onBudgetWarning?: (message: string) => void;
+}
+
+// Mirrors the telemetry store into React state and reports each call as it finishes
+export const useTelemetry = (callbacks: TelemetryCallbacks = {}) => {
+  const [records, setRecords] = useState<CallRecord[]>(getCallRecords);
+  const [online, setOnline] = useState(() => navigator.onLine);
+  const callbacksRef = useRef(callbacks);
+  callbacksRef.current = callbacks;
+
+  useEffect(() => {
+    let latest = getCallRecords()[0]?.id;
+    setRecords(getCallRecords());
+    return subscribeTelemetry((next, warning) => {
+      if (warning) callbacksRef.current.onBudgetWarning?.(warning);
+      setRecords(next);
+      if (next[0] && next[0].id !== latest) callbacksRef.current.onRecord?.(next[0]);
+      latest = next[0]?.id;
+    });
+  }, []);
+
+  useEffect(() => {
+    const update = () => setOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  return { records, online };
+};
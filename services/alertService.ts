@@ -0,0 +1,176 @@
+import { AlertCondition, AlertEvent, AlertKind, AlertRule, IndicatorPoint, NewsItem, OHLCBar, PipelineDeal } from "../types";
+import { computeIndicators } from "./indicatorService";
+import { evaluateRule } from "./backtestService";
+import { DEAL_STAGES } from "./dealPipelineService";
+
+export const ALERT_KINDS: { id: AlertKind; label: string }[] = [
+  { id: 'PRICE_CROSS', label: 'Price cross' },
+  { id: 'PERCENT_MOVE', label: '% move' },
+  { id: 'INDICATOR', label: 'Indicator threshold' },
+  { id: 'NEWS_KEYWORD', label: 'Headline keyword' },
+  { id: 'DEAL_STAGE', label: 'Deal stage change' },
+];
+
+export const MAX_ALERT_EVENTS = 200;
+// Market rules re-fetch their symbols on this cadence
+export const ALERT_POLL_MS = 60000;
+
+// A condition that held; turned into an AlertEvent once the rule is known to fire
+export interface AlertTrigger {
+  rule: AlertRule;
+  message: string;
+  key?: string;
+  url?: string;
+}
+
+type MarketCondition = Extract<AlertCondition, { symbol: string }>;
+
+const createId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const isMarketCondition = (c: AlertCondition): c is MarketCondition =>
+  c.kind === 'PRICE_CROSS' || c.kind === 'PERCENT_MOVE' || c.kind === 'INDICATOR';
+
+const stageLabel = (stage: string) => DEAL_STAGES.find(s => s.id === stage)?.label ?? stage;
+
+// 1. Rules
+export const describeCondition = (c: AlertCondition): string => {
+  switch (c.kind) {
+    case 'PRICE_CROSS':
+      return `${c.symbol} crosses ${c.direction} ${c.level}`;
+    case 'PERCENT_MOVE':
+      return `${c.symbol} moves ${c.direction === 'either' ? '±' : c.direction === 'up' ? '+' : '-'}${c.percent}%`;
+    case 'INDICATOR':
+      return `${c.symbol} ${c.field} ${c.comparator} ${c.value}`;
+    case 'NEWS_KEYWORD':
+      return `Headline mentions ${c.keywords.join(', ')}`;
+    case 'DEAL_STAGE':
+      return `${c.company || 'Any deal'} moves to ${c.stage ? stageLabel(c.stage) : 'any stage'}`;
+  }
+};
+
+export const createAlertRule = (condition: AlertCondition, name: string, level: AlertRule['level']): AlertRule => ({
+  id: createId(),
+  name: name.trim() || describeCondition(condition),
+  condition,
+  level,
+  muted: false,
+  createdAt: Date.now(),
+});
+
+export const alertSymbols = (rules: AlertRule[]): string[] =>
+  Array.from(new Set(rules.flatMap(r => (isMarketCondition(r.condition) ? [r.condition.symbol] : []))));
+
+// 2. Market conditions
+const holdsAt = (c: MarketCondition, points: IndicatorPoint[], i: number): boolean => {
+  if (i < 0) return false;
+  const point = points[i];
+  switch (c.kind) {
+    case 'PRICE_CROSS':
+      return c.direction === 'above' ? point.close > c.level : point.close < c.level;
+    case 'PERCENT_MOVE': {
+      // Bar-over-bar, so the rule means the same whatever history length the provider returns
+      if (i < 1) return false;
+      const base = points[i - 1].close;
+      if (base === 0) return false;
+      const pct = ((point.close - base) / base) * 100;
+      return c.direction === 'up' ? pct >= c.percent : c.direction === 'down' ? pct <= -c.percent : Math.abs(pct) >= c.percent;
+    }
+    case 'INDICATOR':
+      return evaluateRule({ left: c.field, comparator: c.comparator, right: c.value }, points[i - 1], point);
+  }
+};
+
+const marketDetail = (c: MarketCondition, point: IndicatorPoint, previous: IndicatorPoint): string => {
+  switch (c.kind) {
+    case 'PERCENT_MOVE':
+      return `${c.symbol} ${(((point.close - previous.close) / previous.close) * 100).toFixed(2)}% at ${point.close}`;
+    case 'INDICATOR':
+      return `${c.symbol} ${c.field} ${point[c.field]} (${c.comparator} ${c.value})`;
+    default:
+      return `${c.symbol} at ${point.close}`;
+  }
+};
+
+// Fires when the condition holds on the latest bar but not on the one before; each bar fires at most once
+export const evaluateMarketAlerts = (rules: AlertRule[], candlesBySymbol: Record<string, OHLCBar[]>): AlertTrigger[] => {
+  const points: Record<string, IndicatorPoint[]> = {};
+  return rules.flatMap(rule => {
+    const c = rule.condition;
+    if (!isMarketCondition(c)) return [];
+    const candles = candlesBySymbol[c.symbol];
+    if (!candles?.length) return [];
+    const series = points[c.symbol] ??= computeIndicators(candles);
+    const last = series.length - 1;
+    const key = `${c.symbol}:${series[last].time}`;
+    if (rule.lastTriggerKey === key || !holdsAt(c, series, last) || holdsAt(c, series, last - 1)) return [];
+    return [{ rule, key, message: marketDetail(c, series[last], series[last - 1]) }];
+  });
+};
+
+// 3. Event conditions
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const keywordPattern = (keywords: string[]) =>
+  new RegExp(`(^|[^a-z0-9])(${keywords.map(escapeRegExp).join('|')})($|[^a-z0-9])`, 'i');
+
+// `items` should only hold headlines that arrived since the last evaluation
+export const evaluateNewsAlerts = (rules: AlertRule[], items: NewsItem[]): AlertTrigger[] =>
+  rules.flatMap(rule => {
+    const c = rule.condition;
+    if (c.kind !== 'NEWS_KEYWORD' || c.keywords.length === 0) return [];
+    const pattern = keywordPattern(c.keywords);
+    return items
+      .filter(item => pattern.test(`${item.title} ${item.summary}`))
+      .map(item => ({ rule, message: `${item.title} (${item.source})`, url: item.url || undefined }));
+  });
+
+export const evaluateDealAlerts = (rules: AlertRule[], previous: PipelineDeal[], next: PipelineDeal[]): AlertTrigger[] => {
+  const before = new Map(previous.map(d => [d.id, d.pipelineStage]));
+  const moved = next.filter(d => before.has(d.id) && before.get(d.id) !== d.pipelineStage);
+  return rules.flatMap(rule => {
+    const c = rule.condition;
+    if (c.kind !== 'DEAL_STAGE') return [];
+    const company = c.company.trim().toLowerCase();
+    return moved
+      .filter(d => (!c.stage || d.pipelineStage === c.stage) && (!company || d.candidate.name.toLowerCase().includes(company)))
+      .map(d => ({ rule, message: `${d.candidate.name}: ${stageLabel(before.get(d.id)!)} -> ${stageLabel(d.pipelineStage)}` }));
+  });
+};
+
+// 4. Dispatch
+export const triggersToEvents = (triggers: AlertTrigger[], now = Date.now()): AlertEvent[] =>
+  triggers.map(t => ({
+    id: createId(),
+    ruleId: t.rule.id,
+    ruleName: t.rule.name,
+    level: t.rule.level,
+    message: `${t.rule.name}: ${t.message}`,
+    triggeredAt: now,
+    muted: t.rule.muted,
+    url: t.url,
+  }));
+
+export const markTriggered = (rules: AlertRule[], triggers: AlertTrigger[], now = Date.now()): AlertRule[] =>
+  rules.map(rule => {
+    const fired = triggers.filter(t => t.rule.id === rule.id);
+    if (fired.length === 0) return rule;
+    const key = fired.find(t => t.key)?.key;
+    return { ...rule, lastTriggeredAt: now, ...(key ? { lastTriggerKey: key } : {}) };
+  });
+
+export const notificationsSupported = () => typeof window !== 'undefined' && 'Notification' in window;
+
+export const requestNotificationPermission = async (): Promise<NotificationPermission> => {
+  if (!notificationsSupported()) return 'denied';
+  return Notification.permission === 'default' ? Notification.requestPermission() : Notification.permission;
+};
+
+export const showNotification = (event: AlertEvent) => {
+  if (!notificationsSupported() || Notification.permission !== 'granted') return;
+  try {
+    const notification = new Notification(`QuantCore ${event.level}`, { body: event.message, tag: event.ruleId });
+    if (event.url) notification.onclick = () => window.open(event.url, '_blank', 'noopener');
+  } catch (error) {
+    console.error("Notification error:", error);
+  }
+};
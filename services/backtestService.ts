@@ -0,0 +1,198 @@
+import {
+  BacktestResult,
+  BacktestTrade,
+  BarInterval,
+  EquityPoint,
+  IndicatorPoint,
+  OHLCBar,
+  StrategyDefinition,
+  StrategyRule
+} from "../types";
+import { computeIndicators } from "./indicatorService";
+
+// Bars per year used to annualise Sharpe/Sortino (6.5h equity session, 252 days)
+const PERIODS_PER_YEAR: Record<BarInterval, number> = {
+  '1m': 252 * 390,
+  '5m': 252 * 78,
+  '15m': 252 * 26,
+  '1h': 252 * 6.5,
+  '1d': 252,
+};
+
+// Preset strategies offered in the Backtest view
+export const STRATEGY_PRESETS: StrategyDefinition[] = [
+  {
+    name: 'EMA/SMA Trend Cross',
+    entryRules: [{ left: 'ema', comparator: 'crossesAbove', right: 'sma' }],
+    exitRules: [{ left: 'ema', comparator: 'crossesBelow', right: 'sma' }],
+    sizing: { mode: 'percentEquity', value: 100 },
+    initialCapital: 100000,
+    commissionBps: 2,
+    slippageBps: 1,
+  },
+  {
+    name: 'RSI Mean Reversion',
+    entryRules: [{ left: 'rsi', comparator: 'crossesBelow', right: 30 }],
+    exitRules: [{ left: 'rsi', comparator: 'crossesAbove', right: 55 }],
+    sizing: { mode: 'percentEquity', value: 50 },
+    initialCapital: 100000,
+    commissionBps: 2,
+    slippageBps: 1,
+  },
+  {
+    name: 'Bollinger Breakout',
+    entryRules: [
+      { left: 'close', comparator: 'crossesAbove', right: 'bbUpper' },
+      { left: 'macdHist', comparator: '>', right: 0 },
+    ],
+    exitRules: [{ left: 'close', comparator: 'crossesBelow', right: 'bbMiddle' }],
+    sizing: { mode: 'percentEquity', value: 100 },
+    initialCapital: 100000,
+    commissionBps: 2,
+    slippageBps: 2,
+  },
+];
+
+const operand = (point: IndicatorPoint, side: StrategyRule['right']): number | null =>
+  typeof side === 'number' ? side : point[side];
+
+export const evaluateRule = (rule: StrategyRule, prev: IndicatorPoint | undefined, curr: IndicatorPoint): boolean => {
+  const left = operand(curr, rule.left);
+  const right = operand(curr, rule.right);
+  if (left === null || right === null) return false;
+  switch (rule.comparator) {
+    case '>':
+      return left > right;
+    case '<':
+      return left < right;
+    case 'crossesAbove':
+    case 'crossesBelow': {
+      if (!prev) return false;
+      const prevLeft = operand(prev, rule.left);
+      const prevRight = operand(prev, rule.right);
+      if (prevLeft === null || prevRight === null) return false;
+      return rule.comparator === 'crossesAbove'
+        ? prevLeft <= prevRight && left > right
+        : prevLeft >= prevRight && left < right;
+    }
+  }
+};
+
+const mean = (xs: number[]) => (xs.length ? xs.reduce((a, b) => a + b, 0) / xs.length : 0);
+
+const stdDev = (xs: number[]) => {
+  if (xs.length < 2) return 0;
+  const m = mean(xs);
+  return Math.sqrt(xs.reduce((acc, x) => acc + (x - m) ** 2, 0) / (xs.length - 1));
+};
+
+// Signals are evaluated on a bar's close and filled at the next bar's open to avoid look-ahead
+export const runBacktest = (
+  candles: OHLCBar[],
+  strategy: StrategyDefinition,
+  interval: BarInterval
+): BacktestResult => {
+  if (candles.length < 2) throw new Error('Backtest needs at least two bars');
+  if (strategy.entryRules.length === 0) throw new Error('Strategy needs at least one entry rule');
+
+  const points = computeIndicators(candles);
+  const slip = strategy.slippageBps / 10000;
+  const commissionRate = strategy.commissionBps / 10000;
+
+  let cash = strategy.initialCapital;
+  let quantity = 0;
+  let entry: { time: string; price: number; index: number; cost: number } | null = null;
+  let pending: 'BUY' | 'SELL' | null = null;
+  let tradedNotional = 0;
+  let peak = strategy.initialCapital;
+
+  const trades: BacktestTrade[] = [];
+  const equityCurve: EquityPoint[] = [];
+
+  const closePosition = (time: string, rawPrice: number, index: number) => {
+    if (!entry) return;
+    const price = rawPrice * (1 - slip);
+    const notional = price * quantity;
+    const commission = notional * commissionRate;
+    cash += notional - commission;
+    tradedNotional += notional;
+    const pnl = notional - commission - entry.cost;
+    trades.push({
+      entryTime: entry.time,
+      exitTime: time,
+      entryPrice: entry.price,
+      exitPrice: price,
+      quantity,
+      pnl,
+      returnPct: (pnl / entry.cost) * 100,
+      bars: index - entry.index,
+    });
+    quantity = 0;
+    entry = null;
+  };
+
+  for (let i = 0; i < points.length; i++) {
+    const bar = points[i];
+
+    if (pending === 'BUY' && !entry) {
+      const price = bar.open * (1 + slip);
+      const equity = cash;
+      const qty = strategy.sizing.mode === 'percentEquity'
+        ? (equity * Math.min(strategy.sizing.value, 100) / 100) / (price * (1 + commissionRate))
+        : strategy.sizing.value;
+      const notional = price * qty;
+      const commission = notional * commissionRate;
+      if (qty > 0 && notional + commission <= cash) {
+        cash -= notional + commission;
+        quantity = qty;
+        tradedNotional += notional;
+        entry = { time: bar.time, price, index: i, cost: notional + commission };
+      }
+    } else if (pending === 'SELL' && entry) {
+      closePosition(bar.time, bar.open, i);
+    }
+    pending = null;
+
+    const equity = cash + quantity * bar.close;
+    peak = Math.max(peak, equity);
+    equityCurve.push({ time: bar.time, equity, drawdown: peak > 0 ? ((equity - peak) / peak) * 100 : 0 });
+
+    const prev = points[i - 1];
+    if (!entry && strategy.entryRules.every(r => evaluateRule(r, prev, bar))) {
+      pending = 'BUY';
+    } else if (entry && strategy.exitRules.some(r => evaluateRule(r, prev, bar))) {
+      pending = 'SELL';
+    }
+  }
+
+  // Mark any open position out at the final close
+  const last = points[points.length - 1];
+  if (entry) {
+    closePosition(last.time, last.close, points.length - 1);
+    const final = equityCurve[equityCurve.length - 1];
+    final.equity = cash;
+    peak = Math.max(peak, cash);
+    final.drawdown = peak > 0 ? ((cash - peak) / peak) * 100 : 0;
+  }
+
+  const returns = equityCurve.slice(1).map((p, i) => p.equity / equityCurve[i].equity - 1);
+  const annualisation = Math.sqrt(PERIODS_PER_YEAR[interval]);
+  const sd = stdDev(returns);
+  const downside = Math.sqrt(mean(returns.map(r => Math.min(r, 0) ** 2)));
+  const avgEquity = mean(equityCurve.map(p => p.equity));
+  const finalEquity = equityCurve[equityCurve.length - 1].equity;
+
+  return {
+    equityCurve,
+    trades,
+    metrics: {
+      totalReturn: (finalEquity / strategy.initialCapital - 1) * 100,
+      sharpe: sd > 0 ? (mean(returns) / sd) * annualisation : 0,
+      sortino: downside > 0 ? (mean(returns) / downside) * annualisation : 0,
+      maxDrawdown: Math.min(0, ...equityCurve.map(p => p.drawdown)),
+      winRate: trades.length ? (trades.filter(t => t.pnl > 0).length / trades.length) * 100 : 0,
+      turnover: avgEquity > 0 ? tradedNotional / avgEquity : 0,
+      tradeCount: trades.length,
+    },
+  };
+};
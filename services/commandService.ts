@@ -0,0 +1,149 @@
+import { CommandAction, ModuleType } from "../types";
+
+export interface CommandSpec {
+  verb: string;
+  aliases: string[];
+  usage: string;
+  description: string;
+  // null when the arguments don't fit `usage`
+  build: (args: string) => CommandAction | null;
+}
+
+export interface CommandSuggestion {
+  // Text placed in the command line when the suggestion is accepted
+  value: string;
+  label: string;
+  hint: string;
+}
+
+export type ParsedCommand = { action: CommandAction } | { error: string };
+
+export const MAX_COMMAND_HISTORY = 50;
+const MAX_SUGGESTIONS = 8;
+
+// Sidebar order; Alt+1..9 jumps to the module at that position
+export const MODULE_HOTKEYS: ModuleType[] = [
+  ModuleType.DASHBOARD,
+  ModuleType.QUANT_PREDICT,
+  ModuleType.DEAL_FLOW,
+  ModuleType.RESOURCE_MAP,
+  ModuleType.DATA_LAB,
+  ModuleType.BACKTEST,
+  ModuleType.PORTFOLIO,
+  ModuleType.VALUATION,
+  ModuleType.SCENARIO,
+];
+
+const TICKER = /^\^?[A-Z0-9][A-Z0-9.=\-]{0,11}$/;
+
+export const isTicker = (token: string) => TICKER.test(token.toUpperCase());
+
+const moduleCommand = (module: ModuleType) => (): CommandAction => ({ kind: 'MODULE', module });
+
+const symbolOr = (module: ModuleType.DASHBOARD | ModuleType.BACKTEST) => (args: string): CommandAction | null => {
+  if (!args) return { kind: 'MODULE', module };
+  return isTicker(args) ? { kind: 'SYMBOL', symbol: args.toUpperCase(), module } : null;
+};
+
+export const COMMANDS: CommandSpec[] = [
+  { verb: 'DASH', aliases: ['MKT', 'GP'], usage: 'DASH [TICKER]', description: 'Market dashboard', build: symbolOr(ModuleType.DASHBOARD) },
+  {
+    verb: 'QUANT',
+    aliases: ['Q'],
+    usage: 'QUANT <question>',
+    description: 'Run the quant model',
+    build: (args) => (args ? { kind: 'QUANT', query: args } : { kind: 'MODULE', module: ModuleType.QUANT_PREDICT }),
+  },
+  {
+    verb: 'DEAL',
+    aliases: ['DEALS', 'PE'],
+    usage: 'DEAL <sector/region>',
+    description: 'Scan private deal flow',
+    build: (args) => (args ? { kind: 'DEAL', sector: args } : { kind: 'MODULE', module: ModuleType.DEAL_FLOW }),
+  },
+  {
+    verb: 'RES',
+    aliases: ['RESOURCE', 'MAP'],
+    usage: 'RES <commodity>',
+    description: 'Locate resource sites',
+    build: (args) => (args ? { kind: 'RESOURCE', resource: args } : { kind: 'MODULE', module: ModuleType.RESOURCE_MAP }),
+  },
+  { verb: 'LAB', aliases: ['DATA'], usage: 'LAB', description: 'Data lab', build: moduleCommand(ModuleType.DATA_LAB) },
+  { verb: 'BT', aliases: ['BACKTEST'], usage: 'BT [TICKER]', description: 'Backtester', build: symbolOr(ModuleType.BACKTEST) },
+  { verb: 'PORT', aliases: ['PRTU'], usage: 'PORT', description: 'Portfolio risk', build: moduleCommand(ModuleType.PORTFOLIO) },
+  { verb: 'VAL', aliases: ['DCF'], usage: 'VAL', description: 'Valuation', build: moduleCommand(ModuleType.VALUATION) },
+  { verb: 'SCEN', aliases: ['STRESS'], usage: 'SCEN', description: 'Scenario stress tests', build: moduleCommand(ModuleType.SCENARIO) },
+  {
+    verb: 'WATCH',
+    aliases: ['W'],
+    usage: 'WATCH <TICKER>',
+    description: 'Add to watchlist',
+    build: (args) => (isTicker(args) ? { kind: 'WATCH', symbol: args.toUpperCase() } : null),
+  },
+  { verb: 'ALRT', aliases: ['ALERTS'], usage: 'ALRT', description: 'Alert manager', build: () => ({ kind: 'PANEL', panel: 'ALERTS' }) },
+  { verb: 'USAGE', aliases: ['COST'], usage: 'USAGE', description: 'Model usage and budget', build: () => ({ kind: 'PANEL', panel: 'USAGE' }) },
+  { verb: 'SET', aliases: ['SETTINGS'], usage: 'SET', description: 'Model settings', build: () => ({ kind: 'PANEL', panel: 'SETTINGS' }) },
+  { verb: 'HIST', aliases: ['HISTORY'], usage: 'HIST', description: 'Run history', build: () => ({ kind: 'PANEL', panel: 'HISTORY' }) },
+  { verb: 'LAYOUT', aliases: ['LAY'], usage: 'LAYOUT', description: 'Saved layouts', build: () => ({ kind: 'PANEL', panel: 'LAYOUTS' }) },
+];
+
+const findCommand = (word: string) => {
+  const upper = word.toUpperCase();
+  return COMMANDS.find(c => c.verb === upper || c.aliases.includes(upper));
+};
+
+// 1. Parsing
+// Bloomberg-style lines: "AAPL <GO>", "DEAL fintech SEA", "RES lithium". A trailing <GO> is optional; a bare
+// "GO" is only dropped after a lone ticker so it survives inside free-text arguments
+export const parseCommand = (input: string): ParsedCommand => {
+  const line = input.trim().replace(/\s*<GO>$/i, '').replace(/^(\S+)\s+GO$/i, '$1').trim();
+  if (!line) return { error: 'Empty command' };
+  const [word, ...rest] = line.split(/\s+/);
+  const args = rest.join(' ');
+  const command = findCommand(word);
+
+  if (command) {
+    const action = command.build(args);
+    return action ? { action } : { error: `Usage: ${command.usage}` };
+  }
+  if (!args && isTicker(word)) return { action: { kind: 'SYMBOL', symbol: word.toUpperCase(), module: ModuleType.DASHBOARD } };
+  return { error: `Unknown command: ${word.toUpperCase()}` };
+};
+
+// 2. Autocomplete
+// Verbs first, then known tickers, then earlier lines; an empty line lists every command
+export const commandSuggestions = (input: string, symbols: string[], history: string[]): CommandSuggestion[] => {
+  const text = input.trimStart();
+  const upper = text.toUpperCase();
+  const verbs = COMMANDS
+    .filter(c => !upper || c.verb.startsWith(upper) || c.aliases.some(a => a.startsWith(upper)))
+    .map(c => ({ value: c.usage.includes('<') || c.usage.includes('[') ? `${c.verb} ` : c.verb, label: c.usage, hint: c.description }));
+  if (!upper) return verbs;
+
+  const [word, ...rest] = upper.split(/\s+/);
+  const command = findCommand(word);
+  // Ticker arguments complete against the watchlist and provider symbols
+  const tickerArgs = command && /TICKER/.test(command.usage) && rest.length <= 1
+    ? symbols.filter(s => s.startsWith(rest[0] ?? '')).map(s => ({ value: `${command.verb} ${s}`, label: `${command.verb} ${s}`, hint: command.description }))
+    : [];
+  const tickers = rest.length === 0
+    ? symbols.filter(s => s.startsWith(word)).map(s => ({ value: s, label: `${s} <GO>`, hint: 'Open chart' }))
+    : [];
+  const past = history
+    .filter(h => h.toUpperCase().startsWith(upper) && h.toUpperCase() !== upper)
+    .map(h => ({ value: h, label: h, hint: 'History' }));
+
+  const seen = new Set<string>();
+  return [...verbs, ...tickerArgs, ...tickers, ...past]
+    .filter(s => (seen.has(s.value) ? false : (seen.add(s.value), true)))
+    .slice(0, MAX_SUGGESTIONS);
+};
+
+// Newest first, without repeating the line just run
+export const pushCommandHistory = (history: string[], line: string): string[] =>
+  [line, ...history.filter(h => h !== line)].slice(0, MAX_COMMAND_HISTORY);
+
+export const hotkeyLabel = (module: ModuleType) => {
+  const index = MODULE_HOTKEYS.indexOf(module);
+  return index < 0 ? '' : `ALT+${index + 1}`;
+};
@@ -0,0 +1,50 @@
+import { ConversationThread, Message } from "../types";
+
+const createId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createMessage = (
+  role: Message['role'],
+  content: string,
+  type: Message['type'] = 'text'
+): Message => ({ id: createId(), role, content, type, timestamp: Date.now() });
+
+export const createThread = (title = 'New thread', messages: Message[] = []): ConversationThread => ({
+  id: createId(),
+  title,
+  messages,
+  createdAt: Date.now(),
+});
+
+// Titles come from the opening question so threads are recognisable in the picker
+export const threadTitle = (messages: Message[]): string => {
+  const first = messages.find(m => m.role === 'user')?.content.trim();
+  if (!first) return 'New thread';
+  return first.length > 48 ? `${first.slice(0, 45)}...` : first;
+};
+
+// Copies the thread up to and including `messageId` into a new branch; the source is left untouched
+export const forkThread = (thread: ConversationThread, messageId: string): ConversationThread => {
+  const index = thread.messages.findIndex(m => m.id === messageId);
+  const messages = thread.messages.slice(0, index + 1).map(m => ({ ...m, id: createId() }));
+  return {
+    ...createThread(`${threadTitle(messages)} (fork)`, messages),
+    forkedFrom: { threadId: thread.id, messageId },
+  };
+};
+
+// Turns sent as model context: answered user turns and model replies only.
+// Alerts are local notes, and a user turn without a reply (failed/cancelled) would break role alternation.
+export const toContextTurns = (messages: Message[]): Message[] => {
+  const turns: Message[] = [];
+  messages.forEach((m, i) => {
+    if (m.role === 'model') {
+      turns.push(m);
+    } else if (m.role === 'user' && messages.slice(i + 1).find(n => n.role !== 'system')?.role === 'model') {
+      turns.push(m);
+    }
+  });
+  return turns;
+};
+
+export const lastAnalysis = (messages: Message[]): Message | undefined =>
+  [...messages].reverse().find(m => m.role === 'model' && m.type === 'analysis');
@@ -0,0 +1,229 @@
+import { ColumnStats, Dataset, DatasetColumn, DatasetColumnType, DatasetValue } from "../types";
+import { SheetCell, readXlsx } from "./xlsxReader";
+
+const TABULAR_EXTENSIONS: Record<string, Dataset['format']> = {
+  csv: 'csv',
+  tsv: 'csv',
+  txt: 'csv',
+  xlsx: 'xlsx',
+  json: 'json',
+};
+
+// Roughly 50k tokens; larger datasets are truncated when sent in full
+export const MAX_CONTEXT_CHARS = 200000;
+
+const extension = (name: string) => name.toLowerCase().split('.').pop() ?? '';
+
+export const isTabularFile = (file: File): boolean => extension(file.name) in TABULAR_EXTENSIONS;
+
+// 1. Parsing
+// RFC 4180-style: quoted fields may contain delimiters, doubled quotes and newlines
+export const parseDelimited = (text: string): string[][] => {
+  const firstLine = text.slice(0, text.indexOf('\n') === -1 ? undefined : text.indexOf('\n'));
+  const delimiter = ['\t', ';', ','].reduce((best, d) => (firstLine.split(d).length > firstLine.split(best).length ? d : best), ',');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"' && field === '') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      if (row.some(cell => cell.trim() !== '')) rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  row.push(field);
+  if (row.some(cell => cell.trim() !== '')) rows.push(row);
+  return rows;
+};
+
+const NUMBER_PATTERN = /^[-+]?(\d{1,3}(,\d{3})+|\d*)(\.\d+)?([eE][-+]?\d+)?$/;
+const BOOLEAN_VALUES: Record<string, boolean> = { true: true, false: false, yes: true, no: false };
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}([ T]\d{2}:\d{2}(:\d{2})?)?|^\d{1,2}[/.-]\d{1,2}[/.-]\d{2,4}$/;
+
+const isMissing = (v: SheetCell | undefined) => v === null || v === undefined || (typeof v === 'string' && v.trim() === '');
+
+// Accepts thousands separators ("1,234.5"); anything else non-numeric is null
+export const asNumber = (v: SheetCell): number | null => {
+  if (typeof v === 'number') return v;
+  if (typeof v !== 'string') return null;
+  const text = v.trim();
+  return /\d/.test(text) && NUMBER_PATTERN.test(text) ? Number(text.replace(/,/g, '')) : null;
+};
+
+// A column takes the narrowest type every non-empty value fits
+const inferType = (values: SheetCell[]): DatasetColumnType => {
+  const present = values.filter(v => !isMissing(v));
+  if (present.length === 0) return 'string';
+  if (present.every(v => asNumber(v) !== null)) return 'number';
+  if (present.every(v => typeof v === 'boolean' || String(v).trim().toLowerCase() in BOOLEAN_VALUES)) return 'boolean';
+  if (present.every(v => typeof v === 'string' && DATE_PATTERN.test(v.trim()) && !Number.isNaN(Date.parse(v)))) return 'date';
+  return 'string';
+};
+
+const coerce = (v: SheetCell, type: DatasetColumnType): DatasetValue => {
+  if (isMissing(v)) return null;
+  switch (type) {
+    case 'number':
+      return asNumber(v);
+    case 'boolean':
+      return typeof v === 'boolean' ? v : BOOLEAN_VALUES[String(v).trim().toLowerCase()];
+    default:
+      return typeof v === 'string' ? v.trim() : String(v);
+  }
+};
+
+// Blank or repeated headers get positional names so every column is addressable
+const headerNames = (header: SheetCell[], width: number): string[] => {
+  const seen = new Map<string, number>();
+  return Array.from({ length: width }, (_, i) => {
+    const base = isMissing(header[i]) ? `column_${i + 1}` : String(header[i]).trim();
+    const n = seen.get(base) ?? 0;
+    seen.set(base, n + 1);
+    return n ? `${base}_${n + 1}` : base;
+  });
+};
+
+export const buildDataset = (name: string, format: Dataset['format'], table: SheetCell[][]): Dataset => {
+  if (table.length < 2) throw new Error('Dataset needs a header row and at least one data row');
+  const width = table.reduce((max, r) => Math.max(max, r.length), 0);
+  const names = headerNames(table[0], width);
+  const body = table.slice(1);
+  const columns: DatasetColumn[] = names.map((col, i) => ({ name: col, type: inferType(body.map(r => r[i] ?? null)) }));
+  const rows = body.map(r => Object.fromEntries(columns.map((c, i) => [c.name, coerce(r[i] ?? null, c.type)])));
+  return { name, format, columns, rows };
+};
+
+// Nested objects are flattened to dotted keys; arrays are kept as JSON text
+const flatten = (value: unknown, prefix = '', out: Record<string, SheetCell> = {}): Record<string, SheetCell> => {
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    Object.entries(value as Record<string, unknown>).forEach(([k, v]) => flatten(v, prefix ? `${prefix}.${k}` : k, out));
+  } else {
+    const key = prefix || 'value';
+    out[key] = value === undefined || value === null ? null
+      : typeof value === 'number' || typeof value === 'boolean' || typeof value === 'string' ? value
+      : JSON.stringify(value);
+  }
+  return out;
+};
+
+export const parseJsonTable = (text: string): SheetCell[][] => {
+  const parsed = JSON.parse(text);
+  const records = Array.isArray(parsed) ? parsed : parsed?.data ?? parsed?.rows ?? parsed?.records;
+  if (!Array.isArray(records)) throw new Error('JSON must be an array of records or an object with a "data", "rows" or "records" array');
+  const flat = records.map(r => flatten(r));
+  const keys = Array.from(new Set(flat.flatMap(r => Object.keys(r))));
+  return [keys, ...flat.map(r => keys.map(k => r[k] ?? null))];
+};
+
+export const loadDatasetFile = async (file: File): Promise<Dataset> => {
+  const format = TABULAR_EXTENSIONS[extension(file.name)];
+  if (!format) throw new Error(`Unsupported dataset type: ${file.name}`);
+  if (format === 'xlsx') {
+    const { rows } = await readXlsx(await file.arrayBuffer());
+    return buildDataset(file.name, format, rows);
+  }
+  const text = await file.text();
+  return buildDataset(file.name, format, format === 'json' ? parseJsonTable(text) : parseDelimited(text));
+};
+
+// 2. Statistics
+const round = (n: number) => Number(n.toPrecision(6));
+
+export const columnStats = (dataset: Dataset): ColumnStats[] =>
+  dataset.columns.map(({ name, type }) => {
+    const values = dataset.rows.map(r => r[name]).filter((v): v is Exclude<DatasetValue, null> => v !== null);
+    const stats: ColumnStats = {
+      name,
+      type,
+      count: values.length,
+      missing: dataset.rows.length - values.length,
+      unique: new Set(values.map(String)).size,
+    };
+    if (type === 'number' && values.length) {
+      const nums = (values as number[]).slice().sort((a, b) => a - b);
+      const mean = nums.reduce((s, v) => s + v, 0) / nums.length;
+      const mid = Math.floor(nums.length / 2);
+      stats.min = nums[0];
+      stats.max = nums[nums.length - 1];
+      stats.mean = round(mean);
+      stats.median = round(nums.length % 2 ? nums[mid] : (nums[mid - 1] + nums[mid]) / 2);
+      stats.stdDev = round(Math.sqrt(nums.reduce((s, v) => s + (v - mean) ** 2, 0) / Math.max(1, nums.length - 1)));
+    } else if (type === 'date' && values.length) {
+      const times = (values as string[]).map(v => Date.parse(v)).sort((a, b) => a - b);
+      stats.first = new Date(times[0]).toISOString().slice(0, 10);
+      stats.last = new Date(times[times.length - 1]).toISOString().slice(0, 10);
+    } else if (values.length) {
+      const counts = new Map<string, number>();
+      values.forEach(v => counts.set(String(v), (counts.get(String(v)) ?? 0) + 1));
+      stats.topValues = Array.from(counts.entries())
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, 5)
+        .map(([value, count]) => ({ value, count }));
+    }
+    return stats;
+  });
+
+// 3. Model context
+const csvCell = (v: DatasetValue) => {
+  const text = v === null ? '' : String(v);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One string per record; quoted cells may themselves contain newlines
+const csvLines = (dataset: Dataset, maxRows: number): string[] => [
+  dataset.columns.map(c => csvCell(c.name)).join(','),
+  ...dataset.rows.slice(0, maxRows).map(r => dataset.columns.map(c => csvCell(r[c.name])).join(',')),
+];
+
+export const datasetToCsv = (dataset: Dataset, maxRows = dataset.rows.length): string =>
+  csvLines(dataset, maxRows).join('\n');
+
+const describeStats = (s: ColumnStats): string => {
+  const base = `- ${s.name} (${s.type}): ${s.count} values, ${s.missing} missing, ${s.unique} unique`;
+  if (s.type === 'number' && s.mean !== undefined) {
+    return `${base}; min ${s.min}, max ${s.max}, mean ${s.mean}, median ${s.median}, std ${s.stdDev}`;
+  }
+  if (s.type === 'date' && s.first) return `${base}; ${s.first} to ${s.last}`;
+  if (s.topValues?.length) return `${base}; top: ${s.topValues.map(t => `${t.value} (${t.count})`).join(', ')}`;
+  return base;
+};
+
+export const datasetSummary = (dataset: Dataset, stats = columnStats(dataset), sampleRows = 20): string =>
+  [
+    `DATASET: ${dataset.name} (${dataset.format.toUpperCase()}, ${dataset.rows.length} rows x ${dataset.columns.length} columns)`,
+    'COLUMN SUMMARY:',
+    ...stats.map(describeStats),
+    `FIRST ${Math.min(sampleRows, dataset.rows.length)} ROWS (CSV):`,
+    datasetToCsv(dataset, sampleRows),
+  ].join('\n');
+
+// Full data as CSV, cut at whole rows once the character budget runs out
+export const datasetFullContext = (dataset: Dataset): { text: string; rowsSent: number } => {
+  const header = `DATASET: ${dataset.name} (${dataset.format.toUpperCase()}, ${dataset.rows.length} rows x ${dataset.columns.length} columns)\nDATA (CSV):\n`;
+  const lines = csvLines(dataset, dataset.rows.length);
+  let text = header + lines[0];
+  let rowsSent = 0;
+  for (const line of lines.slice(1)) {
+    if (text.length + line.length + 1 > MAX_CONTEXT_CHARS) break;
+    text += `\n${line}`;
+    rowsSent++;
+  }
+  if (rowsSent < dataset.rows.length) text += `\n[TRUNCATED: ${dataset.rows.length - rowsSent} more rows not shown]`;
+  return { text, rowsSent };
+};
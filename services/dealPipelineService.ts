@@ -0,0 +1,71 @@
+import { DealCandidate, DealStage, PipelineDeal } from "../types";
+
+export const DEAL_STAGES: { id: DealStage; label: string }[] = [
+  { id: 'SOURCED', label: 'Sourced' },
+  { id: 'SCREENING', label: 'Screening' },
+  { id: 'DILIGENCE', label: 'Diligence' },
+  { id: 'IC', label: 'IC' },
+  { id: 'CLOSED', label: 'Closed' },
+  { id: 'PASSED', label: 'Passed' },
+];
+
+const LEGAL_SUFFIXES = /\b(inc|incorporated|corp|corporation|co|company|ltd|limited|llc|plc|gmbh|ag|sa|sas|bv|pte|holdings)\b/g;
+
+// Dedupe key: "Helix Grid Systems, Inc." and "helix grid systems" are the same company
+export const normalizeCompanyName = (name: string): string =>
+  name
+    .toLowerCase()
+    .replace(/[.,'"()&]/g, ' ')
+    .replace(LEGAL_SUFFIXES, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+export const findDeal = (pipeline: PipelineDeal[], name: string): PipelineDeal | undefined => {
+  const key = normalizeCompanyName(name);
+  return pipeline.find(d => normalizeCompanyName(d.candidate.name) === key);
+};
+
+const createDealId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Duplicates are not re-added; their new source links are merged into the existing card
+export const addCandidates = (
+  pipeline: PipelineDeal[],
+  candidates: DealCandidate[],
+  tags: string[] = []
+): { pipeline: PipelineDeal[]; added: PipelineDeal[]; duplicates: string[] } => {
+  const now = Date.now();
+  let next = [...pipeline];
+  const added: PipelineDeal[] = [];
+  const duplicates: string[] = [];
+
+  candidates.forEach(candidate => {
+    const existing = findDeal(next, candidate.name);
+    if (existing) {
+      duplicates.push(candidate.name);
+      const sourceUris = Array.from(new Set([...existing.candidate.sourceUris, ...candidate.sourceUris]));
+      if (sourceUris.length !== existing.candidate.sourceUris.length) {
+        next = next.map(d => d.id === existing.id ? { ...d, candidate: { ...d.candidate, sourceUris }, updatedAt: now } : d);
+      }
+      return;
+    }
+    const deal: PipelineDeal = {
+      id: createDealId(),
+      candidate,
+      pipelineStage: 'SOURCED',
+      notes: '',
+      tags,
+      addedAt: now,
+      updatedAt: now,
+    };
+    next = [...next, deal];
+    added.push(deal);
+  });
+
+  return { pipeline: next, added, duplicates };
+};
+
+export const updateDeal = (pipeline: PipelineDeal[], id: string, changes: Partial<Omit<PipelineDeal, 'id' | 'addedAt'>>): PipelineDeal[] =>
+  pipeline.map(d => d.id === id ? { ...d, ...changes, updatedAt: Date.now() } : d);
+
+export const parseTags = (input: string): string[] =>
+  Array.from(new Set(input.split(',').map(t => t.trim().toLowerCase()).filter(Boolean)));
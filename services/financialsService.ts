@@ -0,0 +1,193 @@
+import { FinancialRatio, FinancialStatements, StatementFigure, StatementKind } from "../types";
+import { downloadFile, slugify } from "./fileExport";
+
+export const STATEMENT_KINDS: { id: StatementKind; label: string }[] = [
+  { id: 'INCOME', label: 'Income Statement' },
+  { id: 'BALANCE', label: 'Balance Sheet' },
+  { id: 'CASH_FLOW', label: 'Cash Flow Statement' },
+];
+
+// Lines the extractor looks for; ratios are computed from these keys only
+export const STATEMENT_LINES: { id: string; statement: StatementKind; label: string }[] = [
+  { id: 'revenue', statement: 'INCOME', label: 'Revenue' },
+  { id: 'costOfRevenue', statement: 'INCOME', label: 'Cost of revenue' },
+  { id: 'grossProfit', statement: 'INCOME', label: 'Gross profit' },
+  { id: 'operatingIncome', statement: 'INCOME', label: 'Operating income (EBIT)' },
+  { id: 'interestExpense', statement: 'INCOME', label: 'Interest expense' },
+  { id: 'pretaxIncome', statement: 'INCOME', label: 'Pre-tax income' },
+  { id: 'incomeTax', statement: 'INCOME', label: 'Income tax expense' },
+  { id: 'netIncome', statement: 'INCOME', label: 'Net income' },
+  { id: 'dilutedEps', statement: 'INCOME', label: 'Diluted EPS' },
+  { id: 'dilutedShares', statement: 'INCOME', label: 'Diluted shares' },
+  { id: 'cash', statement: 'BALANCE', label: 'Cash & equivalents' },
+  { id: 'currentAssets', statement: 'BALANCE', label: 'Total current assets' },
+  { id: 'totalAssets', statement: 'BALANCE', label: 'Total assets' },
+  { id: 'currentLiabilities', statement: 'BALANCE', label: 'Total current liabilities' },
+  { id: 'shortTermDebt', statement: 'BALANCE', label: 'Short-term debt' },
+  { id: 'longTermDebt', statement: 'BALANCE', label: 'Long-term debt' },
+  { id: 'totalLiabilities', statement: 'BALANCE', label: 'Total liabilities' },
+  { id: 'totalEquity', statement: 'BALANCE', label: 'Total equity' },
+  { id: 'operatingCashFlow', statement: 'CASH_FLOW', label: 'Cash from operations' },
+  { id: 'capitalExpenditure', statement: 'CASH_FLOW', label: 'Capital expenditure' },
+  { id: 'depreciationAmortization', statement: 'CASH_FLOW', label: 'Depreciation & amortization' },
+  { id: 'dividendsPaid', statement: 'CASH_FLOW', label: 'Dividends paid' },
+  { id: 'shareRepurchases', statement: 'CASH_FLOW', label: 'Share repurchases' },
+];
+
+// Roughly 100k tokens of filing text
+export const MAX_FILING_CHARS = 400000;
+const PAGE_CHARS = 4000;
+
+// 1. Filing text
+// Form feeds mark pages in EDGAR text filings; otherwise the text is cut into pages on line breaks
+export const paginateFiling = (text: string): string[] => {
+  const formFed = text.split('\f').map(p => p.trim()).filter(Boolean);
+  if (formFed.length > 1) return formFed;
+  const pages: string[] = [];
+  let page = '';
+  text.split('\n').forEach(line => {
+    if (page.length + line.length > PAGE_CHARS && page.trim()) {
+      pages.push(page.trim());
+      page = '';
+    }
+    page += `${line}\n`;
+  });
+  if (page.trim()) pages.push(page.trim());
+  return pages;
+};
+
+// Keeps table cells and paragraphs apart and turns CSS page breaks into form feeds
+export const htmlToText = (html: string): string => {
+  const marked = html
+    .replace(/<(script|style)[\s\S]*?<\/\1>/gi, '')
+    .replace(/<[^>]+page-break-before:\s*always[^>]*>/gi, m => `\f${m}`)
+    .replace(/<[^>]+page-break-after:\s*always[^>]*>/gi, m => `${m}\f`)
+    .replace(/<\/(td|th)>/gi, '\t')
+    .replace(/<(br|\/p|\/div|\/tr|\/h\d|\/li)[^>]*>/gi, '\n');
+  const text = new DOMParser().parseFromString(marked, 'text/html').body.textContent ?? '';
+  return text.replace(/[ \u00a0]+/g, ' ').replace(/\n\s*\n+/g, '\n\n').trim();
+};
+
+export const filingPrompt = (pages: string[]): { text: string; pagesSent: number } => {
+  let text = '';
+  let pagesSent = 0;
+  for (const page of pages) {
+    const block = `=== PAGE ${pagesSent + 1} ===\n${page}\n\n`;
+    if (text.length + block.length > MAX_FILING_CHARS) break;
+    text += block;
+    pagesSent++;
+  }
+  return { text: text.trim(), pagesSent };
+};
+
+// 2. Ratios
+const figure = (s: FinancialStatements, id: string, i: number): number | null =>
+  s.lines.find(l => l.id === id)?.figures[i]?.value ?? null;
+
+const sum = (...values: (number | null)[]) =>
+  values.every(v => v === null) ? null : values.reduce<number>((acc, v) => acc + (v ?? 0), 0);
+
+const div = (a: number | null, b: number | null) => (a === null || b === null || b === 0 ? null : a / b);
+
+// Effective tax rate, falling back to 21% when it is missing or distorted by one-offs
+const taxRate = (s: FinancialStatements, i: number) => {
+  const tax = figure(s, 'incomeTax', i);
+  const rate = div(tax === null ? null : Math.abs(tax), figure(s, 'pretaxIncome', i));
+  return rate === null || rate < 0 || rate > 0.5 ? 0.21 : rate;
+};
+
+const freeCashFlow = (s: FinancialStatements, i: number) => {
+  const ocf = figure(s, 'operatingCashFlow', i);
+  const capex = figure(s, 'capitalExpenditure', i);
+  // Filings print capex as either a negative outflow or a positive amount
+  return ocf === null || capex === null ? null : ocf - Math.abs(capex);
+};
+
+const grossProfit = (s: FinancialStatements, i: number) => {
+  const reported = figure(s, 'grossProfit', i);
+  const revenue = figure(s, 'revenue', i);
+  const cost = figure(s, 'costOfRevenue', i);
+  return reported ?? (revenue !== null && cost !== null ? revenue - Math.abs(cost) : null);
+};
+
+const totalDebt = (s: FinancialStatements, i: number) => sum(figure(s, 'shortTermDebt', i), figure(s, 'longTermDebt', i));
+
+// Period-end invested capital: debt plus equity less cash
+const investedCapital = (s: FinancialStatements, i: number) => {
+  const debt = totalDebt(s, i);
+  const equity = figure(s, 'totalEquity', i);
+  return equity === null ? null : equity + (debt ?? 0) - (figure(s, 'cash', i) ?? 0);
+};
+
+const growth = (value: (i: number) => number | null, i: number) => {
+  if (i === 0) return null;
+  const prior = value(i - 1);
+  const current = value(i);
+  return prior === null || current === null || prior === 0 ? null : current / Math.abs(prior) - Math.sign(prior);
+};
+
+const RATIO_DEFINITIONS: { id: string; label: string; format: FinancialRatio['format']; compute: (s: FinancialStatements, i: number) => number | null }[] = [
+  { id: 'revenueGrowth', label: 'Revenue growth', format: 'percent', compute: (s, i) => growth(j => figure(s, 'revenue', j), i) },
+  { id: 'epsGrowth', label: 'Diluted EPS growth', format: 'percent', compute: (s, i) => growth(j => figure(s, 'dilutedEps', j), i) },
+  { id: 'grossMargin', label: 'Gross margin', format: 'percent', compute: (s, i) => div(grossProfit(s, i), figure(s, 'revenue', i)) },
+  { id: 'operatingMargin', label: 'Operating margin', format: 'percent', compute: (s, i) => div(figure(s, 'operatingIncome', i), figure(s, 'revenue', i)) },
+  { id: 'netMargin', label: 'Net margin', format: 'percent', compute: (s, i) => div(figure(s, 'netIncome', i), figure(s, 'revenue', i)) },
+  { id: 'roic', label: 'ROIC', format: 'percent', compute: (s, i) => {
+    const ebit = figure(s, 'operatingIncome', i);
+    return div(ebit === null ? null : ebit * (1 - taxRate(s, i)), investedCapital(s, i));
+  } },
+  { id: 'roe', label: 'ROE', format: 'percent', compute: (s, i) => div(figure(s, 'netIncome', i), figure(s, 'totalEquity', i)) },
+  { id: 'debtToEquity', label: 'Debt / equity', format: 'multiple', compute: (s, i) => div(totalDebt(s, i), figure(s, 'totalEquity', i)) },
+  { id: 'netDebtToEbitda', label: 'Net debt / EBITDA', format: 'multiple', compute: (s, i) => {
+    const debt = totalDebt(s, i);
+    const ebit = figure(s, 'operatingIncome', i);
+    const da = figure(s, 'depreciationAmortization', i);
+    return div(debt === null ? null : debt - (figure(s, 'cash', i) ?? 0), ebit === null ? null : ebit + Math.abs(da ?? 0));
+  } },
+  { id: 'interestCoverage', label: 'Interest coverage', format: 'multiple', compute: (s, i) => {
+    const interest = figure(s, 'interestExpense', i);
+    return div(figure(s, 'operatingIncome', i), interest === null ? null : Math.abs(interest));
+  } },
+  { id: 'currentRatio', label: 'Current ratio', format: 'multiple', compute: (s, i) => div(figure(s, 'currentAssets', i), figure(s, 'currentLiabilities', i)) },
+  { id: 'freeCashFlow', label: 'Free cash flow', format: 'amount', compute: freeCashFlow },
+  { id: 'fcfConversion', label: 'FCF conversion (FCF / net income)', format: 'percent', compute: (s, i) => div(freeCashFlow(s, i), figure(s, 'netIncome', i)) },
+  { id: 'fcfMargin', label: 'FCF margin', format: 'percent', compute: (s, i) => div(freeCashFlow(s, i), figure(s, 'revenue', i)) },
+];
+
+export const computeRatios = (statements: FinancialStatements): FinancialRatio[] =>
+  RATIO_DEFINITIONS.map(({ id, label, format, compute }) => ({
+    id,
+    label,
+    format,
+    values: statements.periods.map((_, i) => {
+      const v = compute(statements, i);
+      return v === null || !Number.isFinite(v) ? null : v;
+    }),
+  }));
+
+export const formatRatio = (value: number | null, format: FinancialRatio['format']): string => {
+  if (value === null) return '--';
+  if (format === 'percent') return `${(value * 100).toFixed(1)}%`;
+  if (format === 'multiple') return `${value.toFixed(2)}x`;
+  return formatFigure(value);
+};
+
+export const formatFigure = (value: number | null): string =>
+  value === null ? '--' : value.toLocaleString(undefined, { maximumFractionDigits: Math.abs(value) < 100 ? 2 : 0 });
+
+// 3. Export
+const csvCell = (text: string) => (/[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text);
+
+export const statementsToCsv = (statements: FinancialStatements, ratios = computeRatios(statements)): string => {
+  const rows: string[][] = [['statement', 'line', ...statements.periods, ...statements.periods.map(p => `page ${p}`)]];
+  statements.lines.forEach(line => {
+    const values = line.figures.map((f: StatementFigure) => (f.value === null ? '' : String(f.value)));
+    const pages = line.figures.map(f => (f.page === null ? '' : String(f.page)));
+    rows.push([line.statement, line.label, ...values, ...pages]);
+  });
+  ratios.forEach(r => rows.push(['RATIO', r.label, ...r.values.map(v => (v === null ? '' : String(Number(v.toPrecision(6)))))]));
+  return rows.map(r => r.map(csvCell).join(',')).join('\n');
+};
+
+export const downloadStatementsCsv = (statements: FinancialStatements) =>
+  downloadFile(`${slugify(statements.company, 'financials')}-statements.csv`, statementsToCsv(statements), 'text/csv');
@@ -0,0 +1,98 @@
+import { GenerateContentParameters, GenerateContentResponse, GoogleGenAI } from "@google/genai";
+import { GroundingChunk, LLMChunk, LLMProvider, LLMRequest, TokenUsage } from "../types";
+import { safetyErrorFrom } from "./serviceErrors";
+
+// Helper to get client
+const getClient = () => new GoogleGenAI({ apiKey: process.env.API_KEY });
+
+// Helper to normalise SDK usage metadata
+const toTokenUsage = (response: GenerateContentResponse): TokenUsage | undefined => {
+  const u = response.usageMetadata;
+  if (!u) return undefined;
+  return {
+    promptTokens: u.promptTokenCount ?? 0,
+    thoughtsTokens: u.thoughtsTokenCount ?? 0,
+    outputTokens: u.candidatesTokenCount ?? 0,
+    totalTokens: u.totalTokenCount ?? 0,
+  };
+};
+
+// Maps a provider-neutral request onto SDK parameters
+const toParams = (request: LLMRequest, signal: AbortSignal): GenerateContentParameters => {
+  const { model, prompt, systemInstruction, attachment, turns, grounding, location, responseSchema, thinkingBudget } = request;
+  const parts = attachment
+    ? [{ inlineData: { mimeType: attachment.mimeType, data: attachment.data } }, { text: prompt }]
+    : [{ text: prompt }];
+  return {
+    model,
+    contents: [
+      ...(turns || []).map(m => ({ role: m.role === 'model' ? 'model' : 'user', parts: [{ text: m.content }] })),
+      { role: 'user', parts },
+    ],
+    config: {
+      abortSignal: signal,
+      systemInstruction,
+      thinkingConfig: thinkingBudget ? { thinkingBudget } : undefined,
+      responseMimeType: responseSchema ? 'application/json' : undefined,
+      responseSchema,
+      tools: grounding === 'search' ? [{ googleSearch: {} }] : grounding === 'maps' ? [{ googleMaps: {} }] : undefined,
+      toolConfig: grounding === 'maps' && location ? {
+        retrievalConfig: {
+          latLng: { latitude: location.lat, longitude: location.lng }
+        }
+      } : undefined,
+    },
+  };
+};
+
+// Blocked prompts/responses come back as normal payloads, so they are thrown here as SAFETY errors
+const toChunk = (response: GenerateContentResponse): LLMChunk => {
+  const blocked = safetyErrorFrom(response);
+  if (blocked) throw blocked;
+  return {
+    text: response.text || '',
+    groundingChunks: response.candidates?.[0]?.groundingMetadata?.groundingChunks as GroundingChunk[],
+    usage: toTokenUsage(response),
+  };
+};
+
+export const createGeminiProvider = (): LLMProvider => ({
+  id: 'gemini',
+  name: 'Google Gemini',
+  models: [
+    'gemini-3-pro-preview',
+    'gemini-3-flash-preview',
+    'gemini-2.5-pro',
+    'gemini-2.5-flash',
+    'gemini-flash-lite-latest',
+  ],
+  // Standard-tier list prices for prompts under 200k tokens; grounding fees are not included
+  pricing: {
+    'gemini-3-pro-preview': { inputPerMTok: 2, outputPerMTok: 12 },
+    'gemini-3-flash-preview': { inputPerMTok: 0.5, outputPerMTok: 3 },
+    'gemini-2.5-pro': { inputPerMTok: 1.25, outputPerMTok: 10 },
+    'gemini-2.5-flash': { inputPerMTok: 0.3, outputPerMTok: 2.5 },
+    'gemini-flash-lite-latest': { inputPerMTok: 0.1, outputPerMTok: 0.4 },
+  },
+  defaultModels: {
+    NEWS: 'gemini-flash-lite-latest',
+    QUANT: 'gemini-3-pro-preview',
+    DEALS: 'gemini-3-flash-preview',
+    DEAL_EXTRACT: 'gemini-2.5-flash',
+    RESOURCES: 'gemini-2.5-flash',
+    RESOURCE_EXTRACT: 'gemini-2.5-flash',
+    VISION: 'gemini-3-pro-preview',
+    FILING_EXTRACT: 'gemini-2.5-pro',
+    VALUATION: 'gemini-2.5-flash',
+    SCENARIO: 'gemini-2.5-flash',
+    SCENARIO_NARRATIVE: 'gemini-2.5-flash',
+  },
+  generate: async (request, signal) => {
+    const response = await getClient().models.generateContent(toParams(request, signal));
+    return toChunk(response);
+  },
+  stream: async function* (request, signal) {
+    const stream = await getClient().models.generateContentStream(toParams(request, signal));
+    for await (const chunk of stream) yield toChunk(chunk);
+  },
+});
@@ -1,122 +1,795 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { AnalysisResult } from "../types";
+import { Type } from "@google/genai";
+import {
+  AnalysisResult,
+  AssumptionSuggestion,
+  DealCandidate,
+  FinancialStatements,
+  GroundingChunk,
+  LLMChunk,
+  LLMRequest,
+  Message,
+  ModelSlot,
+  NewsItem,
+  NewsSentiment,
+  NewsTags,
+  QuantPrediction,
+  QuantPredictionResult,
+  ResourceSearchArea,
+  ResourceSite,
+  RetryPolicy,
+  ServiceResult,
+  ShockFactor,
+  ShockProposal,
+  SiteStatus,
+  StatementLine,
+  StreamHandlers,
+  StreamOutcome,
+  TokenUsage
+} from "../types";
+import { fail, ok, serviceError, withRetry } from "./serviceErrors";
+import { getActiveProvider, resolveModel } from "./llmProvider";
+import { GLOBAL_AREA, areaCenter } from "./resourceMapService";
+import { STATEMENT_LINES } from "./financialsService";
+import { DCF_YEARS } from "./valuationService";
+import { startCall } from "./telemetryService";
 
-// Helper to get client
-const getClient = () => new GoogleGenAI({ apiKey: process.env.API_KEY });
+// Helper to build a request against the model configured for a slot
+const request = (slot: ModelSlot, prompt: string, options: Omit<LLMRequest, 'slot' | 'model' | 'prompt'> = {}): LLMRequest => ({
+  slot,
+  model: resolveModel(slot),
+  prompt,
+  ...options,
+});
 
-// 1. Fast Market News (Gemini 2.5 Flash Lite)
-export const getMarketUpdates = async (): Promise<string> => {
-  const ai = getClient();
+// Helper to run a blocking request under the retry policy
+const generate = async (
+  req: LLMRequest,
+  label: string,
+  policy?: Partial<RetryPolicy>
+): Promise<ServiceResult<LLMChunk>> => {
+  const call = startCall(req, label, 'generate');
+  if (call.blocked) {
+    console.warn(`${label} blocked:`, call.blocked.message);
+    return fail(call.blocked);
+  }
+  const provider = getActiveProvider();
+  const result = await withRetry(({ signal }) => provider.generate(req, signal), {
+    policy,
+    onRetry: (error, attempt, delayMs) => console.warn(`${label} retry ${attempt} in ${delayMs}ms:`, error.message),
+  });
+  if (result.status === 'ok') {
+    call.finish('ok', result.data.usage);
+  } else {
+    call.finish(result.error.kind === 'CANCELLED' ? 'aborted' : 'error', undefined, result.error.kind);
+    console.error(`${label} error:`, result.error);
+  }
+  return result;
+};
+
+// Helper to run a streaming request; text received before an abort or error is kept in the outcome.
+// Transient failures are only retried while nothing has been streamed yet.
+const streamContent = async (
+  req: LLMRequest,
+  handlers: StreamHandlers,
+  label: string,
+  policy?: Partial<RetryPolicy>
+): Promise<StreamOutcome> => {
+  const call = startCall(req, label, 'stream');
+  if (call.blocked) {
+    console.warn(`${label} blocked:`, call.blocked.message);
+    return { status: 'error', text: '', error: call.blocked };
+  }
+  const provider = getActiveProvider();
+  let text = '';
+  let usage: TokenUsage | undefined;
+  let groundingChunks: GroundingChunk[] | undefined;
+
+  const result = await withRetry(async ({ signal, touch }) => {
+    for await (const chunk of provider.stream(req, signal)) {
+      touch();
+      call.firstChunk();
+      if (chunk.text) {
+        text += chunk.text;
+        handlers.onText(chunk.text, text);
+      }
+      if (chunk.usage) {
+        usage = chunk.usage;
+        handlers.onUsage?.(chunk.usage);
+      }
+      if (chunk.groundingChunks?.length) groundingChunks = [...(groundingChunks || []), ...chunk.groundingChunks];
+    }
+  }, {
+    policy,
+    signal: handlers.signal,
+    onRetry: handlers.onRetry,
+    canRetry: () => text === '',
+  });
+
+  if (result.status === 'ok') {
+    call.finish('ok', usage);
+    return { status: 'complete', text, usage, groundingChunks };
+  }
+  if (result.error.kind === 'CANCELLED') {
+    call.finish('aborted', usage);
+    return { status: 'aborted', text, usage, groundingChunks };
+  }
+  call.finish('error', usage, result.error.kind);
+  console.error(`${label} stream error:`, result.error);
+  return { status: 'error', text, usage, groundingChunks, error: result.error };
+};
+
+// 1. News Tagging (structured JSON output)
+// Headlines come from the feeds; the model only labels them
+const NEWS_SENTIMENTS: NewsSentiment[] = ['POSITIVE', 'NEGATIVE', 'NEUTRAL'];
+
+const newsTagsSchema = {
+  type: Type.OBJECT,
+  properties: {
+    items: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          index: { type: Type.INTEGER, description: "1-based index of the headline in the list" },
+          tickers: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Exchange tickers or index symbols directly affected; empty when none" },
+          sentiment: { type: Type.STRING, enum: NEWS_SENTIMENTS },
+          impact: { type: Type.INTEGER, description: "Expected market impact from 1 (noise) to 5 (market-moving)" },
+        },
+        required: ['index', 'tickers', 'sentiment', 'impact'],
+      },
+    },
+  },
+  required: ['items'],
+};
+
+const newsTaggingRequest = (items: NewsItem[]): LLMRequest => request(
+  'NEWS',
+  items.map((item, i) => `[${i + 1}] ${item.title}${item.summary ? ` -- ${item.summary.slice(0, 200)}` : ''} (${item.source})`).join('\n'),
+  {
+    systemInstruction: "Classify each numbered news item for a trading desk. Do not rewrite or invent headlines; only return tickers, sentiment and impact for every index.",
+    responseSchema: newsTagsSchema,
+  }
+);
+
+const TICKER_PATTERN = /^[A-Z0-9^][A-Z0-9.\-=^]{0,9}$/;
+
+// Tags keyed by item id; items the model skipped or mangled are left untagged
+export const parseNewsTags = (raw: string, items: NewsItem[]): ServiceResult<Record<string, NewsTags>> => {
+  let data: unknown;
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-flash-lite-latest',
-      contents: "Generate 3 concise, high-impact financial news headlines for a professional trading terminal. No emojis. Format as bullet points.",
-    });
-    return response.text || "Market data unavailable.";
-  } catch (error) {
-    console.error("News fetch error:", error);
-    return "SYSTEM ERROR: UNABLE TO FETCH MARKET DATA";
+    data = JSON.parse(raw);
+  } catch {
+    return fail(serviceError('SCHEMA', "Model returned invalid JSON", { raw }));
+  }
+  const entries = recordsAt(data, 'items');
+  if (!entries) {
+    return fail(serviceError('SCHEMA', "Response has no items list", { raw }));
+  }
+  const tags: Record<string, NewsTags> = {};
+  entries.forEach(entry => {
+    const item = typeof entry.index === 'number' && Number.isInteger(entry.index) ? items[entry.index - 1] : undefined;
+    const sentiment = NEWS_SENTIMENTS.find(s => s === entry.sentiment);
+    if (!item || !sentiment || !isNum(entry.impact)) return;
+    tags[item.id] = {
+      tickers: isStrArray(entry.tickers)
+        ? Array.from(new Set(entry.tickers.map(t => t.trim().toUpperCase().replace(/^\$/, '')).filter(t => TICKER_PATTERN.test(t))))
+        : [],
+      sentiment,
+      impact: Math.min(5, Math.max(1, Math.round(entry.impact))),
+    };
+  });
+  return ok(tags);
+};
+
+export const tagNewsItems = async (items: NewsItem[]): Promise<ServiceResult<Record<string, NewsTags>>> => {
+  const result = await generate(newsTaggingRequest(items), "News tagging");
+  if (result.status === 'error') return result;
+  return parseNewsTags(result.data.text, items);
+};
+
+// 2. Quantitative Prediction (thinking, structured JSON output)
+const quantPredictionSchema = {
+  type: Type.OBJECT,
+  properties: {
+    direction: { type: Type.STRING, enum: ['BULLISH', 'BEARISH', 'NEUTRAL'] },
+    targetRange: {
+      type: Type.OBJECT,
+      properties: {
+        low: { type: Type.NUMBER },
+        high: { type: Type.NUMBER },
+        unit: { type: Type.STRING, description: "Unit of the range, e.g. 'USD', '% return', 'bp'" },
+      },
+      required: ['low', 'high', 'unit'],
+    },
+    horizon: { type: Type.STRING, description: "Forecast horizon, e.g. '3 months'" },
+    confidence: { type: Type.NUMBER, description: "Confidence from 0 to 100" },
+    keyDrivers: { type: Type.ARRAY, items: { type: Type.STRING } },
+    risks: { type: Type.ARRAY, items: { type: Type.STRING } },
+    invalidationLevel: {
+      type: Type.OBJECT,
+      properties: {
+        value: { type: Type.NUMBER },
+        description: { type: Type.STRING, description: "What crossing this level means for the thesis" },
+      },
+      required: ['value', 'description'],
+    },
+    narrative: { type: Type.STRING, description: "Full supporting analysis in prose" },
+  },
+  required: ['direction', 'targetRange', 'horizon', 'confidence', 'keyDrivers', 'risks', 'invalidationLevel', 'narrative'],
+  propertyOrdering: ['direction', 'targetRange', 'horizon', 'confidence', 'keyDrivers', 'risks', 'invalidationLevel', 'narrative'],
+};
+
+const isNum = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isStrArray = (v: unknown): v is string[] => Array.isArray(v) && v.every(x => typeof x === 'string');
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+// The objects in `data[key]`, or null when there is no such list; non-object entries are dropped
+const recordsAt = (data: unknown, key: string): Record<string, unknown>[] | null => {
+  const list = isRecord(data) ? data[key] : undefined;
+  return Array.isArray(list) ? list.filter(isRecord) : null;
+};
+
+// The SDK does not guarantee schema conformance, so the payload is checked field by field
+const validateQuantPrediction = (data: any): string[] => {
+  const issues: string[] = [];
+  if (typeof data !== 'object' || data === null) return ['response is not a JSON object'];
+  if (!['BULLISH', 'BEARISH', 'NEUTRAL'].includes(data.direction)) issues.push('direction must be BULLISH, BEARISH or NEUTRAL');
+  if (!data.targetRange || !isNum(data.targetRange.low) || !isNum(data.targetRange.high) || typeof data.targetRange.unit !== 'string') {
+    issues.push('targetRange must have numeric low/high and a unit');
+  } else if (data.targetRange.low > data.targetRange.high) {
+    issues.push('targetRange.low exceeds targetRange.high');
+  }
+  if (typeof data.horizon !== 'string' || !data.horizon) issues.push('horizon is missing');
+  if (!isNum(data.confidence) || data.confidence < 0 || data.confidence > 100) issues.push('confidence must be a number between 0 and 100');
+  if (!isStrArray(data.keyDrivers)) issues.push('keyDrivers must be a list of strings');
+  if (!isStrArray(data.risks)) issues.push('risks must be a list of strings');
+  if (!data.invalidationLevel || !isNum(data.invalidationLevel.value) || typeof data.invalidationLevel.description !== 'string') {
+    issues.push('invalidationLevel must have a numeric value and a description');
   }
+  if (typeof data.narrative !== 'string') issues.push('narrative is missing');
+  return issues;
 };
 
-// 2. Quantitative Prediction (Gemini 3 Pro + Thinking)
-export const generateQuantPrediction = async (query: string): Promise<string> => {
-  const ai = getClient();
+// `turns` carries the earlier conversation so follow-ups like "stress that for +100bp" resolve against it
+const quantRequest = (query: string, turns: Message[] = []): LLMRequest => request('QUANT', query, {
+  turns,
+  systemInstruction: "You are a senior quantitative analyst for a top-tier hedge fund. Provide deep, data-driven analysis. Use professional financial terminology. No emojis. Focus on risk, alpha generation, and macro factors. When earlier turns are present, treat the latest question as a follow-up and update the prior analysis accordingly. Respond only with JSON matching the provided schema.",
+  thinkingBudget: 32768,
+  responseSchema: quantPredictionSchema,
+});
+
+// Shared by the blocking and streaming paths once the full JSON text is available
+export const parseQuantPrediction = (raw: string): QuantPredictionResult => {
+  let data: unknown;
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-preview',
-      contents: query,
-      config: {
-        systemInstruction: "You are a senior quantitative analyst for a top-tier hedge fund. Provide deep, data-driven analysis. Use professional financial terminology. No emojis. Focus on risk, alpha generation, and macro factors.",
-        thinkingConfig: {
-          thinkingBudget: 32768, 
-        }
-      }
-    });
-    return response.text || "Analysis failed.";
-  } catch (error) {
-    console.error("Quant analysis error:", error);
-    return "SYSTEM ERROR: QUANT MODEL CONNECTION FAILED";
+    data = JSON.parse(raw);
+  } catch {
+    return fail(serviceError('SCHEMA', "Model returned invalid JSON", { raw }));
+  }
+  const issues = validateQuantPrediction(data);
+  if (issues.length > 0) {
+    return fail(serviceError('SCHEMA', "Response does not match the QuantPrediction schema", { details: issues, raw }));
   }
+  return ok(data as QuantPrediction);
 };
 
-// 3. Deal Sourcing (Gemini 3 Flash + Google Search)
-export const findPrivateEquityDeals = async (sector: string): Promise<AnalysisResult> => {
-  const ai = getClient();
+// Thinking mode can take minutes before the first token
+const QUANT_RETRY_POLICY: Partial<RetryPolicy> = { timeoutMs: 180000 };
+
+export const generateQuantPrediction = async (query: string, turns?: Message[]): Promise<QuantPredictionResult> => {
+  const result = await generate(quantRequest(query, turns), "Quant analysis", QUANT_RETRY_POLICY);
+  if (result.status === 'error') return result;
+  return parseQuantPrediction(result.data.text || '');
+};
+
+// Streams the raw JSON text; callers run parseQuantPrediction on a complete outcome
+export const streamQuantPrediction = (query: string, handlers: StreamHandlers, turns?: Message[]): Promise<StreamOutcome> =>
+  streamContent(quantRequest(query, turns), handlers, "Quant analysis", QUANT_RETRY_POLICY);
+
+// 3. Deal Sourcing (search grounding)
+const dealsRequest = (sector: string): LLMRequest => request(
+  'DEALS',
+  `Find emerging private companies in the ${sector} sector suitable for acquisition or venture capital investment. Focus on companies with recent growth news or funding rounds. List them with brief rationales.`,
+  { grounding: 'search' }
+);
+
+export const findPrivateEquityDeals = async (sector: string): Promise<ServiceResult<AnalysisResult>> => {
+  const result = await generate(dealsRequest(sector), "Deal sourcing");
+  if (result.status === 'error') return result;
+  return ok({
+    text: result.data.text || "No deals found.",
+    groundingChunks: result.data.groundingChunks
+  });
+};
+
+export const streamPrivateEquityDeals = (sector: string, handlers: StreamHandlers): Promise<StreamOutcome> =>
+  streamContent(dealsRequest(sector), handlers, "Deal sourcing");
+
+// Search grounding can't be combined with JSON output, so candidates are pulled out of the memo in a second pass
+const dealCandidatesSchema = {
+  type: Type.OBJECT,
+  properties: {
+    candidates: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          name: { type: Type.STRING },
+          sector: { type: Type.STRING },
+          stage: { type: Type.STRING, description: "Funding stage, e.g. 'Seed', 'Series B', 'Growth', 'Bootstrapped'" },
+          lastRound: { type: Type.STRING, description: "Most recent round with size and year if known, otherwise 'Unknown'" },
+          geography: { type: Type.STRING, description: "Headquarters country or region" },
+          rationale: { type: Type.STRING },
+          sourceIndexes: { type: Type.ARRAY, items: { type: Type.INTEGER }, description: "1-based indexes into the numbered source list" },
+        },
+        required: ['name', 'sector', 'stage', 'lastRound', 'geography', 'rationale', 'sourceIndexes'],
+      },
+    },
+  },
+  required: ['candidates'],
+};
+
+const dealExtractionRequest = (memo: string, sources: GroundingChunk[]): LLMRequest => {
+  const sourceList = sources
+    .map((chunk, i) => `[${i + 1}] ${chunk.web?.title || 'Untitled'} - ${chunk.web?.uri || ''}`)
+    .join('\n');
+  return request('DEAL_EXTRACT', `DEAL MEMO:\n${memo}\n\nSOURCES:\n${sourceList || '(none)'}`, {
+    systemInstruction: "Extract every company named in the deal memo as a structured record. Use only facts stated in the memo; write 'Unknown' for missing fields. Reference supporting sources by their numbers.",
+    responseSchema: dealCandidatesSchema,
+  });
+};
+
+const str = (v: unknown) => (typeof v === 'string' ? v.trim() : '');
+
+// Malformed items are dropped rather than failing the whole extraction
+export const parseDealCandidates = (raw: string, sources: GroundingChunk[] = []): ServiceResult<DealCandidate[]> => {
+  let data: unknown;
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: `Find emerging private companies in the ${sector} sector suitable for acquisition or venture capital investment. Focus on companies with recent growth news or funding rounds. List them with brief rationales.`,
-      config: {
-        tools: [{ googleSearch: {} }]
-      }
-    });
+    data = JSON.parse(raw);
+  } catch {
+    return fail(serviceError('SCHEMA', "Model returned invalid JSON", { raw }));
+  }
+  const records = recordsAt(data, 'candidates');
+  if (!records) {
+    return fail(serviceError('SCHEMA', "Response has no candidates list", { raw }));
+  }
+  const candidates: DealCandidate[] = records
+    .filter(c => str(c.name))
+    .map(c => ({
+      name: str(c.name),
+      sector: str(c.sector) || 'Unknown',
+      stage: str(c.stage) || 'Unknown',
+      lastRound: str(c.lastRound) || 'Unknown',
+      geography: str(c.geography) || 'Unknown',
+      rationale: str(c.rationale),
+      sourceUris: (Array.isArray(c.sourceIndexes) ? c.sourceIndexes : [])
+        .map((i: unknown) => (typeof i === 'number' ? sources[i - 1]?.web?.uri : undefined))
+        .filter((uri: string | undefined): uri is string => Boolean(uri)),
+    }));
+  return ok(candidates);
+};
 
-    const groundingChunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks as any[];
-    
-    return {
-      text: response.text || "No deals found.",
-      groundingChunks: groundingChunks
-    };
-  } catch (error) {
-    console.error("Deal sourcing error:", error);
-    return { text: "SYSTEM ERROR: SEARCH TOOL MALFUNCTION" };
+export const extractDealCandidates = async (
+  memo: string,
+  sources: GroundingChunk[] = []
+): Promise<ServiceResult<DealCandidate[]>> => {
+  const result = await generate(dealExtractionRequest(memo, sources), "Deal extraction");
+  if (result.status === 'error') return result;
+  return parseDealCandidates(result.data.text, sources);
+};
+
+// 4. Resource Mapping (maps grounding)
+const areaInstruction = (area: ResourceSearchArea): string => {
+  switch (area.mode) {
+    case 'GLOBAL':
+      return 'Cover the most significant sites worldwide.';
+    case 'REGION': {
+      const { north, south, east, west } = area.bounds;
+      return `Only include sites inside the bounding box latitude ${south} to ${north}, longitude ${west} to ${east}.`;
+    }
+    default:
+      return `Only include sites within ${area.radiusKm} km of latitude ${area.lat}, longitude ${area.lng}.`;
   }
 };
 
-// 4. Resource Mapping (Gemini 2.5 Flash + Google Maps)
-export const findResources = async (resourceType: string, lat?: number, lng?: number): Promise<AnalysisResult> => {
-  const ai = getClient();
+const resourcesRequest = (resourceType: string, area: ResourceSearchArea): LLMRequest => request(
+  'RESOURCES',
+  `Locate major ${resourceType} mines, rigs, or reserves. ${areaInstruction(area)} Provide key details for each location.`,
+  { grounding: 'maps', location: areaCenter(area) ?? undefined }
+);
+
+export const findResources = async (
+  resourceType: string,
+  area: ResourceSearchArea = GLOBAL_AREA
+): Promise<ServiceResult<AnalysisResult>> => {
+  const result = await generate(resourcesRequest(resourceType, area), "Map resource");
+  if (result.status === 'error') return result;
+  return ok({
+    text: result.data.text || "No locations found.",
+    groundingChunks: result.data.groundingChunks
+  });
+};
+
+export const streamResources = (
+  resourceType: string,
+  handlers: StreamHandlers,
+  area: ResourceSearchArea = GLOBAL_AREA
+): Promise<StreamOutcome> =>
+  streamContent(resourcesRequest(resourceType, area), handlers, "Map resource");
+
+const SITE_STATUSES: SiteStatus[] = ['OPERATING', 'DEVELOPMENT', 'EXPLORATION', 'CLOSED', 'UNKNOWN'];
+
+const resourceSitesSchema = {
+  type: Type.OBJECT,
+  properties: {
+    sites: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          name: { type: Type.STRING },
+          commodity: { type: Type.STRING, description: "Primary commodity, e.g. 'Copper', 'Crude Oil', 'Lithium'" },
+          operator: { type: Type.STRING },
+          country: { type: Type.STRING },
+          lat: { type: Type.NUMBER, nullable: true },
+          lng: { type: Type.NUMBER, nullable: true },
+          status: { type: Type.STRING, enum: SITE_STATUSES },
+          capacity: { type: Type.STRING, description: "Output or reserve figure with units, or 'Unknown'" },
+          sourceIndexes: { type: Type.ARRAY, items: { type: Type.INTEGER }, description: "1-based indexes into the numbered source list" },
+        },
+        required: ['name', 'commodity', 'operator', 'country', 'lat', 'lng', 'status', 'capacity', 'sourceIndexes'],
+      },
+    },
+  },
+  required: ['sites'],
+};
+
+const resourceExtractionRequest = (text: string, sources: GroundingChunk[]): LLMRequest => {
+  const sourceList = sources
+    .map((chunk, i) => `[${i + 1}] ${chunk.maps?.title || chunk.web?.title || 'Untitled'} - ${chunk.maps?.uri || chunk.web?.uri || ''}`)
+    .join('\n');
+  return request('RESOURCE_EXTRACT', `RESOURCE REPORT:\n${text}\n\nSOURCES:\n${sourceList || '(none)'}`, {
+    systemInstruction: "Extract every mine, rig, field or reserve in the report as a structured site. Use decimal degrees for coordinates and null when the location is not known to within a few kilometres. Write 'Unknown' for missing text fields. Reference supporting sources by their numbers.",
+    responseSchema: resourceSitesSchema,
+  });
+};
+
+const coord = (v: unknown, limit: number) => (typeof v === 'number' && Number.isFinite(v) && Math.abs(v) <= limit ? v : null);
+
+export const parseResourceSites = (raw: string, sources: GroundingChunk[] = []): ServiceResult<ResourceSite[]> => {
+  let data: unknown;
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: `Locate major ${resourceType} mines, rigs, or reserves. Provide key details for each location.`,
-      config: {
-        tools: [{ googleMaps: {} }],
-        toolConfig: lat && lng ? {
-          retrievalConfig: {
-            latLng: { latitude: lat, longitude: lng }
-          }
-        } : undefined
-      }
+    data = JSON.parse(raw);
+  } catch {
+    return fail(serviceError('SCHEMA', "Model returned invalid JSON", { raw }));
+  }
+  const records = recordsAt(data, 'sites');
+  if (!records) {
+    return fail(serviceError('SCHEMA', "Response has no sites list", { raw }));
+  }
+  const sites: ResourceSite[] = records
+    .filter(site => str(site.name))
+    .map((site, i) => {
+      const lat = coord(site.lat, 90);
+      const lng = coord(site.lng, 180);
+      return {
+        id: `site-${i}-${str(site.name).toLowerCase().replace(/[^a-z0-9]+/g, '-')}`,
+        name: str(site.name),
+        commodity: str(site.commodity) || 'Unknown',
+        operator: str(site.operator) || 'Unknown',
+        country: str(site.country) || 'Unknown',
+        // A half-specified point is as good as none
+        lat: lat === null || lng === null ? null : lat,
+        lng: lat === null || lng === null ? null : lng,
+        status: SITE_STATUSES.find(status => status === site.status) ?? 'UNKNOWN',
+        capacity: str(site.capacity) || 'Unknown',
+        sourceUris: (Array.isArray(site.sourceIndexes) ? site.sourceIndexes : [])
+          .map((n: unknown) => (typeof n === 'number' ? sources[n - 1]?.maps?.uri || sources[n - 1]?.web?.uri : undefined))
+          .filter((uri: string | undefined): uri is string => Boolean(uri)),
+      };
     });
+  return ok(sites);
+};
 
-    const groundingChunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks as any[];
+export const extractResourceSites = async (
+  text: string,
+  sources: GroundingChunk[] = []
+): Promise<ServiceResult<ResourceSite[]>> => {
+  const result = await generate(resourceExtractionRequest(text, sources), "Resource extraction");
+  if (result.status === 'error') return result;
+  return parseResourceSites(result.data.text, sources);
+};
 
-    return {
-      text: response.text || "No locations found.",
-      groundingChunks: groundingChunks
-    };
-  } catch (error) {
-    console.error("Map resource error:", error);
-    return { text: "SYSTEM ERROR: GEOSPATIAL MODULE FAILURE" };
+// 5. Data Lab (charts, documents and tabular data)
+const VISION_INSTRUCTION = "Analyze the provided financial chart or data. Look for technical patterns (Head and Shoulders, Double Top, etc.) and trend lines. Provide a professional assessment.";
+
+const DOCUMENT_INSTRUCTION = "Analyze the provided financial document. Summarize the key figures, trends and risks it contains, citing page numbers where possible. Provide a professional assessment.";
+
+const DATASET_INSTRUCTION = "Analyze the provided tabular dataset. The schema and summary statistics are computed exactly; treat them as ground truth and do not re-estimate them from sample rows. Describe notable trends, outliers, correlations and data quality issues, and answer the user's directive. Provide a professional assessment.";
+
+// Only added when the user opted in to attaching indicators; the file may not show that symbol at all
+const withIndicatorInstruction = (instruction: string, indicatorSymbol?: string) =>
+  indicatorSymbol
+    ? `${instruction} A COMPUTED INDICATORS block for ${indicatorSymbol} is supplied. If the input concerns ${indicatorSymbol}, treat those values and detected patterns as ground truth rather than estimating levels yourself; if it shows a different instrument or is not market data, ignore the block.`
+    : instruction;
+
+// "data:image/jpeg;base64,..." -> { mimeType: 'image/jpeg', data: '...' }
+const parseDataUrl = (dataUrl: string): { mimeType: string; data: string } => {
+  const match = dataUrl.match(/^data:([^;,]+)(?:;[^,]*)?,(.*)$/s);
+  return match ? { mimeType: match[1], data: match[2] } : { mimeType: 'image/png', data: dataUrl };
+};
+
+const attachmentRequest = (dataUrl: string, prompt: string, indicatorSymbol?: string): LLMRequest => {
+  const attachment = parseDataUrl(dataUrl);
+  return request('VISION', prompt, {
+    attachment,
+    systemInstruction: withIndicatorInstruction(
+      attachment.mimeType === 'application/pdf' ? DOCUMENT_INSTRUCTION : VISION_INSTRUCTION,
+      indicatorSymbol
+    ),
+  });
+};
+
+export const analyzeChartImage = async (dataUrl: string, prompt: string, indicatorSymbol?: string): Promise<ServiceResult<string>> => {
+  const result = await generate(attachmentRequest(dataUrl, prompt, indicatorSymbol), "Vision analysis");
+  if (result.status === 'error') return result;
+  return ok(result.data.text || "Analysis failed.");
+};
+
+export const streamChartAnalysis = (dataUrl: string, prompt: string, handlers: StreamHandlers, indicatorSymbol?: string): Promise<StreamOutcome> =>
+  streamContent(attachmentRequest(dataUrl, prompt, indicatorSymbol), handlers, "Vision analysis");
+
+// `context` is the dataset as text: either a computed summary or the (capped) data itself
+const datasetRequest = (context: string, prompt: string, indicatorSymbol?: string): LLMRequest =>
+  request('VISION', `${prompt}\n\n${context}`, { systemInstruction: withIndicatorInstruction(DATASET_INSTRUCTION, indicatorSymbol) });
+
+export const analyzeDataset = async (context: string, prompt: string, indicatorSymbol?: string): Promise<ServiceResult<string>> => {
+  const result = await generate(datasetRequest(context, prompt, indicatorSymbol), "Dataset analysis");
+  if (result.status === 'error') return result;
+  return ok(result.data.text || "Analysis failed.");
+};
+
+export const streamDatasetAnalysis = (context: string, prompt: string, handlers: StreamHandlers, indicatorSymbol?: string): Promise<StreamOutcome> =>
+  streamContent(datasetRequest(context, prompt, indicatorSymbol), handlers, "Dataset analysis");
+
+// 6. Filing Extraction (structured JSON output)
+const financialStatementsSchema = {
+  type: Type.OBJECT,
+  properties: {
+    company: { type: Type.STRING },
+    currency: { type: Type.STRING, description: "ISO code, e.g. 'USD'" },
+    unit: { type: Type.STRING, description: "Reporting scale of the figures: 'units', 'thousands', 'millions' or 'billions'" },
+    periods: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Fiscal period labels, oldest first, e.g. 'FY2023' or 'Q2 2024'" },
+    lines: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          id: { type: Type.STRING, enum: STATEMENT_LINES.map(l => l.id) },
+          label: { type: Type.STRING, description: "Caption as printed in the filing" },
+          values: { type: Type.ARRAY, items: { type: Type.NUMBER, nullable: true }, description: "One value per period, in reporting scale" },
+          pages: { type: Type.ARRAY, items: { type: Type.INTEGER, nullable: true }, description: "1-based page each value was read from" },
+        },
+        required: ['id', 'label', 'values', 'pages'],
+      },
+    },
+  },
+  required: ['company', 'currency', 'unit', 'periods', 'lines'],
+};
+
+const FILING_INSTRUCTION = `Extract the primary income statement, balance sheet and cash flow statement from the filing. Map each reported line to the closest of these ids and skip lines that do not fit one:
+${STATEMENT_LINES.map(l => `- ${l.id}: ${l.label}`).join('\n')}
+List periods oldest first and give exactly one value and one page per period, using null where a figure is not reported. Copy numbers as printed in the stated reporting scale, with expenses and outflows negative when shown in parentheses. Page numbers are 1-based positions in the supplied document (the PAGE markers for text), not printed folio numbers.`;
+
+// `filing` is either a PDF data URL or text already marked up with PAGE separators
+const filingExtractionRequest = (filing: { dataUrl: string } | { text: string }): LLMRequest =>
+  'dataUrl' in filing
+    ? request('FILING_EXTRACT', 'Extract the financial statements from the attached filing.', {
+        attachment: parseDataUrl(filing.dataUrl),
+        systemInstruction: FILING_INSTRUCTION,
+        responseSchema: financialStatementsSchema,
+      })
+    : request('FILING_EXTRACT', `FILING:\n${filing.text}`, {
+        systemInstruction: FILING_INSTRUCTION,
+        responseSchema: financialStatementsSchema,
+      });
+
+const pageNumber = (v: unknown, pageCount?: number) =>
+  Number.isInteger(v) && (v as number) >= 1 && (pageCount === undefined || (v as number) <= pageCount) ? (v as number) : null;
+
+// Unknown line ids are dropped and figure arrays are padded or cut to the period count
+export const parseFinancialStatements = (raw: string, pageCount?: number): ServiceResult<FinancialStatements> => {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    return fail(serviceError('SCHEMA', "Model returned invalid JSON", { raw }));
+  }
+  const periods = isRecord(data) && isStrArray(data.periods) ? data.periods.map(p => p.trim()) : [];
+  const records = recordsAt(data, 'lines');
+  if (!isRecord(data) || periods.length === 0 || !records) {
+    return fail(serviceError('SCHEMA', "Response has no periods or statement lines", { raw }));
   }
+  // Catalogue order, first occurrence of each id wins
+  const lines: StatementLine[] = STATEMENT_LINES.flatMap(def => {
+    const line = records.find(l => l.id === def.id);
+    if (!line) return [];
+    const values: unknown[] = Array.isArray(line.values) ? line.values : [];
+    const pages: unknown[] = Array.isArray(line.pages) ? line.pages : [];
+    return [{
+      id: def.id,
+      statement: def.statement,
+      label: str(line.label) || def.label,
+      figures: periods.map((_, i) => {
+        const value = values[i];
+        return { value: isNum(value) ? value : null, page: pageNumber(pages[i], pageCount) };
+      }),
+    }];
+  });
+  if (lines.length === 0) {
+    return fail(serviceError('SCHEMA', "No recognised statement lines in the response", { raw }));
+  }
+  return ok({
+    company: str(data.company) || 'Unknown',
+    currency: str(data.currency) || 'Unknown',
+    unit: str(data.unit) || 'units',
+    periods,
+    lines,
+  });
 };
 
-// 5. Data/Chart Analysis (Gemini 3 Pro + Vision)
-export const analyzeChartImage = async (base64Image: string, prompt: string): Promise<string> => {
-  const ai = getClient();
+// Reading a full annual report can take well over the default timeout
+const FILING_RETRY_POLICY: Partial<RetryPolicy> = { timeoutMs: 180000 };
+
+export const extractFinancialStatements = async (
+  filing: { dataUrl: string } | { text: string },
+  pageCount?: number
+): Promise<ServiceResult<FinancialStatements>> => {
+  const result = await generate(filingExtractionRequest(filing), "Filing extraction", FILING_RETRY_POLICY);
+  if (result.status === 'error') return result;
+  return parseFinancialStatements(result.data.text, pageCount);
+};
+
+// 7. Valuation Assumptions (structured JSON output)
+// The model proposes inputs only; every valuation figure is computed in valuationService
+const yearly = (description: string) => ({
+  type: Type.ARRAY,
+  items: { type: Type.NUMBER },
+  description: `${DCF_YEARS} decimals, one per projection year: ${description}`,
+});
+
+const assumptionSuggestionSchema = {
+  type: Type.OBJECT,
+  properties: {
+    baseRevenue: { type: Type.NUMBER, nullable: true, description: "Latest annual revenue in the stated unit; null when a filing supplies it" },
+    revenueGrowth: yearly('revenue growth, e.g. 0.08 for 8%'),
+    ebitMargin: yearly('EBIT margin'),
+    taxRate: { type: Type.NUMBER },
+    daPctRevenue: { type: Type.NUMBER, description: "Depreciation & amortization as a share of revenue" },
+    capexPctRevenue: { type: Type.NUMBER, description: "Capital expenditure as a share of revenue" },
+    nwcPctIncrementalRevenue: { type: Type.NUMBER, description: "Net working capital investment per unit of revenue growth" },
+    riskFreeRate: { type: Type.NUMBER },
+    beta: { type: Type.NUMBER },
+    equityRiskPremium: { type: Type.NUMBER },
+    preTaxCostOfDebt: { type: Type.NUMBER },
+    debtWeight: { type: Type.NUMBER, description: "Target debt / (debt + equity)" },
+    terminalGrowth: { type: Type.NUMBER },
+    rationale: { type: Type.STRING, description: "Short justification for the key assumptions" },
+  },
+  required: ['baseRevenue', 'revenueGrowth', 'ebitMargin', 'taxRate', 'daPctRevenue', 'capexPctRevenue', 'nwcPctIncrementalRevenue', 'riskFreeRate', 'beta', 'equityRiskPremium', 'preTaxCostOfDebt', 'debtWeight', 'terminalGrowth', 'rationale'],
+};
+
+const assumptionRequest = (context: string): LLMRequest => request('VALUATION', context, {
+  systemInstruction: "You are a valuation analyst. Propose DCF assumptions for the company described, grounded in its reported history, sector norms and stage. Express every rate as a decimal. Do not compute enterprise or equity values.",
+  responseSchema: assumptionSuggestionSchema,
+});
+
+// Sanity bounds; out-of-range or missing values are dropped so the current input is kept
+const ASSUMPTION_BOUNDS: Record<string, [number, number]> = {
+  baseRevenue: [0, Infinity],
+  taxRate: [0, 0.5],
+  daPctRevenue: [0, 0.5],
+  capexPctRevenue: [0, 0.6],
+  nwcPctIncrementalRevenue: [-0.5, 1],
+  riskFreeRate: [0, 0.15],
+  beta: [0, 4],
+  equityRiskPremium: [0, 0.15],
+  preTaxCostOfDebt: [0, 0.25],
+  debtWeight: [0, 0.9],
+  terminalGrowth: [-0.02, 0.06],
+};
+
+export const parseAssumptionSuggestion = (raw: string): ServiceResult<AssumptionSuggestion> => {
+  let data: unknown;
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-preview',
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              mimeType: 'image/png', // Assuming PNG for simplicity in this demo context, or handle dynamic types
-              data: base64Image
-            }
-          },
-          { text: prompt }
-        ]
-      },
-      config: {
-        systemInstruction: "Analyze the provided financial chart or data. Look for technical patterns (Head and Shoulders, Double Top, etc.) and trend lines. Provide a professional assessment."
-      }
-    });
-    return response.text || "Analysis failed.";
-  } catch (error) {
-    console.error("Vision analysis error:", error);
-    return "SYSTEM ERROR: VISION MODEL FAILURE";
+    data = JSON.parse(raw);
+  } catch {
+    return fail(serviceError('SCHEMA', "Model returned invalid JSON", { raw }));
+  }
+  if (!isRecord(data)) {
+    return fail(serviceError('SCHEMA', "Response is not an assumptions object", { raw }));
   }
+  const assumptions: Record<string, unknown> = {};
+  Object.entries(ASSUMPTION_BOUNDS).forEach(([key, [min, max]]) => {
+    const v = data[key];
+    if (isNum(v) && v >= min && v <= max) assumptions[key] = v;
+  });
+  const path = (v: unknown, min: number, max: number) =>
+    Array.isArray(v) && v.length > 0 && v.every(x => isNum(x) && x >= min && x <= max) ? v : undefined;
+  const growth = path(data.revenueGrowth, -0.5, 2);
+  const margin = path(data.ebitMargin, -1, 1);
+  if (growth) assumptions.revenueGrowth = growth;
+  if (margin) assumptions.ebitMargin = margin;
+  if (Object.keys(assumptions).length === 0) {
+    return fail(serviceError('SCHEMA', "No usable assumptions in the response", { raw }));
+  }
+  return ok({ assumptions, rationale: str(data.rationale) });
+};
+
+export const suggestValuationAssumptions = async (context: string): Promise<ServiceResult<AssumptionSuggestion>> => {
+  const result = await generate(assumptionRequest(context), "Valuation assumptions");
+  if (result.status === 'error') return result;
+  return parseAssumptionSuggestion(result.data.text);
+};
+
+// 8. Scenario Shocks & Narrative (optional; the P&L itself is computed deterministically)
+const shockProposalSchema = {
+  type: Type.OBJECT,
+  properties: {
+    RATES: { type: Type.NUMBER, description: "Change in the 10-year government yield, in basis points" },
+    CREDIT: { type: Type.NUMBER, description: "Change in investment-grade credit spreads, in basis points" },
+    EQUITY: { type: Type.NUMBER, description: "Broad equity index move, in percent" },
+    OIL: { type: Type.NUMBER, description: "Crude oil price move, in percent" },
+    FX: { type: Type.NUMBER, description: "Foreign currencies against the base currency, in percent (positive = base currency weakens)" },
+    analogue: { type: Type.STRING, description: "Historical episode(s) the magnitudes are sized from" },
+    rationale: { type: Type.STRING, description: "Short justification for the magnitudes" },
+  },
+  required: ['RATES', 'CREDIT', 'EQUITY', 'OIL', 'FX', 'analogue', 'rationale'],
+};
+
+// Anything beyond these is treated as a malformed answer rather than a scenario
+const SHOCK_BOUNDS: Record<ShockFactor, number> = { RATES: 1000, CREDIT: 2000, EQUITY: 80, OIL: 300, FX: 60 };
+
+export const parseShockProposal = (raw: string): ServiceResult<ShockProposal> => {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    return fail(serviceError('SCHEMA', "Model returned invalid JSON", { raw }));
+  }
+  if (!isRecord(data)) {
+    return fail(serviceError('SCHEMA', "Response is not a shock proposal", { raw }));
+  }
+  const shocks: Partial<Record<ShockFactor, number>> = {};
+  (Object.keys(SHOCK_BOUNDS) as ShockFactor[]).forEach(factor => {
+    const v = data[factor];
+    if (isNum(v) && Math.abs(v) <= SHOCK_BOUNDS[factor]) shocks[factor] = Math.round(v * 10) / 10;
+  });
+  if (Object.keys(shocks).length === 0) {
+    return fail(serviceError('SCHEMA', "No usable shocks in the response", { raw }));
+  }
+  return ok({ shocks, analogue: str(data.analogue), rationale: str(data.rationale) });
+};
+
+export const proposeScenarioShocks = async (description: string): Promise<ServiceResult<ShockProposal>> => {
+  const result = await generate(
+    request('SCENARIO', `Scenario: ${description}`, {
+      systemInstruction: "You are a macro strategist sizing stress-test shocks. Size each factor from the closest historical analogues (name them) over a comparable horizon. Return only the factor moves; do not estimate portfolio P&L.",
+      responseSchema: shockProposalSchema,
+    }),
+    "Scenario shocks"
+  );
+  if (result.status === 'error') return result;
+  return parseShockProposal(result.data.text);
+};
+
+export const narrateScenario = async (context: string): Promise<ServiceResult<string>> => {
+  const result = await generate(
+    request('SCENARIO_NARRATIVE', context, {
+      systemInstruction: "You are a risk manager writing a short stress-test note. The P&L figures supplied were computed exactly; quote them, do not recompute or contradict them. Explain which factors and lines drive the result, the transmission channels, and what hedges would reduce the loss. Be concise. No emojis.",
+    }),
+    "Scenario narrative"
+  );
+  if (result.status === 'error') return result;
+  return ok(result.data.text || "Narrative unavailable.");
 };
@@ -0,0 +1,36 @@
+import { GeolocationResult } from "../types";
+
+const REASONS: Record<number, Extract<GeolocationResult, { status: 'error' }>['reason']> = {
+  1: 'DENIED',
+  2: 'UNAVAILABLE',
+  3: 'TIMEOUT',
+};
+
+const MESSAGES: Record<Extract<GeolocationResult, { status: 'error' }>['reason'], string> = {
+  DENIED: 'Location permission denied. Allow location access for this site or pick a point on the map.',
+  UNAVAILABLE: 'Position unavailable. Check that location services are enabled.',
+  TIMEOUT: 'Timed out waiting for a position fix.',
+  UNSUPPORTED: 'This browser does not support geolocation.',
+};
+
+// Resolves (never rejects) with the current position or the reason it could not be read
+export const locateUser = (timeoutMs = 10000): Promise<GeolocationResult> => {
+  if (typeof navigator === 'undefined' || !navigator.geolocation) {
+    return Promise.resolve({ status: 'error', reason: 'UNSUPPORTED', message: MESSAGES.UNSUPPORTED });
+  }
+  return new Promise(resolve => {
+    navigator.geolocation.getCurrentPosition(
+      position => resolve({
+        status: 'ok',
+        lat: position.coords.latitude,
+        lng: position.coords.longitude,
+        accuracyM: position.coords.accuracy,
+      }),
+      error => {
+        const reason = REASONS[error.code] ?? 'UNAVAILABLE';
+        resolve({ status: 'error', reason, message: MESSAGES[reason] });
+      },
+      { enableHighAccuracy: false, timeout: timeoutMs, maximumAge: 5 * 60 * 1000 }
+    );
+  });
+};
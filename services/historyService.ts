@@ -0,0 +1,116 @@
+import { HistoryEntry, HistoryModule, Workspace } from "../types";
+
+// IndexedDB-backed run history; large outputs and chart images would not fit in localStorage
+const DB_NAME = 'quantcore';
+const DB_VERSION = 1;
+const HISTORY_STORE = 'history';
+const WORKSPACE_STORE = 'workspaces';
+
+export const DEFAULT_WORKSPACE: Workspace = { id: 'default', name: 'Default', createdAt: 0 };
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        const history = db.createObjectStore(HISTORY_STORE, { keyPath: 'id' });
+        history.createIndex('workspaceId', 'workspaceId');
+        db.createObjectStore(WORKSPACE_STORE, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later call to retry after e.g. a blocked upgrade
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const store = async (name: string, mode: IDBTransactionMode) =>
+  (await openDb()).transaction(name, mode).objectStore(name);
+
+export const createHistoryId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// 1. History entries
+export const addHistoryEntry = async (entry: HistoryEntry): Promise<void> => {
+  try {
+    await promisify((await store(HISTORY_STORE, 'readwrite')).put(entry));
+  } catch (error) {
+    console.error("History write error:", error);
+  }
+};
+
+// Newest first
+export const listHistory = async (workspaceId: string, module?: HistoryModule): Promise<HistoryEntry[]> => {
+  try {
+    const index = (await store(HISTORY_STORE, 'readonly')).index('workspaceId');
+    const entries = await promisify(index.getAll(workspaceId) as IDBRequest<HistoryEntry[]>);
+    return entries
+      .filter(e => !module || e.module === module)
+      .sort((a, b) => b.timestamp - a.timestamp);
+  } catch (error) {
+    console.error("History read error:", error);
+    return [];
+  }
+};
+
+export const deleteHistoryEntry = async (id: string): Promise<void> => {
+  try {
+    await promisify((await store(HISTORY_STORE, 'readwrite')).delete(id));
+  } catch (error) {
+    console.error("History delete error:", error);
+  }
+};
+
+// Case-insensitive match over the query, output, model and source titles
+export const matchesHistorySearch = (entry: HistoryEntry, search: string): boolean => {
+  const needle = search.trim().toLowerCase();
+  if (!needle) return true;
+  const sources = (entry.groundingChunks || []).map(c => c.web?.title || c.maps?.title || '').join(' ');
+  return [entry.query, entry.output, entry.model, sources].some(text => text.toLowerCase().includes(needle));
+};
+
+// 2. Workspaces
+export const listWorkspaces = async (): Promise<Workspace[]> => {
+  try {
+    const workspaces = await promisify((await store(WORKSPACE_STORE, 'readonly')).getAll() as IDBRequest<Workspace[]>);
+    return [DEFAULT_WORKSPACE, ...workspaces.filter(w => w.id !== DEFAULT_WORKSPACE.id).sort((a, b) => a.createdAt - b.createdAt)];
+  } catch (error) {
+    console.error("Workspace read error:", error);
+    return [DEFAULT_WORKSPACE];
+  }
+};
+
+export const saveWorkspace = async (workspace: Workspace): Promise<void> => {
+  try {
+    await promisify((await store(WORKSPACE_STORE, 'readwrite')).put(workspace));
+  } catch (error) {
+    console.error("Workspace write error:", error);
+  }
+};
+
+// Removes the workspace together with every run recorded in it
+export const deleteWorkspace = async (id: string): Promise<void> => {
+  try {
+    const db = await openDb();
+    const tx = db.transaction([WORKSPACE_STORE, HISTORY_STORE], 'readwrite');
+    tx.objectStore(WORKSPACE_STORE).delete(id);
+    const keys = await promisify(tx.objectStore(HISTORY_STORE).index('workspaceId').getAllKeys(id));
+    keys.forEach(key => tx.objectStore(HISTORY_STORE).delete(key));
+    await new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  } catch (error) {
+    console.error("Workspace delete error:", error);
+  }
+};
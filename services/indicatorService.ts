@@ -0,0 +1,277 @@
+import { IndicatorPoint, OHLCBar, PatternMatch, StockData } from "../types";
+
+// All series are aligned with the input bars; warm-up bars are null so charts leave a gap
+type Series = (number | null)[];
+
+const round = (v: number | null, digits = 4): number | null =>
+  v === null || !Number.isFinite(v) ? null : Number(v.toFixed(digits));
+
+// 1. Moving Averages
+export const sma = (values: number[], period: number): Series => {
+  const out: Series = [];
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) {
+    sum += values[i];
+    if (i >= period) sum -= values[i - period];
+    out.push(i >= period - 1 ? sum / period : null);
+  }
+  return out;
+};
+
+export const ema = (values: number[], period: number): Series => {
+  const out: Series = [];
+  const k = 2 / (period + 1);
+  let prev: number | null = null;
+  for (let i = 0; i < values.length; i++) {
+    if (i < period - 1) {
+      out.push(null);
+    } else if (prev === null) {
+      // Seed with the SMA of the first full window
+      prev = values.slice(0, period).reduce((a, b) => a + b, 0) / period;
+      out.push(prev);
+    } else {
+      prev = values[i] * k + prev * (1 - k);
+      out.push(prev);
+    }
+  }
+  return out;
+};
+
+// 2. Oscillators
+// A flat stretch (no gains and no losses) is neutral, not overbought
+const rsiValue = (gain: number, loss: number) => {
+  if (loss === 0) return gain === 0 ? 50 : 100;
+  return 100 - 100 / (1 + gain / loss);
+};
+
+export const rsi = (values: number[], period = 14): Series => {
+  const out: Series = values.map(() => null);
+  if (values.length <= period) return out;
+  let gain = 0;
+  let loss = 0;
+  for (let i = 1; i <= period; i++) {
+    const d = values[i] - values[i - 1];
+    if (d >= 0) gain += d; else loss -= d;
+  }
+  gain /= period;
+  loss /= period;
+  out[period] = rsiValue(gain, loss);
+  // Wilder smoothing
+  for (let i = period + 1; i < values.length; i++) {
+    const d = values[i] - values[i - 1];
+    gain = (gain * (period - 1) + Math.max(d, 0)) / period;
+    loss = (loss * (period - 1) + Math.max(-d, 0)) / period;
+    out[i] = rsiValue(gain, loss);
+  }
+  return out;
+};
+
+export const macd = (values: number[], fast = 12, slow = 26, signal = 9) => {
+  const fastEma = ema(values, fast);
+  const slowEma = ema(values, slow);
+  const line: Series = values.map((_, i) =>
+    fastEma[i] !== null && slowEma[i] !== null ? (fastEma[i] as number) - (slowEma[i] as number) : null
+  );
+  const firstValid = line.findIndex(v => v !== null);
+  const signalLine: Series = values.map(() => null);
+  if (firstValid >= 0) {
+    const tail = ema(line.slice(firstValid) as number[], signal);
+    tail.forEach((v, j) => { signalLine[firstValid + j] = v; });
+  }
+  const histogram: Series = line.map((v, i) =>
+    v !== null && signalLine[i] !== null ? v - (signalLine[i] as number) : null
+  );
+  return { line, signal: signalLine, histogram };
+};
+
+// 3. Volatility
+export const bollingerBands = (values: number[], period = 20, mult = 2) => {
+  const middle = sma(values, period);
+  const upper: Series = [];
+  const lower: Series = [];
+  for (let i = 0; i < values.length; i++) {
+    const m = middle[i];
+    if (m === null) {
+      upper.push(null);
+      lower.push(null);
+      continue;
+    }
+    const window = values.slice(i - period + 1, i + 1);
+    const sd = Math.sqrt(window.reduce((acc, v) => acc + (v - m) ** 2, 0) / period);
+    upper.push(m + mult * sd);
+    lower.push(m - mult * sd);
+  }
+  return { upper, middle, lower };
+};
+
+export const atr = (candles: OHLCBar[], period = 14): Series => {
+  const out: Series = candles.map(() => null);
+  if (candles.length <= period) return out;
+  const tr = candles.map((c, i) => {
+    if (i === 0) return c.high - c.low;
+    const prevClose = candles[i - 1].close;
+    return Math.max(c.high - c.low, Math.abs(c.high - prevClose), Math.abs(c.low - prevClose));
+  });
+  let value = tr.slice(1, period + 1).reduce((a, b) => a + b, 0) / period;
+  out[period] = value;
+  for (let i = period + 1; i < candles.length; i++) {
+    value = (value * (period - 1) + tr[i]) / period;
+    out[i] = value;
+  }
+  return out;
+};
+
+// 4. Volume
+export const vwap = (bars: StockData[]): Series => {
+  let pv = 0;
+  let vol = 0;
+  return bars.map(b => {
+    pv += b.price * b.volume;
+    vol += b.volume;
+    return vol > 0 ? pv / vol : null;
+  });
+};
+
+// 5. Pattern Detection (rule-based, on closes)
+interface PatternOptions {
+  // Bars on each side a pivot must dominate
+  pivotWindow?: number;
+  // Max relative difference between "equal" peaks
+  tolerance?: number;
+  // Min relative depth of the trough(s) below the peaks
+  minDepth?: number;
+}
+
+const findPivots = (values: number[], window: number, kind: 'high' | 'low'): number[] => {
+  const pivots: number[] = [];
+  for (let i = window; i < values.length - window; i++) {
+    let isPivot = true;
+    for (let j = i - window; j <= i + window && isPivot; j++) {
+      if (j === i) continue;
+      if (kind === 'high' ? values[j] > values[i] : values[j] < values[i]) isPivot = false;
+    }
+    if (isPivot) pivots.push(i);
+  }
+  return pivots;
+};
+
+const lowestBetween = (values: number[], from: number, to: number): number => {
+  let min = Infinity;
+  for (let i = from + 1; i < to; i++) min = Math.min(min, values[i]);
+  return min;
+};
+
+const brokeBelow = (values: number[], after: number, level: number): boolean =>
+  values.slice(after + 1).some(v => v < level);
+
+export const detectPatterns = (bars: StockData[], options: PatternOptions = {}): PatternMatch[] => {
+  const window = options.pivotWindow ?? 3;
+  const tolerance = options.tolerance ?? 0.015;
+  const minDepth = options.minDepth ?? 0.01;
+  const closes = bars.map(b => b.price);
+  const peaks = findPivots(closes, window, 'high');
+  const matches: PatternMatch[] = [];
+
+  // Double top: two consecutive peaks of similar height with a meaningful trough between
+  for (let p = 0; p + 1 < peaks.length; p++) {
+    const [a, b] = [peaks[p], peaks[p + 1]];
+    const top = Math.max(closes[a], closes[b]);
+    const trough = lowestBetween(closes, a, b);
+    if (Math.abs(closes[a] - closes[b]) / top <= tolerance && (top - trough) / top >= minDepth) {
+      matches.push({
+        type: 'DOUBLE_TOP',
+        peaks: [a, b],
+        startIndex: a,
+        endIndex: b,
+        neckline: trough,
+        confirmed: brokeBelow(closes, b, trough),
+      });
+    }
+  }
+
+  // Head and shoulders: three consecutive peaks, middle highest, shoulders roughly level
+  for (let p = 0; p + 2 < peaks.length; p++) {
+    const [ls, head, rs] = [peaks[p], peaks[p + 1], peaks[p + 2]];
+    const shoulder = Math.max(closes[ls], closes[rs]);
+    if (closes[head] <= shoulder * (1 + minDepth)) continue;
+    if (Math.abs(closes[ls] - closes[rs]) / shoulder > tolerance * 2) continue;
+    const neckline = Math.min(lowestBetween(closes, ls, head), lowestBetween(closes, head, rs));
+    if ((shoulder - neckline) / shoulder < minDepth) continue;
+    matches.push({
+      type: 'HEAD_AND_SHOULDERS',
+      peaks: [ls, head, rs],
+      startIndex: ls,
+      endIndex: rs,
+      neckline,
+      confirmed: brokeBelow(closes, rs, neckline),
+    });
+  }
+
+  return matches;
+};
+
+// 6. Aggregation for charts and prompts
+export const INDICATOR_PARAMS = {
+  smaPeriod: 20,
+  emaPeriod: 9,
+  bbPeriod: 20,
+  bbMult: 2,
+  rsiPeriod: 14,
+  atrPeriod: 14,
+};
+
+export const computeIndicators = (candles: OHLCBar[]): IndicatorPoint[] => {
+  const closes = candles.map(c => c.close);
+  const smaSeries = sma(closes, INDICATOR_PARAMS.smaPeriod);
+  const emaSeries = ema(closes, INDICATOR_PARAMS.emaPeriod);
+  const bb = bollingerBands(closes, INDICATOR_PARAMS.bbPeriod, INDICATOR_PARAMS.bbMult);
+  const vwapSeries = vwap(candles.map(c => ({ time: c.time, price: c.close, volume: c.volume })));
+  const rsiSeries = rsi(closes, INDICATOR_PARAMS.rsiPeriod);
+  const macdSeries = macd(closes);
+  const atrSeries = atr(candles, INDICATOR_PARAMS.atrPeriod);
+
+  return candles.map((c, i) => ({
+    ...c,
+    sma: round(smaSeries[i]),
+    ema: round(emaSeries[i]),
+    bbUpper: round(bb.upper[i]),
+    bbMiddle: round(bb.middle[i]),
+    bbLower: round(bb.lower[i]),
+    vwap: round(vwapSeries[i]),
+    rsi: round(rsiSeries[i], 2),
+    macd: round(macdSeries.line[i]),
+    macdSignal: round(macdSeries.signal[i]),
+    macdHist: round(macdSeries.histogram[i]),
+    atr: round(atrSeries[i]),
+  }));
+};
+
+const fmt = (v: number | null) => (v === null ? 'n/a' : String(v));
+
+// Plain-text block appended to model prompts so analysis is grounded in computed values
+export const formatIndicatorContext = (symbol: string, interval: string, candles: OHLCBar[]): string => {
+  if (candles.length === 0) return '';
+  const points = computeIndicators(candles);
+  const last = points[points.length - 1];
+  const first = points[0];
+  const patterns = detectPatterns(candles.map(c => ({ time: c.time, price: c.close, volume: c.volume })));
+
+  const lines = [
+    `[COMPUTED INDICATORS: ${symbol} ${interval}, ${candles.length} bars ${first.time} -> ${last.time}]`,
+    `Last: O ${last.open} H ${last.high} L ${last.low} C ${last.close} V ${last.volume}`,
+    `Period change: ${(((last.close - first.close) / first.close) * 100).toFixed(2)}%`,
+    `SMA(${INDICATOR_PARAMS.smaPeriod}): ${fmt(last.sma)} | EMA(${INDICATOR_PARAMS.emaPeriod}): ${fmt(last.ema)} | VWAP: ${fmt(last.vwap)}`,
+    `Bollinger(${INDICATOR_PARAMS.bbPeriod},${INDICATOR_PARAMS.bbMult}): upper ${fmt(last.bbUpper)} / mid ${fmt(last.bbMiddle)} / lower ${fmt(last.bbLower)}`,
+    `RSI(${INDICATOR_PARAMS.rsiPeriod}): ${fmt(last.rsi)} | ATR(${INDICATOR_PARAMS.atrPeriod}): ${fmt(last.atr)}`,
+    `MACD(12,26,9): line ${fmt(last.macd)} / signal ${fmt(last.macdSignal)} / hist ${fmt(last.macdHist)}`,
+  ];
+  if (patterns.length === 0) {
+    lines.push('Patterns: none detected');
+  } else {
+    patterns.forEach(p => {
+      const peaks = p.peaks.map(i => `${candles[i].time}@${candles[i].close}`).join(', ');
+      lines.push(`Pattern: ${p.type} peaks [${peaks}] neckline ${p.neckline.toFixed(2)} ${p.confirmed ? 'CONFIRMED (broke neckline)' : 'unconfirmed'}`);
+    });
+  }
+  return lines.join('\n');
+};
@@ -0,0 +1,227 @@
+import { LayoutNode, LayoutPane, LayoutSplit, ModuleType, PanelKind, SavedLayout } from "../types";
+
+export const PANEL_LABELS: Record<PanelKind, string> = {
+  [ModuleType.DASHBOARD]: 'Market Dashboard',
+  [ModuleType.QUANT_PREDICT]: 'Quant Prediction',
+  [ModuleType.DEAL_FLOW]: 'Deal Sourcing',
+  [ModuleType.RESOURCE_MAP]: 'Global Resources',
+  [ModuleType.DATA_LAB]: 'Data Lab',
+  [ModuleType.BACKTEST]: 'Backtester',
+  [ModuleType.PORTFOLIO]: 'Portfolio',
+  [ModuleType.VALUATION]: 'Valuation',
+  [ModuleType.SCENARIO]: 'Scenarios',
+  CHART: 'Chart',
+  WATCHLIST: 'Watchlist',
+  NEWS: 'News',
+  QUANT_THREAD: 'Quant Thread',
+  DEAL_OUTPUT: 'Deal Memo Output',
+  RESOURCE_OUTPUT: 'Geospatial Report',
+  ANALYSIS_OUTPUT: 'Data Lab Output',
+};
+
+export const PANEL_KINDS = Object.keys(PANEL_LABELS) as PanelKind[];
+
+// Module a docked piece belongs to; drives the header title, nav highlight and run history
+export const PANEL_MODULES: Record<PanelKind, ModuleType> = {
+  ...(Object.fromEntries(Object.values(ModuleType).map(m => [m, m])) as Record<ModuleType, ModuleType>),
+  CHART: ModuleType.DASHBOARD,
+  WATCHLIST: ModuleType.DASHBOARD,
+  NEWS: ModuleType.DASHBOARD,
+  QUANT_THREAD: ModuleType.QUANT_PREDICT,
+  DEAL_OUTPUT: ModuleType.DEAL_FLOW,
+  RESOURCE_OUTPUT: ModuleType.RESOURCE_MAP,
+  ANALYSIS_OUTPUT: ModuleType.DATA_LAB,
+};
+
+// Panels that read the pane's symbol, so linking matters for them
+export const SYMBOL_PANELS: PanelKind[] = [ModuleType.DASHBOARD, ModuleType.BACKTEST, 'CHART', 'WATCHLIST'];
+
+// Market views can be open several times (e.g. charts pinned to different symbols); the rest hold
+// one module's state and form inputs, so each appears at most once in a layout
+export const REPEATABLE_PANELS: PanelKind[] = [ModuleType.DASHBOARD, 'CHART', 'WATCHLIST', 'NEWS'];
+
+export const MAX_SAVED_LAYOUTS = 20;
+// No pane can be resized below this share of its split
+const MIN_SIZE = 0.1;
+
+export type DockZone = 'center' | 'left' | 'right' | 'top' | 'bottom';
+
+const createId = (prefix: string) => `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+export const createPane = (tabs: PanelKind[], symbol: string, linked = true): LayoutPane => ({
+  type: 'pane',
+  id: createId('pane'),
+  tabs,
+  active: 0,
+  linked,
+  symbol,
+});
+
+const createSplit = (direction: LayoutSplit['direction'], children: LayoutNode[], sizes?: number[]): LayoutSplit => ({
+  type: 'split',
+  id: createId('split'),
+  direction,
+  sizes: sizes ?? children.map(() => 1 / children.length),
+  children,
+});
+
+export const defaultLayout = (symbol: string): LayoutNode => createPane([ModuleType.DASHBOARD], symbol);
+
+export const LAYOUT_PRESETS: { name: string; build: (symbol: string) => LayoutNode }[] = [
+  { name: 'Single module', build: defaultLayout },
+  {
+    name: 'Chart + quant',
+    build: (symbol) => createSplit('row', [createPane(['CHART', 'WATCHLIST'], symbol), createPane([ModuleType.QUANT_PREDICT], symbol)], [0.55, 0.45]),
+  },
+  {
+    name: 'Research desk',
+    build: (symbol) => createSplit('row', [
+      createSplit('column', [createPane(['CHART'], symbol), createPane(['NEWS', 'WATCHLIST'], symbol)], [0.6, 0.4]),
+      createSplit('column', [createPane(['QUANT_THREAD', 'DEAL_OUTPUT'], symbol), createPane([ModuleType.PORTFOLIO, ModuleType.SCENARIO], symbol)]),
+    ]),
+  },
+];
+
+// 1. Queries
+export const layoutPanes = (node: LayoutNode): LayoutPane[] =>
+  node.type === 'pane' ? [node] : node.children.flatMap(layoutPanes);
+
+export const findPane = (node: LayoutNode, id: string | null): LayoutPane | undefined =>
+  layoutPanes(node).find(p => p.id === id);
+
+export const findPanel = (node: LayoutNode, kind: PanelKind): LayoutPane | undefined =>
+  layoutPanes(node).find(p => p.tabs.includes(kind));
+
+// Kinds that can still be added to a pane
+export const addablePanels = (node: LayoutNode, pane: LayoutPane): PanelKind[] =>
+  PANEL_KINDS.filter(k => !pane.tabs.includes(k) && (REPEATABLE_PANELS.includes(k) || !findPanel(node, k)));
+
+// 2. Edits (all return a new tree)
+const mapNode = (node: LayoutNode, fn: (n: LayoutNode) => LayoutNode): LayoutNode => {
+  const next = fn(node);
+  return next.type === 'split' ? { ...next, children: next.children.map(c => mapNode(c, fn)) } : next;
+};
+
+export const updatePane = (root: LayoutNode, id: string, patch: Partial<Omit<LayoutPane, 'type' | 'id'>>): LayoutNode =>
+  mapNode(root, n => (n.type === 'pane' && n.id === id ? { ...n, ...patch } : n));
+
+export const resizeSplit = (root: LayoutNode, id: string, sizes: number[]): LayoutNode =>
+  mapNode(root, n => (n.type === 'split' && n.id === id ? { ...n, sizes } : n));
+
+// Drops empty panes and collapses splits left with a single child
+const prune = (node: LayoutNode): LayoutNode | null => {
+  if (node.type === 'pane') return node.tabs.length ? node : null;
+  const kept = node.children.map((c, i) => ({ node: prune(c), size: node.sizes[i] })).filter(c => c.node);
+  if (kept.length === 0) return null;
+  if (kept.length === 1) return kept[0].node;
+  const total = kept.reduce((sum, c) => sum + c.size, 0);
+  return { ...node, children: kept.map(c => c.node!), sizes: kept.map(c => c.size / total) };
+};
+
+// Shows `kind` where it is already open, otherwise swaps it into the focused pane's active tab
+export const openPanel = (root: LayoutNode, focusedId: string | null, kind: PanelKind): { root: LayoutNode; paneId: string } => {
+  const existing = findPanel(root, kind);
+  if (existing) return { root: updatePane(root, existing.id, { active: existing.tabs.indexOf(kind) }), paneId: existing.id };
+  const pane = findPane(root, focusedId) ?? layoutPanes(root)[0];
+  const tabs = pane.tabs.map((t, i) => (i === pane.active ? kind : t));
+  return { root: updatePane(root, pane.id, { tabs, active: pane.active }), paneId: pane.id };
+};
+
+export const addTab = (root: LayoutNode, paneId: string, kind: PanelKind): LayoutNode => {
+  const pane = findPane(root, paneId);
+  if (!pane) return root;
+  const index = pane.tabs.indexOf(kind);
+  if (index >= 0) return updatePane(root, paneId, { active: index });
+  return updatePane(root, paneId, { tabs: [...pane.tabs, kind], active: pane.tabs.length });
+};
+
+// Closing the last tab removes the pane; the layout always keeps at least one
+export const closeTab = (root: LayoutNode, paneId: string, index: number, symbol: string): LayoutNode => {
+  const pane = findPane(root, paneId);
+  if (!pane) return root;
+  const tabs = pane.tabs.filter((_, i) => i !== index);
+  const active = Math.max(0, Math.min(pane.active > index ? pane.active - 1 : pane.active, tabs.length - 1));
+  return prune(updatePane(root, paneId, { tabs, active })) ?? defaultLayout(symbol);
+};
+
+// Puts `pane` next to `targetId`; joins the parent split when it already runs in that direction
+const insertBeside = (node: LayoutNode, targetId: string, pane: LayoutPane, zone: Exclude<DockZone, 'center'>): LayoutNode => {
+  const direction = zone === 'left' || zone === 'right' ? 'row' : 'column';
+  const before = zone === 'left' || zone === 'top';
+  if (node.type === 'pane') {
+    if (node.id !== targetId) return node;
+    return createSplit(direction, before ? [pane, node] : [node, pane]);
+  }
+  const index = node.children.findIndex(c => c.type === 'pane' && c.id === targetId);
+  if (index >= 0 && node.direction === direction) {
+    const half = node.sizes[index] / 2;
+    const children = [...node.children];
+    const sizes = [...node.sizes];
+    children.splice(before ? index : index + 1, 0, pane);
+    sizes.splice(index, 1, half, half);
+    return { ...node, children, sizes };
+  }
+  return { ...node, children: node.children.map(c => insertBeside(c, targetId, pane, zone)) };
+};
+
+export const splitPane = (root: LayoutNode, paneId: string, zone: Exclude<DockZone, 'center'>, kind: PanelKind, symbol: string): LayoutNode => {
+  const target = findPane(root, paneId);
+  if (!target) return root;
+  return insertBeside(root, paneId, createPane([kind], target.linked ? symbol : target.symbol, target.linked), zone);
+};
+
+// Drag-and-drop docking: into another pane's tabs, or beside it as a new pane
+export const moveTab = (root: LayoutNode, fromId: string, index: number, toId: string, zone: DockZone, symbol: string): LayoutNode => {
+  const source = findPane(root, fromId);
+  const kind = source?.tabs[index];
+  if (!source || !kind) return root;
+  if (fromId === toId && (zone === 'center' || source.tabs.length === 1)) return root;
+  const without = closeTab(root, fromId, index, symbol);
+  if (!findPane(without, toId)) return root;
+  if (zone === 'center') return addTab(without, toId, kind);
+  return insertBeside(without, toId, { ...createPane([kind], source.symbol, source.linked) }, zone);
+};
+
+// Moves the divider after child `index` by `delta` (a share of the split), keeping both sides above the minimum
+export const dragDivider = (sizes: number[], index: number, delta: number): number[] => {
+  const pair = sizes[index] + sizes[index + 1];
+  const left = Math.min(pair - MIN_SIZE, Math.max(MIN_SIZE, sizes[index] + delta));
+  return sizes.map((s, i) => (i === index ? left : i === index + 1 ? pair - left : s));
+};
+
+// 3. Storage
+// Stored layouts are re-checked on load so a stale or hand-edited entry can't break rendering
+export const normalizeLayout = (node: any): LayoutNode | null => {
+  if (!node || typeof node !== 'object' || typeof node.id !== 'string') return null;
+  if (node.type === 'pane') {
+    const tabs = Array.isArray(node.tabs) ? Array.from(new Set(node.tabs.filter((t: any) => PANEL_KINDS.includes(t)))) as PanelKind[] : [];
+    if (tabs.length === 0) return null;
+    return {
+      type: 'pane',
+      id: node.id,
+      tabs,
+      active: Number.isInteger(node.active) ? Math.min(Math.max(node.active, 0), tabs.length - 1) : 0,
+      linked: node.linked !== false,
+      symbol: typeof node.symbol === 'string' && node.symbol ? node.symbol : 'SPX',
+    };
+  }
+  if (node.type !== 'split' || !Array.isArray(node.children) || (node.direction !== 'row' && node.direction !== 'column')) return null;
+  const sizes = Array.isArray(node.sizes) && node.sizes.length === node.children.length ? node.sizes : node.children.map(() => 1);
+  return prune({
+    type: 'split',
+    id: node.id,
+    direction: node.direction,
+    sizes: sizes.map((s: any) => (typeof s === 'number' && s > 0 ? s : MIN_SIZE)),
+    children: node.children.map(normalizeLayout).map((c: LayoutNode | null) => c ?? { type: 'pane', id: createId('pane'), tabs: [], active: 0, linked: true, symbol: 'SPX' }),
+  });
+};
+
+export const saveLayout = (layouts: SavedLayout[], name: string, root: LayoutNode): SavedLayout[] => {
+  const trimmed = name.trim();
+  const existing = layouts.find(l => l.name.toLowerCase() === trimmed.toLowerCase());
+  const entry: SavedLayout = { id: existing?.id ?? createId('layout'), name: trimmed, root, savedAt: Date.now() };
+  return [entry, ...layouts.filter(l => l.id !== entry.id)].slice(0, MAX_SAVED_LAYOUTS);
+};
+
+export const describeLayout = (root: LayoutNode): string =>
+  layoutPanes(root).map(p => p.tabs.map(t => PANEL_LABELS[t]).join(' + ')).join(' | ');
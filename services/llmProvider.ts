@@ -0,0 +1,46 @@
+import { LLMProvider, LLMProviderId, ModelSettings, ModelSlot } from "../types";
+import { createGeminiProvider } from "./geminiProvider";
+import { createMockProvider } from "./mockProvider";
+
+export const MODEL_SLOTS: { slot: ModelSlot; label: string }[] = [
+  { slot: 'NEWS', label: 'News Tagging' },
+  { slot: 'QUANT', label: 'Quant Predict' },
+  { slot: 'DEALS', label: 'Deal Flow (Search)' },
+  { slot: 'DEAL_EXTRACT', label: 'Deal Extraction' },
+  { slot: 'RESOURCES', label: 'Resource Map (Maps)' },
+  { slot: 'RESOURCE_EXTRACT', label: 'Resource Site Extraction' },
+  { slot: 'VISION', label: 'Data Lab' },
+  { slot: 'FILING_EXTRACT', label: 'Filing Extraction' },
+  { slot: 'VALUATION', label: 'Valuation Assumptions' },
+  { slot: 'SCENARIO', label: 'Scenario Shocks' },
+  { slot: 'SCENARIO_NARRATIVE', label: 'Scenario Narrative' },
+];
+
+const providers: Record<LLMProviderId, LLMProvider> = {
+  gemini: createGeminiProvider(),
+  mock: createMockProvider(),
+};
+
+export const listProviders = (): LLMProvider[] => Object.values(providers);
+
+export const getProvider = (id: LLMProviderId): LLMProvider => providers[id] || providers.gemini;
+
+// Without a key nothing live can run, so start offline
+export const DEFAULT_MODEL_SETTINGS: ModelSettings = {
+  providerId: process.env.API_KEY ? 'gemini' : 'mock',
+  models: {},
+};
+
+let activeSettings: ModelSettings = DEFAULT_MODEL_SETTINGS;
+
+export const configureModels = (settings: ModelSettings) => {
+  activeSettings = settings;
+};
+
+export const getActiveProvider = (): LLMProvider => getProvider(activeSettings.providerId);
+
+export const resolveModel = (slot: ModelSlot, settings: ModelSettings = activeSettings): string => {
+  const provider = getProvider(settings.providerId);
+  const chosen = settings.models[slot];
+  return chosen && provider.models.includes(chosen) ? chosen : provider.defaultModels[slot];
+};
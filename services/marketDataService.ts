@@ -0,0 +1,260 @@
+import { BarInterval, MarketDataProvider, OHLCBar, StockData, WatchlistQuote } from "../types";
+import { asNumber, parseDelimited } from "./datasetService";
+
+export const BAR_INTERVALS: BarInterval[] = ['1m', '5m', '15m', '1h', '1d'];
+
+const INTERVAL_MS: Record<BarInterval, number> = {
+  '1m': 60_000,
+  '5m': 300_000,
+  '15m': 900_000,
+  '1h': 3_600_000,
+  '1d': 86_400_000,
+};
+
+// Helper: stable 32-bit hash so the same symbol always seeds the same series
+const hashString = (value: string): number => {
+  let h = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 16777619);
+  }
+  return h >>> 0;
+};
+
+// Helper: mulberry32 PRNG, returns floats in [0, 1)
+const createRng = (seed: number) => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6D2B79F5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const pad = (n: number) => (n < 10 ? '0' + n : String(n));
+
+export const formatBarTime = (epochMs: number, interval: BarInterval): string => {
+  const d = new Date(epochMs);
+  if (interval === '1d') {
+    return `${d.getUTCFullYear()}-${pad(d.getUTCMonth() + 1)}-${pad(d.getUTCDate())}`;
+  }
+  return `${pad(d.getUTCHours())}:${pad(d.getUTCMinutes())}`;
+};
+
+export const candlesToBars = (candles: OHLCBar[]): StockData[] =>
+  candles.map(c => ({ time: c.time, price: c.close, volume: c.volume }));
+
+// Close-only series become flat candles opening at the previous close
+export const barsToCandles = (bars: StockData[]): OHLCBar[] =>
+  bars.map((b, i) => {
+    const open = i > 0 ? bars[i - 1].price : b.price;
+    return {
+      time: b.time,
+      open,
+      high: Math.max(open, b.price),
+      low: Math.min(open, b.price),
+      close: b.price,
+      volume: b.volume,
+    };
+  });
+
+// 1. Deterministic Replay Provider (offline, seeded random walk per symbol/interval)
+const REPLAY_BASE_PRICES: Record<string, number> = {
+  SPX: 4200,
+  NDX: 14800,
+  DJI: 34500,
+  AAPL: 185,
+  MSFT: 410,
+  NVDA: 880,
+  TSLA: 240,
+  GLD: 190,
+  USO: 72,
+  BTC: 64000,
+};
+
+interface ReplayProviderOptions {
+  seed?: number;
+  length?: number;
+  // Timestamp of the last bar, fixed so every run replays the same series
+  anchor?: number;
+}
+
+export const createReplayProvider = (options: ReplayProviderOptions = {}): MarketDataProvider => {
+  const seed = options.seed ?? 42;
+  const length = options.length ?? 120;
+  const anchor = options.anchor ?? Date.UTC(2025, 0, 31, 16, 0);
+
+  const getCandles = async (symbol: string, interval: BarInterval): Promise<OHLCBar[]> => {
+    const key = symbol.toUpperCase();
+    const rng = createRng(seed ^ hashString(`${key}:${interval}`));
+    const base = REPLAY_BASE_PRICES[key] ?? 20 + (hashString(key) % 480);
+    // Scale volatility with bar length so daily bars move more than minute bars
+    const vol = 0.0015 * Math.sqrt(INTERVAL_MS[interval] / INTERVAL_MS['1m']) / 4;
+    const drift = (rng() - 0.5) * vol * 0.2;
+    const step = INTERVAL_MS[interval];
+
+    const candles: OHLCBar[] = [];
+    let price = base;
+    for (let i = 0; i < length; i++) {
+      const open = price;
+      const shock = (rng() + rng() + rng() - 1.5) * 2 * vol;
+      price = Math.max(0.01, price * (1 + drift + shock));
+      const high = Math.max(open, price) * (1 + rng() * vol);
+      const low = Math.min(open, price) * (1 - rng() * vol);
+      candles.push({
+        time: formatBarTime(anchor - (length - 1 - i) * step, interval),
+        open: Number(open.toFixed(2)),
+        high: Number(high.toFixed(2)),
+        low: Number(low.toFixed(2)),
+        close: Number(price.toFixed(2)),
+        volume: Math.floor(1000 + rng() * 9000),
+      });
+    }
+    return candles;
+  };
+
+  return {
+    id: 'replay',
+    name: 'Replay',
+    listSymbols: async () => Object.keys(REPLAY_BASE_PRICES),
+    getBars: async (symbol, interval) => candlesToBars(await getCandles(symbol, interval)),
+    getCandles,
+  };
+};
+
+// 2. File Provider (CSV/JSON series loaded from URLs or user uploads)
+const TIME_KEYS = ['time', 'date', 'timestamp', 'datetime'];
+const PRICE_KEYS = ['price', 'close', 'adj close', 'adj_close', 'last'];
+const OPEN_KEYS = ['open', 'o'];
+const HIGH_KEYS = ['high', 'h'];
+const LOW_KEYS = ['low', 'l'];
+const VOLUME_KEYS = ['volume', 'vol'];
+
+const pickField = (row: Record<string, unknown>, keys: string[]): unknown => {
+  for (const k of Object.keys(row)) {
+    if (keys.includes(k.trim().toLowerCase())) return row[k];
+  }
+  return undefined;
+};
+
+// Empty cells are missing, not zero (Number('') is 0)
+const cellNumber = (value: unknown): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  return typeof value === 'string' ? asNumber(value) : null;
+};
+
+const toCandle = (row: Record<string, unknown>, index: number, prevClose?: number): OHLCBar => {
+  const time = pickField(row, TIME_KEYS);
+  const close = cellNumber(pickField(row, PRICE_KEYS));
+  if (time === undefined || time === '' || close === null) {
+    throw new Error(`Invalid bar at row ${index + 1}: expected time and price/close columns`);
+  }
+  // Missing OHLC columns fall back to a flat candle from the previous close
+  const num = (keys: string[], fallback: number) => cellNumber(pickField(row, keys)) ?? fallback;
+  const open = num(OPEN_KEYS, prevClose ?? close);
+  return {
+    time: String(time),
+    open,
+    high: num(HIGH_KEYS, Math.max(open, close)),
+    low: num(LOW_KEYS, Math.min(open, close)),
+    close,
+    volume: num(VOLUME_KEYS, 0),
+  };
+};
+
+const toCandles = (rows: Record<string, unknown>[]): OHLCBar[] => {
+  const candles: OHLCBar[] = [];
+  rows.forEach((row, i) => candles.push(toCandle(row, i, candles[i - 1]?.close)));
+  return candles;
+};
+
+export const parseCandlesCsv = (text: string): OHLCBar[] => {
+  const [header, ...lines] = parseDelimited(text);
+  if (!header || lines.length === 0) throw new Error('CSV must contain a header row and at least one bar');
+  const headers = header.map(h => h.trim());
+  return toCandles(lines.map(cells => {
+    const row: Record<string, unknown> = {};
+    headers.forEach((h, j) => { row[h] = cells[j]?.trim(); });
+    return row;
+  }));
+};
+
+export const parseCandlesJson = (text: string): OHLCBar[] => {
+  const parsed = JSON.parse(text);
+  const rows = Array.isArray(parsed) ? parsed : parsed?.bars;
+  if (!Array.isArray(rows)) throw new Error('JSON must be an array of bars or an object with a "bars" array');
+  return toCandles(rows);
+};
+
+export const parseCandles = (text: string, fileName: string): OHLCBar[] =>
+  fileName.toLowerCase().endsWith('.json') ? parseCandlesJson(text) : parseCandlesCsv(text);
+
+export interface FileMarketDataProvider extends MarketDataProvider {
+  addSeries: (symbol: string, candles: OHLCBar[]) => void;
+  loadFile: (file: File) => Promise<string>;
+}
+
+// `sources` maps a symbol to a CSV/JSON URL that is fetched lazily on first use.
+// A file holds one series at its own bar spacing, so it is keyed by symbol and served for any requested interval.
+export const createFileProvider = (sources: Record<string, string> = {}): FileMarketDataProvider => {
+  const series = new Map<string, OHLCBar[]>();
+
+  const addSeries = (symbol: string, candles: OHLCBar[]) => {
+    series.set(symbol.toUpperCase(), candles);
+  };
+
+  const getCandles = async (symbol: string): Promise<OHLCBar[]> => {
+    const cached = series.get(symbol.toUpperCase());
+    if (cached) return cached;
+    const url = sources[symbol] ?? sources[symbol.toUpperCase()];
+    if (!url) throw new Error(`No file loaded for ${symbol.toUpperCase()}`);
+    const res = await fetch(url);
+    if (!res.ok) throw new Error(`Failed to fetch ${url}: HTTP ${res.status}`);
+    const candles = parseCandles(await res.text(), url);
+    addSeries(symbol, candles);
+    return candles;
+  };
+
+  return {
+    id: 'file',
+    name: 'File',
+    addSeries,
+    listSymbols: async () => {
+      const symbols = new Set(Object.keys(sources).map(s => s.toUpperCase()));
+      series.forEach((_, symbol) => symbols.add(symbol));
+      return Array.from(symbols);
+    },
+    getBars: async (symbol) => candlesToBars(await getCandles(symbol)),
+    getCandles,
+    // Symbol is taken from the file name, e.g. "AAPL.csv" or "aapl_daily.json" -> AAPL
+    loadFile: async (file) => {
+      const candles = parseCandles(await file.text(), file.name);
+      const symbol = file.name.replace(/\.[^.]+$/, '').split(/[_\-\s]/)[0].toUpperCase();
+      addSeries(symbol, candles);
+      return symbol;
+    },
+  };
+};
+
+export const getSeriesChange = (bars: StockData[]): { change: number; changePct: number } => {
+  if (bars.length < 2) return { change: 0, changePct: 0 };
+  const first = bars[0].price;
+  const last = bars[bars.length - 1].price;
+  const change = last - first;
+  return { change, changePct: first === 0 ? 0 : (change / first) * 100 };
+};
+
+// Current-bar figures: the last bar's volume and its move from the previous close
+export const getQuote = (symbol: string, candles: OHLCBar[]): WatchlistQuote => {
+  const { change, changePct } = getSeriesChange(candlesToBars(candles.slice(-2)));
+  const last = candles[candles.length - 1];
+  return {
+    symbol,
+    last: last ? last.close : 0,
+    change,
+    changePct,
+    volume: last ? last.volume : 0,
+  };
+};
@@ -0,0 +1,129 @@
+import { GroundingChunk, InvestmentMemo, MemoSection, MemoSectionId, PipelineDeal, QuantPrediction } from "../types";
+import { DEAL_STAGES } from "./dealPipelineService";
+import { downloadFile, slugify } from "./fileExport";
+
+export const MEMO_SECTIONS: { id: MemoSectionId; title: string }[] = [
+  { id: 'thesis', title: 'Investment Thesis' },
+  { id: 'market', title: 'Market' },
+  { id: 'team', title: 'Team' },
+  { id: 'financials', title: 'Financials' },
+  { id: 'risks', title: 'Risks' },
+  { id: 'valuation', title: 'Valuation' },
+];
+
+const TODO = '[To be completed]';
+
+const createMemoId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const sections = (bodies: Partial<Record<MemoSectionId, string>>): MemoSection[] =>
+  MEMO_SECTIONS.map(({ id, title }) => ({ id, title, body: bodies[id]?.trim() || TODO }));
+
+const memo = (title: string, subject: InvestmentMemo['subject'], bodies: Partial<Record<MemoSectionId, string>>, sources: GroundingChunk[]): InvestmentMemo => {
+  const now = Date.now();
+  return { id: createMemoId(), title, subject, sections: sections(bodies), sources, createdAt: now, updatedAt: now };
+};
+
+// Title and URI of a numbered source, matching TerminalOutput's "Unknown Source" fallback
+export const sourceLabel = (chunk: GroundingChunk) => ({
+  uri: chunk.web?.uri || chunk.maps?.uri,
+  title: chunk.web?.title || chunk.maps?.title || "Unknown Source",
+});
+
+// 1. Builders
+export const buildDealMemo = (deal: PipelineDeal): InvestmentMemo => {
+  const c = deal.candidate;
+  const sources: GroundingChunk[] = c.sourceUris.map(uri => ({ web: { uri, title: uri } }));
+  const cite = sources.length ? ` ${sources.map((_, i) => `[${i + 1}]`).join('')}` : '';
+  const stage = DEAL_STAGES.find(s => s.id === deal.pipelineStage)?.label ?? deal.pipelineStage;
+  return memo(`${c.name} - Investment Memo`, { kind: 'deal', refId: deal.id }, {
+    thesis: `${c.rationale || TODO}${cite}\n\nPipeline stage: ${stage}.${deal.tags.length ? ` Tags: ${deal.tags.join(', ')}.` : ''}`,
+    market: `Sector: ${c.sector}. Geography: ${c.geography}.`,
+    team: TODO,
+    financials: `Funding stage: ${c.stage}. Last round: ${c.lastRound}.${cite}`,
+    risks: deal.notes ? `Analyst notes:\n${deal.notes}` : TODO,
+    valuation: TODO,
+  }, sources);
+};
+
+export const buildQuantMemo = (prediction: QuantPrediction, question: string, refId: string): InvestmentMemo => {
+  const p = prediction;
+  return memo(`Quant View - ${question.length > 60 ? `${question.slice(0, 57)}...` : question}`, { kind: 'quant', refId }, {
+    thesis: `${p.direction} over ${p.horizon} with ${p.confidence}% confidence.\n\nQuestion: ${question}\n\n${p.narrative}`,
+    market: p.keyDrivers.map(d => `- ${d}`).join('\n'),
+    team: 'Not applicable (market view).',
+    financials: `Target range: ${p.targetRange.low} - ${p.targetRange.high} ${p.targetRange.unit}.`,
+    risks: [...p.risks.map(r => `- ${r}`), `- Invalidation: ${p.invalidationLevel.value} (${p.invalidationLevel.description})`].join('\n'),
+    valuation: `Target range midpoint: ${((p.targetRange.low + p.targetRange.high) / 2).toFixed(2)} ${p.targetRange.unit}.`,
+  }, []);
+};
+
+// 2. Exporters
+export const memoToMarkdown = (m: InvestmentMemo): string => {
+  const lines = [`# ${m.title}`, '', `_Updated ${new Date(m.updatedAt).toLocaleString()}_`, ''];
+  m.sections.forEach(s => lines.push(`## ${s.title}`, '', s.body, ''));
+  if (m.sources.length) {
+    lines.push('## Sources', '');
+    m.sources.forEach((chunk, i) => {
+      const { uri, title } = sourceLabel(chunk);
+      lines.push(uri ? `${i + 1}. [${title}](${uri})` : `${i + 1}. ${title}`);
+    });
+    lines.push('');
+  }
+  return lines.join('\n');
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Citation markers like [2] link to the matching source entry
+const linkCitations = (html: string, count: number) =>
+  html.replace(/\[(\d+)\]/g, (match, n) => (Number(n) >= 1 && Number(n) <= count ? `<a href="#src-${n}">[${n}]</a>` : match));
+
+const MEMO_CSS = `
+  body { font-family: Georgia, 'Times New Roman', serif; max-width: 760px; margin: 40px auto; color: #111; line-height: 1.5; }
+  h1 { font-size: 22px; border-bottom: 2px solid #111; padding-bottom: 6px; }
+  h2 { font-size: 15px; text-transform: uppercase; letter-spacing: 0.05em; margin-top: 28px; }
+  p.meta { color: #666; font-size: 12px; }
+  .body { white-space: pre-wrap; font-size: 13px; }
+  ol { font-size: 12px; }
+  a { color: #1d4ed8; }
+  @media print { body { margin: 0 auto; } h2 { page-break-after: avoid; } }
+`;
+
+export const memoToHtml = (m: InvestmentMemo): string => {
+  const sectionsHtml = m.sections
+    .map(s => `<h2>${escapeHtml(s.title)}</h2>\n<div class="body">${linkCitations(escapeHtml(s.body), m.sources.length)}</div>`)
+    .join('\n');
+  const sourcesHtml = m.sources.length
+    ? `<h2>Sources</h2>\n<ol>${m.sources.map((chunk, i) => {
+        const { uri, title } = sourceLabel(chunk);
+        return `<li id="src-${i + 1}">${uri ? `<a href="${escapeHtml(uri)}">${escapeHtml(title)}</a>` : escapeHtml(title)}</li>`;
+      }).join('')}</ol>`
+    : '';
+  return `<!DOCTYPE html>
+<html><head><meta charset="utf-8"><title>${escapeHtml(m.title)}</title><style>${MEMO_CSS}</style></head>
+<body>
+<h1>${escapeHtml(m.title)}</h1>
+<p class="meta">Updated ${escapeHtml(new Date(m.updatedAt).toLocaleString())}</p>
+${sectionsHtml}
+${sourcesHtml}
+</body></html>`;
+};
+
+const fileName = (m: InvestmentMemo, ext: string) => `${slugify(m.title, 'memo')}.${ext}`;
+
+export const downloadMemoMarkdown = (m: InvestmentMemo) => downloadFile(fileName(m, 'md'), memoToMarkdown(m), 'text/markdown');
+
+export const downloadMemoHtml = (m: InvestmentMemo) => downloadFile(fileName(m, 'html'), memoToHtml(m), 'text/html');
+
+// PDF export goes through the browser's print dialog ("Save as PDF") using the print stylesheet
+export const printMemo = (m: InvestmentMemo): boolean => {
+  const win = window.open('', '_blank');
+  if (!win) return false;
+  win.document.write(memoToHtml(m));
+  win.document.close();
+  win.focus();
+  // document.write content may or may not fire load, so give layout a moment instead
+  setTimeout(() => win.print(), 300);
+  return true;
+};
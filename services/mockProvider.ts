@@ -0,0 +1,200 @@
+import { GroundingChunk, LLMChunk, LLMProvider, LLMRequest, ModelSlot } from "../types";
+import { sleep } from "./serviceErrors";
+
+export interface MockFixture {
+  text: string;
+  groundingChunks?: GroundingChunk[];
+  // Delay between streamed chunks
+  chunkDelayMs?: number;
+}
+
+const MOCK_QUANT_PREDICTION = {
+  direction: 'BULLISH',
+  targetRange: { low: 5120, high: 5380, unit: 'USD' },
+  horizon: '3 months',
+  confidence: 62,
+  keyDrivers: [
+    'Disinflation trend supports a lower policy-rate path',
+    'Earnings revisions turning positive in large-cap technology',
+    'Systematic equity exposure below its one-year average',
+  ],
+  risks: [
+    'Re-acceleration in services inflation',
+    'Narrow breadth concentrated in mega-cap names',
+  ],
+  invalidationLevel: { value: 4880, description: 'A daily close below the 200-day moving average breaks the trend thesis' },
+  narrative: 'MOCK RESPONSE. Momentum and positioning both favour modest upside over the quarter. The base case assumes range expansion toward prior highs while volatility stays contained; the thesis is invalidated by a sustained break of long-term trend support.',
+};
+
+const DEFAULT_FIXTURES: Record<ModelSlot, MockFixture> = {
+  NEWS: {
+    text: JSON.stringify({
+      items: [
+        { index: 1, tickers: ['SPX', 'TLT'], sentiment: 'POSITIVE', impact: 4 },
+        { index: 2, tickers: ['NVDA', 'SOXX'], sentiment: 'POSITIVE', impact: 3 },
+        { index: 3, tickers: ['CL', 'XLE'], sentiment: 'NEGATIVE', impact: 2 },
+      ],
+    }),
+  },
+  QUANT: { text: JSON.stringify(MOCK_QUANT_PREDICTION, null, 2) },
+  DEALS: {
+    text: 'MOCK DEAL FLOW\n\n1. Helix Grid Systems - Series B grid-storage software vendor; 140% ARR growth, founder-led, strategic fit for utility roll-ups.\n2. Northwind Analytics - Bootstrapped logistics analytics platform; profitable, seeking first institutional capital.\n3. Cobalt Ridge Robotics - Warehouse automation; raised bridge round, potential carve-out candidate.',
+    groundingChunks: [
+      { web: { uri: 'https://example.com/helix-grid-series-b', title: 'Helix Grid closes Series B (mock)' } },
+      { web: { uri: 'https://example.com/northwind-profile', title: 'Northwind Analytics profile (mock)' } },
+    ],
+  },
+  DEAL_EXTRACT: {
+    text: JSON.stringify({
+      candidates: [
+        { name: 'Helix Grid Systems', sector: 'Energy Software', stage: 'Series B', lastRound: '$45M Series B (2025)', geography: 'United States', rationale: 'Grid-storage software with 140% ARR growth; strategic fit for utility roll-ups.', sourceIndexes: [1] },
+        { name: 'Northwind Analytics', sector: 'Logistics Software', stage: 'Bootstrapped', lastRound: 'None disclosed', geography: 'United Kingdom', rationale: 'Profitable logistics analytics platform seeking first institutional capital.', sourceIndexes: [2] },
+        { name: 'Cobalt Ridge Robotics', sector: 'Industrial Automation', stage: 'Series A', lastRound: 'Bridge round (2025)', geography: 'Germany', rationale: 'Warehouse automation vendor; potential carve-out candidate.', sourceIndexes: [] },
+      ],
+    }),
+  },
+  RESOURCES: {
+    text: 'MOCK RESOURCE SITES\n\n1. Escondida, Chile - Largest copper mine by output; open pit, ~1.0 Mt/yr.\n2. Grasberg, Indonesia - Copper and gold; underground block caving.\n3. Kamoa-Kakula, DR Congo - High-grade copper; expanding to ~600 kt/yr.',
+    groundingChunks: [
+      { maps: { uri: 'https://maps.google.com/?q=-24.27,-69.07', title: 'Escondida Mine' } },
+      { maps: { uri: 'https://maps.google.com/?q=-4.05,137.11', title: 'Grasberg Mine' } },
+      { maps: { uri: 'https://maps.google.com/?q=-10.77,25.88', title: 'Kamoa-Kakula' } },
+    ],
+  },
+  RESOURCE_EXTRACT: {
+    text: JSON.stringify({
+      sites: [
+        { name: 'Escondida', commodity: 'Copper', operator: 'BHP', country: 'Chile', lat: -24.27, lng: -69.07, status: 'OPERATING', capacity: '~1.0 Mt/yr Cu', sourceIndexes: [1] },
+        { name: 'Grasberg', commodity: 'Copper', operator: 'Freeport-McMoRan', country: 'Indonesia', lat: -4.05, lng: 137.11, status: 'OPERATING', capacity: '~0.7 Mt/yr Cu', sourceIndexes: [2] },
+        { name: 'Kamoa-Kakula', commodity: 'Copper', operator: 'Ivanhoe Mines', country: 'DR Congo', lat: -10.77, lng: 25.88, status: 'DEVELOPMENT', capacity: '~600 kt/yr Cu (expansion)', sourceIndexes: [3] },
+      ],
+    }),
+  },
+  VISION: {
+    text: 'MOCK CHART ASSESSMENT\n\nTrend: higher highs and higher lows on the visible range.\nStructure: a shallow consolidation above prior resistance, now acting as support.\nBias: constructive while price holds above the breakout level.',
+  },
+  FILING_EXTRACT: {
+    text: JSON.stringify({
+      company: 'Mock Industries Inc.',
+      currency: 'USD',
+      unit: 'millions',
+      periods: ['FY2022', 'FY2023', 'FY2024'],
+      lines: [
+        { id: 'revenue', label: 'Net sales', values: [12400, 13650, 15120], pages: [1, 1, 1] },
+        { id: 'costOfRevenue', label: 'Cost of sales', values: [-7320, -7910, -8620], pages: [1, 1, 1] },
+        { id: 'grossProfit', label: 'Gross profit', values: [5080, 5740, 6500], pages: [1, 1, 1] },
+        { id: 'operatingIncome', label: 'Operating income', values: [1860, 2150, 2540], pages: [1, 1, 1] },
+        { id: 'interestExpense', label: 'Interest expense', values: [-210, -235, -220], pages: [1, 1, 1] },
+        { id: 'pretaxIncome', label: 'Income before income taxes', values: [1650, 1915, 2320], pages: [1, 1, 1] },
+        { id: 'incomeTax', label: 'Provision for income taxes', values: [-355, -400, -485], pages: [1, 1, 1] },
+        { id: 'netIncome', label: 'Net income', values: [1295, 1515, 1835], pages: [1, 1, 1] },
+        { id: 'dilutedEps', label: 'Diluted earnings per share', values: [2.59, 3.06, 3.75], pages: [1, 1, 1] },
+        { id: 'cash', label: 'Cash and cash equivalents', values: [1420, 1780, 2210], pages: [2, 2, 2] },
+        { id: 'currentAssets', label: 'Total current assets', values: [5200, 5710, 6380], pages: [2, 2, 2] },
+        { id: 'totalAssets', label: 'Total assets', values: [18900, 19850, 21400], pages: [2, 2, 2] },
+        { id: 'currentLiabilities', label: 'Total current liabilities', values: [3900, 4120, 4450], pages: [2, 2, 2] },
+        { id: 'longTermDebt', label: 'Long-term debt', values: [5100, 4800, 4500], pages: [2, 2, 2] },
+        { id: 'totalEquity', label: "Total shareholders' equity", values: [8600, 9700, 11050], pages: [2, 2, 2] },
+        { id: 'operatingCashFlow', label: 'Net cash provided by operating activities', values: [1980, 2240, 2610], pages: [3, 3, 3] },
+        { id: 'capitalExpenditure', label: 'Purchases of property and equipment', values: [-640, -700, -760], pages: [3, 3, 3] },
+        { id: 'depreciationAmortization', label: 'Depreciation and amortization', values: [520, 560, 600], pages: [3, 3, 3] },
+      ],
+    }),
+  },
+  VALUATION: {
+    text: JSON.stringify({
+      baseRevenue: null,
+      revenueGrowth: [0.09, 0.08, 0.07, 0.06, 0.05],
+      ebitMargin: [0.17, 0.175, 0.18, 0.18, 0.18],
+      taxRate: 0.21,
+      daPctRevenue: 0.04,
+      capexPctRevenue: 0.05,
+      nwcPctIncrementalRevenue: 0.12,
+      riskFreeRate: 0.042,
+      beta: 1.05,
+      equityRiskPremium: 0.05,
+      preTaxCostOfDebt: 0.055,
+      debtWeight: 0.25,
+      terminalGrowth: 0.025,
+      rationale: 'MOCK RESPONSE. Growth fades from recent high single digits toward nominal GDP; margins expand modestly on operating leverage before plateauing. Beta and leverage reflect a mature industrial peer group.',
+    }),
+  },
+  SCENARIO: {
+    text: JSON.stringify({
+      RATES: -75,
+      CREDIT: 60,
+      EQUITY: -12,
+      OIL: -20,
+      FX: 2,
+      analogue: 'Q4 2018 growth scare; August 2015 devaluation sell-off',
+      rationale: 'MOCK RESPONSE. Growth-led risk-off: yields fall as policy expectations reprice, spreads widen moderately, equities draw down low double digits and oil follows demand lower.',
+    }),
+  },
+  SCENARIO_NARRATIVE: {
+    text: 'MOCK SCENARIO NOTE\n\nThe loss is driven almost entirely by equity beta; duration in the fixed-income sleeve offsets part of it as yields fall. Wider spreads erode that offset. The largest single contributors are the highest-weight equity lines. Index puts or a reduction in gross equity exposure would cut the drawdown most efficiently.',
+  },
+};
+
+let fixtures: Record<ModelSlot, MockFixture> = { ...DEFAULT_FIXTURES };
+
+// Lets tests and demos swap canned responses per slot
+export const setMockFixture = (slot: ModelSlot, fixture: MockFixture) => {
+  fixtures = { ...fixtures, [slot]: fixture };
+};
+
+export const resetMockFixtures = () => {
+  fixtures = { ...DEFAULT_FIXTURES };
+};
+
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+const usageFor = (request: LLMRequest, text: string) => {
+  const promptTokens = estimateTokens(request.prompt + (request.systemInstruction || ''));
+  const outputTokens = estimateTokens(text);
+  return { promptTokens, thoughtsTokens: 0, outputTokens, totalTokens: promptTokens + outputTokens };
+};
+
+const splitChunks = (text: string, size = 24): string[] => {
+  const chunks: string[] = [];
+  for (let i = 0; i < text.length; i += size) chunks.push(text.slice(i, i + size));
+  return chunks;
+};
+
+export const createMockProvider = (): LLMProvider => ({
+  id: 'mock',
+  name: 'Mock (offline fixtures)',
+  models: ['mock-fixture'],
+  pricing: {},
+  defaultModels: {
+    NEWS: 'mock-fixture',
+    QUANT: 'mock-fixture',
+    DEALS: 'mock-fixture',
+    DEAL_EXTRACT: 'mock-fixture',
+    RESOURCES: 'mock-fixture',
+    RESOURCE_EXTRACT: 'mock-fixture',
+    VISION: 'mock-fixture',
+    FILING_EXTRACT: 'mock-fixture',
+    VALUATION: 'mock-fixture',
+    SCENARIO: 'mock-fixture',
+    SCENARIO_NARRATIVE: 'mock-fixture',
+  },
+  generate: async (request, signal) => {
+    const fixture = fixtures[request.slot];
+    await sleep(fixture.chunkDelayMs ?? 30, signal);
+    return { text: fixture.text, groundingChunks: fixture.groundingChunks, usage: usageFor(request, fixture.text) };
+  },
+  stream: async function* (request, signal): AsyncGenerator<LLMChunk> {
+    const fixture = fixtures[request.slot];
+    const pieces = splitChunks(fixture.text);
+    for (let i = 0; i < pieces.length; i++) {
+      await sleep(fixture.chunkDelayMs ?? 30, signal);
+      const last = i === pieces.length - 1;
+      yield {
+        text: pieces[i],
+        // Mirrors the live API: sources and final usage arrive with the last chunk
+        groundingChunks: last ? fixture.groundingChunks : undefined,
+        usage: last ? usageFor(request, fixture.text) : undefined,
+      };
+    }
+  },
+});
@@ -0,0 +1,192 @@
+import { NewsFeed, NewsItem, NewsSettings } from "../types";
+
+// Public feeds, shipped disabled: most don't send CORS headers, so enable them once `proxy` is set
+export const DEFAULT_NEWS_SETTINGS: NewsSettings = {
+  feeds: [
+    { id: 'fed', name: 'Federal Reserve', url: 'https://www.federalreserve.gov/feeds/press_all.xml', enabled: false },
+    { id: 'sec', name: 'SEC Press Releases', url: 'https://www.sec.gov/news/pressreleases.rss', enabled: false },
+    { id: 'marketwatch', name: 'MarketWatch Top Stories', url: 'https://feeds.content.dowjones.io/public/rss/mw_topstories', enabled: false },
+    { id: 'cnbc', name: 'CNBC Markets', url: 'https://search.cnbc.com/rs/search/combinedcms/view.xml?partnerId=wrss01&id=20910258', enabled: false },
+  ],
+  refreshMinutes: 5,
+  proxy: '',
+};
+
+export const MAX_NEWS_ITEMS = 200;
+const SUMMARY_CHARS = 300;
+const FETCH_TIMEOUT_MS = 15000;
+
+export const createFeedId = () => `feed-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+// 1. Identity & dedupe
+// Tracking parameters and fragments vary between syndications of the same story
+export const canonicalUrl = (url: string): string => {
+  try {
+    const u = new URL(url);
+    u.hash = '';
+    Array.from(u.searchParams.keys())
+      .filter(k => /^(utm_|mc_|ref$|cmpid$|mod$)/i.test(k))
+      .forEach(k => u.searchParams.delete(k));
+    return `${u.protocol}//${u.host.toLowerCase()}${u.pathname.replace(/\/$/, '')}${u.search}`;
+  } catch {
+    return url.trim();
+  }
+};
+
+const titleKey = (title: string) => title.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim().slice(0, 80);
+
+// FNV-1a; ids only need to be stable, not secure
+const hash = (text: string) => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(36);
+};
+
+export const newsItemId = (url: string, title: string) => `news-${hash(url ? canonicalUrl(url) : titleKey(title))}`;
+
+// Existing items win so their tags survive a re-fetch; the same headline from two feeds is kept once
+export const mergeNews = (existing: NewsItem[], incoming: NewsItem[]): NewsItem[] => {
+  const ids = new Set(existing.map(i => i.id));
+  const titles = new Set(existing.map(i => titleKey(i.title)));
+  const added: NewsItem[] = [];
+  incoming.forEach(item => {
+    const key = titleKey(item.title);
+    if (ids.has(item.id) || titles.has(key)) return;
+    ids.add(item.id);
+    titles.add(key);
+    added.push(item);
+  });
+  return [...existing, ...added].sort((a, b) => b.publishedAt - a.publishedAt).slice(0, MAX_NEWS_ITEMS);
+};
+
+// 2. Parsing
+const plainText = (html: string) =>
+  (new DOMParser().parseFromString(html, 'text/html').body.textContent ?? '').replace(/\s+/g, ' ').trim();
+
+const summarize = (html: string) => {
+  const text = plainText(html);
+  return text.length > SUMMARY_CHARS ? `${text.slice(0, SUMMARY_CHARS - 3)}...` : text;
+};
+
+const parseDate = (value: unknown, fallback: number): number => {
+  // Unix seconds vs milliseconds
+  if (typeof value === 'number' && Number.isFinite(value)) return value < 1e12 ? value * 1000 : value;
+  if (typeof value !== 'string' || !value.trim()) return fallback;
+  const t = Date.parse(value);
+  return Number.isNaN(t) ? fallback : t;
+};
+
+const child = (el: Element, ...names: string[]): Element | undefined =>
+  Array.from(el.children).find(c => names.includes(c.localName));
+
+const childText = (el: Element, ...names: string[]) => child(el, ...names)?.textContent?.trim() ?? '';
+
+// Feed links end up in hrefs and window.open, so anything but http(s) (javascript:, data:, ...) is dropped
+const safeUrl = (url: string): string => {
+  try {
+    const u = new URL(url.trim());
+    return u.protocol === 'http:' || u.protocol === 'https:' ? u.href : '';
+  } catch {
+    return '';
+  }
+};
+
+const item = (feed: Pick<NewsFeed, 'id' | 'name'>, fields: { title: string; url: string; summary: string; date: unknown; source?: string }, now: number): NewsItem => {
+  const url = safeUrl(fields.url);
+  return {
+    id: newsItemId(url, fields.title),
+    title: plainText(fields.title),
+    url,
+    source: fields.source || feed.name,
+    summary: summarize(fields.summary),
+    publishedAt: parseDate(fields.date, now),
+    feedId: feed.id,
+  };
+};
+
+const parseXmlFeed = (text: string, feed: Pick<NewsFeed, 'id' | 'name'>, now: number): NewsItem[] => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length) throw new Error('Feed is not well-formed XML');
+  const rss = Array.from(doc.getElementsByTagNameNS('*', 'item'));
+  if (rss.length) {
+    return rss.map(el => item(feed, {
+      title: childText(el, 'title'),
+      url: childText(el, 'link') || (/^https?:/.test(childText(el, 'guid')) ? childText(el, 'guid') : ''),
+      summary: childText(el, 'description', 'encoded'),
+      date: childText(el, 'pubDate', 'date'),
+    }, now));
+  }
+  return Array.from(doc.getElementsByTagNameNS('*', 'entry')).map(el => {
+    const links = Array.from(el.children).filter(c => c.localName === 'link');
+    const link = links.find(l => (l.getAttribute('rel') ?? 'alternate') === 'alternate') ?? links[0];
+    return item(feed, {
+      title: childText(el, 'title'),
+      url: link?.getAttribute('href') ?? '',
+      summary: childText(el, 'summary', 'content'),
+      date: childText(el, 'published', 'updated'),
+    }, now);
+  });
+};
+
+// JSON Feed 1.x, or a plain array / { articles | items | data } of article-like records
+const parseJsonFeed = (text: string, feed: Pick<NewsFeed, 'id' | 'name'>, now: number): NewsItem[] => {
+  const data = JSON.parse(text);
+  const records = Array.isArray(data) ? data : data?.items ?? data?.articles ?? data?.data;
+  if (!Array.isArray(records)) throw new Error('JSON feed has no items array');
+  return records
+    .filter((r: any) => r && typeof r === 'object')
+    .map((r: any) => item(feed, {
+      title: String(r.title ?? r.headline ?? ''),
+      url: String(r.url ?? r.link ?? r.external_url ?? ''),
+      summary: String(r.summary ?? r.description ?? r.content_text ?? ''),
+      date: r.date_published ?? r.publishedAt ?? r.published ?? r.datetime ?? r.date ?? r.time,
+      source: typeof r.source === 'string' ? r.source : typeof r.source?.name === 'string' ? r.source.name : undefined,
+    }, now));
+};
+
+export const parseFeed = (text: string, feed: Pick<NewsFeed, 'id' | 'name'>, now = Date.now()): NewsItem[] => {
+  const trimmed = text.trimStart();
+  const items = trimmed.startsWith('{') || trimmed.startsWith('[') ? parseJsonFeed(trimmed, feed, now) : parseXmlFeed(trimmed, feed, now);
+  return items.filter(i => i.title);
+};
+
+// 3. Fetching
+export const feedRequestUrl = (url: string, proxy: string) => (proxy ? `${proxy}${encodeURIComponent(url)}` : url);
+
+export const fetchFeed = async (feed: NewsFeed, proxy: string, signal?: AbortSignal): Promise<NewsItem[]> => {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => { timedOut = true; controller.abort(); }, FETCH_TIMEOUT_MS);
+  signal?.addEventListener('abort', () => controller.abort());
+  try {
+    const res = await fetch(feedRequestUrl(feed.url, proxy), { signal: controller.signal });
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    return parseFeed(await res.text(), feed);
+  } catch (error) {
+    throw timedOut ? new Error(`Timed out after ${FETCH_TIMEOUT_MS / 1000}s`) : error;
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+// Feeds fail independently; one dead feed doesn't block the others
+export const fetchFeeds = async (
+  settings: NewsSettings,
+  signal?: AbortSignal
+): Promise<{ items: NewsItem[]; errors: { feed: NewsFeed; message: string }[] }> => {
+  const feeds = settings.feeds.filter(f => f.enabled);
+  const results = await Promise.allSettled(feeds.map(f => fetchFeed(f, settings.proxy, signal)));
+  const items: NewsItem[] = [];
+  const errors: { feed: NewsFeed; message: string }[] = [];
+  results.forEach((r, i) => {
+    if (r.status === 'fulfilled') items.push(...r.value);
+    else errors.push({ feed: feeds[i], message: r.reason instanceof Error ? r.reason.message : String(r.reason) });
+  });
+  return { items, errors };
+};
+
+export const loadNewsFile = async (file: File): Promise<NewsItem[]> =>
+  parseFeed(await file.text(), { id: `file:${file.name}`, name: file.name });
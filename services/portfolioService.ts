@@ -0,0 +1,194 @@
+import {
+  AssetClass,
+  ExposureBucket,
+  MarketDataProvider,
+  OHLCBar,
+  PortfolioAnalysis,
+  Position,
+  PositionMark
+} from "../types";
+
+export const ASSET_CLASSES: AssetClass[] = ['EQUITY', 'INDEX', 'COMMODITY', 'CRYPTO', 'FX', 'FIXED_INCOME', 'OTHER'];
+
+export const createPositionId = () => Math.random().toString(36).substr(2, 9);
+
+// 1. CSV Import (header: symbol,quantity,cost[,sector][,assetClass])
+export const parsePositionsCsv = (text: string): Position[] => {
+  const lines = text.split(/\r?\n/).filter(line => line.trim() !== '');
+  if (lines.length < 2) throw new Error('CSV must contain a header row and at least one position');
+  const headers = lines[0].split(',').map(h => h.trim().toLowerCase().replace(/[^a-z]/g, ''));
+  const col = (...names: string[]) => headers.findIndex(h => names.includes(h));
+  const symbolCol = col('symbol', 'ticker');
+  const qtyCol = col('quantity', 'qty', 'shares', 'units');
+  const costCol = col('cost', 'costbasis', 'avgcost', 'price');
+  const sectorCol = col('sector');
+  const classCol = col('assetclass', 'class', 'type');
+  if (symbolCol < 0 || qtyCol < 0 || costCol < 0) {
+    throw new Error('CSV needs symbol, quantity and cost columns');
+  }
+
+  return lines.slice(1).map((line, i) => {
+    const cells = line.split(',').map(c => c.trim().replace(/^"|"$/g, ''));
+    const quantity = Number(cells[qtyCol]);
+    const costBasis = Number(cells[costCol]);
+    if (!cells[symbolCol] || !Number.isFinite(quantity) || !Number.isFinite(costBasis)) {
+      throw new Error(`Invalid position at row ${i + 2}`);
+    }
+    const assetClass = (cells[classCol] || '').toUpperCase() as AssetClass;
+    return {
+      id: createPositionId(),
+      symbol: cells[symbolCol].toUpperCase(),
+      quantity,
+      costBasis,
+      sector: (sectorCol >= 0 && cells[sectorCol]) || 'Unclassified',
+      assetClass: ASSET_CLASSES.includes(assetClass) ? assetClass : 'EQUITY',
+    };
+  });
+};
+
+// 2. Series loading (daily bars; missing symbols are skipped rather than failing the book)
+export const loadPortfolioSeries = async (
+  provider: MarketDataProvider,
+  symbols: string[]
+): Promise<Record<string, OHLCBar[]>> => {
+  const unique = Array.from(new Set(symbols));
+  const results = await Promise.all(unique.map(symbol =>
+    provider.getCandles(symbol, '1d').catch(error => {
+      console.error(`Portfolio series error (${symbol}):`, error);
+      return [] as OHLCBar[];
+    })
+  ));
+  const series: Record<string, OHLCBar[]> = {};
+  unique.forEach((symbol, i) => { series[symbol] = results[i]; });
+  return series;
+};
+
+// 3. Analytics
+const mean = (xs: number[]) => xs.reduce((a, b) => a + b, 0) / (xs.length || 1);
+
+const covariance = (a: number[], b: number[]) => {
+  const ma = mean(a);
+  const mb = mean(b);
+  return a.reduce((acc, x, i) => acc + (x - ma) * (b[i] - mb), 0) / ((a.length - 1) || 1);
+};
+
+const correlation = (a: number[], b: number[]): number | null => {
+  if (a.length < 3) return null;
+  const denom = Math.sqrt(covariance(a, a) * covariance(b, b));
+  return denom > 0 ? covariance(a, b) / denom : null;
+};
+
+// Closes keyed by bar time so series of different lengths join on common dates
+const closesByTime = (candles: OHLCBar[]) => new Map(candles.map(c => [c.time, c.close]));
+
+const commonTimes = (series: OHLCBar[][]): string[] => {
+  if (series.length === 0 || series.some(s => s.length === 0)) return [];
+  const maps = series.slice(1).map(closesByTime);
+  return series[0].map(c => c.time).filter(t => maps.every(m => m.has(t)));
+};
+
+const returnsOn = (candles: OHLCBar[], times: string[]): number[] => {
+  const closes = closesByTime(candles);
+  return times.slice(1).map((t, i) => closes.get(t)! / closes.get(times[i])! - 1);
+};
+
+const bucket = (marks: PositionMark[], keyOf: (m: PositionMark) => string, gross: number): ExposureBucket[] => {
+  const totals = new Map<string, number>();
+  marks.forEach(m => totals.set(keyOf(m), (totals.get(keyOf(m)) || 0) + m.marketValue));
+  return Array.from(totals, ([key, marketValue]) => ({
+    key,
+    marketValue,
+    weight: gross > 0 ? (Math.abs(marketValue) / gross) * 100 : 0,
+  })).sort((a, b) => Math.abs(b.marketValue) - Math.abs(a.marketValue));
+};
+
+export const analyzePortfolio = (
+  positions: Position[],
+  series: Record<string, OHLCBar[]>,
+  benchmark: string
+): PortfolioAnalysis => {
+  const marksRaw = positions.map(position => {
+    const candles = series[position.symbol] || [];
+    const last = candles.length ? candles[candles.length - 1].close : null;
+    const price = last ?? position.costBasis;
+    const marketValue = price * position.quantity;
+    const cost = position.costBasis * position.quantity;
+    return {
+      position,
+      last,
+      marketValue,
+      pnl: marketValue - cost,
+      pnlPct: cost !== 0 ? ((marketValue - cost) / Math.abs(cost)) * 100 : 0,
+      weight: 0,
+    };
+  });
+  const gross = marksRaw.reduce((acc, m) => acc + Math.abs(m.marketValue), 0);
+  const marks = marksRaw.map(m => ({ ...m, weight: gross > 0 ? (Math.abs(m.marketValue) / gross) * 100 : 0 }));
+
+  const totalValue = marks.reduce((acc, m) => acc + m.marketValue, 0);
+  const totalCost = positions.reduce((acc, p) => acc + p.costBasis * p.quantity, 0);
+
+  // Correlations over the symbols that have a priced series
+  const symbols = Array.from(new Set(positions.map(p => p.symbol))).filter(s => (series[s] || []).length > 1);
+  const matrix = symbols.map(a => symbols.map(b => {
+    if (a === b) return 1;
+    const times = commonTimes([series[a], series[b]]);
+    return correlation(returnsOn(series[a], times), returnsOn(series[b], times));
+  }));
+
+  // Historical simulation: today's holdings revalued over each past daily return
+  const priced = positions.filter(p => (series[p.symbol] || []).length > 1);
+  const times = commonTimes(priced.map(p => series[p.symbol]));
+  const priceMaps = priced.map(p => closesByTime(series[p.symbol]));
+  const values = times.map(t =>
+    priced.reduce((acc, p, i) => acc + p.quantity * priceMaps[i].get(t)!, 0)
+  );
+  const pnlChanges = values.slice(1).map((v, i) => v - values[i]);
+  const sorted = [...pnlChanges].sort((a, b) => a - b);
+  const cutoff = Math.max(1, Math.floor(sorted.length * 0.05));
+  const tail = sorted.slice(0, cutoff);
+  const var95 = sorted.length ? Math.max(0, -sorted[cutoff - 1]) : 0;
+  const cvar95 = tail.length ? Math.max(0, -mean(tail)) : 0;
+
+  let beta: number | null = null;
+  const benchSeries = series[benchmark] || [];
+  if (priced.length && benchSeries.length > 1) {
+    const benchCloses = closesByTime(benchSeries);
+    const valueAt = new Map(times.map((t, i) => [t, values[i]]));
+    const betaTimes = times.filter(t => benchCloses.has(t));
+    const allBenchReturns = returnsOn(benchSeries, betaTimes);
+    // A period starting at a zero or net-short value has no meaningful return, so it is skipped on both sides
+    const kept = betaTimes.slice(1).map((_, i) => i).filter(i => valueAt.get(betaTimes[i])! > 0);
+    const portReturns = kept.map(i => valueAt.get(betaTimes[i + 1])! / valueAt.get(betaTimes[i])! - 1);
+    const benchReturns = kept.map(i => allBenchReturns[i]);
+    const benchVar = covariance(benchReturns, benchReturns);
+    beta = portReturns.length > 2 && benchVar > 0 ? covariance(portReturns, benchReturns) / benchVar : null;
+  }
+
+  return {
+    marks,
+    totalValue,
+    totalCost,
+    totalPnl: totalValue - totalCost,
+    bySector: bucket(marks, m => m.position.sector, gross),
+    byAssetClass: bucket(marks, m => m.position.assetClass, gross),
+    correlation: { symbols, matrix },
+    risk: { var95, cvar95, beta, observations: pnlChanges.length },
+    benchmark,
+  };
+};
+
+// 4. Prompt context for Quant Prediction ("what does a rate cut do to my book")
+export const formatPortfolioContext = (analysis: PortfolioAnalysis): string => {
+  if (analysis.marks.length === 0) return '';
+  const lines = [
+    `[CURRENT PORTFOLIO: ${analysis.marks.length} positions, NAV ${analysis.totalValue.toFixed(2)}, unrealised P&L ${analysis.totalPnl.toFixed(2)}]`,
+    ...analysis.marks.map(m =>
+      `${m.position.symbol} (${m.position.assetClass}, ${m.position.sector}): qty ${m.position.quantity} @ cost ${m.position.costBasis}, last ${m.last ?? 'n/a'}, MV ${m.marketValue.toFixed(2)}, weight ${m.weight.toFixed(1)}%, P&L ${m.pnlPct.toFixed(2)}%`
+    ),
+    `Sector exposure: ${analysis.bySector.map(b => `${b.key} ${b.weight.toFixed(1)}%`).join(', ')}`,
+    `Asset class exposure: ${analysis.byAssetClass.map(b => `${b.key} ${b.weight.toFixed(1)}%`).join(', ')}`,
+    `1-day historical VaR95 ${analysis.risk.var95.toFixed(2)}, CVaR95 ${analysis.risk.cvar95.toFixed(2)} (${analysis.risk.observations} obs), beta vs ${analysis.benchmark}: ${analysis.risk.beta === null ? 'n/a' : analysis.risk.beta.toFixed(2)}`,
+  ];
+  return lines.join('\n');
+};
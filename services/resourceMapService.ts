@@ -0,0 +1,123 @@
+import { GeoBounds, ResourceSearchArea, ResourceSite, SiteStatus } from "../types";
+import { downloadFile } from "./fileExport";
+
+export const SITE_STATUS_COLORS: Record<SiteStatus, string> = {
+  OPERATING: '#22c55e',
+  DEVELOPMENT: '#eab308',
+  EXPLORATION: '#3b82f6',
+  CLOSED: '#6b7280',
+  UNKNOWN: '#a855f7',
+};
+
+// 1. Projection
+// Equirectangular: one map unit per degree, origin at the top-left (180W, 90N)
+export const MAP_WIDTH = 360;
+export const MAP_HEIGHT = 180;
+
+export const project = (lng: number, lat: number): [number, number] => [lng + 180, 90 - lat];
+
+export const unproject = (x: number, y: number): [number, number] => [x - 180, 90 - y];
+
+export const isPlottable = (site: ResourceSite): site is ResourceSite & { lat: number; lng: number } =>
+  site.lat !== null && site.lng !== null;
+
+export const distanceKm = (lat1: number, lng1: number, lat2: number, lng2: number): number => {
+  const rad = Math.PI / 180;
+  const dLat = (lat2 - lat1) * rad;
+  const dLng = (lng2 - lng1) * rad;
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(lat1 * rad) * Math.cos(lat2 * rad) * Math.sin(dLng / 2) ** 2;
+  return 2 * 6371 * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+const wrapLng = (lng: number) => ((((lng + 180) % 360) + 360) % 360) - 180;
+
+// 2. Search areas
+export const GLOBAL_AREA: ResourceSearchArea = { mode: 'GLOBAL' };
+
+export const boundsFromCorners = (lat1: number, lng1: number, lat2: number, lng2: number): GeoBounds => ({
+  north: Math.max(lat1, lat2),
+  south: Math.min(lat1, lat2),
+  east: Math.max(lng1, lng2),
+  west: Math.min(lng1, lng2),
+});
+
+export const areaCenter = (area: ResourceSearchArea): { lat: number; lng: number } | null => {
+  if (area.mode === 'GLOBAL') return null;
+  if (area.mode === 'REGION') {
+    const { north, south, east, west } = area.bounds;
+    const span = west <= east ? east - west : east + 360 - west;
+    return { lat: (north + south) / 2, lng: wrapLng(west + span / 2) };
+  }
+  return { lat: area.lat, lng: area.lng };
+};
+
+const fmt = (n: number) => n.toFixed(2);
+
+export const describeArea = (area: ResourceSearchArea): string => {
+  switch (area.mode) {
+    case 'GLOBAL':
+      return 'Global';
+    case 'REGION': {
+      const { north, south, east, west } = area.bounds;
+      return `Region ${fmt(south)}..${fmt(north)} lat, ${fmt(west)}..${fmt(east)} lng`;
+    }
+    default:
+      return `${area.mode === 'NEAR_ME' ? 'Near me' : 'Point'} ${fmt(area.lat)}, ${fmt(area.lng)} (${area.radiusKm} km)`;
+  }
+};
+
+// Sites without coordinates cannot be checked and count as inside
+export const isInArea = (site: ResourceSite, area: ResourceSearchArea): boolean => {
+  if (area.mode === 'GLOBAL' || !isPlottable(site)) return true;
+  if (area.mode === 'REGION') {
+    const { north, south, east, west } = area.bounds;
+    const inLng = west <= east ? site.lng >= west && site.lng <= east : site.lng >= west || site.lng <= east;
+    return site.lat >= south && site.lat <= north && inLng;
+  }
+  return distanceKm(area.lat, area.lng, site.lat, site.lng) <= area.radiusKm;
+};
+
+// 3. Filtering & clustering
+export const listCommodities = (sites: ResourceSite[]): string[] =>
+  Array.from(new Set(sites.map(s => s.commodity))).sort((a, b) => a.localeCompare(b));
+
+export interface SiteCluster {
+  id: string;
+  x: number;
+  y: number;
+  sites: ResourceSite[];
+}
+
+// Grid clustering in screen space: sites whose projected points share a cell merge into one marker.
+// `scale` is screen pixels per map unit, so zooming in splits clusters apart.
+export const clusterSites = (sites: ResourceSite[], scale: number, cellPx = 28): SiteCluster[] => {
+  const cell = cellPx / scale;
+  const cells = new Map<string, ResourceSite[]>();
+  sites.filter(isPlottable).forEach(site => {
+    const [x, y] = project(site.lng, site.lat);
+    const key = `${Math.floor(x / cell)}:${Math.floor(y / cell)}`;
+    cells.set(key, [...(cells.get(key) ?? []), site]);
+  });
+  return Array.from(cells.entries()).map(([key, members]) => {
+    const points = members.map(s => project(s.lng as number, s.lat as number));
+    return {
+      id: key,
+      x: points.reduce((sum, [x]) => sum + x, 0) / points.length,
+      y: points.reduce((sum, [, y]) => sum + y, 0) / points.length,
+      sites: members,
+    };
+  });
+};
+
+// 4. Export
+export const sitesToGeoJSON = (sites: ResourceSite[]) => ({
+  type: 'FeatureCollection',
+  features: sites.filter(isPlottable).map(({ lat, lng, ...properties }) => ({
+    type: 'Feature',
+    geometry: { type: 'Point', coordinates: [lng, lat] },
+    properties,
+  })),
+});
+
+export const downloadSitesGeoJSON = (sites: ResourceSite[], name = 'resource-sites') =>
+  downloadFile(`${name}.geojson`, JSON.stringify(sitesToGeoJSON(sites), null, 2), 'application/geo+json');
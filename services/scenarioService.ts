@@ -0,0 +1,134 @@
+import {
+  AssetClass,
+  FactorSensitivities,
+  PortfolioAnalysis,
+  ScenarioExposure,
+  ScenarioResult,
+  ScenarioShocks,
+  ShockFactor,
+  StressScenario
+} from "../types";
+
+export const SHOCK_FACTORS: { id: ShockFactor; label: string; unit: 'bp' | '%'; sensitivity: string }[] = [
+  { id: 'RATES', label: 'Rates', unit: 'bp', sensitivity: 'Duration' },
+  { id: 'CREDIT', label: 'Credit spreads', unit: 'bp', sensitivity: 'Spread duration' },
+  { id: 'EQUITY', label: 'Equity index', unit: '%', sensitivity: 'Equity beta' },
+  { id: 'OIL', label: 'Oil', unit: '%', sensitivity: 'Oil beta' },
+  { id: 'FX', label: 'FX (foreign vs base)', unit: '%', sensitivity: 'FX exposure' },
+];
+
+const ZERO: FactorSensitivities = { RATES: 0, FX: 0, OIL: 0, EQUITY: 0, CREDIT: 0 };
+
+// Starting points per asset class; every line can be overridden in the scenario view
+export const DEFAULT_SENSITIVITIES: Record<AssetClass, FactorSensitivities> = {
+  EQUITY: { ...ZERO, EQUITY: 1 },
+  INDEX: { ...ZERO, EQUITY: 1 },
+  COMMODITY: { ...ZERO, OIL: 0.6 },
+  CRYPTO: { ...ZERO, EQUITY: 1.5 },
+  FX: { ...ZERO, FX: 1 },
+  FIXED_INCOME: { ...ZERO, RATES: 6, CREDIT: 2 },
+  OTHER: { ...ZERO },
+};
+
+export const SCENARIO_PRESETS: { name: string; shocks: ScenarioShocks }[] = [
+  { name: 'Fed cuts 50bp', shocks: { RATES: -50, CREDIT: -15, EQUITY: 3, OIL: 2, FX: 1.5 } },
+  { name: 'Oil supply shock', shocks: { RATES: 20, CREDIT: 25, EQUITY: -5, OIL: 30, FX: -1 } },
+  { name: 'Credit crunch (2008-style)', shocks: { RATES: -150, CREDIT: 300, EQUITY: -25, OIL: -40, FX: -8 } },
+  { name: 'Stagflation', shocks: { RATES: 150, CREDIT: 120, EQUITY: -15, OIL: 40, FX: -3 } },
+];
+
+export const NO_SHOCKS: ScenarioShocks = { ...ZERO };
+
+export const createScenarioId = () => `scn-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+export const createExposureId = () => `exp-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+export const createScenario = (name: string, shocks: ScenarioShocks = NO_SHOCKS): StressScenario => {
+  const now = Date.now();
+  return { id: createScenarioId(), name, shocks: { ...shocks }, createdAt: now, updatedAt: now };
+};
+
+// 1. Exposures
+// Portfolio lines take the asset-class defaults, then any per-line overrides keyed by position id
+export const portfolioExposures = (
+  analysis: PortfolioAnalysis | null,
+  overrides: Record<string, Partial<FactorSensitivities>>
+): ScenarioExposure[] =>
+  (analysis?.marks ?? []).map(m => ({
+    id: m.position.id,
+    label: m.position.symbol,
+    assetClass: m.position.assetClass,
+    marketValue: m.marketValue,
+    sensitivities: { ...DEFAULT_SENSITIVITIES[m.position.assetClass], ...overrides[m.position.id] },
+    source: 'portfolio',
+  }));
+
+// 2. Engine
+// Fractional change in a line's value for one factor; bp shocks act through duration, % shocks through beta
+export const factorReturn = (factor: ShockFactor, sensitivity: number, shock: number): number =>
+  SHOCK_FACTORS.find(f => f.id === factor)!.unit === 'bp' ? (-sensitivity * shock) / 10000 : (sensitivity * shock) / 100;
+
+// Linear and deterministic: no cross-factor effects, so factor impacts add up to the total
+export const runScenario = (exposures: ScenarioExposure[], shocks: ScenarioShocks): ScenarioResult => {
+  const byFactor: Record<ShockFactor, number> = { ...ZERO };
+  const lines = exposures.map(e => {
+    const impacts: Record<ShockFactor, number> = { ...ZERO };
+    SHOCK_FACTORS.forEach(({ id }) => {
+      impacts[id] = e.marketValue * factorReturn(id, e.sensitivities[id], shocks[id]);
+      byFactor[id] += impacts[id];
+    });
+    return {
+      id: e.id,
+      label: e.label,
+      marketValue: e.marketValue,
+      impacts,
+      total: SHOCK_FACTORS.reduce((sum, f) => sum + impacts[f.id], 0),
+    };
+  });
+  const baseValue = exposures.reduce((sum, e) => sum + e.marketValue, 0);
+  const total = lines.reduce((sum, l) => sum + l.total, 0);
+  return { baseValue, lines, byFactor, total, stressedValue: baseValue + total };
+};
+
+export interface WaterfallStep {
+  name: string;
+  value: number;
+  // [low, high] of the floating bar
+  range: [number, number];
+  kind: 'factor' | 'total';
+}
+
+// Cumulative P&L by factor, closed by the total bar
+export const waterfallSteps = (result: ScenarioResult): WaterfallStep[] => {
+  let running = 0;
+  const steps: WaterfallStep[] = SHOCK_FACTORS.map(f => {
+    const value = result.byFactor[f.id];
+    const start = running;
+    running += value;
+    return { name: f.label, value, range: [Math.min(start, running), Math.max(start, running)], kind: 'factor' };
+  });
+  return [...steps, { name: 'Total', value: result.total, range: [Math.min(0, result.total), Math.max(0, result.total)], kind: 'total' }];
+};
+
+export const formatShock = (factor: ShockFactor, value: number) => {
+  const unit = SHOCK_FACTORS.find(f => f.id === factor)!.unit;
+  return `${value > 0 ? '+' : ''}${value}${unit === 'bp' ? 'bp' : '%'}`;
+};
+
+// 3. Model context
+export const scenarioContext = (scenario: StressScenario, result: ScenarioResult): string => {
+  const money = (v: number) => v.toLocaleString('en-US', { maximumFractionDigits: 0 });
+  const pct = (v: number) => (result.baseValue ? `${((v / result.baseValue) * 100).toFixed(2)}%` : 'n/a');
+  const lines = [
+    `[SCENARIO: ${scenario.name}]`,
+    `Shocks: ${SHOCK_FACTORS.map(f => `${f.label} ${formatShock(f.id, scenario.shocks[f.id])}`).join(', ')}`,
+    ...(scenario.analogue ? [`Historical analogue: ${scenario.analogue}`] : []),
+    `Base value: ${money(result.baseValue)} | Scenario P&L: ${money(result.total)} (${pct(result.total)}) | Stressed value: ${money(result.stressedValue)}`,
+    `P&L by factor: ${SHOCK_FACTORS.map(f => `${f.label} ${money(result.byFactor[f.id])}`).join(', ')}`,
+    'Lines (value -> P&L):',
+    ...[...result.lines]
+      .sort((a, b) => Math.abs(b.total) - Math.abs(a.total))
+      .slice(0, 20)
+      .map(l => `- ${l.label}: ${money(l.marketValue)} -> ${money(l.total)}`),
+  ];
+  return lines.join('\n');
+};
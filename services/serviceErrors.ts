@@ -0,0 +1,166 @@
+import { LogEntry, RetryPolicy, ServiceError, ServiceErrorKind, ServiceResult } from "../types";
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 800,
+  maxDelayMs: 8000,
+  jitter: 0.5,
+  timeoutMs: 60000,
+};
+
+let activePolicy: RetryPolicy = { ...DEFAULT_RETRY_POLICY };
+
+export const configureRetryPolicy = (policy: Partial<RetryPolicy>): RetryPolicy => {
+  activePolicy = { ...activePolicy, ...policy };
+  return activePolicy;
+};
+
+export const getRetryPolicy = (overrides: Partial<RetryPolicy> = {}): RetryPolicy => ({ ...activePolicy, ...overrides });
+
+const RETRYABLE: ServiceErrorKind[] = ['RATE_LIMIT', 'NETWORK', 'TIMEOUT'];
+
+// Helpers to build results
+export const ok = <T>(data: T): ServiceResult<T> => ({ status: 'ok', data });
+
+export const serviceError = (
+  kind: ServiceErrorKind,
+  message: string,
+  extra: Partial<ServiceError> = {}
+): ServiceError => ({
+  kind,
+  message,
+  retryable: RETRYABLE.includes(kind),
+  attempts: 1,
+  ...extra,
+});
+
+export const fail = <T>(error: ServiceError): ServiceResult<T> => ({ status: 'error', error });
+
+// Marker thrown by the per-attempt timer so it can be told apart from a user abort
+export class TimeoutError extends Error {
+  constructor(ms: number) {
+    super(`No response within ${Math.round(ms / 1000)}s`);
+    this.name = 'TimeoutError';
+  }
+}
+
+// Maps SDK/fetch failures onto the typed error kinds
+export const classifyError = (error: any): ServiceError => {
+  if (error && typeof error === 'object' && 'kind' in error && 'retryable' in error) return error as ServiceError;
+  if (error instanceof TimeoutError) return serviceError('TIMEOUT', error.message);
+  if (error?.name === 'AbortError') return serviceError('CANCELLED', 'Request cancelled');
+
+  const message: string = error?.message || String(error);
+  const httpStatus: number | undefined = typeof error?.status === 'number' ? error.status : undefined;
+  const lower = message.toLowerCase();
+
+  if (httpStatus === 401 || httpStatus === 403 || lower.includes('api key') || lower.includes('permission denied')) {
+    return serviceError('AUTH', message, { httpStatus });
+  }
+  if (httpStatus === 429 || lower.includes('resource_exhausted') || lower.includes('quota') || lower.includes('rate limit')) {
+    return serviceError('RATE_LIMIT', message, { httpStatus });
+  }
+  if (httpStatus === 408 || httpStatus === 504 || lower.includes('deadline') || lower.includes('timed out')) {
+    return serviceError('TIMEOUT', message, { httpStatus });
+  }
+  if ((httpStatus !== undefined && httpStatus >= 500) || error instanceof TypeError || lower.includes('network') || lower.includes('fetch')) {
+    return serviceError('NETWORK', message, { httpStatus });
+  }
+  if (lower.includes('safety') || lower.includes('blocked')) {
+    return serviceError('SAFETY', message, { httpStatus });
+  }
+  return serviceError('UNKNOWN', message, { httpStatus });
+};
+
+// Candidates/prompt feedback that were blocked come back as normal responses, not exceptions
+const BLOCKING_FINISH_REASONS = ['SAFETY', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII', 'RECITATION'];
+
+export const safetyErrorFrom = (response: any): ServiceError | null => {
+  const blockReason = response?.promptFeedback?.blockReason;
+  if (blockReason) return serviceError('SAFETY', `Prompt blocked: ${blockReason}`);
+  const finishReason = response?.candidates?.[0]?.finishReason;
+  if (finishReason && BLOCKING_FINISH_REASONS.includes(finishReason)) {
+    return serviceError('SAFETY', `Response blocked: ${finishReason}`);
+  }
+  return null;
+};
+
+export const backoffDelay = (policy: RetryPolicy, attempt: number): number => {
+  const exp = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(exp * (1 - policy.jitter * Math.random()));
+};
+
+export const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new DOMException('Aborted', 'AbortError'));
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+export interface AttemptControl {
+  signal: AbortSignal;
+  // Re-arms the timeout; streaming calls use it per chunk so the limit is an idle gap
+  touch: () => void;
+}
+
+// Runs `task` with a per-attempt timeout, retrying transient failures with exponential backoff + jitter
+export const withRetry = async <T>(
+  task: (control: AttemptControl) => Promise<T>,
+  options: {
+    policy?: Partial<RetryPolicy>;
+    signal?: AbortSignal;
+    onRetry?: (error: ServiceError, attempt: number, delayMs: number) => void;
+    // Lets callers veto a retry, e.g. once streamed text has been shown
+    canRetry?: () => boolean;
+  } = {}
+): Promise<ServiceResult<T>> => {
+  const policy = getRetryPolicy(options.policy);
+  for (let attempt = 1; ; attempt++) {
+    const controller = new AbortController();
+    const abortFromOuter = () => controller.abort();
+    options.signal?.addEventListener('abort', abortFromOuter, { once: true });
+    let timedOut = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const touch = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => { timedOut = true; controller.abort(); }, policy.timeoutMs);
+    };
+    touch();
+
+    try {
+      return ok(await task({ signal: controller.signal, touch }));
+    } catch (raw) {
+      const error = { ...classifyError(timedOut ? new TimeoutError(policy.timeoutMs) : raw), attempts: attempt };
+      if (options.signal?.aborted) return fail({ ...error, kind: 'CANCELLED', retryable: false, message: 'Request cancelled' });
+      const canRetry = error.retryable && attempt < policy.maxAttempts && (options.canRetry?.() ?? true);
+      if (!canRetry) return fail(error);
+      const delay = backoffDelay(policy, attempt);
+      options.onRetry?.(error, attempt, delay);
+      try {
+        await sleep(delay, options.signal);
+      } catch {
+        return fail({ ...error, kind: 'CANCELLED', retryable: false, message: 'Request cancelled' });
+      }
+    } finally {
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', abortFromOuter);
+    }
+  }
+};
+
+export const errorLogLevel = (error: ServiceError): LogEntry['level'] => {
+  if (error.kind === 'AUTH') return 'CRIT';
+  // Transient failures that survived every retry point at an outage rather than a blip
+  if (error.retryable && error.attempts >= getRetryPolicy().maxAttempts) return 'CRIT';
+  return 'WARN';
+};
+
+export const describeError = (error: ServiceError): string =>
+  `${error.kind}${error.httpStatus ? ` (${error.httpStatus})` : ''}: ${error.message}${error.attempts > 1 ? ` after ${error.attempts} attempts` : ''}`;
@@ -0,0 +1,20 @@
+// Thin localStorage wrapper; every key is namespaced so workspaces don't collide
+const PREFIX = 'quantcore.';
+
+export const loadState = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(PREFIX + key);
+    return raw === null ? fallback : (JSON.parse(raw) as T);
+  } catch (error) {
+    console.error(`Storage read error (${key}):`, error);
+    return fallback;
+  }
+};
+
+export const saveState = <T>(key: string, value: T): void => {
+  try {
+    localStorage.setItem(PREFIX + key, JSON.stringify(value));
+  } catch (error) {
+    console.error(`Storage write error (${key}):`, error);
+  }
+};
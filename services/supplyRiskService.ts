@@ -0,0 +1,150 @@
+import { CountryRisk, CountryRiskTag, ResourceSite, SupplyConcentration, SupplyShare } from "../types";
+import { downloadFile } from "./fileExport";
+
+export const COUNTRY_RISK_TAGS: { id: CountryRiskTag; label: string; short: string }[] = [
+  { id: 'SANCTIONS', label: 'Sanctions', short: 'SANC' },
+  { id: 'POLITICAL_INSTABILITY', label: 'Political Instability', short: 'POL' },
+  { id: 'EXPORT_BAN', label: 'Export Ban / Controls', short: 'EXP' },
+];
+
+// Starter dataset only; users are expected to maintain their own view of country risk
+export const DEFAULT_COUNTRY_RISKS: CountryRisk[] = [
+  { country: 'Russia', tags: ['SANCTIONS'], note: 'Broad US/EU/UK sanctions regime.', updatedAt: 0 },
+  { country: 'Iran', tags: ['SANCTIONS'], note: 'US secondary sanctions on energy and metals.', updatedAt: 0 },
+  { country: 'Venezuela', tags: ['SANCTIONS', 'POLITICAL_INSTABILITY'], note: 'Oil sector sanctions.', updatedAt: 0 },
+  { country: 'Myanmar', tags: ['SANCTIONS', 'POLITICAL_INSTABILITY'], note: 'Post-2021 coup sanctions.', updatedAt: 0 },
+  { country: 'DR Congo', tags: ['POLITICAL_INSTABILITY'], note: 'Conflict in eastern provinces.', updatedAt: 0 },
+  { country: 'Mali', tags: ['POLITICAL_INSTABILITY'], note: 'Military government; mining code revisions.', updatedAt: 0 },
+  { country: 'Indonesia', tags: ['EXPORT_BAN'], note: 'Unprocessed nickel and bauxite ore export bans.', updatedAt: 0 },
+  { country: 'China', tags: ['EXPORT_BAN'], note: 'Export controls on gallium, germanium, graphite and rare earth technology.', updatedAt: 0 },
+];
+
+// 1. Country matching
+const COUNTRY_ALIASES: Record<string, string> = {
+  'drc': 'dr congo',
+  'd.r. congo': 'dr congo',
+  'democratic republic of the congo': 'dr congo',
+  'democratic republic of congo': 'dr congo',
+  'congo (kinshasa)': 'dr congo',
+  'congo-kinshasa': 'dr congo',
+  'russian federation': 'russia',
+  'us': 'united states',
+  'usa': 'united states',
+  'united states of america': 'united states',
+  'uk': 'united kingdom',
+  'great britain': 'united kingdom',
+  "people's republic of china": 'china',
+  'prc': 'china',
+  'burma': 'myanmar',
+  'islamic republic of iran': 'iran',
+};
+
+export const normalizeCountry = (country: string): string => {
+  const key = country.trim().toLowerCase().replace(/^the\s+/, '').replace(/\s+/g, ' ');
+  return COUNTRY_ALIASES[key] ?? key;
+};
+
+export const findCountryRisk = (risks: CountryRisk[], country: string): CountryRisk | undefined => {
+  const key = normalizeCountry(country);
+  return risks.find(r => normalizeCountry(r.country) === key);
+};
+
+export const countryRiskTags = (risks: CountryRisk[], country: string): CountryRiskTag[] =>
+  findCountryRisk(risks, country)?.tags ?? [];
+
+// Adds or replaces the row for a country (matched by normalized name)
+export const upsertCountryRisk = (risks: CountryRisk[], row: Omit<CountryRisk, 'updatedAt'>): CountryRisk[] => {
+  const key = normalizeCountry(row.country);
+  const next = { ...row, country: row.country.trim(), updatedAt: Date.now() };
+  return risks.some(r => normalizeCountry(r.country) === key)
+    ? risks.map(r => normalizeCountry(r.country) === key ? next : r)
+    : [...risks, next].sort((a, b) => a.country.localeCompare(b.country));
+};
+
+// 2. Concentration
+// Reads "~1.0 Mt/yr Cu" as 1.0 "Mt/yr"; units must match exactly to be summed
+export const parseCapacity = (capacity: string): { value: number; unit: string } | null => {
+  const match = capacity.replace(/,/g, '').match(/(\d+(?:\.\d+)?)\s*([a-zA-Z][a-zA-Z/%]*)/);
+  if (!match) return null;
+  return { value: Number(match[1]), unit: match[2] };
+};
+
+export const supplyConcentration = (sites: ResourceSite[], commodity: string, risks: CountryRisk[]): SupplyConcentration => {
+  const members = sites.filter(s => s.commodity === commodity);
+  const capacities = members.map(s => parseCapacity(s.capacity));
+  const unit = capacities[0]?.unit ?? null;
+  const byCapacity = members.length > 0 && capacities.every(c => c !== null && c.unit === unit);
+
+  const groups = new Map<string, { country: string; sites: number; capacity: number }>();
+  members.forEach((site, i) => {
+    const key = normalizeCountry(site.country);
+    const group = groups.get(key) ?? { country: site.country, sites: 0, capacity: 0 };
+    group.sites += 1;
+    group.capacity += byCapacity ? capacities[i]!.value : 0;
+    groups.set(key, group);
+  });
+
+  const total = byCapacity
+    ? Array.from(groups.values()).reduce((sum, g) => sum + g.capacity, 0)
+    : members.length;
+  const shares: SupplyShare[] = Array.from(groups.values())
+    .map(g => ({
+      country: g.country,
+      sites: g.sites,
+      capacity: byCapacity ? g.capacity : null,
+      share: total > 0 ? (byCapacity ? g.capacity : g.sites) / total : 0,
+      risks: countryRiskTags(risks, g.country),
+    }))
+    .sort((a, b) => b.share - a.share);
+
+  return {
+    commodity,
+    basis: byCapacity ? 'capacity' : 'sites',
+    unit: byCapacity ? unit : null,
+    shares,
+    hhi: Math.round(shares.reduce((sum, s) => sum + (s.share * 100) ** 2, 0)),
+    atRiskShare: shares.filter(s => s.risks.length > 0).reduce((sum, s) => sum + s.share, 0),
+  };
+};
+
+// US DOJ/FTC bands, reused here as a rough read on supply concentration
+export const hhiLabel = (hhi: number): string =>
+  hhi >= 2500 ? 'HIGHLY CONCENTRATED' : hhi >= 1500 ? 'MODERATELY CONCENTRATED' : 'DIVERSIFIED';
+
+// 3. Price links
+const PRICE_PROXIES: { pattern: RegExp; symbols: string[] }[] = [
+  { pattern: /gold/i, symbols: ['GLD', 'GC', 'XAU'] },
+  { pattern: /silver/i, symbols: ['SLV', 'SI', 'XAG'] },
+  { pattern: /copper/i, symbols: ['HG', 'CPER', 'COPX'] },
+  { pattern: /oil|crude|petroleum/i, symbols: ['USO', 'CL', 'BRENT'] },
+  { pattern: /gas|lng/i, symbols: ['UNG', 'NG'] },
+  { pattern: /lithium/i, symbols: ['LIT', 'ALB'] },
+  { pattern: /uranium/i, symbols: ['URA', 'CCJ'] },
+];
+
+// Best guess among the symbols the active market provider actually serves
+export const suggestPriceSymbol = (commodity: string, symbols: string[]): string | null => {
+  const upper = symbols.map(s => s.toUpperCase());
+  const proxy = PRICE_PROXIES.find(p => p.pattern.test(commodity));
+  const hit = proxy?.symbols.find(s => upper.includes(s));
+  return hit ? symbols[upper.indexOf(hit)] : null;
+};
+
+// 4. Dataset import/export
+const TAG_IDS = COUNTRY_RISK_TAGS.map(t => t.id);
+
+export const parseCountryRisks = (text: string): CountryRisk[] => {
+  const data = JSON.parse(text);
+  if (!Array.isArray(data)) throw new Error('Expected a JSON array of country risk rows');
+  return data
+    .filter((row: any) => row && typeof row.country === 'string' && row.country.trim())
+    .map((row: any) => ({
+      country: row.country.trim(),
+      tags: (Array.isArray(row.tags) ? row.tags : []).filter((t: unknown): t is CountryRiskTag => TAG_IDS.includes(t as CountryRiskTag)),
+      note: typeof row.note === 'string' ? row.note : '',
+      updatedAt: typeof row.updatedAt === 'number' ? row.updatedAt : Date.now(),
+    }));
+};
+
+export const downloadCountryRisks = (risks: CountryRisk[]) =>
+  downloadFile('country-risks.json', JSON.stringify(risks, null, 2), 'application/json');
@@ -0,0 +1,201 @@
+import {
+  BudgetSettings,
+  CallRecord,
+  CallStatus,
+  LLMRequest,
+  ModelSlot,
+  ModuleType,
+  ServiceError,
+  ServiceErrorKind,
+  TokenUsage
+} from "../types";
+import { getActiveProvider, getProvider } from "./llmProvider";
+import { serviceError } from "./serviceErrors";
+import { loadState, saveState } from "./storageService";
+
+export const DEFAULT_BUDGET: BudgetSettings = { dailyLimitUsd: 0, action: 'WARN' };
+
+// Which module a slot's calls are billed to on the usage dashboard
+export const SLOT_MODULES: Record<ModelSlot, ModuleType> = {
+  NEWS: ModuleType.DASHBOARD,
+  QUANT: ModuleType.QUANT_PREDICT,
+  DEALS: ModuleType.DEAL_FLOW,
+  DEAL_EXTRACT: ModuleType.DEAL_FLOW,
+  RESOURCES: ModuleType.RESOURCE_MAP,
+  RESOURCE_EXTRACT: ModuleType.RESOURCE_MAP,
+  VISION: ModuleType.DATA_LAB,
+  FILING_EXTRACT: ModuleType.DATA_LAB,
+  VALUATION: ModuleType.VALUATION,
+  SCENARIO: ModuleType.SCENARIO,
+  SCENARIO_NARRATIVE: ModuleType.SCENARIO,
+};
+
+const MAX_RECORDS = 500;
+// Output allowance on top of the thinking budget when estimating a call up front
+const EST_OUTPUT_TOKENS = 8192;
+
+let records: CallRecord[] = loadState<CallRecord[]>('telemetry', []);
+let budget: BudgetSettings = DEFAULT_BUDGET;
+// `warning` is passed, without a new record, when a call goes ahead over budget in WARN mode
+type TelemetryListener = (records: CallRecord[], warning?: string) => void;
+const listeners = new Set<TelemetryListener>();
+
+export const configureBudget = (settings: BudgetSettings) => {
+  budget = settings;
+};
+
+export const getCallRecords = (): CallRecord[] => records;
+
+export const subscribeTelemetry = (listener: TelemetryListener) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const clearCallRecords = () => {
+  records = [];
+  saveState('telemetry', records);
+  listeners.forEach(l => l(records));
+};
+
+const publish = (record: CallRecord) => {
+  records = [record, ...records].slice(0, MAX_RECORDS);
+  saveState('telemetry', records);
+  listeners.forEach(l => l(records));
+};
+
+// 1. Cost
+export const estimateCost = (providerId: CallRecord['providerId'], model: string, usage?: TokenUsage): number => {
+  const price = getProvider(providerId).pricing[model];
+  if (!price || !usage) return 0;
+  return (usage.promptTokens * price.inputPerMTok + (usage.thoughtsTokens + usage.outputTokens) * price.outputPerMTok) / 1e6;
+};
+
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+// Worst case for a thinking call: the whole thinking budget plus a full answer
+const estimateRequestCost = (req: LLMRequest): number => {
+  const promptTokens = estimateTokens(req.prompt + (req.systemInstruction || '') + (req.turns || []).map(t => t.content).join(''));
+  const outputTokens = (req.thinkingBudget || 0) + EST_OUTPUT_TOKENS;
+  return estimateCost(getActiveProvider().id, req.model, { promptTokens, thoughtsTokens: 0, outputTokens, totalTokens: promptTokens + outputTokens });
+};
+
+const startOfDay = (now: number) => {
+  const d = new Date(now);
+  d.setHours(0, 0, 0, 0);
+  return d.getTime();
+};
+
+export const spentToday = (list: CallRecord[] = records, now = Date.now()): number => {
+  const since = startOfDay(now);
+  return list.filter(r => r.startedAt >= since).reduce((sum, r) => sum + r.costUsd, 0);
+};
+
+export const formatUsd = (v: number) => (v > 0 && v < 0.01 ? `$${v.toFixed(4)}` : `$${v.toFixed(2)}`);
+
+// Only thinking-mode calls are gated; they are the ones that can burn the budget in a single request
+const budgetGate = (req: LLMRequest): { error?: ServiceError; warning?: string } => {
+  if (!req.thinkingBudget || budget.dailyLimitUsd <= 0) return {};
+  const spent = spentToday();
+  const estimate = estimateRequestCost(req);
+  if (spent + estimate <= budget.dailyLimitUsd) return {};
+  const message = `Daily budget ${formatUsd(budget.dailyLimitUsd)}: ${formatUsd(spent)} spent, this thinking call may cost up to ${formatUsd(estimate)}`;
+  return budget.action === 'BLOCK' ? { error: serviceError('BUDGET', message) } : { warning: message };
+};
+
+// 2. Instrumentation
+export interface CallTracker {
+  // Set when the budget cap refused the call; it is recorded and must not be sent
+  blocked?: ServiceError;
+  firstChunk: () => void;
+  finish: (status: Exclude<CallStatus, 'blocked'>, usage?: TokenUsage, errorKind?: ServiceErrorKind) => void;
+}
+
+const createRecordId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const startCall = (req: LLMRequest, label: string, mode: CallRecord['mode']): CallTracker => {
+  const providerId = getActiveProvider().id;
+  const startedAt = Date.now();
+  const base = { id: createRecordId(), slot: req.slot, label, providerId, model: req.model, mode, startedAt };
+  const gate = budgetGate(req);
+
+  if (gate.error) {
+    publish({ ...base, latencyMs: 0, costUsd: 0, status: 'blocked', errorKind: 'BUDGET' });
+    return { blocked: gate.error, firstChunk: () => {}, finish: () => {} };
+  }
+
+  if (gate.warning) listeners.forEach(l => l(records, gate.warning));
+
+  let firstChunkMs: number | undefined;
+  let done = false;
+  return {
+    firstChunk: () => {
+      if (firstChunkMs === undefined) firstChunkMs = Date.now() - startedAt;
+    },
+    finish: (status, usage, errorKind) => {
+      if (done) return;
+      done = true;
+      publish({
+        ...base,
+        latencyMs: Date.now() - startedAt,
+        firstChunkMs,
+        usage,
+        costUsd: estimateCost(providerId, req.model, usage),
+        status,
+        errorKind,
+        budgetWarning: gate.warning,
+      });
+    },
+  };
+};
+
+// 3. Aggregation
+export interface UsageSummary {
+  key: string;
+  calls: number;
+  errors: number;
+  avgLatencyMs: number | null;
+  promptTokens: number;
+  thoughtsTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+export const summarizeUsage = (list: CallRecord[], keyOf: (r: CallRecord) => string): UsageSummary[] => {
+  const groups = new Map<string, CallRecord[]>();
+  list.forEach(r => groups.set(keyOf(r), [...(groups.get(keyOf(r)) || []), r]));
+  return Array.from(groups.entries())
+    .map(([key, rs]) => {
+      const completed = rs.filter(r => r.status === 'ok');
+      return {
+        key,
+        calls: rs.length,
+        errors: rs.filter(r => r.status === 'error' || r.status === 'blocked').length,
+        avgLatencyMs: completed.length ? completed.reduce((sum, r) => sum + r.latencyMs, 0) / completed.length : null,
+        promptTokens: rs.reduce((sum, r) => sum + (r.usage?.promptTokens ?? 0), 0),
+        thoughtsTokens: rs.reduce((sum, r) => sum + (r.usage?.thoughtsTokens ?? 0), 0),
+        outputTokens: rs.reduce((sum, r) => sum + (r.usage?.outputTokens ?? 0), 0),
+        costUsd: rs.reduce((sum, r) => sum + r.costUsd, 0),
+      };
+    })
+    .sort((a, b) => b.costUsd - a.costUsd || b.calls - a.calls);
+};
+
+export type LinkStatus = 'IDLE' | 'CONNECTED' | 'DEGRADED' | 'AUTH ERROR' | 'OFFLINE';
+
+const RECENT_CALLS = 10;
+
+// Judged from the latest calls: an auth failure or mostly-failing recent calls mean the link is not usable
+export const linkStatus = (list: CallRecord[], online: boolean): LinkStatus => {
+  if (!online) return 'OFFLINE';
+  const recent = list.filter(r => r.status === 'ok' || r.status === 'error').slice(0, RECENT_CALLS);
+  if (recent.length === 0) return 'IDLE';
+  if (recent[0].errorKind === 'AUTH') return 'AUTH ERROR';
+  const failures = recent.filter(r => r.status === 'error').length;
+  return recent[0].status === 'error' || failures * 2 > recent.length ? 'DEGRADED' : 'CONNECTED';
+};
+
+// Median so one slow thinking call doesn't dominate the indicator
+export const recentLatency = (list: CallRecord[]): number | null => {
+  const latencies = list.filter(r => r.status === 'ok').slice(0, RECENT_CALLS).map(r => r.firstChunkMs ?? r.latencyMs).sort((a, b) => a - b);
+  return latencies.length ? latencies[Math.floor(latencies.length / 2)] : null;
+};
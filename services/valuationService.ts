@@ -0,0 +1,296 @@
+import {
+  CompMultiple,
+  CompPeer,
+  DcfAssumptions,
+  DcfResult,
+  DcfYear,
+  FinancialStatements,
+  PipelineDeal,
+  ValuationModel
+} from "../types";
+import { computeRatios } from "./financialsService";
+
+export const DCF_YEARS = 5;
+
+export const COMP_MULTIPLES: { id: CompMultiple; label: string }[] = [
+  { id: 'evEbitda', label: 'EV/EBITDA' },
+  { id: 'evSales', label: 'EV/Sales' },
+  { id: 'pe', label: 'P/E' },
+];
+
+// Generic mid-cap starting point; every field is meant to be overwritten
+export const DEFAULT_DCF: DcfAssumptions = {
+  baseRevenue: 1000,
+  revenueGrowth: [0.08, 0.07, 0.06, 0.05, 0.04],
+  ebitMargin: [0.15, 0.15, 0.16, 0.16, 0.17],
+  taxRate: 0.21,
+  daPctRevenue: 0.04,
+  capexPctRevenue: 0.05,
+  nwcPctIncrementalRevenue: 0.1,
+  riskFreeRate: 0.042,
+  beta: 1.1,
+  equityRiskPremium: 0.05,
+  preTaxCostOfDebt: 0.06,
+  debtWeight: 0.2,
+  terminalGrowth: 0.025,
+  netDebt: 0,
+  sharesOutstanding: 100,
+};
+
+export const createValuationId = () => `val-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createPeerId = () => `peer-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+// 1. Builders
+export const createValuation = (
+  name: string,
+  source: ValuationModel['source'] = { kind: 'manual', label: 'Manual' },
+  overrides: Partial<Pick<ValuationModel, 'currency' | 'unit' | 'dcf' | 'target'>> = {}
+): ValuationModel => {
+  const now = Date.now();
+  return {
+    id: createValuationId(),
+    name,
+    currency: 'USD',
+    unit: 'millions',
+    source,
+    dcf: { ...DEFAULT_DCF, revenueGrowth: [...DEFAULT_DCF.revenueGrowth], ebitMargin: [...DEFAULT_DCF.ebitMargin] },
+    target: { revenue: null, ebitda: null, netIncome: null },
+    peers: [],
+    rationale: '',
+    createdAt: now,
+    updatedAt: now,
+    ...overrides,
+  };
+};
+
+const lastValue = (s: FinancialStatements, id: string): number | null => {
+  const figures = s.lines.find(l => l.id === id)?.figures ?? [];
+  for (let i = figures.length - 1; i >= 0; i--) if (figures[i].value !== null) return figures[i].value;
+  return null;
+};
+
+const lastRatio = (ratios: ReturnType<typeof computeRatios>, id: string): number | null => {
+  const values = ratios.find(r => r.id === id)?.values ?? [];
+  for (let i = values.length - 1; i >= 0; i--) if (values[i] !== null) return values[i];
+  return null;
+};
+
+// Reported facts carried straight into the model; forward-looking inputs are left to the user or the suggester
+export const filingBaseline = (s: FinancialStatements): { dcf: Partial<DcfAssumptions>; target: ValuationModel['target'] } => {
+  const ratios = computeRatios(s);
+  const revenue = lastValue(s, 'revenue');
+  const ebit = lastValue(s, 'operatingIncome');
+  const da = lastValue(s, 'depreciationAmortization');
+  const capex = lastValue(s, 'capitalExpenditure');
+  const debt = (lastValue(s, 'shortTermDebt') ?? 0) + (lastValue(s, 'longTermDebt') ?? 0);
+  const tax = lastValue(s, 'incomeTax');
+  const pretax = lastValue(s, 'pretaxIncome');
+  const taxRate = tax !== null && pretax ? Math.abs(tax) / pretax : null;
+  const margin = lastRatio(ratios, 'operatingMargin');
+  const growth = lastRatio(ratios, 'revenueGrowth');
+
+  const dcf: Partial<DcfAssumptions> = { netDebt: debt - (lastValue(s, 'cash') ?? 0) };
+  if (revenue !== null) dcf.baseRevenue = revenue;
+  if (margin !== null) dcf.ebitMargin = Array(DCF_YEARS).fill(margin);
+  if (growth !== null) dcf.revenueGrowth = Array(DCF_YEARS).fill(growth);
+  if (taxRate !== null && taxRate >= 0 && taxRate <= 0.5) dcf.taxRate = taxRate;
+  if (revenue && da !== null) dcf.daPctRevenue = Math.abs(da) / revenue;
+  if (revenue && capex !== null) dcf.capexPctRevenue = Math.abs(capex) / revenue;
+  const shares = lastValue(s, 'dilutedShares');
+  if (shares) dcf.sharesOutstanding = shares;
+
+  return {
+    dcf,
+    target: {
+      revenue,
+      ebitda: ebit === null ? null : ebit + Math.abs(da ?? 0),
+      netIncome: lastValue(s, 'netIncome'),
+    },
+  };
+};
+
+export const valuationFromFiling = (s: FinancialStatements): ValuationModel => {
+  const { dcf, target } = filingBaseline(s);
+  const model = createValuation(`${s.company} DCF`, { kind: 'filing', label: `${s.company} (${s.periods[s.periods.length - 1]})` }, {
+    currency: s.currency,
+    unit: s.unit,
+    target,
+  });
+  return { ...model, dcf: { ...model.dcf, ...dcf } };
+};
+
+export const valuationFromDeal = (deal: PipelineDeal): ValuationModel =>
+  createValuation(`${deal.candidate.name} DCF`, { kind: 'deal', label: deal.candidate.name, refId: deal.id });
+
+// Suggested values replace the current ones; projection arrays are fitted to the horizon
+export const applyAssumptions = (model: ValuationModel, assumptions: Partial<DcfAssumptions>, rationale?: string): ValuationModel => {
+  const fit = (values: number[] | undefined, current: number[]) =>
+    values?.length ? Array.from({ length: DCF_YEARS }, (_, i) => values[Math.min(i, values.length - 1)]) : current;
+  const dcf = { ...model.dcf, ...assumptions };
+  dcf.revenueGrowth = fit(assumptions.revenueGrowth, model.dcf.revenueGrowth);
+  dcf.ebitMargin = fit(assumptions.ebitMargin, model.dcf.ebitMargin);
+  return { ...model, dcf, rationale: rationale ?? model.rationale, updatedAt: Date.now() };
+};
+
+// 2. DCF
+export const costOfEquity = (a: DcfAssumptions) => a.riskFreeRate + a.beta * a.equityRiskPremium;
+
+export const computeWacc = (a: DcfAssumptions) =>
+  (1 - a.debtWeight) * costOfEquity(a) + a.debtWeight * a.preTaxCostOfDebt * (1 - a.taxRate);
+
+// End-of-year discounting with a Gordon growth terminal value; null when WACC does not exceed terminal growth
+export const runDcf = (a: DcfAssumptions, wacc = computeWacc(a), terminalGrowth = a.terminalGrowth): DcfResult | null => {
+  if (wacc <= terminalGrowth) return null;
+  const years: DcfYear[] = [];
+  let revenue = a.baseRevenue;
+  a.revenueGrowth.forEach((growth, i) => {
+    const prior = revenue;
+    revenue = prior * (1 + growth);
+    const ebit = revenue * (a.ebitMargin[i] ?? a.ebitMargin[a.ebitMargin.length - 1] ?? 0);
+    const nopat = ebit * (1 - a.taxRate);
+    const da = revenue * a.daPctRevenue;
+    const capex = revenue * a.capexPctRevenue;
+    const nwcChange = (revenue - prior) * a.nwcPctIncrementalRevenue;
+    const fcf = nopat + da - capex - nwcChange;
+    const discountFactor = 1 / (1 + wacc) ** (i + 1);
+    years.push({ year: i + 1, revenue, ebit, nopat, da, capex, nwcChange, fcf, discountFactor, presentValue: fcf * discountFactor });
+  });
+  const last = years[years.length - 1];
+  const sumPresentValue = years.reduce((sum, y) => sum + y.presentValue, 0);
+  const terminalValue = last ? (last.fcf * (1 + terminalGrowth)) / (wacc - terminalGrowth) : 0;
+  const presentTerminalValue = last ? terminalValue * last.discountFactor : 0;
+  const enterpriseValue = sumPresentValue + presentTerminalValue;
+  const equityValue = enterpriseValue - a.netDebt;
+  return {
+    costOfEquity: costOfEquity(a),
+    wacc,
+    years,
+    sumPresentValue,
+    terminalValue,
+    presentTerminalValue,
+    enterpriseValue,
+    equityValue,
+    perShare: a.sharesOutstanding > 0 ? equityValue / a.sharesOutstanding : null,
+  };
+};
+
+export interface SensitivityTable {
+  waccs: number[];
+  growths: number[];
+  // values[waccIndex][growthIndex], per share when share count is known, else equity value
+  values: (number | null)[][];
+  metric: 'perShare' | 'equityValue';
+}
+
+export const sensitivity = (a: DcfAssumptions, step = 0.005, radius = 2): SensitivityTable => {
+  const base = computeWacc(a);
+  const offsets = Array.from({ length: radius * 2 + 1 }, (_, i) => (i - radius) * step);
+  const waccs = offsets.map(o => base + o);
+  const growths = offsets.map(o => a.terminalGrowth + o);
+  const metric = a.sharesOutstanding > 0 ? 'perShare' : 'equityValue';
+  return {
+    waccs,
+    growths,
+    values: waccs.map(w => growths.map(g => {
+      const result = runDcf(a, w, g);
+      return result ? result[metric] : null;
+    })),
+    metric,
+  };
+};
+
+// 3. Comparable companies
+export const peerMultiples = (peer: CompPeer): Record<CompMultiple, number | null> & { marketCap: number | null; enterpriseValue: number | null } => {
+  const marketCap = peer.price !== null && peer.sharesOutstanding !== null ? peer.price * peer.sharesOutstanding : null;
+  const enterpriseValue = marketCap === null ? null : marketCap + (peer.netDebt ?? 0);
+  // Multiples on negative earnings or EBITDA are not meaningful
+  const multiple = (value: number | null, metric: number | null) => (value === null || metric === null || metric <= 0 ? null : value / metric);
+  return {
+    marketCap,
+    enterpriseValue,
+    evEbitda: multiple(enterpriseValue, peer.ebitda),
+    evSales: multiple(enterpriseValue, peer.revenue),
+    pe: multiple(marketCap, peer.netIncome),
+  };
+};
+
+const median = (values: number[]) => {
+  if (values.length === 0) return null;
+  const sorted = values.slice().sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+export const compsSummary = (peers: CompPeer[]): Record<CompMultiple, { median: number | null; mean: number | null; count: number }> => {
+  const all = peers.map(peerMultiples);
+  const summarize = (id: CompMultiple) => {
+    const values = all.map(m => m[id]).filter((v): v is number => v !== null);
+    return {
+      median: median(values),
+      mean: values.length ? values.reduce((s, v) => s + v, 0) / values.length : null,
+      count: values.length,
+    };
+  };
+  return { evEbitda: summarize('evEbitda'), evSales: summarize('evSales'), pe: summarize('pe') };
+};
+
+// Peer medians applied to the target; EV-based multiples bridge to equity through net debt
+export const impliedValuations = (model: ValuationModel): { id: CompMultiple; multiple: number | null; enterpriseValue: number | null; equityValue: number | null; perShare: number | null }[] => {
+  const summary = compsSummary(model.peers);
+  const { netDebt, sharesOutstanding } = model.dcf;
+  const metric: Record<CompMultiple, number | null> = {
+    evEbitda: model.target.ebitda,
+    evSales: model.target.revenue,
+    pe: model.target.netIncome,
+  };
+  return COMP_MULTIPLES.map(({ id }) => {
+    const multiple = summary[id].median;
+    const base = metric[id];
+    if (multiple === null || base === null || base <= 0) return { id, multiple, enterpriseValue: null, equityValue: null, perShare: null };
+    const equityValue = id === 'pe' ? multiple * base : multiple * base - netDebt;
+    const enterpriseValue = id === 'pe' ? equityValue + netDebt : multiple * base;
+    return { id, multiple, enterpriseValue, equityValue, perShare: sharesOutstanding > 0 ? equityValue / sharesOutstanding : null };
+  });
+};
+
+// 4. Model context
+const pct = (v: number) => `${(v * 100).toFixed(1)}%`;
+
+// Facts the suggester works from; it returns assumptions only and never computes values
+export const valuationContext = (model: ValuationModel, source: { deal?: PipelineDeal; filing?: FinancialStatements }): string => {
+  const lines = [`VALUATION: ${model.name} (${model.currency}, figures in ${model.unit})`];
+  if (source.deal) {
+    const c = source.deal.candidate;
+    lines.push(
+      'DEAL:',
+      `- Company: ${c.name}`,
+      `- Sector: ${c.sector}`,
+      `- Stage: ${c.stage}; last round: ${c.lastRound}`,
+      `- Geography: ${c.geography}`,
+      `- Rationale: ${c.rationale}`,
+      ...(source.deal.notes ? [`- Analyst notes: ${source.deal.notes}`] : [])
+    );
+  }
+  if (source.filing) {
+    const f = source.filing;
+    lines.push(`FILING: ${f.company} (${f.currency} ${f.unit}), periods ${f.periods.join(', ')}`);
+    f.lines.forEach(l => lines.push(`- ${l.label}: ${l.figures.map(fig => (fig.value === null ? 'n/a' : fig.value)).join(' | ')}`));
+    lines.push('RATIOS:');
+    computeRatios(f).forEach(r => lines.push(`- ${r.label}: ${r.values.map(v => (v === null ? 'n/a' : r.format === 'percent' ? pct(v) : v.toFixed(2))).join(' | ')}`));
+  }
+  const a = model.dcf;
+  lines.push(
+    'CURRENT ASSUMPTIONS:',
+    `- Base revenue: ${a.baseRevenue}`,
+    `- Revenue growth by year: ${a.revenueGrowth.map(pct).join(', ')}`,
+    `- EBIT margin by year: ${a.ebitMargin.map(pct).join(', ')}`,
+    `- Tax ${pct(a.taxRate)}, D&A ${pct(a.daPctRevenue)} of revenue, capex ${pct(a.capexPctRevenue)} of revenue, NWC ${pct(a.nwcPctIncrementalRevenue)} of incremental revenue`,
+    `- Risk-free ${pct(a.riskFreeRate)}, beta ${a.beta}, ERP ${pct(a.equityRiskPremium)}, cost of debt ${pct(a.preTaxCostOfDebt)}, debt weight ${pct(a.debtWeight)}`,
+    `- Terminal growth ${pct(a.terminalGrowth)}`
+  );
+  if (model.peers.length) {
+    lines.push('PEERS:', ...model.peers.map(p => `- ${p.name}`));
+  }
+  return lines.join('\n');
+};
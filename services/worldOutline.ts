@@ -0,0 +1,76 @@
+// Coarse continent outlines as [lng, lat] rings. Deliberately low-detail (a few degrees of error)
+// so the resource map has a basemap that works offline without tile servers or map libraries.
+export const WORLD_OUTLINE: [number, number][][] = [
+  // North America
+  [
+    [-168, 66], [-162, 70], [-156, 71], [-141, 70], [-128, 70], [-115, 68], [-95, 72], [-82, 69], [-80, 63],
+    [-94, 59], [-92, 57], [-82, 55], [-79, 52], [-77, 60], [-70, 60], [-64, 60], [-61, 56], [-56, 52],
+    [-66, 45], [-70, 43], [-70, 41], [-76, 37], [-76, 35], [-81, 31], [-80, 26], [-82, 26], [-84, 30],
+    [-90, 29], [-97, 28], [-97, 22], [-92, 19], [-87, 21], [-88, 16], [-83, 15], [-83, 10], [-78, 9],
+    [-80, 7], [-86, 11], [-92, 14], [-97, 16], [-105, 20], [-106, 23], [-112, 29], [-115, 30], [-110, 23],
+    [-117, 32], [-121, 35], [-124, 40], [-124, 47], [-128, 51], [-134, 57], [-140, 60], [-148, 61],
+    [-154, 58], [-162, 55], [-158, 59], [-165, 61], [-164, 64],
+  ],
+  // Greenland
+  [
+    [-73, 78], [-60, 82], [-35, 83], [-20, 82], [-18, 77], [-22, 70], [-32, 68], [-42, 60], [-50, 64],
+    [-54, 70], [-60, 76],
+  ],
+  // South America
+  [
+    [-78, 9], [-72, 12], [-62, 11], [-52, 5], [-50, 0], [-44, -2], [-35, -5], [-35, -9], [-39, -14],
+    [-41, -22], [-48, -26], [-53, -34], [-58, -35], [-57, -38], [-62, -39], [-65, -42], [-66, -47],
+    [-69, -51], [-68, -55], [-72, -54], [-75, -48], [-74, -42], [-73, -37], [-71, -30], [-70, -18],
+    [-76, -14], [-81, -6], [-80, -2], [-80, 1], [-77, 4], [-77, 8],
+  ],
+  // Europe (mainland, incl. Scandinavia)
+  [
+    [-9, 43], [-9, 39], [-9, 37], [-6, 36], [-2, 37], [0, 39], [3, 42], [4, 43], [8, 44], [10, 44],
+    [12, 42], [16, 38], [16, 40], [18, 40], [13, 45], [19, 42], [20, 40], [23, 37], [24, 40], [26, 41],
+    [29, 41], [28, 44], [30, 46], [34, 45], [38, 47], [40, 48], [40, 60], [42, 67], [33, 66], [32, 69],
+    [28, 71], [18, 70], [14, 67], [10, 63], [5, 62], [5, 58], [8, 58], [11, 59], [13, 56], [16, 56],
+    [18, 60], [17, 62], [21, 65], [25, 65], [22, 62], [21, 60], [27, 60], [24, 57], [21, 57], [21, 55],
+    [14, 54], [10, 54], [9, 57], [8, 55], [5, 53], [2, 51], [-2, 49], [-4, 48], [-1, 46], [-2, 43],
+  ],
+  // Great Britain
+  [[-5, 50], [1, 51], [2, 53], [-1, 55], [-2, 58], [-5, 59], [-6, 56], [-3, 54], [-5, 52]],
+  // Africa
+  [
+    [-17, 21], [-13, 28], [-10, 30], [-9, 33], [-6, 36], [0, 36], [10, 37], [11, 34], [20, 31], [30, 31],
+    [34, 31], [34, 28], [39, 20], [43, 13], [51, 12], [51, 10], [47, 4], [40, -3], [39, -7], [40, -11],
+    [41, -15], [35, -20], [35, -25], [32, -29], [27, -34], [20, -35], [18, -32], [15, -26], [12, -18],
+    [12, -10], [13, -5], [9, -1], [10, 4], [6, 4], [2, 6], [-4, 5], [-8, 4], [-13, 8], [-17, 14],
+  ],
+  // Madagascar
+  [[44, -25], [47, -25], [50, -16], [49, -12], [44, -16]],
+  // Asia (incl. Middle East, Indian subcontinent, Indochina)
+  [
+    [40, 48], [38, 47], [34, 45], [30, 46], [28, 44], [29, 41], [36, 37], [34, 31], [35, 28], [43, 13],
+    [45, 13], [52, 16], [59, 22], [57, 25], [50, 30], [48, 30], [51, 27], [56, 27], [61, 25], [67, 25],
+    [73, 21], [73, 16], [77, 8], [80, 10], [80, 16], [87, 21], [92, 22], [94, 17], [98, 16], [98, 8],
+    [101, 3], [104, 1], [103, 6], [100, 8], [100, 13], [105, 9], [109, 12], [106, 20], [110, 21],
+    [117, 23], [120, 27], [122, 31], [119, 35], [122, 37], [118, 38], [121, 41], [125, 40], [127, 35],
+    [129, 35], [130, 42], [136, 44], [141, 49], [140, 54], [135, 55], [143, 59], [152, 59], [156, 51],
+    [162, 56], [163, 60], [173, 61], [180, 65], [180, 69], [170, 70], [160, 70], [150, 72], [140, 72],
+    [130, 71], [113, 74], [104, 78], [95, 76], [80, 73], [72, 68], [67, 69], [60, 69], [54, 68], [44, 68],
+    [42, 67], [40, 60],
+  ],
+  // Japan
+  [[130, 31], [132, 34], [136, 34], [140, 35], [142, 39], [141, 42], [145, 44], [142, 46], [140, 42], [139, 38], [136, 36], [133, 36]],
+  // Sumatra
+  [[95, 5], [98, 4], [104, -2], [106, -6], [102, -4], [97, 1]],
+  // Java
+  [[105, -6], [112, -7], [115, -8], [108, -8]],
+  // Borneo
+  [[109, 2], [111, -3], [116, -4], [119, 1], [117, 7], [113, 3]],
+  // New Guinea
+  [[131, -1], [138, -2], [145, -4], [150, -10], [143, -9], [138, -8], [135, -4]],
+  // Australia
+  [
+    [114, -22], [122, -18], [126, -14], [130, -12], [136, -12], [136, -15], [140, -17], [142, -11],
+    [146, -18], [153, -25], [153, -29], [150, -37], [146, -39], [140, -38], [138, -35], [135, -35],
+    [131, -31], [124, -34], [118, -35], [115, -34], [115, -30],
+  ],
+  // New Zealand
+  [[172, -34], [178, -38], [175, -41], [172, -44], [167, -46], [171, -41]],
+];
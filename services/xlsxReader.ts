@@ -0,0 +1,137 @@
+// Minimal XLSX reader: unzips the workbook with the browser's DecompressionStream and reads the
+// first worksheet's cell values. Formulas yield their cached values; formatting is ignored apart
+// from detecting date-formatted numbers.
+
+export type SheetCell = string | number | boolean | null;
+
+// 1. Zip container
+const inflateRaw = async (bytes: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const readZip = async (buffer: ArrayBuffer): Promise<Map<string, Uint8Array>> => {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const decoder = new TextDecoder();
+
+  // The end-of-central-directory record sits in the last 64 KB (max comment length)
+  let eocd = -1;
+  for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 65557); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) { eocd = i; break; }
+  }
+  if (eocd < 0) throw new Error('Not a valid XLSX file (zip directory not found)');
+
+  const count = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const files = new Map<string, Uint8Array>();
+
+  for (let n = 0; n < count; n++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) throw new Error('Corrupt XLSX file (bad zip entry)');
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const data = bytes.subarray(dataStart, dataStart + compressedSize);
+    if (method === 0) files.set(name, data);
+    else if (method === 8) files.set(name, await inflateRaw(data));
+    else throw new Error(`Unsupported zip compression method ${method} in ${name}`);
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return files;
+};
+
+// 2. Workbook parts
+const parseXml = (data: Uint8Array | undefined): Document | null =>
+  data ? new DOMParser().parseFromString(new TextDecoder().decode(data), 'application/xml') : null;
+
+const elements = (node: Document | Element, tag: string): Element[] =>
+  Array.from(node.getElementsByTagNameNS('*', tag));
+
+const readSharedStrings = (doc: Document | null): string[] =>
+  doc ? elements(doc, 'si').map(si => elements(si, 't').map(t => t.textContent ?? '').join('')) : [];
+
+// Built-in number formats 14-22 and 45-47 are dates/times; custom formats are checked for date tokens
+const BUILTIN_DATE_FORMATS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47]);
+
+const readDateStyles = (doc: Document | null): Set<number> => {
+  const dateStyles = new Set<number>();
+  if (!doc) return dateStyles;
+  const customDates = new Set(
+    elements(doc, 'numFmt')
+      .filter(f => /[dmyhs]/i.test((f.getAttribute('formatCode') ?? '').replace(/"[^"]*"|\[[^\]]*\]/g, '')))
+      .map(f => Number(f.getAttribute('numFmtId')))
+  );
+  const cellXfs = elements(doc, 'cellXfs')[0];
+  if (!cellXfs) return dateStyles;
+  elements(cellXfs, 'xf').forEach((xf, index) => {
+    const id = Number(xf.getAttribute('numFmtId'));
+    if (BUILTIN_DATE_FORMATS.has(id) || customDates.has(id)) dateStyles.add(index);
+  });
+  return dateStyles;
+};
+
+// Path of the first worksheet, resolved through the workbook relationships
+const firstSheetPath = (files: Map<string, Uint8Array>): { name: string; path: string } => {
+  const workbook = parseXml(files.get('xl/workbook.xml'));
+  const rels = parseXml(files.get('xl/_rels/workbook.xml.rels'));
+  const sheet = workbook ? elements(workbook, 'sheet')[0] : undefined;
+  const relId = sheet?.getAttributeNS('http://schemas.openxmlformats.org/officeDocument/2006/relationships', 'id') || sheet?.getAttribute('r:id');
+  const rel = rels && relId ? elements(rels, 'Relationship').find(r => r.getAttribute('Id') === relId) : undefined;
+  const target = rel?.getAttribute('Target');
+  const path = target ? (target.startsWith('/') ? target.slice(1) : `xl/${target.replace(/^\.\//, '')}`) : 'xl/worksheets/sheet1.xml';
+  return { name: sheet?.getAttribute('name') ?? 'Sheet1', path };
+};
+
+const columnIndex = (ref: string): number => {
+  const letters = ref.replace(/[0-9]/g, '');
+  let index = 0;
+  for (const ch of letters) index = index * 26 + (ch.charCodeAt(0) - 64);
+  return index - 1;
+};
+
+// Excel serial day 25569 is 1970-01-01 (the 1900 leap-year bug is already baked into the offset)
+const serialToIso = (serial: number): string => {
+  const date = new Date(Math.round((serial - 25569) * 86400000));
+  return serial % 1 === 0 ? date.toISOString().slice(0, 10) : date.toISOString().slice(0, 19).replace('T', ' ');
+};
+
+// 3. Entry point
+export const readXlsx = async (buffer: ArrayBuffer): Promise<{ sheet: string; rows: SheetCell[][] }> => {
+  const files = await readZip(buffer);
+  const { name, path } = firstSheetPath(files);
+  const sheet = parseXml(files.get(path));
+  if (!sheet) throw new Error('Workbook has no readable worksheet');
+  const shared = readSharedStrings(parseXml(files.get('xl/sharedStrings.xml')));
+  const dateStyles = readDateStyles(parseXml(files.get('xl/styles.xml')));
+
+  const rows: SheetCell[][] = [];
+  elements(sheet, 'row').forEach(rowEl => {
+    const rowIndex = Number(rowEl.getAttribute('r') ?? rows.length + 1) - 1;
+    const row: SheetCell[] = [];
+    elements(rowEl, 'c').forEach((cell, i) => {
+      const col = cell.getAttribute('r') ? columnIndex(cell.getAttribute('r')!) : i;
+      const type = cell.getAttribute('t');
+      const raw = elements(cell, 'v')[0]?.textContent ?? null;
+      let value: SheetCell = null;
+      if (type === 's') value = raw === null ? null : shared[Number(raw)] ?? null;
+      else if (type === 'inlineStr') value = elements(cell, 't').map(t => t.textContent ?? '').join('');
+      else if (type === 'b') value = raw === '1';
+      else if (type === 'str' || type === 'e') value = raw;
+      else if (raw !== null && raw !== '') {
+        const num = Number(raw);
+        value = dateStyles.has(Number(cell.getAttribute('s') ?? -1)) ? serialToIso(num) : num;
+      }
+      row[col] = value;
+    });
+    rows[rowIndex] = Array.from(row, v => v ?? null);
+  });
+  // Blank rows (including gaps left by sparse row numbers) are dropped
+  return { sheet: name, rows: Array.from(rows, r => r ?? []).filter(r => r.some(v => v !== null && v !== '')) };
+};
@@ -1,10 +1,20 @@
 export interface Message {
+  id: string;
   role: 'user' | 'model' | 'system';
   content: string;
   type?: 'text' | 'analysis' | 'alert';
   timestamp: number;
 }
 
+export interface ConversationThread {
+  id: string;
+  title: string;
+  messages: Message[];
+  createdAt: number;
+  // Set when the thread was branched off another one
+  forkedFrom?: { threadId: string; messageId: string };
+}
+
 export interface GroundingChunk {
   web?: {
     uri: string;
@@ -22,12 +32,486 @@ export interface AnalysisResult {
   groundingChunks?: GroundingChunk[];
 }
 
+export type ServiceErrorKind = 'AUTH' | 'RATE_LIMIT' | 'SAFETY' | 'NETWORK' | 'TIMEOUT' | 'SCHEMA' | 'CANCELLED' | 'BUDGET' | 'UNKNOWN';
+
+export interface ServiceError {
+  kind: ServiceErrorKind;
+  message: string;
+  // Transient kinds (rate limit, network, timeout) are retried under the RetryPolicy
+  retryable: boolean;
+  attempts: number;
+  httpStatus?: number;
+  // Extra context, e.g. schema validation issues
+  details?: string[];
+  raw?: string;
+}
+
+export type ServiceResult<T> =
+  | { status: 'ok'; data: T }
+  | { status: 'error'; error: ServiceError };
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // 0 = fixed backoff, 1 = full jitter
+  jitter: number;
+  // Max wait for a response (or, when streaming, between chunks)
+  timeoutMs: number;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  thoughtsTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+export type StreamStatus = 'idle' | 'streaming' | 'complete' | 'aborted' | 'error';
+
+export interface StreamHandlers {
+  // Called per chunk with the new text and everything received so far
+  onText: (delta: string, fullText: string) => void;
+  onUsage?: (usage: TokenUsage) => void;
+  onRetry?: (error: ServiceError, attempt: number, delayMs: number) => void;
+  signal?: AbortSignal;
+}
+
+export interface StreamOutcome {
+  status: 'complete' | 'aborted' | 'error';
+  // Whatever text arrived, including partial output on abort/error
+  text: string;
+  groundingChunks?: GroundingChunk[];
+  usage?: TokenUsage;
+  error?: ServiceError;
+}
+
+export interface StreamState {
+  status: StreamStatus;
+  text: string;
+  usage?: TokenUsage;
+  startedAt: number | null;
+  finishedAt: number | null;
+  error?: ServiceError;
+  // Last transient failure while waiting on a retry; cleared once text arrives
+  retry?: { attempt: number; delayMs: number; error: ServiceError };
+}
+
+export type LLMProviderId = 'gemini' | 'mock';
+
+// Model-backed features; each one can be pointed at its own model
+export type ModelSlot = 'NEWS' | 'QUANT' | 'DEALS' | 'DEAL_EXTRACT' | 'RESOURCES' | 'RESOURCE_EXTRACT' | 'VISION' | 'FILING_EXTRACT' | 'VALUATION' | 'SCENARIO' | 'SCENARIO_NARRATIVE';
+
+export type GroundingMode = 'search' | 'maps';
+
+export interface LLMRequest {
+  slot: ModelSlot;
+  model: string;
+  prompt: string;
+  systemInstruction?: string;
+  // Inline file for vision/document input (image or PDF), base64 without the data URL header
+  attachment?: { mimeType: string; data: string };
+  grounding?: GroundingMode;
+  // Biases maps grounding towards a point
+  location?: { lat: number; lng: number };
+  // Earlier conversation turns, oldest first; `prompt` is sent as the next user turn
+  turns?: Message[];
+  // JSON schema in the provider's dialect; the response text is then raw JSON
+  responseSchema?: unknown;
+  thinkingBudget?: number;
+}
+
+// One streamed piece of a response; a blocking call yields a single chunk with the full text
+export interface LLMChunk {
+  text: string;
+  groundingChunks?: GroundingChunk[];
+  usage?: TokenUsage;
+}
+
+export interface LLMProvider {
+  id: LLMProviderId;
+  name: string;
+  models: string[];
+  defaultModels: Record<ModelSlot, string>;
+  // List prices used for cost estimates; models without an entry count as free
+  pricing: Record<string, ModelPricing>;
+  // Implementations throw on failure (ServiceError for safety blocks); retries are handled by the caller
+  generate: (request: LLMRequest, signal: AbortSignal) => Promise<LLMChunk>;
+  stream: (request: LLMRequest, signal: AbortSignal) => AsyncIterable<LLMChunk>;
+}
+
+// USD per million tokens; thinking tokens bill at the output rate
+export interface ModelPricing {
+  inputPerMTok: number;
+  outputPerMTok: number;
+}
+
+export type CallStatus = 'ok' | 'error' | 'aborted' | 'blocked';
+
+// One instrumented model call, including every retry it took
+export interface CallRecord {
+  id: string;
+  slot: ModelSlot;
+  label: string;
+  providerId: LLMProviderId;
+  model: string;
+  mode: 'generate' | 'stream';
+  startedAt: number;
+  latencyMs: number;
+  // Time to the first streamed chunk
+  firstChunkMs?: number;
+  usage?: TokenUsage;
+  costUsd: number;
+  status: CallStatus;
+  errorKind?: ServiceErrorKind;
+  // Set when the call went ahead over the daily budget in WARN mode
+  budgetWarning?: string;
+}
+
+export interface BudgetSettings {
+  // 0 disables the cap
+  dailyLimitUsd: number;
+  // What happens to a thinking-mode call that would exceed the cap
+  action: 'WARN' | 'BLOCK';
+}
+
+export interface ModelSettings {
+  providerId: LLMProviderId;
+  // Per-slot overrides; missing or unknown models fall back to the provider default
+  models: Partial<Record<ModelSlot, string>>;
+}
+
+export type PredictionDirection = 'BULLISH' | 'BEARISH' | 'NEUTRAL';
+
+export interface QuantPrediction {
+  direction: PredictionDirection;
+  targetRange: {
+    low: number;
+    high: number;
+    unit: string;
+  };
+  horizon: string;
+  // 0-100
+  confidence: number;
+  keyDrivers: string[];
+  risks: string[];
+  invalidationLevel: {
+    value: number;
+    description: string;
+  };
+  narrative: string;
+}
+
+export type QuantPredictionResult = ServiceResult<QuantPrediction>;
+
 export enum ModuleType {
   DASHBOARD = 'DASHBOARD',
   QUANT_PREDICT = 'QUANT_PREDICT',
   DEAL_FLOW = 'DEAL_FLOW',
   RESOURCE_MAP = 'RESOURCE_MAP',
-  DATA_LAB = 'DATA_LAB'
+  DATA_LAB = 'DATA_LAB',
+  BACKTEST = 'BACKTEST',
+  PORTFOLIO = 'PORTFOLIO',
+  VALUATION = 'VALUATION',
+  SCENARIO = 'SCENARIO'
+}
+
+// Modules whose model runs are recorded in history
+export type HistoryModule = ModuleType.QUANT_PREDICT | ModuleType.DEAL_FLOW | ModuleType.RESOURCE_MAP | ModuleType.DATA_LAB;
+
+export interface HistoryEntry {
+  id: string;
+  workspaceId: string;
+  module: HistoryModule;
+  // What the user typed; `params` holds whatever else is needed to re-run it
+  query: string;
+  params: Record<string, unknown>;
+  provider: LLMProviderId;
+  model: string;
+  timestamp: number;
+  status: StreamOutcome['status'];
+  output: string;
+  groundingChunks?: GroundingChunk[];
+  usage?: TokenUsage;
+  error?: ServiceError;
+}
+
+export interface Workspace {
+  id: string;
+  name: string;
+  createdAt: number;
+}
+
+export interface DealCandidate {
+  name: string;
+  sector: string;
+  // Funding stage, e.g. 'Seed', 'Series B', 'Growth'
+  stage: string;
+  lastRound: string;
+  geography: string;
+  rationale: string;
+  sourceUris: string[];
+}
+
+export type DealStage = 'SOURCED' | 'SCREENING' | 'DILIGENCE' | 'IC' | 'CLOSED' | 'PASSED';
+
+export interface PipelineDeal {
+  id: string;
+  candidate: DealCandidate;
+  pipelineStage: DealStage;
+  notes: string;
+  tags: string[];
+  addedAt: number;
+  updatedAt: number;
+}
+
+export type MemoSectionId = 'thesis' | 'market' | 'team' | 'financials' | 'risks' | 'valuation';
+
+export interface MemoSection {
+  id: MemoSectionId;
+  title: string;
+  body: string;
+}
+
+export interface InvestmentMemo {
+  id: string;
+  title: string;
+  // What the memo was built from; rebuilding the same subject reopens the edited memo
+  subject: { kind: 'deal' | 'quant'; refId: string };
+  sections: MemoSection[];
+  // Numbered like TerminalOutput's source list: [n] is sources[n - 1]
+  sources: GroundingChunk[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type SiteStatus = 'OPERATING' | 'DEVELOPMENT' | 'EXPLORATION' | 'CLOSED' | 'UNKNOWN';
+
+export interface ResourceSite {
+  id: string;
+  name: string;
+  commodity: string;
+  operator: string;
+  country: string;
+  // null when the model could not place the site; it is listed but not plotted
+  lat: number | null;
+  lng: number | null;
+  status: SiteStatus;
+  capacity: string;
+  sourceUris: string[];
+}
+
+export type CountryRiskTag = 'SANCTIONS' | 'POLITICAL_INSTABILITY' | 'EXPORT_BAN';
+
+// One row of the user-editable country risk dataset
+export interface CountryRisk {
+  country: string;
+  tags: CountryRiskTag[];
+  note: string;
+  updatedAt: number;
+}
+
+// Share of known supply for one commodity in one country
+export interface SupplyShare {
+  country: string;
+  sites: number;
+  // Summed capacity when every site reports it in the same unit, otherwise null
+  capacity: number | null;
+  share: number;
+  risks: CountryRiskTag[];
+}
+
+export interface SupplyConcentration {
+  commodity: string;
+  // 'capacity' when shares are weighted by reported output, 'sites' when by site count
+  basis: 'capacity' | 'sites';
+  unit: string | null;
+  shares: SupplyShare[];
+  // Herfindahl-Hirschman index, 0-10000
+  hhi: number;
+  // Share of supply sitting in countries with at least one risk tag
+  atRiskShare: number;
+}
+
+export interface GeoBounds {
+  north: number;
+  south: number;
+  // west > east when the box crosses the antimeridian
+  east: number;
+  west: number;
+}
+
+// Where a resource search is focused; the centre point feeds the Maps retrievalConfig
+export type ResourceSearchArea =
+  | { mode: 'GLOBAL' }
+  | { mode: 'NEAR_ME' | 'POINT'; lat: number; lng: number; radiusKm: number }
+  | { mode: 'REGION'; bounds: GeoBounds };
+
+export type GeolocationResult =
+  | { status: 'ok'; lat: number; lng: number; accuracyM: number }
+  | { status: 'error'; reason: 'DENIED' | 'UNAVAILABLE' | 'TIMEOUT' | 'UNSUPPORTED'; message: string };
+
+export type DatasetColumnType = 'number' | 'date' | 'boolean' | 'string';
+
+export type DatasetValue = string | number | boolean | null;
+
+export interface DatasetColumn {
+  name: string;
+  type: DatasetColumnType;
+}
+
+// A tabular file loaded into Data Lab; values are coerced to each column's inferred type
+export interface Dataset {
+  name: string;
+  format: 'csv' | 'xlsx' | 'json';
+  columns: DatasetColumn[];
+  rows: Record<string, DatasetValue>[];
+}
+
+export interface ColumnStats {
+  name: string;
+  type: DatasetColumnType;
+  count: number;
+  missing: number;
+  unique: number;
+  // Numeric columns only
+  min?: number;
+  max?: number;
+  mean?: number;
+  median?: number;
+  stdDev?: number;
+  // Date columns: earliest and latest as ISO strings
+  first?: string;
+  last?: string;
+  // Most frequent values for string/boolean columns
+  topValues?: { value: string; count: number }[];
+}
+
+export type StatementKind = 'INCOME' | 'BALANCE' | 'CASH_FLOW';
+
+// One reported number and the 1-based filing page it was read from
+export interface StatementFigure {
+  value: number | null;
+  page: number | null;
+}
+
+export interface StatementLine {
+  // Canonical key from the line catalogue, e.g. 'revenue'
+  id: string;
+  statement: StatementKind;
+  // Caption as printed in the filing
+  label: string;
+  // Aligned with FinancialStatements.periods
+  figures: StatementFigure[];
+}
+
+// Statements extracted from a 10-K/10-Q or annual report; periods run oldest first
+export interface FinancialStatements {
+  company: string;
+  currency: string;
+  // Reporting scale, e.g. 'millions'
+  unit: string;
+  periods: string[];
+  lines: StatementLine[];
+}
+
+// The filing behind a set of statements; text filings keep their pages so figures can be traced
+export interface FilingDocument {
+  name: string;
+  kind: 'pdf' | 'text';
+  dataUrl?: string;
+  pages?: string[];
+}
+
+export interface FinancialRatio {
+  id: string;
+  label: string;
+  format: 'percent' | 'multiple' | 'amount';
+  // Aligned with FinancialStatements.periods; null when inputs are missing
+  values: (number | null)[];
+}
+
+// DCF inputs; rates are decimals and money is in the valuation's currency and unit
+export interface DcfAssumptions {
+  // Last actual year's revenue, the base for the projection
+  baseRevenue: number;
+  // One entry per projection year
+  revenueGrowth: number[];
+  ebitMargin: number[];
+  taxRate: number;
+  daPctRevenue: number;
+  capexPctRevenue: number;
+  // Working capital invested per unit of revenue growth
+  nwcPctIncrementalRevenue: number;
+  riskFreeRate: number;
+  beta: number;
+  equityRiskPremium: number;
+  preTaxCostOfDebt: number;
+  // Target debt / (debt + equity)
+  debtWeight: number;
+  terminalGrowth: number;
+  netDebt: number;
+  sharesOutstanding: number;
+}
+
+export interface DcfYear {
+  year: number;
+  revenue: number;
+  ebit: number;
+  nopat: number;
+  da: number;
+  capex: number;
+  nwcChange: number;
+  fcf: number;
+  discountFactor: number;
+  presentValue: number;
+}
+
+export interface DcfResult {
+  costOfEquity: number;
+  wacc: number;
+  years: DcfYear[];
+  sumPresentValue: number;
+  terminalValue: number;
+  presentTerminalValue: number;
+  enterpriseValue: number;
+  equityValue: number;
+  perShare: number | null;
+}
+
+// Peer inputs as entered; market cap is price x shares, EV adds net debt
+export interface CompPeer {
+  id: string;
+  name: string;
+  price: number | null;
+  sharesOutstanding: number | null;
+  netDebt: number | null;
+  revenue: number | null;
+  ebitda: number | null;
+  netIncome: number | null;
+}
+
+export type CompMultiple = 'evEbitda' | 'evSales' | 'pe';
+
+export interface ValuationModel {
+  id: string;
+  name: string;
+  currency: string;
+  unit: string;
+  source: { kind: 'deal' | 'filing' | 'manual'; label: string; refId?: string };
+  dcf: DcfAssumptions;
+  // The target's trailing metrics, multiplied by peer medians in the comps view
+  target: { revenue: number | null; ebitda: number | null; netIncome: number | null };
+  peers: CompPeer[];
+  // Model-written reasoning behind the last suggested assumptions
+  rationale: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface AssumptionSuggestion {
+  assumptions: Partial<DcfAssumptions>;
+  rationale: string;
 }
 
 export interface StockData {
@@ -36,9 +520,358 @@ export interface StockData {
   volume: number;
 }
 
+export interface OHLCBar {
+  time: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export type ChartMode = 'area' | 'candle';
+
+export interface WatchlistQuote {
+  symbol: string;
+  last: number;
+  change: number;
+  changePct: number;
+  volume: number;
+}
+
+// An RSS, Atom or JSON feed polled by the news pipeline
+export interface NewsFeed {
+  id: string;
+  name: string;
+  url: string;
+  enabled: boolean;
+}
+
+export interface NewsSettings {
+  feeds: NewsFeed[];
+  refreshMinutes: number;
+  // Prefix for feeds that don't send CORS headers, e.g. 'https://proxy.example/?url='; the feed URL is appended encoded
+  proxy: string;
+}
+
+export type NewsSentiment = 'POSITIVE' | 'NEGATIVE' | 'NEUTRAL';
+
+// Model-assigned labels; the headline itself always comes from the source
+export interface NewsTags {
+  tickers: string[];
+  sentiment: NewsSentiment;
+  // 1 (noise) to 5 (market-moving)
+  impact: number;
+}
+
+export interface NewsItem {
+  // Derived from the canonical link (or title when there is none) so re-fetches dedupe
+  id: string;
+  title: string;
+  url: string;
+  source: string;
+  summary: string;
+  // Epoch ms; the fetch time when the feed gives no date
+  publishedAt: number;
+  feedId: string;
+  tags?: NewsTags;
+}
+
+export type OverlayIndicator = 'SMA' | 'EMA' | 'BBANDS' | 'VWAP';
+export type PaneIndicator = 'RSI' | 'MACD' | 'ATR';
+export type IndicatorId = OverlayIndicator | PaneIndicator | 'PATTERNS';
+
+export type PatternType = 'DOUBLE_TOP' | 'HEAD_AND_SHOULDERS';
+
+export interface PatternMatch {
+  type: PatternType;
+  // Bar indices of the peaks that form the pattern, left to right
+  peaks: number[];
+  startIndex: number;
+  endIndex: number;
+  neckline: number;
+  // True once a later close has broken below the neckline
+  confirmed: boolean;
+}
+
+export interface IndicatorPoint extends OHLCBar {
+  sma: number | null;
+  ema: number | null;
+  bbUpper: number | null;
+  bbMiddle: number | null;
+  bbLower: number | null;
+  vwap: number | null;
+  rsi: number | null;
+  macd: number | null;
+  macdSignal: number | null;
+  macdHist: number | null;
+  atr: number | null;
+}
+
+export type BarInterval = '1m' | '5m' | '15m' | '1h' | '1d';
+
+export interface MarketDataProvider {
+  id: string;
+  name: string;
+  listSymbols: () => Promise<string[]>;
+  getBars: (symbol: string, interval: BarInterval) => Promise<StockData[]>;
+  getCandles: (symbol: string, interval: BarInterval) => Promise<OHLCBar[]>;
+}
+
 export interface LogEntry {
   id: string;
   timestamp: string;
   level: 'INFO' | 'WARN' | 'CRIT';
   message: string;
-}
\ No newline at end of file
+}
+
+// Market conditions are edge-triggered: they fire on the bar where they first become true
+export type AlertCondition =
+  | { kind: 'PRICE_CROSS'; symbol: string; direction: 'above' | 'below'; level: number }
+  // Change from the previous close, matching the watchlist CHG column
+  | { kind: 'PERCENT_MOVE'; symbol: string; direction: 'up' | 'down' | 'either'; percent: number }
+  | { kind: 'INDICATOR'; symbol: string; field: IndicatorField; comparator: RuleComparator; value: number }
+  | { kind: 'NEWS_KEYWORD'; keywords: string[] }
+  // `stage` null matches any stage change; `company` narrows to one deal
+  | { kind: 'DEAL_STAGE'; stage: DealStage | null; company: string };
+
+export type AlertKind = AlertCondition['kind'];
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  condition: AlertCondition;
+  level: LogEntry['level'];
+  // Muted rules are still evaluated and recorded, but don't log or notify
+  muted: boolean;
+  createdAt: number;
+  lastTriggeredAt?: number;
+  // Bar time of the last market trigger, so a reload doesn't fire the same bar twice
+  lastTriggerKey?: string;
+}
+
+export interface AlertEvent {
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  level: LogEntry['level'];
+  message: string;
+  triggeredAt: number;
+  muted: boolean;
+  url?: string;
+}
+
+// Any numeric column of an IndicatorPoint can drive a strategy rule
+export type IndicatorField = Exclude<keyof IndicatorPoint, 'time'>;
+
+export type RuleComparator = '>' | '<' | 'crossesAbove' | 'crossesBelow';
+
+export interface StrategyRule {
+  left: IndicatorField;
+  comparator: RuleComparator;
+  right: IndicatorField | number;
+}
+
+export interface PositionSizing {
+  mode: 'percentEquity' | 'fixedUnits';
+  value: number;
+}
+
+export interface StrategyDefinition {
+  name: string;
+  // All entry rules must hold to open a long; any exit rule closes it
+  entryRules: StrategyRule[];
+  exitRules: StrategyRule[];
+  sizing: PositionSizing;
+  initialCapital: number;
+  commissionBps: number;
+  slippageBps: number;
+}
+
+export interface BacktestTrade {
+  entryTime: string;
+  exitTime: string;
+  entryPrice: number;
+  exitPrice: number;
+  quantity: number;
+  pnl: number;
+  returnPct: number;
+  bars: number;
+}
+
+export interface EquityPoint {
+  time: string;
+  equity: number;
+  drawdown: number;
+}
+
+export interface BacktestMetrics {
+  totalReturn: number;
+  sharpe: number;
+  sortino: number;
+  maxDrawdown: number;
+  winRate: number;
+  turnover: number;
+  tradeCount: number;
+}
+
+export interface BacktestResult {
+  equityCurve: EquityPoint[];
+  trades: BacktestTrade[];
+  metrics: BacktestMetrics;
+}
+
+export type AssetClass = 'EQUITY' | 'INDEX' | 'COMMODITY' | 'CRYPTO' | 'FX' | 'FIXED_INCOME' | 'OTHER';
+
+export interface Position {
+  id: string;
+  symbol: string;
+  quantity: number;
+  // Average cost per unit
+  costBasis: number;
+  sector: string;
+  assetClass: AssetClass;
+}
+
+export interface PositionMark {
+  position: Position;
+  last: number | null;
+  marketValue: number;
+  pnl: number;
+  pnlPct: number;
+  // Share of gross exposure, in %
+  weight: number;
+}
+
+export interface ExposureBucket {
+  key: string;
+  marketValue: number;
+  weight: number;
+}
+
+export interface PortfolioRisk {
+  // One-day historical VaR/CVaR at 95%, as positive currency losses
+  var95: number;
+  cvar95: number;
+  beta: number | null;
+  observations: number;
+}
+
+export interface PortfolioAnalysis {
+  marks: PositionMark[];
+  totalValue: number;
+  totalCost: number;
+  totalPnl: number;
+  bySector: ExposureBucket[];
+  byAssetClass: ExposureBucket[];
+  correlation: {
+    symbols: string[];
+    matrix: (number | null)[][];
+  };
+  risk: PortfolioRisk;
+  benchmark: string;
+}
+
+export type ShockFactor = 'RATES' | 'FX' | 'OIL' | 'EQUITY' | 'CREDIT';
+
+// Rates and credit shocks are in bp, the rest in %; FX is foreign currencies against the base currency
+export type ScenarioShocks = Record<ShockFactor, number>;
+
+// Duration for rates/credit (years), beta for oil/equity, foreign-currency share for FX
+export type FactorSensitivities = Record<ShockFactor, number>;
+
+export interface StressScenario {
+  id: string;
+  name: string;
+  shocks: ScenarioShocks;
+  // Historical episode the shocks were sized from, when proposed by the model
+  analogue?: string;
+  rationale?: string;
+  narrative?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// A line the scenario engine stresses: a marked portfolio position or a standalone exposure
+export interface ScenarioExposure {
+  id: string;
+  label: string;
+  assetClass: AssetClass;
+  marketValue: number;
+  sensitivities: FactorSensitivities;
+  source: 'portfolio' | 'custom';
+}
+
+export interface ScenarioLineResult {
+  id: string;
+  label: string;
+  marketValue: number;
+  impacts: Record<ShockFactor, number>;
+  total: number;
+}
+
+export interface ScenarioResult {
+  baseValue: number;
+  lines: ScenarioLineResult[];
+  byFactor: Record<ShockFactor, number>;
+  total: number;
+  stressedValue: number;
+}
+
+export interface ShockProposal {
+  shocks: Partial<ScenarioShocks>;
+  analogue: string;
+  rationale: string;
+}
+
+export type TerminalPanel = 'ALERTS' | 'USAGE' | 'SETTINGS' | 'HISTORY' | 'LAYOUTS';
+
+// What a command-bar line resolves to; App maps each action onto the same handlers the forms use
+export type CommandAction =
+  | { kind: 'MODULE'; module: ModuleType }
+  | { kind: 'SYMBOL'; symbol: string; module: ModuleType.DASHBOARD | ModuleType.BACKTEST }
+  | { kind: 'WATCH'; symbol: string }
+  | { kind: 'QUANT'; query: string }
+  | { kind: 'DEAL'; sector: string }
+  | { kind: 'RESOURCE'; resource: string }
+  | { kind: 'PANEL'; panel: TerminalPanel };
+
+// What a layout pane can show: a whole module view, or a piece of one docked on its own
+export type PanelKind =
+  | ModuleType
+  | 'CHART'
+  | 'WATCHLIST'
+  | 'NEWS'
+  | 'QUANT_THREAD'
+  | 'DEAL_OUTPUT'
+  | 'RESOURCE_OUTPUT'
+  | 'ANALYSIS_OUTPUT';
+
+export interface LayoutPane {
+  type: 'pane';
+  id: string;
+  tabs: PanelKind[];
+  active: number;
+  // Linked panes follow and drive the shared market symbol; an unlinked pane keeps `symbol` to itself
+  linked: boolean;
+  symbol: string;
+}
+
+export interface LayoutSplit {
+  type: 'split';
+  id: string;
+  // 'row' places children side by side, 'column' stacks them
+  direction: 'row' | 'column';
+  // Share of the split's extent per child, summing to 1
+  sizes: number[];
+  children: LayoutNode[];
+}
+
+export type LayoutNode = LayoutPane | LayoutSplit;
+
+export interface SavedLayout {
+  id: string;
+  name: string;
+  root: LayoutNode;
+  savedAt: number;
+}